@@ -3,10 +3,12 @@ import {
   RHINESTONE_ATTESTER_ADDRESS
 } from '@rhinestone/module-sdk';
 import { toSafeSmartAccount } from 'permissionless/accounts';
-import { privateKeyToAccount } from 'viem/accounts';
 import { base } from 'viem/chains';
-import { createPublicClient, createWalletClient, http, parseEther, fromHex, toHex } from 'viem';
+import { createPublicClient, createWalletClient, http, parseEther } from 'viem';
 import { entryPoint07Address } from 'viem/account-abstraction';
+import { getBundlerProvider, logBundlerProvider } from './utils/bundler';
+import { getChainConfig, getSignerAccount } from './utils/chains';
+import { accountSaltNonce } from './utils/safe';
 import dotenv from "dotenv";
 import { join } from "path";
 
@@ -21,18 +23,8 @@ const SAFE_7579_ADDRESS = '0x7579EE8307284F293B1927136486880611F20002';
 async function main() {
   console.log("🏗️ Creating Safe smart account with Rhinestone Module SDK...");
   
-  // Check environment variables
-  const privateKey = process.env.BASE_PRIVATE_KEY;
-  console.log("Private key:", privateKey);
-  if (!privateKey) {
-    throw new Error("BASE_PRIVATE_KEY not found in environment variables");
-  }
-  
-  console.log("\n📋 Environment Check:");
-  console.log("Private key found:", privateKey ? "✅" : "❌");
-  
-  // Create account from private key
-  const account = privateKeyToAccount(privateKey as `0x${string}`);
+  // Owner from the keystore (BASE_KEYSTORE_ALIAS) or BASE_PRIVATE_KEY
+  const account = await getSignerAccount(getChainConfig('base'));
   console.log("Account address:", account.address);
   
   console.log("\n🔧 Creating Safe account with Rhinestone Module SDK...");
@@ -74,7 +66,7 @@ async function main() {
         context: ownableValidator.initData,
       },
     ],
-    saltNonce: fromHex(toHex(process.env.ACCOUNT_SALT || '0x1'), 'bigint'),
+    saltNonce: accountSaltNonce(),
   });
   
   const safeAddress = await safeAccount.getAddress();
@@ -89,37 +81,20 @@ async function main() {
   } else {
     console.log("📦 Deploying Safe account...");
     
-    // Create smart account client for deployment
-    const getPimlicoUrl = (networkId: number) => {
-      const apiKey = 'pim_Pj8F4e4yjMiBej7UmJjgcC';
-      const baseUrl = 'https://api.pimlico.io/v2/';
-      return `${baseUrl}${networkId}/rpc?apikey=${apiKey}`;
-    };
-    
-    const pimlicoUrl = getPimlicoUrl(base.id);
-    console.log("Pimlico URL:", pimlicoUrl);
+    // Create smart account client for deployment (bundler of the chain, see utils/bundler.ts)
+    const bundler = await getBundlerProvider(getChainConfig('base'), publicClient);
+    await logBundlerProvider(bundler, publicClient, safeAddress);
     
-    const { createPimlicoClient } = await import('permissionless/clients/pimlico');
     const { createSmartAccountClient } = await import('permissionless');
     const { erc7579Actions } = await import('permissionless/actions/erc7579');
     
-    const pimlicoClient = createPimlicoClient({
-      transport: http(pimlicoUrl),
-      entryPoint: {
-        address: entryPoint07Address,
-        version: '0.7',
-      },
-    });
-    
     const smartAccountClient = createSmartAccountClient({
       account: safeAccount,
       chain: base,
-      bundlerTransport: http(pimlicoUrl),
-      paymaster: pimlicoClient,
+      bundlerTransport: bundler.bundlerTransport,
+      paymaster: bundler.paymaster,
       userOperation: {
-        estimateFeesPerGas: async () => {
-          return (await pimlicoClient.getUserOperationGasPrice()).fast;
-        },
+        estimateFeesPerGas: bundler.estimateFeesPerGas,
       },
     }).extend(erc7579Actions());
     console.log("Smart account client:", safeAddress);
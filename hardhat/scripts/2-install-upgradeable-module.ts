@@ -1,119 +1,65 @@
-import { toSafeSmartAccount } from 'permissionless/accounts';
-import { createSmartAccountClient } from 'permissionless';
-import { erc7579Actions } from 'permissionless/actions/erc7579';
-import { createPimlicoClient } from 'permissionless/clients/pimlico';
-import { privateKeyToAccount } from 'viem/accounts';
-import { base } from 'viem/chains';
-import { createPublicClient, fromHex, http, toHex } from 'viem';
-import { entryPoint07Address } from 'viem/account-abstraction';
-import dotenv from "dotenv";
-import { join } from "path";
-import { getOwnableValidator, RHINESTONE_ATTESTER_ADDRESS } from '@rhinestone/module-sdk';
+import { encodeFunctionData, getAddress, isAddress, parseAbi } from 'viem';
+import { getClients } from './utils/chains';
+import { loadEnv, parseCommandLine } from './utils/cli';
+import { dryRunUserOperation } from './utils/dryRun';
+import { getSafeAccountClients } from './utils/safe';
 
 // Load environment variables
-dotenv.config({ path: join(__dirname, "..", ".env") });
+loadEnv();
+
+const INSTALL_MODULE_ABI = parseAbi([
+  "function installModule(uint256 moduleTypeId, address module, bytes initData) external",
+]);
 
 /**
  * Install GuardedExecModuleUpgradeable on Safe account
+ *
+ * --chain (default base) selects the RPC, signer, module proxy
+ * (<CHAIN>_GUARDED_EXEC_MODULE_ADDRESS) and Safe7579 addresses of
+ * utils/chains.ts.
+ *
+ * --dry-run: simulate installModule from the Safe and write the unsigned
+ * UserOperation to dry-runs/ instead of sending it
  */
 async function main() {
-  console.log("🔧 Installing GuardedExecModuleUpgradeable on Safe account...");
+  const { values } = parseCommandLine({
+    chain: { type: 'string', default: 'base' },
+    'dry-run': { type: 'boolean' },
+  });
+  const dryRun = values['dry-run'] ?? false;
+
+  console.log(`🔧 ${dryRun ? "Dry run: installing" : "Installing"} GuardedExecModuleUpgradeable on Safe account...`);
+  
+  const safeAddress = process.env.SAFE_ACCOUNT_ADDRESS?.trim();
+  if (!safeAddress || !isAddress(safeAddress)) {
+    throw new Error("SAFE_ACCOUNT_ADDRESS is not set to an address");
+  }
   
-  // Check environment variables
-  let privateKey = process.env.BASE_PRIVATE_KEY;
-  const safeAddress = process.env.SAFE_ACCOUNT_ADDRESS;
-  const moduleAddress = process.env.GUARDED_EXEC_MODULE_UPGRADEABLE_ADDRESS;
-  const implAddress = process.env.GUARDED_EXEC_MODULE_UPGRADEABLE_IMPL_ADDRESS;
+  // Owner from the keystore (<CHAIN>_KEYSTORE_ALIAS) or <CHAIN>_PRIVATE_KEY
+  const clients = await getClients(values.chain);
+  const { config, publicClient, account, moduleAddress } = clients;
+  const implAddress = process.env[config.moduleImplementationEnv]?.trim();
   
   console.log("Configuration:");
+  console.log("Chain:", config.name);
   console.log("Safe address:", safeAddress);
   console.log("Module (Proxy) address:", moduleAddress);
-  console.log("Implementation address:", implAddress);
-  
-  if (!privateKey || !safeAddress || !moduleAddress) {
-    throw new Error("Missing required environment variables");
-  }
-  
-  // Create account from private key
-  const eoaAccount = privateKeyToAccount(privateKey as `0x${string}`);
-  console.log("\n📝 Account address:", eoaAccount.address);
-  
-  // Create public client
-  const rpcUrl = process.env.BASE_RPC_URL;
-  const publicClient = createPublicClient({
-    chain: base,
-    transport: http(rpcUrl),
-  });
+  console.log("Implementation address:", implAddress || `(${config.moduleImplementationEnv} not set)`);
+  console.log("\n📝 Account address:", account.address);
   
   try {
-    // Create ownable validator
-    const ownableValidator = getOwnableValidator({
-      owners: [eoaAccount.address],
-      threshold: 1,
-    });
-      
-    // Create Smart Account instance from existing Safe
+    // Create Smart Account instance from existing Safe, with the bundler of the chain (see utils/bundler.ts)
     console.log("\n🔍 Loading existing Safe account...");
-    const safeAccount = await toSafeSmartAccount({
-      client: publicClient,
-      owners: [eoaAccount],
-      version: '1.4.1',
-      entryPoint: {
-        address: entryPoint07Address,
-        version: '0.7',
-      },
-      attesters: [
-        RHINESTONE_ATTESTER_ADDRESS, // Rhinestone Attester - SAME as original
-      ],
-      attestersThreshold: 1, // SAME as original
-      safe4337ModuleAddress: '0x7579EE8307284F293B1927136486880611F20002',
-      erc7579LaunchpadAddress: '0x7579011aB74c46090561ea277Ba79D510c6C00ff',
-      address: safeAddress as `0x${string}`,
-      validators: [
-        {
-          address: ownableValidator.address,
-          context: ownableValidator.initData,
-        },
-      ],
-    });
-
-    const loadedSafeAddress = await safeAccount.getAddress();
+    const { safeAccount, smartAccountClient } = await getSafeAccountClients(clients, getAddress(safeAddress));
+    const loadedSafeAddress = safeAccount.address;
     console.log("✅ Safe account loaded:", loadedSafeAddress);
-    
-    // Create Pimlico client
-    const getPimlicoUrl = (networkId: number) => {
-      const apiKey = 'pim_Pj8F4e4yjMiBej7UmJjgcC';
-      const baseUrl = 'https://api.pimlico.io/v2/';
-      return `${baseUrl}${networkId}/rpc?apikey=${apiKey}`;
-    };
-    
-    const pimlicoUrl = getPimlicoUrl(base.id);
-    const pimlicoClient = createPimlicoClient({
-      transport: http(pimlicoUrl),
-      entryPoint: {
-        address: entryPoint07Address,
-        version: '0.7',
-      },
-    });
-    
-    const smartAccountClient = await createSmartAccountClient({
-      account: safeAccount,
-      chain: base,
-      bundlerTransport: http(pimlicoUrl),
-      paymaster: pimlicoClient,
-      userOperation: {
-        estimateFeesPerGas: async () => {
-          return (await pimlicoClient.getUserOperationGasPrice()).fast;
-        },
-      },
-    }).extend(erc7579Actions());
   
     // Check if module is already installed using SDK method
     console.log("\n🔍 Checking if module is already installed...");
     
     try {
       const isInstalled = await smartAccountClient.isModuleInstalled({
-        address: moduleAddress as `0x${string}`,
+        address: moduleAddress,
         type: 'executor',
         context: '0x',
       });
@@ -132,6 +78,27 @@ async function main() {
       console.log("  Error:", (error as Error).message);
     }
     
+    if (dryRun) {
+      // Same call installModule() would send: the Safe calls installModule on itself
+      const installCall = {
+        from: loadedSafeAddress,
+        to: loadedSafeAddress,
+        abi: INSTALL_MODULE_ABI,
+        functionName: 'installModule' as const,
+        args: [2n, moduleAddress, '0x'] as const,
+      };
+      const userOperation = await smartAccountClient.prepareUserOperation({
+        calls: [{ to: installCall.to, value: 0n, data: encodeFunctionData(installCall) }],
+      });
+      await dryRunUserOperation({ config, publicClient }, {
+        name: 'install-module',
+        description: "install GuardedExecModuleUpgradeable as executor",
+        call: installCall,
+        expectedChanges: [`isModuleInstalled(2, ${moduleAddress}, 0x) on ${loadedSafeAddress}: false → true`],
+      }, userOperation);
+      return;
+    }
+
     // Install the module using SDK method
     console.log("\n📦 Installing GuardedExecModuleUpgradeable...");
     console.log("  Module Type: executor (2)");
@@ -139,7 +106,7 @@ async function main() {
     
     try {
       const userOpHash = await smartAccountClient.installModule({
-        address: moduleAddress as `0x${string}`,
+        address: moduleAddress,
         type: 'executor',
         context: '0x', // No initialization data needed
       });
@@ -158,7 +125,7 @@ async function main() {
       // Verify installation using SDK method
       console.log("\n🔍 Verifying installation...");
       const isNowInstalled = await smartAccountClient.isModuleInstalled({
-        address: moduleAddress as `0x${string}`,
+        address: moduleAddress,
         type: 'executor',
         context: '0x',
       });
@@ -181,7 +148,7 @@ async function main() {
     
     console.log("\n📋 Module Details:");
     console.log("  Proxy Address:", moduleAddress);
-    console.log("  Implementation Address:", implAddress);
+    console.log("  Implementation Address:", implAddress || `(${config.moduleImplementationEnv} not set)`);
     console.log("  Safe Account:", loadedSafeAddress);
     console.log("\n✅ Your upgradeable module is now installed and ready to use!");
     console.log("   This address stays the same even after upgrades:", moduleAddress);
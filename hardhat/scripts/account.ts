@@ -0,0 +1,167 @@
+/**
+ * Account CLI
+ *
+ * Explores counterfactual Safe7579 addresses without deploying (see
+ * account/predict.ts).
+ *
+ * USAGE:
+ *   pnpm account predict [--owners 0xA,0xB] [--threshold <n>] [--salt <ACCOUNT_SALT> | --salt-nonce <n>]
+ *                        [--validators ownable,0xValidator=0xInitData] [--attesters 0xA,0xB]
+ *                        [--attesters-threshold <n>] [--chains base,arbitrum] [--json]
+ *
+ * predict - the Safe address for the given setup on each chain, whether it is
+ *           deployed, its installed validators, executors and hook, and whether
+ *           the chain's GuardedExecModule proxy is among the executors
+ *
+ * --owners defaults to the chain signer (address read without unlocking the
+ * keystore), --threshold to 1, --salt to ACCOUNT_SALT (derived as in
+ * 1-create-safe-account.ts), --validators to "ownable" (the OwnableValidator of
+ * the owners), --attesters to the chain attester. --chains defaults to every
+ * chain whose RPC URL is set.
+ */
+
+import { Address, createPublicClient, getAddress, http, isAddress, isHex, zeroAddress } from 'viem';
+import {
+  AccountStatus,
+  SafePredictionParams,
+  SetupValidator,
+  getAccountStatus,
+  knownModuleNames,
+  ownableSetupValidator,
+} from './account/predict';
+import { CHAIN_KEYS, ChainConfig, getChainConfig, getSignerAddress } from './utils/chains';
+import { loadEnv, parseCommandLine, runCli } from './utils/cli';
+import { accountSaltNonce } from './utils/safe';
+
+// Load environment variables
+loadEnv();
+
+const USAGE = "Usage: account predict [--owners <a,b>] [--threshold <n>] [--salt <s> | --salt-nonce <n>] [--validators <v,...>] [--attesters <a,...>] [--chains <c,...>] [--json]";
+
+function parseAddressList(flag: string, value: string): Address[] {
+  return value.split(',').map(item => item.trim()).filter(Boolean).map(item => {
+    if (!isAddress(item, { strict: false })) {
+      throw new Error(`--${flag}: "${item}" is not an address`);
+    }
+    return getAddress(item);
+  });
+}
+
+/**
+ * --validators entries: "ownable" or <address>[=<initData>]
+ */
+function parseValidators(value: string, owners: Address[], threshold: number): SetupValidator[] {
+  return value.split(',').map(item => item.trim()).filter(Boolean).map(item => {
+    if (item === 'ownable') {
+      return ownableSetupValidator(owners, threshold);
+    }
+    const [address, initData = '0x'] = item.split('=');
+    if (!isAddress(address, { strict: false }) || !isHex(initData)) {
+      throw new Error(`--validators: "${item}" is not "ownable" or <address>[=<initData>]`);
+    }
+    return { address: getAddress(address), initData };
+  });
+}
+
+function printStatus(status: AccountStatus, config: ChainConfig, params: SafePredictionParams, moduleAddress?: Address): void {
+  const names = knownModuleNames(moduleAddress);
+  const label = (module: Address) => names[module] ? `${module} (${names[module]})` : module;
+
+  console.log(`\n${status.deployed ? '✅' : '⏳'} ${config.name}: ${status.address}`);
+  console.log(`  Owners: ${params.owners.join(', ')} (threshold ${params.threshold})`);
+  if (!status.deployed || !status.modules) {
+    console.log("  Not deployed");
+    return;
+  }
+  console.log("  Validators:");
+  status.modules.validators.forEach(module => console.log(`    - ${label(module)}`));
+  console.log("  Executors:");
+  status.modules.executors.forEach(module => console.log(`    - ${label(module)}`));
+  console.log(`  Hook: ${status.modules.hook === zeroAddress ? 'none' : label(status.modules.hook)}`);
+  if (status.guardedModuleInstalled === undefined) {
+    console.log(`  GuardedExecModule: ${config.moduleAddressEnv} not set`);
+  } else {
+    console.log(`  GuardedExecModule: ${status.guardedModuleInstalled ? '✅ installed' : '❌ not installed'}`);
+  }
+}
+
+async function main() {
+  const { values, positionals } = parseCommandLine({
+    owners: { type: 'string' },
+    threshold: { type: 'string' },
+    salt: { type: 'string' },
+    'salt-nonce': { type: 'string' },
+    validators: { type: 'string' },
+    attesters: { type: 'string' },
+    'attesters-threshold': { type: 'string' },
+    chains: { type: 'string' },
+    json: { type: 'boolean' },
+  });
+
+  if (positionals[0] !== 'predict') {
+    throw new Error(USAGE);
+  }
+  if (values.salt !== undefined && values['salt-nonce'] !== undefined) {
+    throw new Error("--salt and --salt-nonce cannot be combined");
+  }
+
+  const configs = values.chains
+    ? values.chains.split(',').map(key => getChainConfig(key.trim()))
+    : CHAIN_KEYS.map(key => getChainConfig(key)).filter(config => process.env[config.rpcUrlEnv]?.trim());
+  if (configs.length === 0) {
+    throw new Error(`No chain configured: set an RPC URL (${CHAIN_KEYS.map(key => getChainConfig(key).rpcUrlEnv).join(', ')}) or pass --chains`);
+  }
+
+  const threshold = Number(values.threshold ?? 1);
+  const saltNonce = values['salt-nonce'] !== undefined ? BigInt(values['salt-nonce']) : accountSaltNonce(values.salt);
+  const attestersThreshold = values['attesters-threshold'] !== undefined ? Number(values['attesters-threshold']) : undefined;
+
+  if (!values.json) {
+    console.log("🔮 Counterfactual Safe prediction");
+    console.log("==================================");
+    console.log(`Salt nonce: ${saltNonce}`);
+  }
+
+  const statuses: AccountStatus[] = [];
+  for (const config of configs) {
+    const rpcUrl = process.env[config.rpcUrlEnv]?.trim();
+    if (!rpcUrl) {
+      throw new Error(`${config.rpcUrlEnv} is not set`);
+    }
+
+    const owners = values.owners ? parseAddressList('owners', values.owners) : [getSignerAddress(config)];
+    if (!Number.isInteger(threshold) || threshold < 1 || threshold > owners.length) {
+      throw new Error(`--threshold must be between 1 and ${owners.length} (got ${values.threshold})`);
+    }
+    const params: SafePredictionParams = {
+      owners,
+      threshold,
+      validators: values.validators ? parseValidators(values.validators, owners, threshold) : undefined,
+      attesters: values.attesters ? parseAddressList('attesters', values.attesters) : undefined,
+      attestersThreshold,
+      saltNonce,
+    };
+
+    const moduleEnv = process.env[config.moduleAddressEnv]?.trim();
+    const moduleAddress = moduleEnv && isAddress(moduleEnv, { strict: false }) ? getAddress(moduleEnv) : undefined;
+    const publicClient = createPublicClient({ chain: config.chain, transport: http(rpcUrl) });
+
+    const status = await getAccountStatus(publicClient, config, params, moduleAddress);
+    statuses.push(status);
+    if (!values.json) {
+      printStatus(status, config, params, moduleAddress);
+    }
+  }
+
+  if (values.json) {
+    console.log(JSON.stringify(statuses, null, 2));
+    return;
+  }
+
+  const addresses = new Set(statuses.map(status => status.address));
+  if (addresses.size > 1) {
+    console.log("\n⚠️  The predicted address differs between chains (different owners or attesters per chain)");
+  }
+}
+
+runCli(main);
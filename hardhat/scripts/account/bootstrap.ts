@@ -0,0 +1,210 @@
+/**
+ * Account Bootstrap
+ *
+ * Brings the signer's counterfactual Safe (ACCOUNT_SALT, see utils/safe.ts)
+ * on one chain to the onboarded state that scripts 1-3 produce one by one:
+ *
+ * - Safe deployed (launchpad, OwnableValidator with the chain signer)
+ * - GuardedExecModuleUpgradeable installed as executor
+ * - Smart Sessions installed as validator
+ * - a scoped session for the session key enabled (see sessions/provision.ts)
+ *
+ * Every step is read from the chain first and skipped when already done.
+ * The missing steps go into one UserOperation: the Safe calls installModule
+ * on itself and SmartSessions.enableSessions, and when the Safe is not
+ * deployed yet the same UserOperation deploys it (launchpad setupSafe runs
+ * the batch right after setup).
+ */
+
+import { SMART_SESSIONS_ADDRESS, getEnableSessionsAction } from '@rhinestone/module-sdk';
+import { Address, Hex, encodeFunctionData, getAddress } from 'viem';
+import { SessionDescriptor, SessionPolicies, provisionSession } from '../sessions/provision';
+import { getEnabledPermissions } from '../sessions/status';
+import { loadSessionDescriptors, saveSessionDescriptor } from '../sessions/store';
+import { ChainClients } from '../utils/chains';
+import { SafeAccountClients, getSafeAccountClients } from '../utils/safe';
+import { ERC7579_ACCOUNT_ABI, MODULE_TYPE_EXECUTOR, MODULE_TYPE_VALIDATOR } from '../utils/utils';
+
+/**
+ * Bootstrap steps, in execution order
+ */
+export const BOOTSTRAP_STEPS = ['deploy', 'executor', 'smart-sessions', 'session'] as const;
+
+export type BootstrapStep = typeof BOOTSTRAP_STEPS[number];
+
+/**
+ * On-chain state of the bootstrap steps (true = done)
+ */
+export type BootstrapState = Record<BootstrapStep, boolean>;
+
+/**
+ * Read state and pending calls of one chain
+ */
+export interface BootstrapPlan {
+  clients: ChainClients;
+  safe: SafeAccountClients;
+  safeAddress: Address;
+  state: BootstrapState;
+  /** Enabled session reused from the descriptor store */
+  existingSession?: SessionDescriptor;
+  /** Session to enable when state.session is false */
+  newSession?: SessionDescriptor;
+  calls: Array<{ to: Address; value: bigint; data: Hex }>;
+}
+
+/**
+ * Result of bootstrapping one chain
+ */
+export interface BootstrapResult {
+  chain: string;
+  safeAddress?: Address;
+  status: 'up-to-date' | 'pending' | 'bootstrapped' | 'failed';
+  /** Steps that were already done / sent in the UserOperation */
+  skipped: BootstrapStep[];
+  executed: BootstrapStep[];
+  permissionId?: Hex;
+  userOpHash?: Hex;
+  transactionHash?: Hex;
+  error?: string;
+}
+
+/**
+ * Session key, Safe salt nonce and session policies of a bootstrap
+ */
+export interface BootstrapOptions {
+  sessionKey: Address;
+  saltNonce: bigint;
+  policies: SessionPolicies;
+}
+
+/**
+ * Read which bootstrap steps are done for a Safe
+ * @return state and the enabled stored session of the key, if any
+ */
+export async function readBootstrapState(
+  clients: ChainClients,
+  safeAddress: Address,
+  sessionKey: Address
+): Promise<{ state: BootstrapState; existingSession?: SessionDescriptor }> {
+  const { publicClient, moduleAddress, config } = clients;
+  const code: Hex | undefined = await publicClient.getCode({ address: safeAddress });
+  const deployed = !!code && code !== '0x';
+
+  const isInstalled = async (type: bigint, module: Address): Promise<boolean> => deployed && publicClient.readContract({
+    address: safeAddress,
+    abi: ERC7579_ACCOUNT_ABI,
+    functionName: 'isModuleInstalled',
+    args: [type, module, '0x'],
+  });
+
+  // A stored, unexpired session of this key on this module that is still enabled
+  const now = Math.floor(Date.now() / 1000);
+  const candidates = loadSessionDescriptors(config.key, safeAddress).filter(descriptor =>
+    getAddress(descriptor.sessionKey) === getAddress(sessionKey) &&
+    getAddress(descriptor.action.target) === moduleAddress &&
+    descriptor.policies.validUntil > now
+  );
+  const enabled = deployed
+    ? await getEnabledPermissions(publicClient, safeAddress, candidates.map(descriptor => descriptor.permissionId))
+    : new Map<Hex, boolean>();
+  const existingSession = candidates.reverse().find(descriptor => enabled.get(descriptor.permissionId));
+
+  const state: BootstrapState = {
+    deploy: deployed,
+    executor: await isInstalled(MODULE_TYPE_EXECUTOR, moduleAddress),
+    'smart-sessions': await isInstalled(MODULE_TYPE_VALIDATOR, SMART_SESSIONS_ADDRESS),
+    session: !!existingSession,
+  };
+  return { state, existingSession };
+}
+
+/**
+ * Read the state of the counterfactual Safe on a chain and build the missing calls
+ */
+export async function planBootstrap(clients: ChainClients, options: BootstrapOptions): Promise<BootstrapPlan> {
+  const { moduleAddress } = clients;
+  const safe = await getSafeAccountClients(clients, { saltNonce: options.saltNonce });
+  const safeAddress: Address = safe.safeAccount.address;
+  const { state, existingSession } = await readBootstrapState(clients, safeAddress, options.sessionKey);
+
+  const installCall = (type: bigint, module: Address) => ({
+    to: safeAddress,
+    value: 0n,
+    data: encodeFunctionData({ abi: ERC7579_ACCOUNT_ABI, functionName: 'installModule', args: [type, module, '0x'] }),
+  });
+
+  const calls: BootstrapPlan['calls'] = [];
+  if (!state.executor) {
+    calls.push(installCall(MODULE_TYPE_EXECUTOR, moduleAddress));
+  }
+  if (!state['smart-sessions']) {
+    calls.push(installCall(MODULE_TYPE_VALIDATOR, SMART_SESSIONS_ADDRESS));
+  }
+
+  let newSession: SessionDescriptor | undefined;
+  if (!state.session) {
+    const { session, descriptor } = provisionSession({
+      account: safeAddress,
+      sessionKey: options.sessionKey,
+      chain: clients,
+      policies: options.policies,
+    });
+    const action = getEnableSessionsAction({ sessions: [session] });
+    calls.push({ to: action.to, value: 0n, data: action.data });
+    newSession = descriptor;
+  }
+
+  return { clients, safe, safeAddress, state, existingSession, newSession, calls };
+}
+
+/**
+ * Steps a plan skips and executes
+ */
+export function planSteps(plan: BootstrapPlan): { skipped: BootstrapStep[]; executed: BootstrapStep[] } {
+  return {
+    skipped: BOOTSTRAP_STEPS.filter(step => plan.state[step]),
+    executed: BOOTSTRAP_STEPS.filter(step => !plan.state[step]),
+  };
+}
+
+/**
+ * Send the pending calls of a plan as one UserOperation and check the result
+ * @throws if the UserOperation fails or a step is still missing afterwards
+ */
+export async function executeBootstrap(plan: BootstrapPlan): Promise<BootstrapResult> {
+  const { skipped, executed } = planSteps(plan);
+  const result: BootstrapResult = {
+    chain: plan.clients.config.key,
+    safeAddress: plan.safeAddress,
+    status: 'up-to-date',
+    skipped,
+    executed,
+    permissionId: (plan.existingSession ?? plan.newSession)?.permissionId,
+  };
+  if (plan.calls.length === 0) {
+    return result;
+  }
+
+  const { smartAccountClient, bundler } = plan.safe;
+  result.userOpHash = await smartAccountClient.sendUserOperation({ calls: plan.calls });
+  const receipt = await bundler.bundlerClient.waitForUserOperationReceipt({ hash: result.userOpHash });
+  result.transactionHash = receipt.receipt.transactionHash;
+  if (!receipt.success) {
+    throw new Error(`UserOperation ${result.userOpHash} reverted (tx ${result.transactionHash})`);
+  }
+
+  // Keep the descriptor: `pnpm session list|inspect|revoke` read it from the store
+  if (plan.newSession) {
+    saveSessionDescriptor(plan.newSession);
+  }
+
+  const sessionKey = (plan.newSession ?? plan.existingSession)!.sessionKey;
+  const { state } = await readBootstrapState(plan.clients, plan.safeAddress, sessionKey);
+  const missing = BOOTSTRAP_STEPS.filter(step => !state[step]);
+  if (missing.length > 0) {
+    throw new Error(`Still missing after UserOperation ${result.userOpHash}: ${missing.join(', ')}`);
+  }
+
+  result.status = 'bootstrapped';
+  return result;
+}
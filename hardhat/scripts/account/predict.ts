@@ -0,0 +1,189 @@
+/**
+ * Counterfactual Safe Prediction
+ *
+ * Computes the Safe7579 address (Safe 1.4.1 + Safe7579 launchpad, as
+ * 1-create-safe-account.ts deploys it) for owners, threshold, setup
+ * validators, attesters and salt nonce, without deploying or signing, and
+ * reads the ERC-7579 modules of the address when it is deployed.
+ *
+ * The address depends on everything in the launchpad init data: a Safe
+ * deployed with other validators or attesters has a different address.
+ */
+
+import { GLOBAL_CONSTANTS, getOwnableValidator } from '@rhinestone/module-sdk';
+import { toSafeSmartAccount } from 'permissionless/accounts';
+import { Address, Hex, PublicClient, getAddress, parseAbi, zeroAddress } from 'viem';
+import { toAccount } from 'viem/accounts';
+import { entryPoint07Address } from 'viem/account-abstraction';
+import { ChainConfig } from '../utils/chains';
+
+/**
+ * Start of the Safe7579 module linked lists
+ */
+const SENTINEL_ADDRESS = '0x0000000000000000000000000000000000000001' as Address;
+
+const PAGE_SIZE = 100n;
+
+const SAFE7579_ABI = parseAbi([
+  "function getValidatorsPaginated(address cursor, uint256 pageSize) external view returns (address[] array, address next)",
+  "function getExecutorsPaginated(address cursor, uint256 pageSize) external view returns (address[] array, address next)",
+  "function getActiveHook() external view returns (address hook)",
+]);
+
+/**
+ * Validator installed at setup (module and onInstall data)
+ */
+export interface SetupValidator {
+  address: Address;
+  initData: Hex;
+}
+
+/**
+ * Everything the counterfactual address is derived from
+ */
+export interface SafePredictionParams {
+  owners: Address[];
+  /** Safe threshold, also used for the default OwnableValidator */
+  threshold: number;
+  /** Validators installed at setup (default: OwnableValidator of the owners) */
+  validators?: SetupValidator[];
+  /** Default: the chain attester */
+  attesters?: Address[];
+  attestersThreshold?: number;
+  saltNonce: bigint;
+}
+
+/**
+ * ERC-7579 modules of a deployed Safe
+ */
+export interface InstalledModules {
+  validators: Address[];
+  executors: Address[];
+  /** zero address when no hook is active */
+  hook: Address;
+}
+
+/**
+ * Prediction and deployment status of one chain
+ */
+export interface AccountStatus {
+  chain: string;
+  address: Address;
+  deployed: boolean;
+  modules?: InstalledModules;
+  /** Whether the chain's GuardedExecModule proxy is an installed executor (undefined when not configured) */
+  guardedModuleInstalled?: boolean;
+}
+
+/**
+ * OwnableValidator of the owners, the validator the scripts install at setup
+ */
+export function ownableSetupValidator(owners: Address[], threshold: number): SetupValidator {
+  const validator = getOwnableValidator({ owners, threshold });
+  return { address: validator.address, initData: validator.initData };
+}
+
+/**
+ * Counterfactual Safe7579 address on a chain
+ * @dev Reads the proxy creation code from the Safe proxy factory, so it
+ *      needs an RPC but no signer; owners are used by address only.
+ */
+export async function predictSafeAddress(publicClient: PublicClient, config: ChainConfig, params: SafePredictionParams): Promise<Address> {
+  const validators = params.validators ?? [ownableSetupValidator(params.owners, params.threshold)];
+
+  const safeAccount = await toSafeSmartAccount({
+    client: publicClient,
+    owners: params.owners.map(owner => toAccount(owner)) as any,
+    threshold: BigInt(params.threshold),
+    version: '1.4.1',
+    entryPoint: {
+      address: entryPoint07Address,
+      version: '0.7',
+    },
+    safe4337ModuleAddress: config.safe7579Adapter,
+    erc7579LaunchpadAddress: config.erc7579Launchpad,
+    attesters: params.attesters ?? [config.attester],
+    attestersThreshold: params.attestersThreshold ?? 1,
+    validators: validators.map(validator => ({ address: validator.address, context: validator.initData })),
+    saltNonce: params.saltNonce,
+  });
+  return getAddress(await safeAccount.getAddress());
+}
+
+/**
+ * Read every page of a Safe7579 module list
+ */
+async function readModuleList(
+  publicClient: PublicClient,
+  account: Address,
+  functionName: 'getValidatorsPaginated' | 'getExecutorsPaginated'
+): Promise<Address[]> {
+  const modules: Address[] = [];
+  let cursor = SENTINEL_ADDRESS;
+  for (;;) {
+    const [page, next]: readonly [readonly Address[], Address] = await publicClient.readContract({
+      address: account,
+      abi: SAFE7579_ABI,
+      functionName,
+      args: [cursor, PAGE_SIZE],
+    });
+    modules.push(...page.map(module => getAddress(module)));
+    if (page.length < Number(PAGE_SIZE) || next === SENTINEL_ADDRESS || next === zeroAddress) {
+      return modules;
+    }
+    cursor = next;
+  }
+}
+
+/**
+ * Installed validators, executors and active hook of a deployed Safe7579
+ */
+export async function getInstalledModules(publicClient: PublicClient, account: Address): Promise<InstalledModules> {
+  const [validators, executors, hook] = await Promise.all([
+    readModuleList(publicClient, account, 'getValidatorsPaginated'),
+    readModuleList(publicClient, account, 'getExecutorsPaginated'),
+    publicClient.readContract({ address: account, abi: SAFE7579_ABI, functionName: 'getActiveHook' }),
+  ]);
+  return { validators, executors, hook: getAddress(hook) };
+}
+
+/**
+ * Predict the Safe on a chain and report its deployment and module status
+ * @param moduleAddress The chain's GuardedExecModule proxy, if configured
+ */
+export async function getAccountStatus(
+  publicClient: PublicClient,
+  config: ChainConfig,
+  params: SafePredictionParams,
+  moduleAddress?: Address
+): Promise<AccountStatus> {
+  const address = await predictSafeAddress(publicClient, config, params);
+  const code: Hex | undefined = await publicClient.getCode({ address });
+  const deployed = !!code && code !== '0x';
+
+  const status: AccountStatus = { chain: config.key, address, deployed };
+  if (!deployed) {
+    return status;
+  }
+
+  status.modules = await getInstalledModules(publicClient, address);
+  if (moduleAddress) {
+    status.guardedModuleInstalled = status.modules.executors.includes(getAddress(moduleAddress));
+  }
+  return status;
+}
+
+/**
+ * Names of the well-known modules, for reports
+ */
+export function knownModuleNames(moduleAddress?: Address): Record<Address, string> {
+  const names: Record<Address, string> = {
+    [getAddress(GLOBAL_CONSTANTS.OWNABLE_VALIDATOR_ADDRESS)]: 'OwnableValidator',
+    [getAddress(GLOBAL_CONSTANTS.SMART_SESSIONS_ADDRESS)]: 'SmartSessions',
+    [getAddress(GLOBAL_CONSTANTS.SMART_SESSIONS_COMPATIBILITY_FALLBACK_ADDRESS)]: 'SmartSessionsCompatibilityFallback',
+  };
+  if (moduleAddress) {
+    names[getAddress(moduleAddress)] = 'GuardedExecModuleUpgradeable';
+  }
+  return names;
+}
@@ -0,0 +1,44 @@
+/**
+ * Aave V3 Adapter
+ *
+ * supply(address,uint256,address,uint16) / withdraw(address,uint256,address)
+ * on an Aave Pool (AAVE_POOLS in protocolData).
+ */
+
+import { Address, parseAbi } from 'viem';
+import { approve, batchApproval } from './erc20';
+import { ApprovalDeclaration, DepositParams, Execution, WithdrawParams, toExecution } from './types';
+
+export const AAVE_POOL_ABI = parseAbi([
+  "function supply(address asset, uint256 amount, address onBehalfOf, uint16 referralCode) external",
+  "function withdraw(address asset, uint256 amount, address to) external returns (uint256)",
+]);
+
+export function aave(pool: Address) {
+  return {
+    /**
+     * Approvals made by deposit (exact amount, pulled by the same batch)
+     */
+    approvals(asset: Address): ApprovalDeclaration[] {
+      return [batchApproval(asset, pool)];
+    },
+
+    /**
+     * approve(pool) + supply(asset, amount, account, 0)
+     */
+    deposit({ asset, amount, account }: DepositParams): Execution[] {
+      return [
+        ...approve({ token: asset, spender: pool, amount }),
+        toExecution(pool, AAVE_POOL_ABI, 'supply', [asset, amount, account, 0]),
+      ];
+    },
+
+    /**
+     * withdraw(asset, amount, account)
+     * @dev Pass maxUint256 as amount to withdraw the whole aToken balance.
+     */
+    withdraw({ asset, amount, account }: WithdrawParams): Execution[] {
+      return [toExecution(pool, AAVE_POOL_ABI, 'withdraw', [asset, amount, account])];
+    },
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * Compound V3 Adapter
+ *
+ * supply(address,uint256) / withdraw(address,uint256) on a Comet market
+ * (COMPOUND_V3_POOLS in protocolData). Comet credits and pays msg.sender,
+ * so `account` is not encoded.
+ */
+
+import { Address, parseAbi } from 'viem';
+import { approve, batchApproval } from './erc20';
+import { ApprovalDeclaration, DepositParams, Execution, WithdrawParams, toExecution } from './types';
+
+export const COMET_ABI = parseAbi([
+  "function supply(address asset, uint256 amount) external",
+  "function withdraw(address asset, uint256 amount) external",
+]);
+
+export function compoundV3(comet: Address) {
+  return {
+    /**
+     * Approvals made by deposit (exact amount, pulled by the same batch)
+     */
+    approvals(asset: Address): ApprovalDeclaration[] {
+      return [batchApproval(asset, comet)];
+    },
+
+    /**
+     * approve(comet) + supply(asset, amount)
+     */
+    deposit({ asset, amount }: DepositParams): Execution[] {
+      return [
+        ...approve({ token: asset, spender: comet, amount }),
+        toExecution(comet, COMET_ABI, 'supply', [asset, amount]),
+      ];
+    },
+
+    /**
+     * withdraw(asset, amount)
+     */
+    withdraw({ asset, amount }: WithdrawParams): Execution[] {
+      return [toExecution(comet, COMET_ABI, 'withdraw', [asset, amount])];
+    },
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * Dolomite Adapter
+ *
+ * depositWei / withdrawWei on the Dolomite DepositWithdrawalRouter
+ * (DOLOMITE_POOLS in protocolData), using the default account number 0 and
+ * no isolation mode market. Balances are credited to msg.sender.
+ */
+
+import { Address, parseAbi } from 'viem';
+import { approve, batchApproval } from './erc20';
+import { ApprovalDeclaration, DepositParams, Execution, WithdrawParams, toExecution } from './types';
+
+export const DOLOMITE_ROUTER_ABI = parseAbi([
+  "function depositWei(uint256 isolationModeMarketId, uint256 toAccountNumber, uint256 marketId, uint256 amountWei, uint8 eventFlag) external",
+  "function withdrawWei(uint256 isolationModeMarketId, uint256 fromAccountNumber, uint256 marketId, uint256 amountWei, uint8 balanceCheckFlag) external",
+]);
+
+/**
+ * AccountBalanceLib.BalanceCheckFlag
+ */
+export const DOLOMITE_BALANCE_CHECK = {
+  Both: 0,
+  From: 1,
+  To: 2,
+  None: 3,
+} as const;
+
+const DEFAULT_ACCOUNT_NUMBER = 0n;
+const NO_ISOLATION_MODE = 0n;
+const EVENT_FLAG_NONE = 0;
+
+export function dolomite({ router, marketId }: { router: Address; marketId: bigint }) {
+  return {
+    /**
+     * Approvals made by deposit (exact amount, pulled by the same batch)
+     */
+    approvals(asset: Address): ApprovalDeclaration[] {
+      return [batchApproval(asset, router)];
+    },
+
+    /**
+     * approve(router) + depositWei(0, 0, marketId, amount, None)
+     */
+    deposit({ asset, amount }: DepositParams): Execution[] {
+      return [
+        ...approve({ token: asset, spender: router, amount }),
+        toExecution(router, DOLOMITE_ROUTER_ABI, 'depositWei', [
+          NO_ISOLATION_MODE, DEFAULT_ACCOUNT_NUMBER, marketId, amount, EVENT_FLAG_NONE,
+        ]),
+      ];
+    },
+
+    /**
+     * withdrawWei(0, 0, marketId, amount, balanceCheckFlag)
+     * @dev Pass maxUint256 as amount to withdraw the whole balance.
+     */
+    withdraw({ amount, balanceCheckFlag = DOLOMITE_BALANCE_CHECK.From }: WithdrawParams & { balanceCheckFlag?: number }): Execution[] {
+      return [
+        toExecution(router, DOLOMITE_ROUTER_ABI, 'withdrawWei', [
+          NO_ISOLATION_MODE, DEFAULT_ACCOUNT_NUMBER, marketId, amount, balanceCheckFlag,
+        ]),
+      ];
+    },
+  };
+}
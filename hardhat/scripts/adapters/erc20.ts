@@ -0,0 +1,33 @@
+/**
+ * ERC20 Adapter
+ *
+ * approve and transfer are the only ERC20 calls the module accepts. Spenders
+ * must be whitelisted targets and recipients must be the wallet, one of its
+ * owners or an authorized recipient in the registry. The registry can also
+ * cap approve amounts per token+spender (approval ceilings).
+ */
+
+import { Address, erc20Abi } from 'viem';
+import { ApprovalDeclaration, Execution, toExecution } from './types';
+
+/**
+ * approve(spender, amount) on token
+ */
+export function approve({ token, spender, amount }: { token: Address; spender: Address; amount: bigint }): Execution[] {
+  return [toExecution(token, erc20Abi, 'approve', [spender, amount])];
+}
+
+/**
+ * Approve that the same batch uses up (the adapters approve exactly the amount
+ * the next call pulls), compatible with a 'batch' ceiling
+ */
+export function batchApproval(token: Address, spender: Address): ApprovalDeclaration {
+  return { token, spender, ceiling: 'batch' };
+}
+
+/**
+ * transfer(to, amount) on token
+ */
+export function transfer({ token, to, amount }: { token: Address; to: Address; amount: bigint }): Execution[] {
+  return [toExecution(token, erc20Abi, 'transfer', [to, amount])];
+}
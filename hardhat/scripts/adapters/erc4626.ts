@@ -0,0 +1,54 @@
+/**
+ * ERC4626 Vault Adapter
+ *
+ * deposit(uint256,address) / redeem(uint256,address,address) /
+ * withdraw(uint256,address,address) on a standard ERC4626 vault.
+ * Fluid, Spark, Wasabi, Harvest and Euler (Earn) vaults all use this ABI;
+ * check the manifest for which functions are whitelisted on each vault
+ * (most only allow deposit and redeem).
+ */
+
+import { Address, erc4626Abi } from 'viem';
+import { approve, batchApproval } from './erc20';
+import { ApprovalDeclaration, DepositParams, Execution, RedeemParams, WithdrawParams, toExecution } from './types';
+
+export function erc4626(vault: Address) {
+  return {
+    /**
+     * Approvals made by deposit (exact amount, pulled by the same batch)
+     */
+    approvals(asset: Address): ApprovalDeclaration[] {
+      return [batchApproval(asset, vault)];
+    },
+
+    /**
+     * approve(vault) + deposit(amount, account)
+     */
+    deposit({ asset, amount, account }: DepositParams): Execution[] {
+      return [
+        ...approve({ token: asset, spender: vault, amount }),
+        toExecution(vault, erc4626Abi, 'deposit', [amount, account]),
+      ];
+    },
+
+    /**
+     * redeem(shares, account, account)
+     */
+    redeem({ shares, account }: RedeemParams): Execution[] {
+      return [toExecution(vault, erc4626Abi, 'redeem', [shares, account, account])];
+    },
+
+    /**
+     * withdraw(amount, account, account)
+     */
+    withdraw({ amount, account }: WithdrawParams): Execution[] {
+      return [toExecution(vault, erc4626Abi, 'withdraw', [amount, account, account])];
+    },
+  };
+}
+
+export const fluid = erc4626;
+export const spark = erc4626;
+export const wasabi = erc4626;
+export const harvest = erc4626;
+export const euler = erc4626;
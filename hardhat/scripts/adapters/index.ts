@@ -0,0 +1,42 @@
+/**
+ * Protocol Adapters
+ *
+ * Typed DeFi actions encoded as Execution[] for executeGuardedBatch. Each
+ * adapter is bound to the protocol contract (pool, vault, router) and returns
+ * every call the action needs, including the ERC20 approve:
+ *
+ *   const executions = [
+ *     ...aave(AAVE_POOLS.USDC).deposit({ asset: TOKENS.USDC, amount, account }),
+ *     ...erc4626(FLUID_POOLS.USDC).redeem({ shares, account }),
+ *   ];
+ *   const data = encodeExecuteGuardedBatch(executions);
+ *
+ * Adapters only encode calls; the targets and selectors still have to be
+ * whitelisted in the chain manifest.
+ */
+
+import { encodeFunctionData } from 'viem';
+import { GUARDED_EXEC_MODULE_ABI } from '../utils/utils';
+import { Execution } from './types';
+
+export * from './types';
+export * as erc20 from './erc20';
+export { aave, AAVE_POOL_ABI } from './aave';
+export { compoundV3, COMET_ABI } from './compoundV3';
+export { moonwell, MTOKEN_ABI } from './moonwell';
+export { erc4626, fluid, spark, wasabi, harvest, euler } from './erc4626';
+export { morpho, MorphoConfig, MORPHO_BUNDLER3_ABI, MORPHO_GENERAL_ADAPTER_ABI } from './morpho';
+export { siloV2, siloV2ClaimRewards, SILO_COLLATERAL_TYPE, SILO_ROUTER_ABI, SILO_REWARDS_CLAIMER_ABI } from './siloV2';
+export { dolomite, DOLOMITE_BALANCE_CHECK, DOLOMITE_ROUTER_ABI } from './dolomite';
+export { merkl, MerklClaim, MERKL_DISTRIBUTOR_ABI } from './merkl';
+
+/**
+ * Calldata for GuardedExecModuleUpgradeable.executeGuardedBatch(executions)
+ */
+export function encodeExecuteGuardedBatch(executions: Execution[]) {
+  return encodeFunctionData({
+    abi: GUARDED_EXEC_MODULE_ABI,
+    functionName: 'executeGuardedBatch',
+    args: [executions],
+  });
+}
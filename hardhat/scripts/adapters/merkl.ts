@@ -0,0 +1,37 @@
+/**
+ * Merkl Adapter
+ *
+ * claim(address[],address[],uint256[],bytes32[][]) on the Merkl Distributor.
+ * Amounts and proofs come from the Merkl API (cumulative amounts per token).
+ */
+
+import { Address, Hex, parseAbi } from 'viem';
+import { Execution, toExecution } from './types';
+
+export const MERKL_DISTRIBUTOR_ABI = parseAbi([
+  "function claim(address[] calldata users, address[] calldata tokens, uint256[] calldata amounts, bytes32[][] calldata proofs) external",
+]);
+
+export interface MerklClaim {
+  token: Address;
+  amount: bigint;
+  proof: Hex[];
+}
+
+export function merkl(distributor: Address) {
+  return {
+    /**
+     * claim([account...], tokens, amounts, proofs)
+     */
+    claim({ account, claims }: { account: Address; claims: MerklClaim[] }): Execution[] {
+      return [
+        toExecution(distributor, MERKL_DISTRIBUTOR_ABI, 'claim', [
+          claims.map(() => account),
+          claims.map(claim => claim.token),
+          claims.map(claim => claim.amount),
+          claims.map(claim => claim.proof),
+        ]),
+      ];
+    },
+  };
+}
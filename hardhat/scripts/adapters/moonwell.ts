@@ -0,0 +1,44 @@
+/**
+ * Moonwell Adapter
+ *
+ * mint(uint256) / redeem(uint256) on a Moonwell mToken (MOONWELL_POOLS in
+ * protocolData). The mToken credits and pays msg.sender, so `account` is not
+ * encoded.
+ */
+
+import { Address, parseAbi } from 'viem';
+import { approve, batchApproval } from './erc20';
+import { ApprovalDeclaration, DepositParams, Execution, RedeemParams, toExecution } from './types';
+
+export const MTOKEN_ABI = parseAbi([
+  "function mint(uint256 mintAmount) external returns (uint256)",
+  "function redeem(uint256 redeemTokens) external returns (uint256)",
+]);
+
+export function moonwell(mToken: Address) {
+  return {
+    /**
+     * Approvals made by deposit (exact amount, pulled by the same batch)
+     */
+    approvals(asset: Address): ApprovalDeclaration[] {
+      return [batchApproval(asset, mToken)];
+    },
+
+    /**
+     * approve(mToken) + mint(amount)
+     */
+    deposit({ asset, amount }: DepositParams): Execution[] {
+      return [
+        ...approve({ token: asset, spender: mToken, amount }),
+        toExecution(mToken, MTOKEN_ABI, 'mint', [amount]),
+      ];
+    },
+
+    /**
+     * redeem(shares) - shares are mToken units
+     */
+    redeem({ shares }: RedeemParams): Execution[] {
+      return [toExecution(mToken, MTOKEN_ABI, 'redeem', [shares])];
+    },
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * Morpho Vault Adapter (Bundler3 + GeneralAdapter1)
+ *
+ * Morpho vaults are not called directly: deposits and redemptions go through
+ * Bundler3.multicall, which calls GeneralAdapter1.erc4626Deposit /
+ * erc4626Redeem (both restricted to Bundler3).
+ *
+ * - deposit: transfer(asset -> adapter) + multicall([erc4626Deposit])
+ *            The adapter is an authorized transfer recipient (recipientConfig)
+ *            and deposits its own balance.
+ * - redeem:  approve(vault shares -> adapter) + multicall([erc4626Redeem])
+ */
+
+import { Address, maxUint256, parseAbi } from 'viem';
+import { approve, batchApproval, transfer } from './erc20';
+import { ApprovalDeclaration, DepositParams, Execution, RedeemParams, toExecution } from './types';
+
+export const MORPHO_BUNDLER3_ABI = parseAbi([
+  "struct Call { address to; bytes data; uint256 value; bool skipRevert; bytes32 callbackHash; }",
+  "function multicall(Call[] calldata bundle) external payable",
+]);
+
+export const MORPHO_GENERAL_ADAPTER_ABI = parseAbi([
+  "function erc4626Deposit(address vault, uint256 assets, uint256 maxSharePriceE27, address receiver) external",
+  "function erc4626Redeem(address vault, uint256 shares, uint256 minSharePriceE27, address receiver, address owner) external",
+]);
+
+const NO_CALLBACK = `0x${'00'.repeat(32)}` as const;
+
+export interface MorphoConfig {
+  vault: Address;
+  adapter: Address;
+  bundler: Address;
+}
+
+export function morpho({ vault, adapter, bundler }: MorphoConfig) {
+  const bundle = (call: Execution): Execution[] => [
+    toExecution(bundler, MORPHO_BUNDLER3_ABI, 'multicall', [[{
+      to: call.target,
+      data: call.callData,
+      value: call.value,
+      skipRevert: false,
+      callbackHash: NO_CALLBACK,
+    }]]),
+  ];
+
+  return {
+    /**
+     * Approvals made by redeem (vault shares, pulled by the adapter in the same batch)
+     */
+    approvals(): ApprovalDeclaration[] {
+      return [batchApproval(vault, adapter)];
+    },
+
+    /**
+     * transfer(asset -> adapter) + multicall([erc4626Deposit(vault, amount, maxSharePriceE27, account)])
+     * @param maxSharePriceE27 Slippage bound (defaults to no bound)
+     */
+    deposit({ asset, amount, account, maxSharePriceE27 = maxUint256 }: DepositParams & { maxSharePriceE27?: bigint }): Execution[] {
+      return [
+        ...transfer({ token: asset, to: adapter, amount }),
+        ...bundle(toExecution(adapter, MORPHO_GENERAL_ADAPTER_ABI, 'erc4626Deposit', [vault, amount, maxSharePriceE27, account])),
+      ];
+    },
+
+    /**
+     * approve(vault shares -> adapter) + multicall([erc4626Redeem(vault, shares, minSharePriceE27, account, account)])
+     * @param minSharePriceE27 Slippage bound (defaults to no bound)
+     */
+    redeem({ shares, account, minSharePriceE27 = 0n }: RedeemParams & { minSharePriceE27?: bigint }): Execution[] {
+      return [
+        ...approve({ token: vault, spender: adapter, amount: shares }),
+        ...bundle(toExecution(adapter, MORPHO_GENERAL_ADAPTER_ABI, 'erc4626Redeem', [vault, shares, minSharePriceE27, account, account])),
+      ];
+    },
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * SiloV2 Adapter
+ *
+ * - deposit: approve(router) + SiloRouter.execute([Deposit action])
+ *            The router pulls the asset and deposits it for msg.sender.
+ * - redeem:  redeem(uint256,address,address) directly on the silo (ERC4626)
+ * - claimRewards: claimRewards(address) on a rewards claimer
+ *   (SILOV2_REWARDS_CLAIMERS in protocolData)
+ */
+
+import { Address, encodeAbiParameters, erc4626Abi, parseAbi } from 'viem';
+import { approve, batchApproval } from './erc20';
+import { ApprovalDeclaration, DepositParams, Execution, RedeemParams, toExecution } from './types';
+
+export const SILO_ROUTER_ABI = parseAbi([
+  "struct Action { uint8 actionType; address silo; address asset; bytes options; }",
+  "function execute(Action[] calldata actions) external payable",
+]);
+
+export const SILO_REWARDS_CLAIMER_ABI = parseAbi([
+  "function claimRewards(address to) external",
+]);
+
+/**
+ * SiloRouter.ActionType.Deposit
+ */
+const ACTION_DEPOSIT = 0;
+
+/**
+ * ISilo.CollateralType (Protected = 0, Collateral = 1)
+ */
+export const SILO_COLLATERAL_TYPE = {
+  Protected: 0,
+  Collateral: 1,
+} as const;
+
+export function siloV2({ router, silo }: { router: Address; silo: Address }) {
+  return {
+    /**
+     * Approvals made by deposit (exact amount, pulled by the same batch)
+     */
+    approvals(asset: Address): ApprovalDeclaration[] {
+      return [batchApproval(asset, router)];
+    },
+
+    /**
+     * approve(router) + execute([{ Deposit, silo, asset, abi.encode(amount, collateralType) }])
+     * @dev The router deposits for msg.sender, so `account` is not encoded.
+     */
+    deposit({ asset, amount, collateralType = SILO_COLLATERAL_TYPE.Collateral }: DepositParams & { collateralType?: number }): Execution[] {
+      const options = encodeAbiParameters(
+        [{ type: 'uint256' }, { type: 'uint8' }],
+        [amount, collateralType]
+      );
+      return [
+        ...approve({ token: asset, spender: router, amount }),
+        toExecution(router, SILO_ROUTER_ABI, 'execute', [[{ actionType: ACTION_DEPOSIT, silo, asset, options }]]),
+      ];
+    },
+
+    /**
+     * redeem(shares, account, account) on the silo
+     */
+    redeem({ shares, account }: RedeemParams): Execution[] {
+      return [toExecution(silo, erc4626Abi, 'redeem', [shares, account, account])];
+    },
+  };
+}
+
+/**
+ * claimRewards(account) on a SiloV2 rewards claimer
+ */
+export function siloV2ClaimRewards({ claimer, account }: { claimer: Address; account: Address }): Execution[] {
+  return [toExecution(claimer, SILO_REWARDS_CLAIMER_ABI, 'claimRewards', [account])];
+}
@@ -0,0 +1,93 @@
+/**
+ * Adapter Types
+ *
+ * Parameter shapes shared by the protocol adapters. Every action returns
+ * Execution[], ready to be passed to executeGuardedBatch.
+ */
+
+import { Abi, Address, ContractFunctionArgs, ContractFunctionName, Hex, encodeFunctionData, maxUint256 } from 'viem';
+
+/**
+ * ERC-7579 Execution struct: { address target; uint256 value; bytes callData; }
+ */
+export interface Execution {
+  target: Address;
+  value: bigint;
+  callData: Hex;
+}
+
+/**
+ * Supply `amount` of `asset` on behalf of `account` (the smart account)
+ */
+export interface DepositParams {
+  asset: Address;
+  amount: bigint;
+  account: Address;
+}
+
+/**
+ * Withdraw `amount` of `asset` (in asset units) to `account`
+ */
+export interface WithdrawParams {
+  asset: Address;
+  amount: bigint;
+  account: Address;
+}
+
+/**
+ * Redeem `shares` (vault / market token units) owned by `account` back to `account`
+ */
+export interface RedeemParams {
+  shares: bigint;
+  account: Address;
+}
+
+/**
+ * Registry approval ceiling of a token+spender: a maximum approve amount, or
+ * 'batch' when the approved amount must be used up within the same batch
+ * (TargetRegistry.APPROVAL_MATCH_BATCH). 0n means no ceiling.
+ */
+export type ApprovalCeiling = bigint | 'batch';
+
+/**
+ * ERC20 approve an adapter action makes, with the ceiling it works under
+ */
+export interface ApprovalDeclaration {
+  token: Address;
+  spender: Address;
+  ceiling: ApprovalCeiling;
+}
+
+/**
+ * TargetRegistry.APPROVAL_MATCH_BATCH
+ */
+export const APPROVAL_MATCH_BATCH = maxUint256;
+
+/**
+ * Ceiling as stored in the registry
+ */
+export function encodeApprovalCeiling(ceiling: ApprovalCeiling): bigint {
+  return ceiling === 'batch' ? APPROVAL_MATCH_BATCH : ceiling;
+}
+
+/**
+ * Ceiling as read from the registry
+ */
+export function decodeApprovalCeiling(value: bigint): ApprovalCeiling {
+  return value === APPROVAL_MATCH_BATCH ? 'batch' : value;
+}
+
+/**
+ * Encode a single zero-value call as an Execution
+ * @dev functionName and args are checked against the ABI by the overload signature
+ */
+export function toExecution<const abi extends Abi, functionName extends ContractFunctionName<abi, 'nonpayable' | 'payable'>>(
+  target: Address,
+  abi: abi,
+  functionName: functionName,
+  args: ContractFunctionArgs<abi, 'nonpayable' | 'payable', functionName>
+): Execution;
+export function toExecution(target: Address, abi: Abi, functionName: string, args: readonly unknown[]): Execution {
+  const callData: Hex = encodeFunctionData({ abi, functionName, args });
+  return { target, value: 0n, callData };
+}
@@ -0,0 +1,97 @@
+/**
+ * ERC20 Allowance Scanner CLI
+ *
+ * Lists the allowances Safes have granted to the targets of the chain manifest
+ * (see module/allowances.ts), flags the ones the registry policy no longer
+ * allows, and builds executeGuardedBatch payloads revoking them.
+ *
+ * USAGE:
+ *   pnpm allowances scan [--safes 0xA,0xB] [--file <safes.json|safes.txt>] [--from-indexer] [--db <file>] [--chain <chain>] [--json]
+ *   pnpm allowances revoke [--safes ...] [--file ...] [--from-indexer] [--chain <chain>] [--out <dir>]
+ *
+ * scan   - every non-zero allowance per Safe, flagged when the spender is no
+ *          longer whitelisted or the allowance is above its approval ceiling
+ * revoke - writes one JSON per Safe with flagged allowances: the approve(spender, 0)
+ *          executions, the executeGuardedBatch calldata the Safe calls the module
+ *          with, and the pre-flight verdict (dry-runs/ by default). Nothing is sent.
+ *
+ * Safes come from --safes, --file and --from-indexer (see utils/safeList.ts).
+ * --chain defaults to base.
+ */
+
+import { getReadOnlyClients } from './utils/chains';
+import { loadEnv, parseCommandLine, runCli } from './utils/cli';
+import { addSafes, emptySafeList, readIndexedSafes, readSafesFile, safesForChain } from './utils/safeList';
+import { buildRevokePayload, displayAllowanceScan, scanAllowances, writeRevokePayload } from './module/allowances';
+
+// Load environment variables
+loadEnv();
+
+const USAGE = "Usage: allowances <scan|revoke> [--safes <a,b>] [--file <file>] [--from-indexer] [--db <file>] [--chain <chain>] [--json] [--out <dir>]";
+
+async function main() {
+  const { values, positionals } = parseCommandLine({
+    chain: { type: 'string', default: 'base' },
+    safes: { type: 'string' },
+    file: { type: 'string' },
+    'from-indexer': { type: 'boolean' },
+    db: { type: 'string' },
+    json: { type: 'boolean' },
+    out: { type: 'string' },
+  });
+
+  const [action] = positionals;
+  if (!['scan', 'revoke'].includes(action)) {
+    throw new Error(USAGE);
+  }
+
+  const ctx = getReadOnlyClients(values.chain);
+
+  const list = emptySafeList();
+  if (values.safes) addSafes(list, 'ALL', '--safes', values.safes.split(',').filter(item => item.trim()));
+  if (values.file) readSafesFile(list, values.file);
+  if (values['from-indexer']) await readIndexedSafes(list, [ctx.config.key], values.db);
+  const safes = safesForChain(list, ctx.config.key);
+  if (safes.length === 0) {
+    throw new Error(`No Safes given for ${ctx.config.name} (--safes, --file, --from-indexer)\n${USAGE}`);
+  }
+
+  if (!values.json) {
+    console.log(`🔐 Allowance ${action} (${ctx.config.name} Chain)`);
+    console.log("==================================\n");
+  }
+
+  const scan = await scanAllowances(ctx, safes);
+
+  if (action === 'scan') {
+    if (values.json) {
+      console.log(JSON.stringify(scan, (_, v) => typeof v === 'bigint' ? v.toString() : v, 2));
+    } else {
+      displayAllowanceScan(scan);
+    }
+    return;
+  }
+
+  displayAllowanceScan(scan);
+
+  let written = 0;
+  for (const safe of safes) {
+    const payload = await buildRevokePayload(ctx, safe, scan.safes[safe]);
+    if (!payload) continue;
+
+    const file = writeRevokePayload(payload, values.out);
+    written++;
+    console.log(`\n🧹 ${safe}: ${payload.executions.length} revocation(s)`);
+    console.log("  Module:", payload.call.to);
+    console.log("  Calldata:", payload.call.data);
+    payload.preflight.warnings.forEach(warning => console.log(`  ⚠️  ${warning}`));
+    console.log(payload.preflight.ok
+      ? "  ✅ Pre-flight: batch passes all module checks"
+      : `  ❌ Pre-flight: batch would revert with ${payload.preflight.revert?.error.name ?? 'a batch error'}`);
+    console.log(`  💾 Written to ${file}`);
+  }
+
+  console.log(written > 0 ? `\n✅ ${written} revoke payload(s) written` : "\n✅ No flagged allowances, nothing to revoke");
+}
+
+runCli(main);
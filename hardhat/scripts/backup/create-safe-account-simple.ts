@@ -7,6 +7,8 @@ import { entryPoint07Address } from 'viem/account-abstraction';
 import dotenv from "dotenv";
 import { join } from "path";
 import { readFileSync, writeFileSync } from "fs";
+import { PIMLICO_API_KEY_ENV } from '../utils/bundler';
+import { readSecret } from '../utils/keystore';
 
 // Load environment variables
 dotenv.config({ path: join(__dirname, "..", ".env") });
@@ -85,14 +87,17 @@ async function main() {
     console.log("📦 Deploying Safe account...");
     
     // Create smart account client for deployment
-    const getPimlicoUrl = (networkId: number) => {
-      const apiKey = 'pim_Pj8F4e4yjMiBej7UmJjgcC';
+    const getPimlicoUrl = async (networkId: number) => {
+      const apiKey = await readSecret(PIMLICO_API_KEY_ENV);
+      if (!apiKey) {
+        throw new Error(`Neither ${PIMLICO_API_KEY_ENV} nor ${PIMLICO_API_KEY_ENV}_ALIAS is set`);
+      }
       const baseUrl = 'https://api.pimlico.io/v2/';
       return `${baseUrl}${networkId}/rpc?apikey=${apiKey}`;
     };
     
-    const pimlicoUrl = getPimlicoUrl(base.id);
-    console.log("Pimlico URL:", pimlicoUrl);
+    const pimlicoUrl = await getPimlicoUrl(base.id);
+    console.log("Pimlico URL:", pimlicoUrl.replace(/apikey=[^&]+/, 'apikey=***'));
     
     const { createPimlicoClient } = await import('permissionless/clients/pimlico');
     const { createSmartAccountClient } = await import('permissionless');
@@ -9,6 +9,8 @@ import { createPublicClient, http, encodeFunctionData, fromHex, toHex } from 'vi
 import { entryPoint07Address } from 'viem/account-abstraction';
 import dotenv from "dotenv";
 import { join } from "path";
+import { PIMLICO_API_KEY_ENV } from '../utils/bundler';
+import { readSecret } from '../utils/keystore';
 
 // Load environment variables
 dotenv.config({ path: join(__dirname, "..", ".env") });
@@ -91,13 +93,16 @@ async function main() {
   console.log("Safe account deployed:", isDeployed ? "✅ Yes" : "❌ No - will deploy");
   
   // Create Pimlico client
-  const getPimlicoUrl = (networkId: number) => {
-    const apiKey = 'pim_Pj8F4e4yjMiBej7UmJjgcC';
+  const getPimlicoUrl = async (networkId: number) => {
+    const apiKey = await readSecret(PIMLICO_API_KEY_ENV);
+    if (!apiKey) {
+      throw new Error(`Neither ${PIMLICO_API_KEY_ENV} nor ${PIMLICO_API_KEY_ENV}_ALIAS is set`);
+    }
     const baseUrl = 'https://api.pimlico.io/v2/';
     return `${baseUrl}${networkId}/rpc?apikey=${apiKey}`;
   };
   
-  const pimlicoUrl = getPimlicoUrl(base.id);
+  const pimlicoUrl = await getPimlicoUrl(base.id);
   const pimlicoClient = createPimlicoClient({
     transport: http(pimlicoUrl),
     entryPoint: {
@@ -0,0 +1,159 @@
+/**
+ * Multi-chain Account Bootstrap CLI
+ *
+ * Onboards the signer's Safe on several chains in one run: deploys the
+ * counterfactual Safe (same address on every chain for the same owner and
+ * ACCOUNT_SALT), installs GuardedExecModuleUpgradeable and Smart Sessions and
+ * enables a scoped session for the session key (see account/bootstrap.ts).
+ * Steps already done are skipped, the rest goes into one UserOperation per
+ * chain, so the command can be re-run after a partial failure.
+ *
+ * USAGE:
+ *   pnpm bootstrap --chains base,arbitrum,sonic,plasma [--plan] [--out <file>]
+ *
+ * --plan  reads the state of every chain and stops before sending
+ * --out   also writes the per-chain report as JSON
+ *
+ * The session key is the keystore alias SESSION_KEY_ALIAS (default
+ * "session-key", generated on first use). Descriptors of enabled sessions are
+ * saved to the session store (`pnpm session list`).
+ */
+
+import { writeFileSync } from 'fs';
+import {
+  BootstrapPlan,
+  BootstrapResult,
+  executeBootstrap,
+  planBootstrap,
+  planSteps,
+} from './account/bootstrap';
+import { getChainConfig, getClients } from './utils/chains';
+import { confirmCountdown, loadEnv, parseCommandLine, runCli } from './utils/cli';
+import { loadOrCreateKeystoreAccount } from './utils/keystore';
+import { ACCOUNT_SALT_ENV, accountSaltNonce } from './utils/safe';
+
+// Load environment variables
+loadEnv();
+
+/**
+ * Keystore alias of the session key when SESSION_KEY_ALIAS is not set
+ */
+const DEFAULT_SESSION_KEY_ALIAS = 'session-key';
+
+/**
+ * Session policy limits (same as 3-create-module-session-key.ts)
+ */
+const SESSION_DURATION_SECONDS = 7 * 24 * 60 * 60;
+const SESSION_MAX_USES = 100n;
+
+const USAGE = "Usage: bootstrap --chains <chain,chain,...> [--plan] [--out <file>]";
+
+function printReport(results: BootstrapResult[]): void {
+  console.log("\n📋 Bootstrap report");
+  console.log("==================================");
+  results.forEach(result => {
+    const icon = { 'up-to-date': '✅', pending: '⏳', bootstrapped: '🚀', failed: '❌' }[result.status];
+    console.log(`${icon} ${result.chain.padEnd(10)} ${result.status.padEnd(12)} ${result.safeAddress ?? '-'}`);
+    if (result.skipped.length > 0) console.log(`     already done: ${result.skipped.join(', ')}`);
+    if (result.executed.length > 0) {
+      console.log(`     ${result.status === 'bootstrapped' ? 'executed' : 'to execute'}: ${result.executed.join(', ')}`);
+    }
+    if (result.permissionId) console.log(`     permission id: ${result.permissionId}`);
+    if (result.userOpHash) console.log(`     UserOperation: ${result.userOpHash}`);
+    if (result.transactionHash) console.log(`     transaction: ${result.transactionHash}`);
+    if (result.error) console.log(`     error: ${result.error}`);
+  });
+}
+
+async function main() {
+  const { values } = parseCommandLine({
+    chains: { type: 'string' },
+    plan: { type: 'boolean' },
+    out: { type: 'string' },
+  });
+
+  if (!values.chains) {
+    throw new Error(USAGE);
+  }
+  // Resolve every key up front so a typo fails before anything is sent
+  const chainKeys = [...new Set(values.chains.split(',').map(key => key.trim()).filter(Boolean))];
+  chainKeys.forEach(key => getChainConfig(key));
+
+  console.log(`🚀 Account bootstrap (${chainKeys.join(', ')})`);
+  console.log("==================================\n");
+
+  const saltNonce = accountSaltNonce();
+  const sessionKeyAlias = process.env.SESSION_KEY_ALIAS?.trim() || DEFAULT_SESSION_KEY_ALIAS;
+  const { account: sessionKey, created } = await loadOrCreateKeystoreAccount(sessionKeyAlias);
+  console.log(`${ACCOUNT_SALT_ENV}: ${process.env[ACCOUNT_SALT_ENV] || '0x1'} (salt nonce ${saltNonce})`);
+  console.log(`Session key: ${sessionKey.address} ("${sessionKeyAlias}"${created ? ", newly generated" : ""})`);
+
+  const options = {
+    sessionKey: sessionKey.address,
+    saltNonce,
+    policies: {
+      validUntil: Math.floor(Date.now() / 1000) + SESSION_DURATION_SECONDS,
+      maxUses: SESSION_MAX_USES,
+    },
+  };
+
+  const results: BootstrapResult[] = [];
+  const plans: BootstrapPlan[] = [];
+  for (const key of chainKeys) {
+    console.log(`\n🔎 ${getChainConfig(key).name}`);
+    try {
+      const plan = await planBootstrap(await getClients(key), options);
+      const { skipped, executed } = planSteps(plan);
+      console.log(`  Safe: ${plan.safeAddress}`);
+      console.log(`  Done: ${skipped.join(', ') || '-'} | Pending: ${executed.join(', ') || '-'}`);
+      plans.push(plan);
+      results.push({
+        chain: key,
+        safeAddress: plan.safeAddress,
+        status: executed.length > 0 ? 'pending' : 'up-to-date',
+        skipped,
+        executed,
+        permissionId: (plan.existingSession ?? plan.newSession)?.permissionId,
+      });
+    } catch (error: any) {
+      results.push({ chain: key, status: 'failed', skipped: [], executed: [], error: error?.shortMessage ?? error?.message });
+    }
+  }
+
+  // Same owner and salt give the same Safe everywhere; a difference means a different signer per chain
+  const addresses = new Set(plans.map(plan => plan.safeAddress));
+  if (addresses.size > 1) {
+    console.log(`\n⚠️  The Safe address differs between chains (${[...addresses].join(', ')}): check the <CHAIN>_KEYSTORE_ALIAS signers`);
+  }
+
+  const pending = plans.filter(plan => plan.calls.length > 0);
+  if (!values.plan && pending.length > 0) {
+    await confirmCountdown([
+      `This will send one UserOperation on each of: ${pending.map(plan => plan.clients.config.name).join(', ')}`,
+      "Each Safe is deployed if needed and gets the Guarded Exec Module, Smart Sessions and a session enabled.",
+    ]);
+
+    for (const plan of pending) {
+      const index = results.findIndex(result => result.chain === plan.clients.config.key);
+      console.log(`\n📤 ${plan.clients.config.name}: sending ${plan.calls.length} call(s) from ${plan.safeAddress}...`);
+      try {
+        results[index] = await executeBootstrap(plan);
+      } catch (error: any) {
+        results[index] = { ...results[index], status: 'failed', error: error?.shortMessage ?? error?.message };
+      }
+    }
+  }
+
+  printReport(results);
+
+  if (values.out) {
+    writeFileSync(values.out, JSON.stringify({ generatedAt: new Date().toISOString(), results }, null, 2));
+    console.log(`\n💾 Report written to ${values.out}`);
+  }
+
+  if (results.some(result => result.status === 'failed')) {
+    throw new Error(`Bootstrap failed on: ${results.filter(result => result.status === 'failed').map(result => result.chain).join(', ')}`);
+  }
+}
+
+runCli(main);
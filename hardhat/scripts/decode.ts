@@ -0,0 +1,148 @@
+/**
+ * Guarded Batch Decoder CLI
+ *
+ * Prints what a transaction, UserOperation or executeGuardedBatch calldata
+ * actually does, with protocol labels from the chain manifest (see
+ * module/decoder.ts).
+ *
+ * USAGE:
+ *   pnpm decode <txHash> --chain base|arbitrum|plasma|sonic
+ *   pnpm decode <userop.json> [--chain <chain>] [--safe <address>]
+ *   pnpm decode <calldata> [--chain <chain>] [--target <address>] [--safe <address>]
+ *
+ * txHash      - transaction input (handleOps, account execute or a direct call)
+ *               plus the GuardedBatchExecuted events it emitted
+ * userop.json - UserOperation JSON with sender and callData (also accepts the
+ *               dry-run files written by --dry-run)
+ * calldata    - raw calldata; --target defaults to the chain's module proxy
+ *
+ * With the chain RPC configured, token amounts are shown in token units.
+ * --chain defaults to base.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { Address, Hex, getAddress, isAddress, isHex, parseEventLogs, size } from 'viem';
+import { createEventLabeler } from './indexer/events';
+import {
+  DecodedCall,
+  DecoderContext,
+  decodeCall,
+  formatDecodedCall,
+  loadTokenDecimals,
+} from './module/decoder';
+import { ReadOnlyChainClients, getChainConfig, getReadOnlyClients, validateChainEnv } from './utils/chains';
+import { loadEnv, parseCommandLine, runCli } from './utils/cli';
+import { GUARDED_EXEC_MODULE_ABI } from './utils/utils';
+
+// Load environment variables
+loadEnv();
+
+const USAGE = "Usage: decode <txHash|userop.json|calldata> [--chain <chain>] [--safe <address>] [--target <address>]";
+
+function printCall(call: DecodedCall): void {
+  formatDecodedCall(call).forEach(line => console.log(line));
+}
+
+function parseAddressFlag(flag: string, value: string | undefined): Address | undefined {
+  if (value === undefined) return undefined;
+  if (!isAddress(value)) {
+    throw new Error(`--${flag} must be an address (got "${value}")`);
+  }
+  return getAddress(value);
+}
+
+async function main() {
+  const { values, positionals } = parseCommandLine({
+    chain: { type: 'string', default: 'base' },
+    safe: { type: 'string' },
+    target: { type: 'string' },
+  });
+
+  const [input] = positionals;
+  if (!input) {
+    throw new Error(USAGE);
+  }
+
+  const config = getChainConfig(values.chain);
+  const isTxHash = isHex(input) && size(input) === 32;
+
+  // RPC is required for tx hashes, optional otherwise (token decimals, module address)
+  let clients: ReadOnlyChainClients | undefined;
+  if (isTxHash || validateChainEnv(config, { requireSigner: false }).length === 0) {
+    clients = getReadOnlyClients(values.chain);
+  }
+
+  const ctx: DecoderContext = {
+    manifest: config.manifest,
+    account: parseAddressFlag('safe', values.safe),
+    moduleAddress: clients?.moduleAddress,
+    tokenDecimals: clients ? await loadTokenDecimals(clients.publicClient, config.manifest) : undefined,
+  };
+
+  console.log(`🔎 Decode (${config.name} Chain)`);
+  console.log("==================================\n");
+  if (!clients) {
+    console.log(`ℹ️  ${config.rpcUrlEnv} / contract addresses not configured: amounts shown in base units\n`);
+  }
+
+  if (isTxHash) {
+    const { publicClient } = clients!;
+    const [tx, receipt] = await Promise.all([
+      publicClient.getTransaction({ hash: input }),
+      publicClient.getTransactionReceipt({ hash: input }),
+    ]);
+    console.log("Transaction:", input);
+    console.log("  From:", tx.from);
+    console.log("  To:", tx.to);
+    console.log("  Block:", tx.blockNumber?.toString());
+    console.log("  Status:", receipt.status);
+
+    if (!tx.to) {
+      throw new Error("Contract creation transactions have nothing to decode");
+    }
+    console.log("\n📜 Calls:");
+    printCall(decodeCall(ctx, { target: tx.to, value: tx.value, data: tx.input }));
+
+    const executed = parseEventLogs({ abi: GUARDED_EXEC_MODULE_ABI, eventName: 'GuardedBatchExecuted', logs: receipt.logs });
+    if (executed.length > 0) {
+      const label = createEventLabeler(config.manifest);
+      console.log("\n📣 GuardedBatchExecuted events:");
+      executed.forEach(log => {
+        console.log(`  - executor ${log.args.executor} (module ${log.address}):`);
+        console.log(`    ${label('module', 'GuardedBatchExecuted', log.args)}`);
+      });
+    }
+    return;
+  }
+
+  if (existsSync(input)) {
+    const content = JSON.parse(readFileSync(input, 'utf8'));
+    // Dry-run files keep the UserOperation under "userOperation"
+    const userOperation = content.userOperation ?? content;
+    if (!isAddress(userOperation.sender) || !isHex(userOperation.callData)) {
+      throw new Error(`${input} is not a UserOperation (sender and callData required)`);
+    }
+    console.log("UserOperation:", input);
+    console.log("  Sender:", userOperation.sender);
+    console.log("\n📜 Calls:");
+    printCall(decodeCall(
+      { ...ctx, account: ctx.account ?? getAddress(userOperation.sender) },
+      { target: userOperation.sender, data: userOperation.callData }
+    ));
+    return;
+  }
+
+  if (!isHex(input)) {
+    throw new Error(`"${input}" is not a transaction hash, a file or hex calldata\n${USAGE}`);
+  }
+
+  const target = parseAddressFlag('target', values.target) ?? ctx.moduleAddress;
+  if (!target) {
+    throw new Error(`--target is required when ${config.moduleAddressEnv} is not configured`);
+  }
+  console.log("Calldata for:", target);
+  console.log("\n📜 Calls:");
+  printCall(decodeCall(ctx, { target, data: input as Hex }));
+}
+
+runCli(main);
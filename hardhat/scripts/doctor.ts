@@ -0,0 +1,155 @@
+/**
+ * Module Health Check CLI
+ *
+ * Checks the module deployment of each chain and the module installation of
+ * a list of Safes (see module/health.ts), and prints a red/green matrix: one
+ * column per chain, one row per chain check and per Safe.
+ *
+ * USAGE:
+ *   pnpm doctor [--safes 0xA,0xB] [--file <safes.json|safes.txt>] [--from-indexer] [--db <file>]
+ *               [--chains base,arbitrum] [--expected-version 2.4.0] [--json]
+ *
+ * Safes come from any combination of:
+ *   --safes         comma-separated addresses, checked on every chain
+ *   --file          JSON array of addresses (every chain), JSON object of
+ *                   chain key -> addresses, or text with one address per line
+ *   --from-indexer  every Safe that executed a guarded batch through the
+ *                   chain's module, from the audit log (`pnpm indexer sync`)
+ *
+ * --chains defaults to every chain whose RPC URL is set. The implementation
+ * check compares the proxy's ERC-1967 slot with <CHAIN>_GUARDED_EXEC_MODULE_IMPL_ADDRESS
+ * when set. Exits with an error when any check fails.
+ */
+
+import { Address } from 'viem';
+import { CHAIN_CHECKS, ChainHealth, EXPECTED_MODULE_VERSION, SAFE_CHECKS, checkChainHealth } from './module/health';
+import { CHAIN_KEYS, ChainKey, getChainConfig, getReadOnlyClients } from './utils/chains';
+import { loadEnv, parseCommandLine, runCli } from './utils/cli';
+import { addSafes, emptySafeList, readIndexedSafes, readSafesFile, safesForChain } from './utils/safeList';
+
+// Load environment variables
+loadEnv();
+
+const USAGE = "Usage: doctor [--safes <a,b>] [--file <file>] [--from-indexer] [--db <file>] [--chains <c,...>] [--expected-version <v>] [--json]";
+
+const GREEN = '🟢';
+const RED = '🔴';
+
+function printMatrix(chainKeys: ChainKey[], healths: Map<ChainKey, ChainHealth | Error>, safes: Address[]): void {
+  const cell = (value: string) => value.padEnd(12);
+  const rowLabel = (value: string) => value.padEnd(44);
+
+  console.log(`\n${rowLabel('')}${chainKeys.map(cell).join('')}`);
+
+  CHAIN_CHECKS.forEach(check => {
+    const cells = chainKeys.map(key => {
+      const health = healths.get(key)!;
+      return cell(health instanceof Error ? RED : health.checks[check].ok ? GREEN : RED);
+    });
+    console.log(`${rowLabel(check)}${cells.join('')}`);
+  });
+
+  if (safes.length > 0) {
+    console.log(`\n${rowLabel(`Safe (${SAFE_CHECKS.join(' / ')})`)}`);
+  }
+  safes.forEach(safe => {
+    const cells = chainKeys.map(key => {
+      const health = healths.get(key)!;
+      if (health instanceof Error) return cell(RED);
+      const result = health.safes[safe];
+      if (!result) return cell('-');
+      return cell(SAFE_CHECKS.map(check => result[check].ok ? GREEN : RED).join(''));
+    });
+    console.log(`${rowLabel(safe)}${cells.join('')}`);
+  });
+}
+
+function printFailures(healths: Map<ChainKey, ChainHealth | Error>): void {
+  const lines: string[] = [];
+  healths.forEach((health, key) => {
+    if (health instanceof Error) {
+      lines.push(`  ${key}: ${health.message}`);
+      return;
+    }
+    CHAIN_CHECKS.forEach(check => {
+      if (!health.checks[check].ok) lines.push(`  ${key} ${check}: ${health.checks[check].detail}`);
+    });
+    Object.entries(health.safes).forEach(([safe, result]) => {
+      // Checks after "deployed" repeat "not deployed"
+      const failed = result.deployed.ok ? SAFE_CHECKS.filter(check => !result[check].ok) : ['deployed' as const];
+      failed.forEach(check => lines.push(`  ${key} ${safe} ${check}: ${result[check].detail}`));
+    });
+  });
+
+  if (lines.length > 0) {
+    console.log("\n❌ Failures:");
+    lines.forEach(line => console.log(line));
+  }
+}
+
+async function main() {
+  const { values } = parseCommandLine({
+    safes: { type: 'string' },
+    file: { type: 'string' },
+    'from-indexer': { type: 'boolean' },
+    db: { type: 'string' },
+    chains: { type: 'string' },
+    'expected-version': { type: 'string' },
+    json: { type: 'boolean' },
+  });
+
+  const chainKeys = values.chains
+    ? [...new Set(values.chains.split(',').map(key => getChainConfig(key.trim()).key))]
+    : CHAIN_KEYS.filter(key => process.env[getChainConfig(key).rpcUrlEnv]?.trim());
+  if (chainKeys.length === 0) {
+    throw new Error(`No chain configured: set an RPC URL (${CHAIN_KEYS.map(key => getChainConfig(key).rpcUrlEnv).join(', ')}) or pass --chains\n${USAGE}`);
+  }
+
+  const list = emptySafeList();
+  if (values.safes) addSafes(list, 'ALL', '--safes', values.safes.split(',').filter(item => item.trim()));
+  if (values.file) readSafesFile(list, values.file);
+  if (values['from-indexer']) await readIndexedSafes(list, chainKeys, values.db);
+
+  const expectedVersion = values['expected-version'] ?? EXPECTED_MODULE_VERSION;
+
+  if (!values.json) {
+    console.log(`🩺 Module health check (${chainKeys.join(', ')})`);
+    console.log("==================================");
+    console.log(`Expected version: ${expectedVersion}`);
+  }
+
+  const healths = new Map<ChainKey, ChainHealth | Error>();
+  const allSafes = new Set<Address>();
+  for (const key of chainKeys) {
+    const safes = safesForChain(list, key);
+    safes.forEach(safe => allSafes.add(safe));
+    try {
+      healths.set(key, await checkChainHealth(getReadOnlyClients(key), safes, { expectedVersion }));
+    } catch (error: any) {
+      healths.set(key, new Error(error?.shortMessage ?? error?.message ?? String(error)));
+    }
+  }
+
+  if (values.json) {
+    const report = Object.fromEntries([...healths].map(([key, health]) =>
+      [key, health instanceof Error ? { chain: key, ok: false, error: health.message } : health]
+    ));
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    if (allSafes.size === 0) {
+      console.log("No Safes given (--safes, --file, --from-indexer): checking the deployments only");
+    }
+    printMatrix(chainKeys, healths, [...allSafes]);
+    printFailures(healths);
+  }
+
+  const failed = [...healths].filter(([, health]) => health instanceof Error || !health.ok).map(([key]) => key);
+  if (failed.length > 0) {
+    throw new Error(`Health check failed on: ${failed.join(', ')}`);
+  }
+  if (!values.json) {
+    console.log("\n✅ All checks passed");
+  }
+}
+
+runCli(main);
@@ -0,0 +1,117 @@
+/**
+ * Audit Log Indexer CLI
+ *
+ * Indexes TargetRegistry and GuardedExecModuleUpgradeable events into a local
+ * SQLite audit log (see indexer/db.ts) and exports them. Events are labeled
+ * from the chain manifest (protocolData), e.g. "whitelisted: Aave V3 USDC supply".
+ *
+ * USAGE:
+ *   pnpm indexer sync --chain base|arbitrum|plasma|sonic [--from-block <n>] [--to-block <n>] [--confirmations <n>]
+ *   pnpm indexer export --chain <chain> [--format csv|json] [--event <Name,...>] [--contract registry|module]
+ *                       [--since <date>] [--until <date>] [--out <file>]
+ *
+ * sync   - pulls new events in resumable block ranges. The first run starts at
+ *          --from-block, or at the contract's deployment block (archive RPC).
+ * export - writes the stored events, oldest first (default: <chain>-events.<format>
+ *          next to the database)
+ *
+ * --db <file> (or INDEXER_DB) selects the database; default audit-log/audit.sqlite.
+ */
+
+import { writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { getChainConfig, getReadOnlyClients } from './utils/chains';
+import { loadEnv, parseCommandLine, runCli } from './utils/cli';
+import { auditDbPath, openAuditDatabase, queryEvents } from './indexer/db';
+import { AuditContract } from './indexer/events';
+import { EXPORT_FORMATS, ExportFormat, formatAuditLog } from './indexer/export';
+import { syncAuditLog } from './indexer/sync';
+
+// Load environment variables
+loadEnv();
+
+const USAGE = "Usage: indexer <sync|export> --chain <chain> [--from-block <n>] [--format csv|json] [--out <file>]";
+
+/**
+ * Parse a --since/--until date (ISO date or unix seconds) into unix seconds
+ */
+function parseTime(flag: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const seconds = /^\d+$/.test(value) ? Number(value) : Math.floor(Date.parse(value) / 1000);
+  if (Number.isNaN(seconds)) {
+    throw new Error(`--${flag} must be a date or unix timestamp (got "${value}")`);
+  }
+  return seconds;
+}
+
+async function main() {
+  const { values, positionals } = parseCommandLine({
+    chain: { type: 'string' },
+    db: { type: 'string' },
+    'from-block': { type: 'string' },
+    'to-block': { type: 'string' },
+    confirmations: { type: 'string' },
+    format: { type: 'string', default: 'csv' },
+    event: { type: 'string' },
+    contract: { type: 'string' },
+    since: { type: 'string' },
+    until: { type: 'string' },
+    out: { type: 'string' },
+  });
+
+  const [action] = positionals;
+  if (!['sync', 'export'].includes(action)) {
+    throw new Error(USAGE);
+  }
+
+  const dbPath = values.db ?? auditDbPath();
+  const db = openAuditDatabase(dbPath);
+
+  try {
+    if (action === 'sync') {
+      const clients = getReadOnlyClients(values.chain);
+      console.log(`📚 Indexer sync (${clients.config.name} Chain)`);
+      console.log("==================================\n");
+      console.log("Database:", dbPath);
+
+      const summary = await syncAuditLog(clients, db, {
+        fromBlock: values['from-block'] !== undefined ? BigInt(values['from-block']) : undefined,
+        toBlock: values['to-block'] !== undefined ? BigInt(values['to-block']) : undefined,
+        confirmations: values.confirmations !== undefined ? BigInt(values.confirmations) : undefined,
+      });
+
+      console.log("\n📋 Summary:");
+      Object.entries(summary).forEach(([contract, result]) => {
+        console.log(result
+          ? `  ${contract}: ${result.inserted} new event(s), indexed through block ${result.toBlock}`
+          : `  ${contract}: up to date`);
+      });
+      return;
+    }
+
+    const format = values.format as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      throw new Error(`--format must be one of: ${EXPORT_FORMATS.join(', ')}`);
+    }
+    if (values.contract !== undefined && !['registry', 'module'].includes(values.contract)) {
+      throw new Error("--contract must be registry or module");
+    }
+
+    const config = getChainConfig(values.chain);
+    const rows = queryEvents(db, {
+      chainId: config.chain.id,
+      contract: values.contract as AuditContract | undefined,
+      eventNames: values.event?.split(',').map(name => name.trim()).filter(Boolean),
+      since: parseTime('since', values.since),
+      until: parseTime('until', values.until),
+    });
+
+    const out = values.out ?? join(dirname(dbPath), `${config.key}-events.${format}`);
+    writeFileSync(out, formatAuditLog(rows, format));
+    console.log(`💾 ${rows.length} event(s) written to ${out}`);
+  } finally {
+    db.close();
+  }
+}
+
+runCli(main);
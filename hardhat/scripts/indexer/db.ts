@@ -0,0 +1,187 @@
+/**
+ * Audit Log Database
+ *
+ * SQLite store of the indexed events (better-sqlite3). One row per log,
+ * keyed by chain, transaction hash and log index so re-indexing a range is
+ * harmless; one cursor per chain and contract records the last indexed block,
+ * which is where the next sync resumes.
+ *
+ * Default location: hardhat/audit-log/audit.sqlite (INDEXER_DB to override).
+ */
+
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { Address, getAddress } from 'viem';
+import { AuditContract, AuditEvent } from './events';
+
+export type AuditDatabase = Database.Database;
+
+/**
+ * Event row as returned by queries (args decoded from JSON)
+ */
+export interface AuditLogRow {
+  chainId: number;
+  contract: AuditContract;
+  address: Address;
+  blockNumber: number;
+  blockTimestamp: number;
+  txHash: string;
+  txFrom: string | null;
+  logIndex: number;
+  eventName: string;
+  args: Record<string, unknown>;
+  label: string;
+}
+
+/**
+ * Filters for queryEvents (all optional, combined with AND)
+ */
+export interface AuditLogFilter {
+  chainId?: number;
+  contract?: AuditContract;
+  eventNames?: string[];
+  /** Unix seconds, inclusive */
+  since?: number;
+  /** Unix seconds, exclusive */
+  until?: number;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS events (
+    chain_id        INTEGER NOT NULL,
+    contract        TEXT    NOT NULL,
+    address         TEXT    NOT NULL,
+    block_number    INTEGER NOT NULL,
+    block_timestamp INTEGER NOT NULL,
+    tx_hash         TEXT    NOT NULL,
+    tx_from         TEXT,
+    log_index       INTEGER NOT NULL,
+    event_name      TEXT    NOT NULL,
+    args            TEXT    NOT NULL,
+    label           TEXT    NOT NULL,
+    PRIMARY KEY (chain_id, tx_hash, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_by_block ON events (chain_id, block_number, log_index);
+  CREATE INDEX IF NOT EXISTS events_by_name ON events (chain_id, event_name);
+
+  CREATE TABLE IF NOT EXISTS cursors (
+    chain_id   INTEGER NOT NULL,
+    address    TEXT    NOT NULL,
+    last_block INTEGER NOT NULL,
+    updated_at TEXT    NOT NULL,
+    PRIMARY KEY (chain_id, address)
+  );
+`;
+
+export function auditDbPath(): string {
+  return process.env.INDEXER_DB?.trim()
+    ? resolve(process.env.INDEXER_DB.trim())
+    : join(__dirname, '..', '..', 'audit-log', 'audit.sqlite');
+}
+
+/**
+ * Open (creating if needed) the audit log database
+ */
+export function openAuditDatabase(path: string = auditDbPath()): AuditDatabase {
+  mkdirSync(dirname(path), { recursive: true });
+  const db = new Database(path);
+  db.pragma('journal_mode = WAL');
+  db.exec(SCHEMA);
+  return db;
+}
+
+/**
+ * Last block indexed for a contract, if any
+ */
+export function getCursor(db: AuditDatabase, chainId: number, address: Address): bigint | undefined {
+  const row = db
+    .prepare('SELECT last_block FROM cursors WHERE chain_id = ? AND address = ?')
+    .get(chainId, getAddress(address)) as { last_block: number } | undefined;
+  return row ? BigInt(row.last_block) : undefined;
+}
+
+/**
+ * Store the events of a block range and move the cursor to its end, atomically
+ * @return number of new rows (events already stored are skipped)
+ */
+export function saveEventRange(
+  db: AuditDatabase,
+  chainId: number,
+  address: Address,
+  toBlock: bigint,
+  events: AuditEvent[]
+): number {
+  const insert = db.prepare(`
+    INSERT OR IGNORE INTO events
+      (chain_id, contract, address, block_number, block_timestamp, tx_hash, tx_from, log_index, event_name, args, label)
+    VALUES
+      (@chainId, @contract, @address, @blockNumber, @blockTimestamp, @txHash, @txFrom, @logIndex, @eventName, @args, @label)
+  `);
+  const cursor = db.prepare(`
+    INSERT INTO cursors (chain_id, address, last_block, updated_at) VALUES (?, ?, ?, ?)
+    ON CONFLICT (chain_id, address) DO UPDATE SET last_block = excluded.last_block, updated_at = excluded.updated_at
+  `);
+
+  return db.transaction(() => {
+    let inserted = 0;
+    for (const event of events) {
+      inserted += insert.run({
+        ...event,
+        address: getAddress(event.address),
+        blockNumber: Number(event.blockNumber),
+        args: JSON.stringify(event.args, (_, v) => typeof v === 'bigint' ? v.toString() : v),
+      }).changes;
+    }
+    cursor.run(chainId, getAddress(address), Number(toBlock), new Date().toISOString());
+    return inserted;
+  })();
+}
+
+/**
+ * Events matching a filter, oldest first
+ */
+export function queryEvents(db: AuditDatabase, filter: AuditLogFilter = {}): AuditLogRow[] {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  if (filter.chainId !== undefined) {
+    conditions.push('chain_id = ?');
+    params.push(filter.chainId);
+  }
+  if (filter.contract) {
+    conditions.push('contract = ?');
+    params.push(filter.contract);
+  }
+  if (filter.eventNames && filter.eventNames.length > 0) {
+    conditions.push(`event_name IN (${filter.eventNames.map(() => '?').join(', ')})`);
+    params.push(...filter.eventNames);
+  }
+  if (filter.since !== undefined) {
+    conditions.push('block_timestamp >= ?');
+    params.push(filter.since);
+  }
+  if (filter.until !== undefined) {
+    conditions.push('block_timestamp < ?');
+    params.push(filter.until);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const rows = db
+    .prepare(`SELECT * FROM events ${where} ORDER BY chain_id, block_number, log_index`)
+    .all(...params) as any[];
+
+  return rows.map(row => ({
+    chainId: row.chain_id,
+    contract: row.contract,
+    address: row.address,
+    blockNumber: row.block_number,
+    blockTimestamp: row.block_timestamp,
+    txHash: row.tx_hash,
+    txFrom: row.tx_from,
+    logIndex: row.log_index,
+    eventName: row.event_name,
+    args: JSON.parse(row.args),
+    label: row.label,
+  }));
+}
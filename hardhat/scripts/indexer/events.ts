@@ -0,0 +1,183 @@
+/**
+ * Audit Events
+ *
+ * Events indexed from TargetRegistry and GuardedExecModuleUpgradeable, and
+ * the labels attached to them from the chain manifest (protocolData): which
+ * protocol a whitelisted target+selector belongs to, which token a recipient
+ * was authorized for, which protocols a guarded batch touched.
+ */
+
+import { Address, Hex, getAddress, maxUint256, parseAbi } from 'viem';
+import { decodeParamRules, formatParamRule } from '../protocolData/paramRules';
+import { ChainManifest } from '../utils/chains';
+
+/**
+ * Contract an event was read from
+ */
+export type AuditContract = 'registry' | 'module';
+
+export const REGISTRY_AUDIT_EVENTS = parseAbi([
+  "event TargetSelectorAdded(address indexed target, bytes4 indexed selector)",
+  "event TargetSelectorRemoved(address indexed target, bytes4 indexed selector)",
+  "event ERC20TokenRecipientAuthorized(address indexed token, address indexed recipient, bool authorized)",
+  "event ApprovalCeilingSet(address indexed token, address indexed spender, uint256 ceiling)",
+  "struct ParamRule { uint32 offset; uint8 condition; bytes32 value; }",
+  "event ParamRulesSet(address indexed target, bytes4 indexed selector, ParamRule[] rules)",
+  "event TargetSelectorScheduled(bytes32 indexed operationId, address indexed target, bytes4 indexed selector, uint256 executeAfter)",
+  "event ERC20TokenRecipientScheduled(bytes32 indexed operationId, address indexed token, address indexed recipient, uint256 executeAfter)",
+  "event TimelockDelayDecreaseScheduled(bytes32 indexed operationId, uint256 newDelay, uint256 executeAfter)",
+  "event ApprovalCeilingScheduled(bytes32 indexed operationId, address indexed token, address indexed spender, uint256 ceiling, uint256 executeAfter)",
+  "event ParamRulesScheduled(bytes32 indexed operationId, address indexed target, bytes4 indexed selector, ParamRule[] rules, uint256 executeAfter)",
+  "event OperationExecuted(bytes32 indexed operationId)",
+  "event OperationCancelled(bytes32 indexed operationId)",
+  "event TimelockDelaySet(uint256 oldDelay, uint256 newDelay)",
+  "event Paused(address account)",
+  "event Unpaused(address account)",
+  "event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner)",
+  "event OwnershipTransferred(address indexed previousOwner, address indexed newOwner)",
+]);
+
+export const MODULE_AUDIT_EVENTS = parseAbi([
+  "event GuardedBatchExecuted(address indexed executor, address[] targets, bytes4[] selectors, uint256 timestamp)",
+  "event RegistryUpdated(address indexed oldRegistry, address indexed newRegistry)",
+  "event OutflowLimitSet(address indexed account, address indexed token, uint256 cap, uint256 window)",
+  "event Paused(address account)",
+  "event Unpaused(address account)",
+  "event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner)",
+  "event OwnershipTransferred(address indexed previousOwner, address indexed newOwner)",
+  "event Upgraded(address indexed implementation)",
+]);
+
+/**
+ * Decoded event as stored in the audit log
+ */
+export interface AuditEvent {
+  chainId: number;
+  contract: AuditContract;
+  address: Address;
+  blockNumber: bigint;
+  /** Unix seconds */
+  blockTimestamp: number;
+  txHash: Hex;
+  /** Sender of the transaction (null for GuardedBatchExecuted: the executor is in args) */
+  txFrom: Address | null;
+  logIndex: number;
+  eventName: string;
+  args: Record<string, unknown>;
+  label: string;
+}
+
+/**
+ * Builds the human-readable label of an event
+ */
+export type EventLabeler = (contract: AuditContract, eventName: string, args: Record<string, any>) => string;
+
+function formatTimestamp(seconds: bigint | number): string {
+  return new Date(Number(seconds) * 1000).toISOString();
+}
+
+function selectorKey(target: Address, selector: Hex): string {
+  return `${getAddress(target)}:${selector.toLowerCase()}`;
+}
+
+/**
+ * Labeler backed by the chain manifest
+ * @dev Every manifest entry is used, including removed ones, so past events stay labeled.
+ */
+export function createEventLabeler(manifest: ChainManifest): EventLabeler {
+  const selectors = new Map<string, string>();
+  const targets = new Map<string, string>();
+  const signatures = new Map<string, string>();
+  for (const entry of manifest.protocolManifest.entries) {
+    selectors.set(selectorKey(entry.target, entry.selector), entry.description);
+    signatures.set(selectorKey(entry.target, entry.selector), entry.signature);
+    targets.set(getAddress(entry.target), `${entry.protocol} ${entry.pool}`);
+  }
+  [...manifest.whitelistConfig, ...manifest.removeWhitelistConfig].forEach(item => {
+    const key = selectorKey(item.target, item.selector);
+    if (!selectors.has(key)) selectors.set(key, item.description);
+  });
+
+  const tokens = new Map<string, string>();
+  [...manifest.recipientConfig, ...manifest.removeRecipientConfig].forEach(item => {
+    tokens.set(getAddress(item.token), item.description);
+  });
+
+  const describeCall = (target: Address, selector: Hex) =>
+    selectors.get(selectorKey(target, selector))
+      ?? (targets.has(getAddress(target)) ? `${targets.get(getAddress(target))} ${selector}` : `unknown ${target} ${selector}`);
+
+  return (contract, eventName, args) => {
+    switch (eventName) {
+      case 'TargetSelectorAdded':
+        return `whitelisted: ${describeCall(args.target, args.selector)}`;
+      case 'TargetSelectorRemoved':
+        return `removed from whitelist: ${describeCall(args.target, args.selector)}`;
+      case 'ERC20TokenRecipientAuthorized':
+        return `${args.authorized ? "authorized" : "revoked"} ${args.recipient} for ${tokens.get(getAddress(args.token)) ?? args.token}`;
+      case 'ApprovalCeilingSet': {
+        const pair = `${targets.get(getAddress(args.token)) ?? args.token} → ${targets.get(getAddress(args.spender)) ?? args.spender}`;
+        const ceiling = BigInt(args.ceiling);
+        return ceiling === 0n
+          ? `approval ceiling removed: ${pair}`
+          : `approval ceiling ${pair}: ${ceiling === maxUint256 ? "must be used in the batch" : ceiling}`;
+      }
+      case 'ParamRulesSet': {
+        const rules = decodeParamRules(args.rules);
+        const signature = signatures.get(selectorKey(args.target, args.selector));
+        return rules.length === 0
+          ? `parameter rules removed: ${describeCall(args.target, args.selector)}`
+          : `parameter rules of ${describeCall(args.target, args.selector)}: ${rules.map(rule => formatParamRule(rule, signature)).join(', ')}`;
+      }
+      case 'TargetSelectorScheduled':
+        return `scheduled whitelisting of ${describeCall(args.target, args.selector)}, executable after ${formatTimestamp(args.executeAfter)}`;
+      case 'ERC20TokenRecipientScheduled':
+        return `scheduled authorization of ${args.recipient} for ${tokens.get(getAddress(args.token)) ?? args.token}, executable after ${formatTimestamp(args.executeAfter)}`;
+      case 'TimelockDelayDecreaseScheduled':
+        return `scheduled timelock delay decrease to ${args.newDelay}s, executable after ${formatTimestamp(args.executeAfter)}`;
+      case 'ApprovalCeilingScheduled': {
+        const pair = `${targets.get(getAddress(args.token)) ?? args.token} → ${targets.get(getAddress(args.spender)) ?? args.spender}`;
+        const ceiling = BigInt(args.ceiling);
+        const label = ceiling === 0n ? "removal" : ceiling === maxUint256 ? "must be used in the batch" : ceiling;
+        return `scheduled approval ceiling ${pair}: ${label}, executable after ${formatTimestamp(args.executeAfter)}`;
+      }
+      case 'ParamRulesScheduled': {
+        const rules = decodeParamRules(args.rules);
+        const signature = signatures.get(selectorKey(args.target, args.selector));
+        const label = rules.length === 0 ? "removal" : rules.map(rule => formatParamRule(rule, signature)).join(', ');
+        return `scheduled parameter rules of ${describeCall(args.target, args.selector)}: ${label}, executable after ${formatTimestamp(args.executeAfter)}`;
+      }
+      case 'OperationExecuted':
+        return `timelocked operation ${args.operationId} executed`;
+      case 'OperationCancelled':
+        return `timelocked operation ${args.operationId} cancelled`;
+      case 'TimelockDelaySet':
+        return BigInt(args.newDelay) === 0n
+          ? `timelock disabled (was ${args.oldDelay}s)`
+          : `timelock delay ${args.oldDelay}s → ${args.newDelay}s`;
+      case 'GuardedBatchExecuted':
+        return (args.targets as Address[])
+          .map((target, index) => describeCall(target, args.selectors[index]))
+          .join('; ');
+      case 'RegistryUpdated':
+        return `registry ${args.oldRegistry} → ${args.newRegistry}`;
+      case 'OutflowLimitSet': {
+        const token = targets.get(getAddress(args.token)) ?? args.token;
+        return BigInt(args.cap) === 0n
+          ? `${args.account} removed outflow limit for ${token}`
+          : `${args.account} outflow limit for ${token}: ${args.cap} per ${args.window}s`;
+      }
+      case 'Paused':
+      case 'Unpaused':
+        return `${contract} ${eventName.toLowerCase()} by ${args.account}`;
+      case 'OwnershipTransferStarted':
+        return `${contract} ownership transfer started: ${args.previousOwner} → ${args.newOwner} (pending acceptance)`;
+      case 'OwnershipTransferred':
+        return `${contract} ownership transferred: ${args.previousOwner} → ${args.newOwner}`;
+      case 'Upgraded':
+        return `module implementation upgraded to ${args.implementation}`;
+      default:
+        return eventName;
+    }
+  };
+}
@@ -0,0 +1,42 @@
+/**
+ * Audit Log Export
+ *
+ * CSV and JSON renderings of audit log rows. CSV keeps one row per event
+ * with the decoded arguments as a JSON column.
+ */
+
+import { AuditLogRow } from './db';
+
+export const EXPORT_FORMATS = ['csv', 'json'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+const CSV_COLUMNS: Array<keyof AuditLogRow | 'time'> = [
+  'chainId', 'contract', 'address', 'blockNumber', 'time', 'txHash', 'txFrom', 'logIndex', 'eventName', 'label', 'args',
+];
+
+function csvField(value: unknown): string {
+  const text = value === null || value === undefined
+    ? ''
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: AuditLogRow[]): string {
+  const lines = rows.map(row => CSV_COLUMNS
+    .map(column => csvField(column === 'time' ? new Date(row.blockTimestamp * 1000).toISOString() : row[column]))
+    .join(','));
+  return [CSV_COLUMNS.join(','), ...lines].join('\n') + '\n';
+}
+
+export function toJson(rows: AuditLogRow[]): string {
+  return JSON.stringify(
+    rows.map(row => ({ ...row, time: new Date(row.blockTimestamp * 1000).toISOString() })),
+    null,
+    2
+  ) + '\n';
+}
+
+export function formatAuditLog(rows: AuditLogRow[], format: ExportFormat): string {
+  return format === 'csv' ? toCsv(rows) : toJson(rows);
+}
@@ -0,0 +1,157 @@
+/**
+ * Audit Log Sync
+ *
+ * Pulls registry and module events in block ranges and stores them with
+ * saveEventRange, so an interrupted sync resumes from the last stored range.
+ * Ranges stop `confirmations` blocks behind the head to stay clear of reorgs.
+ */
+
+import { AbiEvent, Address, GetLogsReturnType, PublicClient, getAddress } from 'viem';
+import { ReadOnlyChainClients } from '../utils/chains';
+import { findDeploymentBlock, getLogsInChunks } from '../registry/reconcile';
+import { AuditDatabase, getCursor, saveEventRange } from './db';
+import {
+  AuditContract,
+  AuditEvent,
+  EventLabeler,
+  MODULE_AUDIT_EVENTS,
+  REGISTRY_AUDIT_EVENTS,
+  createEventLabeler,
+} from './events';
+
+/**
+ * Blocks per stored range (one cursor update each)
+ */
+const SYNC_RANGE_SIZE = 50_000n;
+
+export const DEFAULT_CONFIRMATIONS = 12n;
+
+export interface SyncOptions {
+  /** First block when the contract has no cursor yet (default: its deployment block) */
+  fromBlock?: bigint;
+  /** Last block to index (default: head minus confirmations) */
+  toBlock?: bigint;
+  confirmations?: bigint;
+}
+
+/**
+ * Events stored per contract by a sync
+ */
+export type SyncSummary = Record<AuditContract, { fromBlock: bigint; toBlock: bigint; inserted: number } | null>;
+
+/**
+ * Log as returned by getLogs for the audit events of a contract
+ */
+type AuditLog = GetLogsReturnType<undefined, readonly AbiEvent[]>[number];
+
+/**
+ * Decode, label and date a batch of logs
+ * @dev Block timestamps and transaction senders are fetched once per block / transaction.
+ */
+async function toAuditEvents(
+  publicClient: PublicClient,
+  chainId: number,
+  contract: AuditContract,
+  logs: AuditLog[],
+  label: EventLabeler
+): Promise<AuditEvent[]> {
+  const timestamps = new Map<bigint, number>();
+  const senders = new Map<string, Address>();
+
+  for (const log of logs) {
+    if (!timestamps.has(log.blockNumber)) {
+      const block = await publicClient.getBlock({ blockNumber: log.blockNumber });
+      timestamps.set(log.blockNumber, Number(block.timestamp));
+    }
+    // Batch executions carry their executor; admin events need the transaction sender
+    if (log.eventName !== 'GuardedBatchExecuted' && !senders.has(log.transactionHash)) {
+      const tx = await publicClient.getTransaction({ hash: log.transactionHash });
+      senders.set(log.transactionHash, getAddress(tx.from));
+    }
+  }
+
+  return logs.map(log => {
+    // The audit events name every input, so args are keyed by name
+    const args = log.args as Record<string, unknown>;
+    return {
+      chainId,
+      contract,
+      address: getAddress(log.address),
+      blockNumber: log.blockNumber,
+      blockTimestamp: timestamps.get(log.blockNumber)!,
+      txHash: log.transactionHash,
+      txFrom: senders.get(log.transactionHash) ?? null,
+      logIndex: log.logIndex,
+      eventName: log.eventName,
+      args,
+      label: label(contract, log.eventName, args),
+    };
+  });
+}
+
+/**
+ * Index one contract from its cursor (or start block) up to toBlock
+ */
+async function syncContract(
+  clients: ReadOnlyChainClients,
+  db: AuditDatabase,
+  contract: AuditContract,
+  address: Address,
+  events: readonly AbiEvent[],
+  toBlock: bigint,
+  options: SyncOptions,
+  label: EventLabeler
+): Promise<SyncSummary[AuditContract]> {
+  const { publicClient, config } = clients;
+  const chainId = config.chain.id;
+
+  const cursor = getCursor(db, chainId, address);
+  let from: bigint;
+  if (cursor !== undefined) {
+    from = cursor + 1n;
+  } else if (options.fromBlock !== undefined) {
+    from = options.fromBlock;
+  } else {
+    console.log(`  🔍 Finding deployment block of the ${contract} (archive RPC needed)...`);
+    from = await findDeploymentBlock(publicClient, address);
+  }
+
+  if (from > toBlock) {
+    console.log(`  ✅ ${contract} ${address}: nothing to index up to block ${toBlock}`);
+    return null;
+  }
+
+  console.log(`  📥 ${contract} ${address}: blocks ${from} → ${toBlock}${cursor !== undefined ? " (resuming)" : ""}`);
+  const start = from;
+  let inserted = 0;
+  while (from <= toBlock) {
+    const end = from + SYNC_RANGE_SIZE - 1n < toBlock ? from + SYNC_RANGE_SIZE - 1n : toBlock;
+    const logs = await getLogsInChunks(publicClient, { address, events, fromBlock: from, toBlock: end });
+    const stored = saveEventRange(db, chainId, address, end, await toAuditEvents(publicClient, chainId, contract, logs, label));
+    inserted += stored;
+    console.log(`     ${from}-${end}: ${logs.length} log(s), ${stored} new`);
+    from = end + 1n;
+  }
+
+  return { fromBlock: start, toBlock, inserted };
+}
+
+/**
+ * Index the registry and module of a chain
+ */
+export async function syncAuditLog(
+  clients: ReadOnlyChainClients,
+  db: AuditDatabase,
+  options: SyncOptions = {}
+): Promise<SyncSummary> {
+  // Bypass viem's block number cache: a head read earlier in the process would leave blocks unindexed
+  const head = await clients.publicClient.getBlockNumber({ cacheTime: 0 });
+  const confirmed = head - (options.confirmations ?? DEFAULT_CONFIRMATIONS);
+  const toBlock = options.toBlock !== undefined && options.toBlock < confirmed ? options.toBlock : confirmed;
+  const label = createEventLabeler(clients.config.manifest);
+
+  return {
+    registry: await syncContract(clients, db, 'registry', clients.registryAddress, REGISTRY_AUDIT_EVENTS, toBlock, options, label),
+    module: await syncContract(clients, db, 'module', clients.moduleAddress, MODULE_AUDIT_EVENTS, toBlock, options, label),
+  };
+}
@@ -0,0 +1,108 @@
+/**
+ * Keystore CLI
+ *
+ * Manages the encrypted keys and secrets in hardhat/keystore/ (see
+ * utils/keystore.ts). Private keys and secrets are never printed; only
+ * aliases and addresses are shown.
+ *
+ * USAGE:
+ *   pnpm keystore list
+ *   pnpm keystore new <alias>
+ *   pnpm keystore import <alias> [--from-env BASE_PRIVATE_KEY]
+ *   pnpm keystore import-secret <alias> [--from-env PIMLICO_API_KEY]
+ *
+ * list   - aliases and addresses of the stored keys
+ * new    - generate a key directly into the keystore
+ * import - encrypt an existing key, read from a hidden prompt or from an
+ *          environment variable (to migrate the plaintext <CHAIN>_PRIVATE_KEY)
+ * import-secret - encrypt a secret that is not a key (bundler API key or URL)
+ *
+ * Scripts use a stored key once <CHAIN>_KEYSTORE_ALIAS (signer) or
+ * SESSION_KEY_ALIAS (session key) names it, and a stored secret once
+ * <NAME>_ALIAS names it (e.g. PIMLICO_API_KEY_ALIAS). The passphrase is read from
+ * KEYSTORE_PASSPHRASE_FILE or prompted for.
+ */
+
+import { Hex } from 'viem';
+import { loadEnv, parseCommandLine, runCli } from './utils/cli';
+import {
+  generateKeystoreKey,
+  importKeystoreKey,
+  importKeystoreSecret,
+  keystoreDir,
+  listKeystore,
+  promptHidden,
+} from './utils/keystore';
+
+// Load environment variables
+loadEnv();
+
+const ACTIONS = ['list', 'new', 'import', 'import-secret'];
+
+const USAGE = "Usage: keystore <list|new|import|import-secret> [<alias>] [--from-env <VARIABLE>]";
+
+async function main() {
+  const { values, positionals } = parseCommandLine({
+    'from-env': { type: 'string' },
+  });
+
+  const [action, alias] = positionals;
+  if (!ACTIONS.includes(action) || (action !== 'list' && !alias)) {
+    throw new Error(USAGE);
+  }
+
+  console.log(`🔐 Keystore ${action} (${keystoreDir()})`);
+  console.log("==================================\n");
+
+  if (action === 'list') {
+    const entries = listKeystore();
+    if (entries.length === 0) {
+      console.log("No keys stored");
+      return;
+    }
+    entries.forEach(entry => console.log(`  ${entry.alias.padEnd(24)} ${entry.address ?? '(secret)'}`));
+    return;
+  }
+
+  if (action === 'new') {
+    const entry = await generateKeystoreKey(alias);
+    console.log(`✅ Generated "${entry.alias}": ${entry.address}`);
+    return;
+  }
+
+  const fromEnv = values['from-env'];
+
+  if (action === 'import-secret') {
+    const secret = fromEnv ? process.env[fromEnv]?.trim() : (await promptHidden("🔑 Secret to import: ")).trim();
+    if (!secret) {
+      throw new Error(fromEnv ? `${fromEnv} is not set` : "Secret must not be empty");
+    }
+    const entry = await importKeystoreSecret(alias, secret);
+    console.log(`✅ Imported secret "${entry.alias}"`);
+    if (fromEnv) {
+      console.log(`   Remove ${fromEnv} from .env and set ${fromEnv}_ALIAS=${entry.alias}`);
+    }
+    return;
+  }
+
+  let privateKey: string | undefined;
+  if (fromEnv) {
+    privateKey = process.env[fromEnv]?.trim();
+    if (!privateKey) {
+      throw new Error(`${fromEnv} is not set`);
+    }
+  } else {
+    privateKey = (await promptHidden("🔑 Private key to import: ")).trim();
+  }
+  if (!privateKey.startsWith('0x')) {
+    privateKey = `0x${privateKey}`;
+  }
+
+  const entry = await importKeystoreKey(alias, privateKey as Hex);
+  console.log(`✅ Imported "${entry.alias}": ${entry.address}`);
+  if (fromEnv) {
+    console.log(`   Remove ${fromEnv} from .env and set the matching *_KEYSTORE_ALIAS=${entry.alias}`);
+  }
+}
+
+runCli(main);
@@ -0,0 +1,91 @@
+/**
+ * Token Outflow Limits CLI
+ *
+ * Sets and shows the per-token outflow limits a Safe enforces through the
+ * module (see module/limits.ts): every transfer/approve of a guarded batch
+ * counts against the token's cap within a fixed window.
+ *
+ * USAGE:
+ *   pnpm limits set --safe <address> --token <symbol|address> --cap <amount> --window <1d|24h|3600> [--chain <chain>] [--dry-run]
+ *   pnpm limits set --safe <address> --file <limits.json> [--chain <chain>] [--dry-run]
+ *   pnpm limits show --safe <address> [--token USDC,0x...] [--chain <chain>]
+ *
+ * set  - owner-signed UserOperation calling module.setOutflowLimits from the
+ *        Safe (needs the chain signer and its bundler, see utils/bundler.ts);
+ *        caps are in token units, --cap 0 removes a limit; --dry-run simulates
+ *        the call from the Safe and writes the unsigned UserOperation to dry-runs/
+ *        without unlocking the signer
+ * show - cap, window, spent and remaining amount per token, and when the
+ *        current window resets (every ERC20 token of the manifest by default)
+ *
+ * --chain defaults to base.
+ */
+
+import { getAddress, isAddress } from 'viem';
+import { limitsSet, limitsShow, parseCap, readLimitFile, resolveToken } from './module/limits';
+import { getReadOnlyClients } from './utils/chains';
+import { loadEnv, parseCommandLine, runCli } from './utils/cli';
+import { parseWindow } from './utils/window';
+
+// Load environment variables
+loadEnv();
+
+const USAGE = "Usage: limits <set|show> --safe <address> [--token <t>] [--cap <amount>] [--window <w>] [--file <limits.json>] [--chain <chain>] [--dry-run]";
+
+function printHeader(action: string, chainName: string): void {
+  console.log(`🚦 Outflow limits ${action} (${chainName} Chain)`);
+  console.log("==================================\n");
+}
+
+async function main() {
+  const { values, positionals } = parseCommandLine({
+    chain: { type: 'string', default: 'base' },
+    safe: { type: 'string' },
+    token: { type: 'string' },
+    cap: { type: 'string' },
+    window: { type: 'string' },
+    file: { type: 'string' },
+    'dry-run': { type: 'boolean' },
+  });
+
+  const [action] = positionals;
+  if (!['set', 'show'].includes(action)) {
+    throw new Error(USAGE);
+  }
+  if (!values.safe || !isAddress(values.safe)) {
+    throw new Error(`--safe must be an address\n${USAGE}`);
+  }
+  const safe = getAddress(values.safe);
+
+  if (action === 'show') {
+    const ctx = getReadOnlyClients(values.chain);
+    printHeader(action, ctx.config.name);
+    const tokens = values.token?.split(',').filter(item => item.trim()).map(item => resolveToken(ctx.config, item));
+    await limitsShow(ctx, safe, tokens);
+    return;
+  }
+
+  if (!values.file && !(values.token && values.cap !== undefined)) {
+    throw new Error(`set needs --file, or --token and --cap (and --window unless the cap is 0)\n${USAGE}`);
+  }
+
+  // The signer is unlocked only when the UserOperation is signed (never with --dry-run)
+  const ctx = getReadOnlyClients(values.chain);
+  printHeader(action, ctx.config.name);
+
+  let configs;
+  if (values.file) {
+    configs = await readLimitFile(ctx, values.file);
+  } else {
+    const token = resolveToken(ctx.config, values.token!);
+    const cap = await parseCap(ctx, token, values.cap!);
+    if (cap > 0n && !values.window) {
+      throw new Error(`--window is required with a non-zero cap\n${USAGE}`);
+    }
+    configs = [{ token, cap, window: cap === 0n ? 0 : parseWindow(values.window!) }];
+  }
+
+  await limitsSet(ctx, safe, configs, { dryRun: values['dry-run'] });
+}
+
+runCli(main);
@@ -0,0 +1,185 @@
+/**
+ * Protocol Manifest CLI
+ *
+ * Offline checks of the versioned protocol manifests
+ * (protocolData/manifests/<chain>.json). No RPC or private key is needed.
+ *
+ * USAGE:
+ *   pnpm manifest validate [--chain base|arbitrum|plasma|sonic]
+ *   pnpm manifest verify-selectors [--chain base|arbitrum|plasma|sonic]
+ *   pnpm manifest check [--chain base|arbitrum|plasma|sonic]
+ *
+ * validate         - schema validation (checksummed targets, selector/signature
+ *                    match, no duplicate target+selector, ...)
+ * verify-selectors - fails when a hex selector disagrees with its signature and
+ *                    lists selector collisions across protocols and chains
+ * check            - validate, then check the TS constants of protocolData/*data.ts
+ *                    (tokens, pools, SELECTORS) against the manifest
+ *
+ * Without --chain every manifest is processed.
+ */
+
+import { readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { parseCommandLine, runCli } from './utils/cli';
+import { checkConstantsAgainstManifest, formatManifestPath, safeParseManifest } from './protocolData/manifest';
+import { SelectorSource, findSelectorCollisions, findSelectorMismatches } from './protocolData/selectors';
+
+const MANIFESTS_DIR = join(__dirname, 'protocolData', 'manifests');
+
+/**
+ * Manifest keys (file names without .json) to process
+ */
+function manifestKeys(chain?: string): string[] {
+  const keys = readdirSync(MANIFESTS_DIR)
+    .filter(file => file.endsWith('.json'))
+    .map(file => file.slice(0, -'.json'.length))
+    .sort();
+
+  if (chain === undefined) return keys;
+  if (!keys.includes(chain)) {
+    throw new Error(`No manifest for chain "${chain}". Available: ${keys.join(', ')}`);
+  }
+  return [chain];
+}
+
+function readManifestJson(key: string): any {
+  return JSON.parse(readFileSync(join(MANIFESTS_DIR, `${key}.json`), 'utf8'));
+}
+
+/**
+ * Validate the manifest JSON of a chain, printing every issue
+ * @return true if the manifest is valid
+ */
+function validateChainManifest(key: string): boolean {
+  const result = safeParseManifest(readManifestJson(key));
+
+  if (!result.success) {
+    console.log(`❌ manifests/${key}.json: ${result.issues.length} issue(s)`);
+    result.issues.forEach(issue => console.log(`  - ${formatManifestPath(issue.path)}: ${issue.message}`));
+    return false;
+  }
+
+  const manifest = result.data;
+  const active = manifest.entries.filter(entry => entry.status === 'active').length;
+  console.log(`✅ manifests/${key}.json: version ${manifest.version}, ${active} active / ${manifest.entries.length - active} removed`);
+  return true;
+}
+
+/**
+ * Check the chain id and TS constants of a chain against its manifest
+ * @dev utils/chains.ts is loaded lazily: it imports (and validates) every
+ *      manifest, which would abort validate and verify-selectors on the
+ *      first invalid file instead of letting them report it.
+ * @return true if no errors were found
+ */
+async function checkChainConstants(key: string): Promise<boolean> {
+  const { getChainConfig } = await import('./utils/chains');
+  const config = getChainConfig(key);
+  const manifest = config.manifest.protocolManifest;
+
+  if (manifest.chainId !== config.chain.id) {
+    console.log(`❌ manifests/${key}.json: chainId ${manifest.chainId} does not match ${config.name} (${config.chain.id})`);
+    return false;
+  }
+
+  const { errors, warnings } = checkConstantsAgainstManifest(
+    manifest,
+    config.manifest as unknown as Record<string, unknown>
+  );
+
+  warnings.forEach(warning => console.log(`  ⚠️  ${warning}`));
+  if (errors.length > 0) {
+    console.log(`❌ ${config.manifestFile}: ${errors.length} constant(s) out of sync`);
+    errors.forEach(error => console.log(`  - ${error}`));
+    return false;
+  }
+
+  console.log(`✅ ${config.manifestFile}: constants match the manifest`);
+  return true;
+}
+
+/**
+ * Verify hex selectors against their signatures and list collisions
+ * @return number of mismatching selectors
+ */
+function verifySelectors(keys: string[]): number {
+  const sources: SelectorSource[] = [];
+  for (const key of keys) {
+    const entries: any[] = readManifestJson(key).entries ?? [];
+    entries.forEach((entry, index) => sources.push({
+      source: `${key}.entries[${index}]`,
+      protocol: entry.protocol,
+      signature: entry.signature,
+      selector: entry.selector,
+    }));
+  }
+
+  const mismatches = findSelectorMismatches(sources);
+  console.log(`🔎 Signatures checked: ${sources.length}`);
+  if (mismatches.length === 0) {
+    console.log("✅ Every hex selector matches its signature");
+  } else {
+    console.log(`❌ ${mismatches.length} selector(s) disagree with their signature:`);
+    mismatches.forEach(mismatch => {
+      console.log(`  - ${mismatch.source} (${mismatch.protocol}): ${mismatch.signature}`);
+      console.log(`      selector ${mismatch.selector}, expected ${mismatch.expected}`);
+    });
+  }
+
+  const collisions = findSelectorCollisions(sources);
+  console.log();
+  if (collisions.length === 0) {
+    console.log("✅ No selector collisions across protocols");
+  } else {
+    console.log(`⚠️  ${collisions.length} selector collision(s) across protocols:`);
+    collisions.forEach(collision => {
+      console.log(`  ${collision.selector}`);
+      collision.signatures.forEach(({ signature, declaredIn }) => {
+        const protocols = [...new Set(declaredIn.map(source => source.protocol))].join(', ');
+        console.log(`    - ${signature} (${protocols}; ${declaredIn.map(source => source.source).join(', ')})`);
+      });
+    });
+  }
+
+  return mismatches.length;
+}
+
+async function main() {
+  const { values, positionals } = parseCommandLine({
+    chain: { type: 'string' },
+  });
+
+  const [action] = positionals;
+  if (action !== 'validate' && action !== 'check' && action !== 'verify-selectors') {
+    throw new Error("Usage: manifest <validate|verify-selectors|check> [--chain <chain>]");
+  }
+
+  const keys = manifestKeys(values.chain);
+
+  console.log(`📜 Protocol manifest ${action}`);
+  console.log("==================================\n");
+
+  if (action === 'verify-selectors') {
+    const mismatches = verifySelectors(keys);
+    if (mismatches > 0) {
+      throw new Error(`${mismatches} selector(s) disagree with their signature`);
+    }
+    return;
+  }
+
+  let failed = 0;
+  for (const key of keys) {
+    console.log(`🔗 ${key}`);
+    // Constants are only meaningful once the manifest itself is valid
+    const ok = validateChainManifest(key) && (action === 'validate' || await checkChainConstants(key));
+    if (!ok) failed++;
+    console.log();
+  }
+
+  if (failed > 0) {
+    throw new Error(`${failed} chain(s) failed the manifest ${action}`);
+  }
+}
+
+runCli(main);
@@ -0,0 +1,286 @@
+/**
+ * ERC20 Allowance Scanner
+ *
+ * Reads allowance(safe, spender) of every ERC20 token of the chain manifest
+ * for every target of the manifest (active and removed entries), and flags
+ * the allowances the current registry policy would not grant:
+ *
+ * - unwhitelisted: the spender is no longer a whitelisted target
+ * - above-ceiling: the allowance exceeds the approval ceiling of the
+ *   token+spender, or is left over under a 'batch' ceiling (must be used up)
+ *
+ * Flagged allowances are revoked with a guarded batch of approve(spender, 0)
+ * calls. The module accepts revocations for any spender since 2.3.0; older
+ * modules reject revocations of spenders that are not whitelisted.
+ */
+
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { Address, Hex, erc20Abi, formatUnits, getAddress, maxUint256 } from 'viem';
+import { encodeExecuteGuardedBatch } from '../adapters';
+import { approve } from '../adapters/erc20';
+import { Execution } from '../adapters/types';
+import { ReadOnlyChainClients } from '../utils/chains';
+import { dryRunDir } from '../utils/dryRun';
+import { GUARDED_EXEC_MODULE_ABI, TARGET_REGISTRY_ABI } from '../utils/utils';
+import { manifestTokens } from './decoder';
+import { isModuleVersionAtLeast } from './health';
+import { GuardedBatchVerdict, validateGuardedBatch } from './preflight';
+
+/**
+ * First module version that accepts approve(spender, 0) for any spender
+ */
+export const REVOKE_ANY_SPENDER_MIN_VERSION = '2.3.0';
+
+export const REVOKE_PAYLOAD_VERSION = 1;
+
+export type AllowanceIssue = 'unwhitelisted' | 'above-ceiling';
+
+/**
+ * Non-zero allowance of a Safe
+ */
+export interface AllowanceEntry {
+  token: Address;
+  symbol: string;
+  decimals?: number;
+  spender: Address;
+  /** Protocol and pool of the spender in the manifest */
+  label: string;
+  allowance: bigint;
+  whitelisted: boolean;
+  /** Registry ceiling: 0n = none, maxUint256 = must be used within the batch */
+  ceiling: bigint;
+  issue?: AllowanceIssue;
+}
+
+/**
+ * Allowances of the Safes on one chain
+ */
+export interface AllowanceScan {
+  chain: string;
+  chainId: number;
+  module: Address;
+  registry: Address;
+  tokens: number;
+  spenders: number;
+  safes: Record<Address, AllowanceEntry[]>;
+  /** Reads that failed (token without allowance(), Safe not deployed...) */
+  warnings: string[];
+}
+
+/**
+ * executeGuardedBatch revoking the flagged allowances of one Safe
+ */
+export interface RevokePayload {
+  version: number;
+  chain: string;
+  chainId: number;
+  safe: Address;
+  createdAt: string;
+  revocations: Array<Pick<AllowanceEntry, 'token' | 'symbol' | 'spender' | 'label' | 'allowance' | 'issue'>>;
+  executions: Execution[];
+  /** Call the Safe makes (through a session key or an owner) */
+  call: { to: Address; value: bigint; functionName: 'executeGuardedBatch'; data: Hex };
+  preflight: { ok: boolean; revert?: GuardedBatchVerdict['revert']; warnings: string[] };
+}
+
+/**
+ * Every target of the manifest (spender -> "protocol pool")
+ */
+function manifestSpenders(ctx: ReadOnlyChainClients): Map<Address, string> {
+  const spenders = new Map<Address, string>();
+  for (const entry of ctx.config.manifest.protocolManifest.entries) {
+    const target = getAddress(entry.target);
+    if (!spenders.has(target) || entry.status === 'active') {
+      spenders.set(target, `${entry.protocol} ${entry.pool}${entry.status === 'removed' ? ' (removed)' : ''}`);
+    }
+  }
+  return spenders;
+}
+
+function classify(allowance: bigint, whitelisted: boolean, ceiling: bigint): AllowanceIssue | undefined {
+  if (!whitelisted) return 'unwhitelisted';
+  if (ceiling === maxUint256) return 'above-ceiling';
+  if (ceiling !== 0n && allowance > ceiling) return 'above-ceiling';
+  return undefined;
+}
+
+/**
+ * Non-zero allowances of each Safe to the manifest targets, with the registry
+ * policy they are checked against
+ */
+export async function scanAllowances(ctx: ReadOnlyChainClients, safes: Address[]): Promise<AllowanceScan> {
+  const { publicClient, moduleAddress } = ctx;
+  const warnings: string[] = [];
+
+  const symbols = manifestTokens(ctx.config.manifest);
+  const tokens = [...symbols.keys()];
+  const labels = manifestSpenders(ctx);
+  const spenders = [...labels.keys()];
+
+  // Policy of the registry the module enforces
+  let registry = ctx.registryAddress;
+  try {
+    registry = getAddress(await publicClient.readContract({ address: moduleAddress, abi: GUARDED_EXEC_MODULE_ABI, functionName: 'registry' }));
+  } catch {
+    warnings.push(`Could not read registry() from module ${moduleAddress}, using ${registry}`);
+  }
+
+  const [whitelisted, decimals] = await Promise.all([
+    publicClient.multicall({
+      allowFailure: false,
+      contracts: spenders.map(spender => ({ address: registry, abi: TARGET_REGISTRY_ABI, functionName: 'whitelistedTargets', args: [spender] })),
+    }),
+    publicClient.multicall({
+      allowFailure: true,
+      contracts: tokens.map(token => ({ address: token, abi: erc20Abi, functionName: 'decimals' })),
+    }),
+  ]) as [boolean[], Array<{ status: string; result?: number }>];
+
+  const scan: AllowanceScan = {
+    chain: ctx.config.key,
+    chainId: ctx.config.chain.id,
+    module: moduleAddress,
+    registry,
+    tokens: tokens.length,
+    spenders: spenders.length,
+    safes: {},
+    warnings,
+  };
+
+  for (const safe of safes) {
+    const pairs = tokens.flatMap((token, t) => spenders.map((spender, s) => ({ token, t, spender, s })));
+    const results: any[] = await publicClient.multicall({
+      allowFailure: true,
+      contracts: pairs.map(({ token, spender }) => ({ address: token, abi: erc20Abi, functionName: 'allowance', args: [safe, spender] })),
+    });
+
+    const failedTokens = new Set<Address>();
+    const granted = pairs
+      .map((pair, i) => {
+        if (results[i].status !== 'success') failedTokens.add(pair.token);
+        return { ...pair, allowance: results[i].status === 'success' ? results[i].result as bigint : 0n };
+      })
+      .filter(pair => pair.allowance > 0n);
+    failedTokens.forEach(token => warnings.push(`${safe}: allowance() of ${symbols.get(token)} (${token}) failed for some spenders`));
+
+    // Registries without approval ceilings fail the read (no ceiling)
+    const ceilings: any[] = granted.length > 0
+      ? await publicClient.multicall({
+        allowFailure: true,
+        contracts: granted.map(({ token, spender }) => ({ address: registry, abi: TARGET_REGISTRY_ABI, functionName: 'approvalCeilings', args: [token, spender] })),
+      })
+      : [];
+
+    scan.safes[safe] = granted.map((pair, i): AllowanceEntry => {
+      const ceiling = ceilings[i].status === 'success' ? ceilings[i].result as bigint : 0n;
+      return {
+        token: pair.token,
+        symbol: symbols.get(pair.token)!,
+        decimals: decimals[pair.t].status === 'success' ? Number(decimals[pair.t].result) : undefined,
+        spender: pair.spender,
+        label: labels.get(pair.spender)!,
+        allowance: pair.allowance,
+        whitelisted: whitelisted[pair.s],
+        ceiling,
+        issue: classify(pair.allowance, whitelisted[pair.s], ceiling),
+      };
+    });
+  }
+
+  return scan;
+}
+
+/**
+ * approve(spender, 0) for every flagged allowance
+ */
+export function buildRevokeBatch(entries: AllowanceEntry[]): Execution[] {
+  return entries
+    .filter(entry => entry.issue)
+    .flatMap(entry => approve({ token: entry.token, spender: entry.spender, amount: 0n }));
+}
+
+/**
+ * Revoke batch of a Safe, checked against the module (pre-flight and version)
+ * @return undefined when nothing is flagged
+ */
+export async function buildRevokePayload(
+  ctx: ReadOnlyChainClients,
+  safe: Address,
+  entries: AllowanceEntry[]
+): Promise<RevokePayload | undefined> {
+  const flagged = entries.filter(entry => entry.issue);
+  if (flagged.length === 0) return undefined;
+
+  const executions = buildRevokeBatch(flagged);
+  const verdict = await validateGuardedBatch(executions, safe, ctx);
+  const warnings = [...verdict.warnings];
+
+  if (flagged.some(entry => !entry.whitelisted)) {
+    const version: string = await ctx.publicClient
+      .readContract({ address: ctx.moduleAddress, abi: GUARDED_EXEC_MODULE_ABI, functionName: 'version' })
+      .catch(() => 'unknown');
+    if (!isModuleVersionAtLeast(version, REVOKE_ANY_SPENDER_MIN_VERSION)) {
+      warnings.push(`Module is version ${version}: revoking spenders that are not whitelisted needs ${REVOKE_ANY_SPENDER_MIN_VERSION} (UnauthorizedERC20Approve otherwise)`);
+    }
+  }
+
+  return {
+    version: REVOKE_PAYLOAD_VERSION,
+    chain: ctx.config.key,
+    chainId: ctx.config.chain.id,
+    safe,
+    createdAt: new Date().toISOString(),
+    revocations: flagged.map(({ token, symbol, spender, label, allowance, issue }) => ({ token, symbol, spender, label, allowance, issue })),
+    executions,
+    call: { to: ctx.moduleAddress, value: 0n, functionName: 'executeGuardedBatch', data: encodeExecuteGuardedBatch(executions) },
+    preflight: { ok: verdict.ok, revert: verdict.revert, warnings },
+  };
+}
+
+/**
+ * Write a revoke payload as JSON (bigints as decimal strings)
+ * @param dir Default: hardhat/dry-runs
+ * @return path of the written file
+ */
+export function writeRevokePayload(payload: RevokePayload, dir: string = dryRunDir()): string {
+  mkdirSync(dir, { recursive: true });
+  const stamp = payload.createdAt.replace(/[:.]/g, '-');
+  const file = join(dir, `${payload.chain}-allowances-revoke-${payload.safe}-${stamp}.json`);
+  writeFileSync(file, JSON.stringify(payload, (_, v) => typeof v === 'bigint' ? v.toString() : v, 2) + '\n');
+  return file;
+}
+
+function formatAllowance(entry: AllowanceEntry): string {
+  if (entry.allowance === maxUint256) return `unlimited ${entry.symbol}`;
+  return entry.decimals !== undefined
+    ? `${formatUnits(entry.allowance, entry.decimals)} ${entry.symbol}`
+    : `${entry.allowance} (${entry.symbol} base units)`;
+}
+
+function describeIssue(entry: AllowanceEntry): string {
+  if (entry.issue === 'unwhitelisted') return "spender not whitelisted";
+  if (entry.ceiling === maxUint256) return "left over under a batch ceiling";
+  return `above ceiling ${entry.decimals !== undefined ? formatUnits(entry.ceiling, entry.decimals) : entry.ceiling} ${entry.symbol}`;
+}
+
+/**
+ * Print the allowances of each Safe (flagged ones first)
+ */
+export function displayAllowanceScan(scan: AllowanceScan): void {
+  console.log("Module:", scan.module);
+  console.log("Registry:", scan.registry);
+  console.log(`Checked ${scan.tokens} token(s) x ${scan.spenders} spender(s) per Safe`);
+
+  Object.entries(scan.safes).forEach(([safe, entries]) => {
+    const flagged = entries.filter(entry => entry.issue);
+    console.log(`\n${flagged.length > 0 ? "🚩" : "✅"} ${safe}: ${entries.length} allowance(s), ${flagged.length} flagged`);
+    [...flagged, ...entries.filter(entry => !entry.issue)].forEach(entry => {
+      const icon = entry.issue ? "❌" : "  ";
+      const issue = entry.issue ? ` – ${describeIssue(entry)}` : '';
+      console.log(`  ${icon} ${formatAllowance(entry)} → ${entry.label} (${entry.spender})${issue}`);
+    });
+  });
+
+  scan.warnings.forEach(warning => console.log(`\n⚠️  ${warning}`));
+}
@@ -0,0 +1,383 @@
+/**
+ * Guarded Batch Decoder
+ *
+ * Turns calldata that reaches GuardedExecModuleUpgradeable back into readable
+ * actions, e.g. "AAVE Pool USDC – supply(asset=USDC, amount=1000 USDC, onBehalfOf=Safe, referralCode=0)".
+ * Wrapper layers are unwrapped recursively:
+ *
+ * 1. EntryPoint v0.7 handleOps -> the callData of each UserOperation
+ * 2. ERC-7579 execute / executeFromExecutor (single, batch, delegatecall)
+ * 3. executeGuardedBatch -> each Execution
+ * 4. Morpho Bundler3 multicall -> each bundled call
+ *
+ * Leaf calls are decoded with the adapter ABIs (named parameters), falling back
+ * to the manifest signatures, and labeled from the chain manifest (protocolData).
+ */
+
+import {
+  AbiFunction,
+  Address,
+  Hex,
+  PublicClient,
+  decodeAbiParameters,
+  decodeFunctionData,
+  erc20Abi,
+  erc4626Abi,
+  formatUnits,
+  getAbiItem,
+  getAddress,
+  hexToBigInt,
+  isAddress,
+  isAddressEqual,
+  maxUint256,
+  parseAbi,
+  parseAbiItem,
+  size,
+  slice,
+  toFunctionSelector,
+  toFunctionSignature,
+} from 'viem';
+import { entryPoint07Address } from 'viem/account-abstraction';
+import { AAVE_POOL_ABI } from '../adapters/aave';
+import { COMET_ABI } from '../adapters/compoundV3';
+import { DOLOMITE_ROUTER_ABI } from '../adapters/dolomite';
+import { MERKL_DISTRIBUTOR_ABI } from '../adapters/merkl';
+import { MTOKEN_ABI } from '../adapters/moonwell';
+import { MORPHO_BUNDLER3_ABI, MORPHO_GENERAL_ADAPTER_ABI } from '../adapters/morpho';
+import { SILO_REWARDS_CLAIMER_ABI, SILO_ROUTER_ABI } from '../adapters/siloV2';
+import { ChainManifest } from '../utils/chains';
+import { GUARDED_EXEC_MODULE_ABI } from '../utils/utils';
+
+const ENTRY_POINT_ABI = parseAbi([
+  "struct PackedUserOperation { address sender; uint256 nonce; bytes initCode; bytes callData; bytes32 accountGasLimits; uint256 preVerificationGas; bytes32 gasFees; bytes paymasterAndData; bytes signature; }",
+  "function handleOps(PackedUserOperation[] ops, address beneficiary) external",
+]);
+
+const ERC7579_ACCOUNT_ABI = parseAbi([
+  "function execute(bytes32 mode, bytes executionCalldata) external payable",
+  "function executeFromExecutor(bytes32 mode, bytes executionCalldata) external payable returns (bytes[])",
+]);
+
+const HANDLE_OPS_SELECTOR = toFunctionSelector(getAbiItem({ abi: ENTRY_POINT_ABI, name: 'handleOps' }));
+const EXECUTE_SELECTORS = [
+  toFunctionSelector(getAbiItem({ abi: ERC7579_ACCOUNT_ABI, name: 'execute' })),
+  toFunctionSelector(getAbiItem({ abi: ERC7579_ACCOUNT_ABI, name: 'executeFromExecutor' })),
+];
+const EXECUTE_GUARDED_BATCH_SELECTOR = toFunctionSelector(getAbiItem({ abi: GUARDED_EXEC_MODULE_ABI, name: 'executeGuardedBatch' }));
+const BUNDLER3_MULTICALL_SELECTOR = toFunctionSelector(getAbiItem({ abi: MORPHO_BUNDLER3_ABI, name: 'multicall' }));
+
+/**
+ * ERC-7579 call types (first byte of the execution mode)
+ */
+const CALLTYPE_SINGLE = 0x00;
+const CALLTYPE_BATCH = 0x01;
+const CALLTYPE_DELEGATECALL = 0xff;
+
+/**
+ * ABIs with parameter names, in lookup priority order
+ */
+const KNOWN_ABIS = [
+  GUARDED_EXEC_MODULE_ABI,
+  AAVE_POOL_ABI,
+  COMET_ABI,
+  MTOKEN_ABI,
+  MORPHO_BUNDLER3_ABI,
+  MORPHO_GENERAL_ADAPTER_ABI,
+  SILO_ROUTER_ABI,
+  SILO_REWARDS_CLAIMER_ABI,
+  DOLOMITE_ROUTER_ABI,
+  MERKL_DISTRIBUTOR_ABI,
+  erc20Abi,
+  erc4626Abi,
+] as const;
+
+/**
+ * What the decoder knows about the chain and the account
+ */
+export interface DecoderContext {
+  manifest: ChainManifest;
+  /** Account executing the batch, shown as "Safe" (defaults to the UserOperation sender) */
+  account?: Address;
+  moduleAddress?: Address;
+  /** Token decimals by checksummed address (see loadTokenDecimals); amounts stay raw without them */
+  tokenDecimals?: Map<Address, number>;
+}
+
+export interface DecodedArg {
+  name: string;
+  type: string;
+  value: unknown;
+  display: string;
+}
+
+/**
+ * One decoded call, with the calls it wraps
+ */
+export interface DecodedCall {
+  target: Address;
+  value: bigint;
+  data: Hex;
+  selector: Hex | null;
+  functionName?: string;
+  args?: DecodedArg[];
+  /** e.g. "AAVE Pool USDC – supply(asset=USDC, amount=1000 USDC, ...)" */
+  label: string;
+  /** target+selector is an entry of the chain manifest */
+  inManifest: boolean;
+  calls?: DecodedCall[];
+}
+
+interface ManifestIndex {
+  /** "<target>:<selector>" -> entry description without the trailing "fn()" */
+  selectors: Map<string, string>;
+  /** target -> "<protocol> <pool>" */
+  targets: Map<Address, string>;
+  /** token -> symbol (ERC20 entries) */
+  tokens: Map<Address, string>;
+  /** selector -> function item from the manifest signatures (named where the manifest names them) */
+  signatures: Map<Hex, AbiFunction>;
+}
+
+const functionsBySelector = new Map<Hex, AbiFunction>();
+for (const abi of KNOWN_ABIS) {
+  for (const item of abi as readonly any[]) {
+    if (item.type !== 'function') continue;
+    const selector = toFunctionSelector(item);
+    if (!functionsBySelector.has(selector)) functionsBySelector.set(selector, item);
+  }
+}
+
+const manifestIndexes = new WeakMap<ChainManifest, ManifestIndex>();
+
+function indexManifest(manifest: ChainManifest): ManifestIndex {
+  const cached = manifestIndexes.get(manifest);
+  if (cached) return cached;
+
+  const index: ManifestIndex = { selectors: new Map(), targets: new Map(), tokens: new Map(), signatures: new Map() };
+  for (const entry of manifest.protocolManifest.entries) {
+    const target = getAddress(entry.target);
+    index.selectors.set(`${target}:${entry.selector.toLowerCase()}`, entry.description.replace(/\s*-?\s*\w+\(\)$/, ''));
+    index.targets.set(target, `${entry.protocol} ${entry.pool}`);
+    if (entry.protocol === 'ERC20') index.tokens.set(target, entry.pool);
+    if (!index.signatures.has(entry.selector)) {
+      index.signatures.set(entry.selector, parseAbiItem(entry.signature) as AbiFunction);
+    }
+  }
+  manifestIndexes.set(manifest, index);
+  return index;
+}
+
+function describeAddress(ctx: DecoderContext, index: ManifestIndex, address: Address): string {
+  const checksummed = getAddress(address);
+  if (ctx.account && isAddressEqual(checksummed, ctx.account)) return 'Safe';
+  if (ctx.moduleAddress && isAddressEqual(checksummed, ctx.moduleAddress)) return 'GuardedExecModule';
+  if (isAddressEqual(checksummed, entryPoint07Address)) return 'EntryPoint';
+  return index.tokens.get(checksummed) ?? index.targets.get(checksummed) ?? checksummed;
+}
+
+function formatAmount(ctx: DecoderContext, index: ManifestIndex, amount: bigint, token: Address | undefined): string {
+  if (amount === maxUint256) return 'max';
+  if (!token) return amount.toString();
+  const symbol = index.tokens.get(token)!;
+  const decimals = ctx.tokenDecimals?.get(token);
+  return decimals !== undefined ? `${formatUnits(amount, decimals)} ${symbol}` : `${amount} (${symbol} base units)`;
+}
+
+function formatArg(ctx: DecoderContext, index: ManifestIndex, type: string, name: string, value: unknown, amountToken?: Address): string {
+  if (type === 'address' && typeof value === 'string') return describeAddress(ctx, index, value as Address);
+  if (type.startsWith('uint') && typeof value === 'bigint') {
+    return /^(amount|assets|value|wad)$/i.test(name) ? formatAmount(ctx, index, value, amountToken) : (value === maxUint256 ? 'max' : value.toString());
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value, (_, v) => typeof v === 'bigint' ? v.toString() : v);
+  }
+  return String(value);
+}
+
+/**
+ * Label and arguments of a call that is not a wrapper
+ */
+function decodeLeaf(ctx: DecoderContext, target: Address, value: bigint, data: Hex): DecodedCall {
+  const index = indexManifest(ctx.manifest);
+  const selector = size(data) >= 4 ? slice(data, 0, 4).toLowerCase() as Hex : null;
+  const key = `${target}:${selector}`;
+  const prefix = index.selectors.get(key) ?? index.targets.get(target) ?? describeAddress(ctx, index, target);
+  const inManifest = index.selectors.has(key);
+
+  if (!selector) {
+    return { target, value, data, selector, label: `${prefix} – (no calldata, value ${value})`, inManifest };
+  }
+
+  const item = functionsBySelector.get(selector) ?? index.signatures.get(selector);
+  if (!item) {
+    return { target, value, data, selector, label: `${prefix} – unknown function ${selector}`, inManifest };
+  }
+
+  let decodedArgs: readonly unknown[];
+  try {
+    decodedArgs = decodeFunctionData({ abi: [item], data }).args ?? [];
+  } catch {
+    return { target, value, data, selector, label: `${prefix} – ${toFunctionSignature(item)} (undecodable arguments)`, inManifest };
+  }
+
+  // Amounts are in units of the target token, or of the first token passed as argument
+  const amountToken = index.tokens.has(target)
+    ? target
+    : item.inputs
+      .map((input, i) => input.type === 'address' && isAddress(decodedArgs[i] as string) ? getAddress(decodedArgs[i] as Address) : undefined)
+      .find(address => address !== undefined && index.tokens.has(address));
+
+  const args = item.inputs.map((input, i) => {
+    const name = input.name || `arg${i}`;
+    return {
+      name,
+      type: input.type,
+      value: decodedArgs[i],
+      display: formatArg(ctx, index, input.type, name, decodedArgs[i], amountToken),
+    };
+  });
+  const valueSuffix = value > 0n ? ` {value: ${value}}` : '';
+  return {
+    target,
+    value,
+    data,
+    selector,
+    functionName: item.name,
+    args,
+    label: `${prefix} – ${item.name}(${args.map(arg => `${arg.name}=${arg.display}`).join(', ')})${valueSuffix}`,
+    inManifest,
+  };
+}
+
+/**
+ * Inner calls of an ERC-7579 execution (mode + executionCalldata)
+ */
+function decodeExecutionCalldata(mode: Hex, executionCalldata: Hex): { callType: string; calls: Array<{ target: Address; value: bigint; data: Hex }> } {
+  const callType = Number(hexToBigInt(slice(mode, 0, 1)));
+  if (callType === CALLTYPE_SINGLE) {
+    return {
+      callType: 'single',
+      calls: [{
+        target: getAddress(slice(executionCalldata, 0, 20)),
+        value: hexToBigInt(slice(executionCalldata, 20, 52)),
+        data: size(executionCalldata) > 52 ? slice(executionCalldata, 52) : '0x',
+      }],
+    };
+  }
+  if (callType === CALLTYPE_BATCH) {
+    const [executions] = decodeAbiParameters(
+      [{ type: 'tuple[]', components: [{ name: 'target', type: 'address' }, { name: 'value', type: 'uint256' }, { name: 'callData', type: 'bytes' }] }],
+      executionCalldata
+    );
+    return { callType: 'batch', calls: executions.map(e => ({ target: getAddress(e.target), value: e.value, data: e.callData })) };
+  }
+  if (callType === CALLTYPE_DELEGATECALL) {
+    return {
+      callType: 'delegatecall',
+      calls: [{ target: getAddress(slice(executionCalldata, 0, 20)), value: 0n, data: size(executionCalldata) > 20 ? slice(executionCalldata, 20) : '0x' }],
+    };
+  }
+  throw new Error(`Unsupported ERC-7579 call type 0x${callType.toString(16)}`);
+}
+
+/**
+ * Decode a call, unwrapping EntryPoint, ERC-7579 account, guarded batch and Bundler3 layers
+ */
+export function decodeCall(ctx: DecoderContext, call: { target: Address; value?: bigint; data: Hex }): DecodedCall {
+  const target = getAddress(call.target);
+  const value = call.value ?? 0n;
+  const { data } = call;
+  const selector = size(data) >= 4 ? slice(data, 0, 4).toLowerCase() as Hex : null;
+  const base = { target, value, data, selector, inManifest: false };
+
+  try {
+    if (selector === HANDLE_OPS_SELECTOR) {
+      const { args: [ops] } = decodeFunctionData({ abi: ENTRY_POINT_ABI, data });
+      return {
+        ...base,
+        functionName: 'handleOps',
+        label: `EntryPoint – handleOps(${ops.length} UserOperation(s))`,
+        calls: ops.map(op => decodeCall({ ...ctx, account: ctx.account ?? getAddress(op.sender) }, { target: op.sender, data: op.callData })),
+      };
+    }
+
+    if (selector && EXECUTE_SELECTORS.includes(selector)) {
+      const { functionName, args: [mode, executionCalldata] } = decodeFunctionData({ abi: ERC7579_ACCOUNT_ABI, data });
+      const { callType, calls } = decodeExecutionCalldata(mode, executionCalldata);
+      const inner = { ...ctx, account: ctx.account ?? target };
+      return {
+        ...base,
+        functionName,
+        label: `${describeAddress(inner, indexManifest(ctx.manifest), target)} – ${functionName}(${callType}, ${calls.length} call(s))`,
+        calls: calls.map(c => decodeCall(inner, c)),
+      };
+    }
+
+    if (selector === EXECUTE_GUARDED_BATCH_SELECTOR) {
+      const { args } = decodeFunctionData({ abi: GUARDED_EXEC_MODULE_ABI, data });
+      const executions = args![0] as readonly { target: Address; value: bigint; callData: Hex }[];
+      const inner = { ...ctx, moduleAddress: ctx.moduleAddress ?? target };
+      return {
+        ...base,
+        functionName: 'executeGuardedBatch',
+        label: `GuardedExecModule – executeGuardedBatch(${executions.length} execution(s))`,
+        calls: executions.map(e => decodeCall(inner, { target: e.target, value: e.value, data: e.callData })),
+      };
+    }
+
+    if (selector === BUNDLER3_MULTICALL_SELECTOR) {
+      const leaf = decodeLeaf(ctx, target, value, data);
+      const { args: [bundle] } = decodeFunctionData({ abi: MORPHO_BUNDLER3_ABI, data });
+      return {
+        ...leaf,
+        label: `${leaf.label.split(' – ')[0]} – multicall(${bundle.length} call(s))`,
+        calls: bundle.map(c => decodeCall(ctx, { target: c.to, value: c.value, data: c.data })),
+      };
+    }
+  } catch (error) {
+    return { ...base, label: `${target} – undecodable wrapper ${selector}: ${(error as Error).message.split('\n')[0]}` };
+  }
+
+  return decodeLeaf(ctx, target, value, data);
+}
+
+/**
+ * Decode raw executeGuardedBatch calldata
+ */
+export function decodeGuardedBatchCalldata(ctx: DecoderContext, data: Hex): DecodedCall {
+  return decodeCall(ctx, { target: ctx.moduleAddress ?? '0x0000000000000000000000000000000000000000', data });
+}
+
+/**
+ * Indented tree of a decoded call; "⚠️" marks leaf calls missing from the manifest
+ */
+export function formatDecodedCall(call: DecodedCall, depth: number = 0): string[] {
+  const marker = !call.calls && call.selector && !call.inManifest ? " ⚠️ not in manifest" : '';
+  const lines = [`${'  '.repeat(depth)}- ${call.label}${marker}`];
+  call.calls?.forEach(inner => lines.push(...formatDecodedCall(inner, depth + 1)));
+  return lines;
+}
+
+/**
+ * ERC20 tokens of the manifest (address -> symbol)
+ */
+export function manifestTokens(manifest: ChainManifest): Map<Address, string> {
+  return indexManifest(manifest).tokens;
+}
+
+/**
+ * decimals() of every ERC20 token in the manifest (tokens that fail are skipped)
+ */
+export async function loadTokenDecimals(publicClient: PublicClient, manifest: ChainManifest): Promise<Map<Address, number>> {
+  const tokens = [...indexManifest(manifest).tokens.keys()];
+  const results = await publicClient.multicall({
+    allowFailure: true,
+    contracts: tokens.map(token => ({ address: token, abi: erc20Abi, functionName: 'decimals' as const })),
+  });
+
+  const decimals = new Map<Address, number>();
+  results.forEach((result, i) => {
+    if (result.status === 'success') decimals.set(tokens[i], Number(result.result));
+  });
+  return decimals;
+}
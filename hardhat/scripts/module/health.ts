@@ -0,0 +1,215 @@
+/**
+ * Module Installation Health Check
+ *
+ * Verifies that a chain's module deployment and a set of Safes are in the
+ * state the scripts expect:
+ *
+ * Chain (once per chain)
+ * - module registry() is the configured TargetRegistry
+ * - neither the module nor the registry is paused
+ * - the proxy's ERC-1967 implementation slot holds the expected implementation
+ *   (<CHAIN>_GUARDED_EXEC_MODULE_IMPL_ADDRESS, when set) and version() is the
+ *   expected version
+ *
+ * Safe (once per Safe and chain)
+ * - deployed
+ * - module proxy installed as executor
+ * - Smart Sessions installed as validator
+ *
+ * Each check is a cell of the red/green matrix printed by `pnpm doctor`.
+ */
+
+import { SMART_SESSIONS_ADDRESS } from '@rhinestone/module-sdk';
+import { Address, Hex, getAddress, isAddress, isAddressEqual, slice } from 'viem';
+import { ReadOnlyChainClients } from '../utils/chains';
+import {
+  ERC7579_ACCOUNT_ABI,
+  GUARDED_EXEC_MODULE_ABI,
+  MODULE_TYPE_EXECUTOR,
+  MODULE_TYPE_VALIDATOR,
+  TARGET_REGISTRY_ABI,
+} from '../utils/utils';
+
+/**
+ * version() of GuardedExecModuleUpgradeable in src/module
+ */
+export const EXPECTED_MODULE_VERSION = '2.4.0';
+
+/**
+ * Whether a module version() is at least major.minor of `minimum`
+ */
+export function isModuleVersionAtLeast(version: string, minimum: string): boolean {
+  const parts = (value: string) => value.split('.').map(part => Number.parseInt(part, 10) || 0);
+  const [major, minor] = parts(version);
+  const [minMajor, minMinor] = parts(minimum);
+  return major > minMajor || (major === minMajor && minor >= minMinor);
+}
+
+/**
+ * ERC-1967 implementation slot: bytes32(uint256(keccak256('eip1967.proxy.implementation')) - 1)
+ */
+export const ERC1967_IMPLEMENTATION_SLOT: Hex = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+
+export const CHAIN_CHECKS = ['registry', 'module-unpaused', 'registry-unpaused', 'implementation', 'version'] as const;
+export const SAFE_CHECKS = ['deployed', 'executor', 'smart-sessions'] as const;
+
+export type ChainCheck = typeof CHAIN_CHECKS[number];
+export type SafeCheck = typeof SAFE_CHECKS[number];
+
+/**
+ * Outcome of one check; detail says what was read when it fails
+ */
+export interface CheckResult {
+  ok: boolean;
+  detail?: string;
+}
+
+/**
+ * Health of a chain's module deployment and of the Safes on that chain
+ */
+export interface ChainHealth {
+  chain: string;
+  module: Address;
+  registry: Address;
+  /** Implementation read from the proxy's ERC-1967 slot */
+  implementation?: Address;
+  checks: Record<ChainCheck, CheckResult>;
+  safes: Record<Address, Record<SafeCheck, CheckResult>>;
+  ok: boolean;
+}
+
+/**
+ * Expectations beyond the chain configuration
+ */
+export interface HealthOptions {
+  /** Default: EXPECTED_MODULE_VERSION */
+  expectedVersion?: string;
+}
+
+function failure(error: any): CheckResult {
+  return { ok: false, detail: error?.shortMessage ?? error?.message ?? String(error) };
+}
+
+/**
+ * Registry, pause state, implementation and version of the module on a chain
+ */
+async function checkDeployment(
+  clients: ReadOnlyChainClients,
+  expectedVersion: string
+): Promise<{ checks: Record<ChainCheck, CheckResult>; implementation?: Address }> {
+  const { publicClient, config, moduleAddress, registryAddress } = clients;
+
+  const [registry, modulePaused, registryPaused, version] = await publicClient.multicall({
+    contracts: [
+      { address: moduleAddress, abi: GUARDED_EXEC_MODULE_ABI, functionName: 'registry' },
+      { address: moduleAddress, abi: GUARDED_EXEC_MODULE_ABI, functionName: 'paused' },
+      { address: registryAddress, abi: TARGET_REGISTRY_ABI, functionName: 'paused' },
+      { address: moduleAddress, abi: GUARDED_EXEC_MODULE_ABI, functionName: 'version' },
+    ],
+    allowFailure: true,
+  });
+
+  const checks = {} as Record<ChainCheck, CheckResult>;
+
+  checks.registry = registry.status === 'success'
+    ? isAddressEqual(registry.result, registryAddress)
+      ? { ok: true }
+      : { ok: false, detail: `module uses ${getAddress(registry.result)}, expected ${registryAddress}` }
+    : failure(registry.error);
+
+  checks['module-unpaused'] = modulePaused.status === 'success'
+    ? { ok: !modulePaused.result, detail: modulePaused.result ? "module is paused" : undefined }
+    : failure(modulePaused.error);
+
+  checks['registry-unpaused'] = registryPaused.status === 'success'
+    ? { ok: !registryPaused.result, detail: registryPaused.result ? "registry is paused" : undefined }
+    : failure(registryPaused.error);
+
+  checks.version = version.status === 'success'
+    ? { ok: version.result === expectedVersion, detail: version.result === expectedVersion ? undefined : `version ${version.result}, expected ${expectedVersion}` }
+    : failure(version.error);
+
+  let implementation: Address | undefined;
+  try {
+    const slot: Hex | undefined = await publicClient.getStorageAt({ address: moduleAddress, slot: ERC1967_IMPLEMENTATION_SLOT });
+    implementation = getAddress(slice(slot ?? `0x${'0'.repeat(64)}`, 12));
+    const expected = process.env[config.moduleImplementationEnv]?.trim();
+    if (BigInt(implementation) === 0n) {
+      checks.implementation = { ok: false, detail: "ERC-1967 implementation slot is empty (not a proxy?)" };
+    } else if (expected && isAddress(expected, { strict: false }) && !isAddressEqual(implementation, expected)) {
+      checks.implementation = { ok: false, detail: `implementation ${implementation}, expected ${getAddress(expected)}` };
+    } else {
+      checks.implementation = { ok: true, detail: expected ? undefined : `${config.moduleImplementationEnv} not set, not compared` };
+    }
+  } catch (error) {
+    checks.implementation = failure(error);
+  }
+
+  return { checks, implementation };
+}
+
+/**
+ * Deployment and module installation of each Safe on a chain
+ */
+async function checkSafes(
+  clients: ReadOnlyChainClients,
+  safes: Address[]
+): Promise<Record<Address, Record<SafeCheck, CheckResult>>> {
+  const { publicClient, moduleAddress } = clients;
+  const results: Record<Address, Record<SafeCheck, CheckResult>> = {};
+
+  for (const safe of safes) {
+    const code: Hex | undefined = await publicClient.getCode({ address: safe });
+    if (!code || code === '0x') {
+      const notDeployed = { ok: false, detail: "not deployed" };
+      results[safe] = { deployed: notDeployed, executor: notDeployed, 'smart-sessions': notDeployed };
+      continue;
+    }
+
+    const [executor, smartSessions] = await publicClient.multicall({
+      contracts: [
+        { address: safe, abi: ERC7579_ACCOUNT_ABI, functionName: 'isModuleInstalled', args: [MODULE_TYPE_EXECUTOR, moduleAddress, '0x'] },
+        { address: safe, abi: ERC7579_ACCOUNT_ABI, functionName: 'isModuleInstalled', args: [MODULE_TYPE_VALIDATOR, SMART_SESSIONS_ADDRESS, '0x'] },
+      ],
+      allowFailure: true,
+    });
+
+    // A Safe without the 7579 adapter reverts on isModuleInstalled
+    const installed = (call: typeof executor, what: string): CheckResult => call.status === 'success'
+      ? { ok: call.result as boolean, detail: call.result ? undefined : `${what} not installed` }
+      : { ok: false, detail: "isModuleInstalled reverted (not a Safe7579 account?)" };
+
+    results[safe] = {
+      deployed: { ok: true },
+      executor: installed(executor, "module"),
+      'smart-sessions': installed(smartSessions, "Smart Sessions"),
+    };
+  }
+
+  return results;
+}
+
+/**
+ * Run every chain and Safe check of one chain
+ */
+export async function checkChainHealth(
+  clients: ReadOnlyChainClients,
+  safes: Address[],
+  options: HealthOptions = {}
+): Promise<ChainHealth> {
+  const { checks, implementation } = await checkDeployment(clients, options.expectedVersion ?? EXPECTED_MODULE_VERSION);
+  const safeResults = await checkSafes(clients, safes);
+
+  const ok = Object.values(checks).every(check => check.ok) &&
+    Object.values(safeResults).every(result => Object.values(result).every(check => check.ok));
+
+  return {
+    chain: clients.config.key,
+    module: clients.moduleAddress,
+    registry: clients.registryAddress,
+    implementation,
+    checks,
+    safes: safeResults,
+    ok,
+  };
+}
@@ -0,0 +1,311 @@
+/**
+ * Token Outflow Limits
+ *
+ * Per-account caps on what a Safe can move out through the module: every
+ * transfer/approve amount of an executeGuardedBatch counts against the cap of
+ * its token within a fixed window (GuardedExecModuleUpgradeable 2.1.0+). The
+ * Safe configures its own limits by calling setOutflowLimits on the module.
+ *
+ * Limit files (`pnpm limits set --file`) are JSON arrays of
+ * { "token": "USDC" | "0x...", "cap": "1000", "window": "1d" }, with the cap
+ * in token units. A cap of 0 removes the limit.
+ */
+
+import { readFileSync } from 'fs';
+import {
+  Address,
+  BaseError,
+  encodeFunctionData,
+  erc20Abi,
+  formatUnits,
+  getAddress,
+  isAddress,
+  maxUint128,
+  parseUnits,
+} from 'viem';
+import { getUserOperationHash, entryPoint07Address } from 'viem/account-abstraction';
+import { ChainConfig, ReadOnlyChainClients, getDeferredSignerAccount } from '../utils/chains';
+import { confirmCountdown } from '../utils/cli';
+import { dryRunUserOperation } from '../utils/dryRun';
+import { getSafeAccountClients } from '../utils/safe';
+import { GUARDED_EXEC_MODULE_ABI } from '../utils/utils';
+import { formatWindow, parseWindow } from '../utils/window';
+import { manifestTokens } from './decoder';
+import { isModuleVersionAtLeast } from './health';
+
+/**
+ * First module version that enforces outflow limits
+ */
+export const OUTFLOW_LIMITS_MIN_VERSION = '2.1.0';
+
+/**
+ * One limit to set, in base units
+ */
+export interface OutflowLimitConfig {
+  token: Address;
+  cap: bigint;
+  /** Seconds */
+  window: number;
+}
+
+/**
+ * A limit as read from the module
+ */
+export interface OutflowLimitStatus {
+  token: Address;
+  symbol?: string;
+  decimals?: number;
+  /** 0 = no limit */
+  cap: bigint;
+  window: number;
+  windowStart: number;
+  /** Spent in the current window (0 once the window has ended) */
+  spent: bigint;
+  /** maxUint256 without a limit */
+  remaining: bigint;
+  /** End of the current window, when one is running */
+  resetsAt?: number;
+}
+
+/**
+ * Token address or manifest ERC20 symbol
+ */
+export function resolveToken(config: ChainConfig, value: string): Address {
+  const trimmed = value.trim();
+  if (isAddress(trimmed, { strict: false })) {
+    return getAddress(trimmed);
+  }
+  const matches = [...manifestTokens(config.manifest)].filter(([, symbol]) => symbol.toLowerCase() === trimmed.toLowerCase());
+  if (matches.length === 0) {
+    throw new Error(`Unknown token "${value}": not an address or an ERC20 symbol of the ${config.name} manifest`);
+  }
+  return matches[0][0];
+}
+
+/**
+ * Cap in token units -> base units (decimals() of the token)
+ */
+export async function parseCap(ctx: ReadOnlyChainClients, token: Address, cap: string): Promise<bigint> {
+  if (!/^\d+(\.\d+)?$/.test(cap.trim())) {
+    throw new Error(`Invalid cap "${cap}" for ${token}: use a token amount, e.g. 1000 or 0.5`);
+  }
+  const decimals = await ctx.publicClient.readContract({ address: token, abi: erc20Abi, functionName: 'decimals' });
+  const amount = parseUnits(cap.trim(), Number(decimals));
+  if (amount > maxUint128) {
+    throw new Error(`Cap ${cap} for ${token} does not fit uint128`);
+  }
+  return amount;
+}
+
+/**
+ * Read a limit file (see header) into configs
+ */
+export async function readLimitFile(ctx: ReadOnlyChainClients, file: string): Promise<OutflowLimitConfig[]> {
+  const parsed = JSON.parse(readFileSync(file, 'utf8'));
+  if (!Array.isArray(parsed)) {
+    throw new Error(`${file}: expected an array of { token, cap, window }`);
+  }
+  const configs: OutflowLimitConfig[] = [];
+  for (const [i, entry] of parsed.entries()) {
+    if (!entry || typeof entry.token !== 'string' || entry.cap === undefined) {
+      throw new Error(`${file}[${i}]: expected { token, cap, window }`);
+    }
+    const token = resolveToken(ctx.config, entry.token);
+    const cap = await parseCap(ctx, token, String(entry.cap));
+    configs.push({ token, cap, window: cap === 0n ? 0 : parseWindow(String(entry.window ?? '')) });
+  }
+  return configs;
+}
+
+/**
+ * Fail early when the module does not enforce outflow limits yet
+ */
+async function assertOutflowLimitsSupported(ctx: ReadOnlyChainClients): Promise<void> {
+  let version: string;
+  try {
+    version = await ctx.publicClient.readContract({ address: ctx.moduleAddress, abi: GUARDED_EXEC_MODULE_ABI, functionName: 'version' });
+  } catch {
+    throw new Error(`Could not read version() of the module at ${ctx.moduleAddress}`);
+  }
+  if (!isModuleVersionAtLeast(version, OUTFLOW_LIMITS_MIN_VERSION)) {
+    throw new Error(`Module at ${ctx.moduleAddress} is version ${version}: outflow limits need ${OUTFLOW_LIMITS_MIN_VERSION} or later`);
+  }
+}
+
+/**
+ * Limits of a Safe for the given tokens, with token symbol and decimals
+ */
+export async function getOutflowLimits(ctx: ReadOnlyChainClients, safe: Address, tokens: Address[]): Promise<OutflowLimitStatus[]> {
+  await assertOutflowLimitsSupported(ctx);
+
+  const results = await ctx.publicClient.multicall({
+    allowFailure: true,
+    contracts: tokens.flatMap(token => [
+      { address: ctx.moduleAddress, abi: GUARDED_EXEC_MODULE_ABI, functionName: 'outflowLimit' as const, args: [safe, token] as const },
+      { address: token, abi: erc20Abi, functionName: 'decimals' as const },
+    ]),
+  });
+  const symbols = manifestTokens(ctx.config.manifest);
+
+  return tokens.map((token, i) => {
+    const limit = results[i * 2];
+    const decimals = results[i * 2 + 1];
+    if (limit.status !== 'success') {
+      throw new Error(`outflowLimit(${safe}, ${token}) failed: ${limit.error instanceof BaseError ? limit.error.shortMessage : limit.error?.message}`);
+    }
+    // spent already reads 0 when the window has ended
+    const [stored, remaining] = limit.result as [{ cap: bigint; window: bigint; windowStart: bigint; spent: bigint }, bigint];
+    const window = Number(stored.window);
+    const windowStart = Number(stored.windowStart);
+
+    return {
+      token,
+      symbol: symbols.get(token),
+      decimals: decimals.status === 'success' ? Number(decimals.result) : undefined,
+      cap: stored.cap,
+      window,
+      windowStart,
+      spent: stored.spent,
+      remaining,
+      resetsAt: stored.cap > 0n && stored.spent > 0n ? windowStart + window : undefined,
+    };
+  });
+}
+
+/**
+ * setOutflowLimits call of the module (made by the Safe itself: limits are keyed by msg.sender)
+ */
+export function setOutflowLimitsCall(configs: OutflowLimitConfig[]) {
+  return {
+    abi: GUARDED_EXEC_MODULE_ABI,
+    functionName: 'setOutflowLimits' as const,
+    args: [configs.map(config => config.token), configs.map(config => config.cap), configs.map(config => BigInt(config.window))] as const,
+  };
+}
+
+function formatAmount(amount: bigint, decimals: number | undefined, symbol: string): string {
+  return decimals !== undefined ? `${formatUnits(amount, decimals)} ${symbol}` : `${amount} (${symbol} base units)`;
+}
+
+function describeConfig(config: OutflowLimitConfig, symbol: string, decimals?: number): string {
+  return config.cap === 0n
+    ? `${symbol}: no limit`
+    : `${symbol}: ${formatAmount(config.cap, decimals, symbol)} per ${formatWindow(config.window)}`;
+}
+
+/**
+ * Print the limits of a Safe (every manifest ERC20 token by default)
+ */
+export async function limitsShow(ctx: ReadOnlyChainClients, safe: Address, tokens?: Address[]): Promise<void> {
+  const list = tokens ?? [...manifestTokens(ctx.config.manifest).keys()];
+  if (list.length === 0) {
+    console.log("No tokens to check (no ERC20 entries in the manifest, pass --token)");
+    return;
+  }
+
+  const limits = await getOutflowLimits(ctx, safe, list);
+  const now = Math.floor(Date.now() / 1000);
+
+  console.log("Safe:", safe);
+  console.log("Module:", ctx.moduleAddress);
+
+  const limited = limits.filter(limit => limit.cap > 0n);
+  const unlimited = limits.filter(limit => limit.cap === 0n);
+
+  limited.forEach(limit => {
+    const symbol = limit.symbol ?? limit.token;
+    console.log(`\n🔒 ${symbol} (${limit.token})`);
+    console.log(`  Cap: ${formatAmount(limit.cap, limit.decimals, symbol)} per ${formatWindow(limit.window)}`);
+    console.log(`  Spent: ${formatAmount(limit.spent, limit.decimals, symbol)}`);
+    console.log(`  Remaining: ${formatAmount(limit.remaining, limit.decimals, symbol)}`);
+    console.log(limit.resetsAt
+      ? `  Window resets: ${new Date(limit.resetsAt * 1000).toISOString()} (in ${formatWindow(Math.max(limit.resetsAt - now, 0))})`
+      : "  Window: starts with the next outflow");
+  });
+
+  if (unlimited.length > 0) {
+    console.log(`\n🔓 No limit: ${unlimited.map(limit => limit.symbol ?? limit.token).join(', ')}`);
+  }
+}
+
+/**
+ * Set outflow limits of a Safe with an owner-signed UserOperation calling
+ * module.setOutflowLimits
+ * @dev The signer is unlocked when the UserOperation is signed, so --dry-run never unlocks it
+ */
+export async function limitsSet(
+  ctx: ReadOnlyChainClients,
+  safe: Address,
+  configs: OutflowLimitConfig[],
+  options: { dryRun?: boolean } = {}
+): Promise<void> {
+  if (configs.length === 0) {
+    throw new Error("No limits to set");
+  }
+  configs.forEach(config => {
+    if (config.cap > 0n && config.window === 0) {
+      throw new Error(`Window of ${config.token} must be greater than 0 (the module reverts InvalidOutflowWindow)`);
+    }
+  });
+
+  const current = await getOutflowLimits(ctx, safe, configs.map(config => config.token));
+
+  console.log("Limits to set:");
+  configs.forEach((config, i) => {
+    const limit = current[i];
+    const symbol = limit.symbol ?? limit.token;
+    console.log(`  ${describeConfig(limit, symbol, limit.decimals)} → ${describeConfig(config, symbol, limit.decimals).replace(`${symbol}: `, '')}`);
+  });
+
+  const call = setOutflowLimitsCall(configs);
+  const owner = getDeferredSignerAccount(ctx.config);
+  const { safeAccount, smartAccountClient, bundler } = await getSafeAccountClients({ ...ctx, account: owner }, safe);
+
+  const userOperation = await smartAccountClient.prepareUserOperation({
+    calls: [{ to: ctx.moduleAddress, value: 0n, data: encodeFunctionData(call) }],
+  });
+
+  if (options.dryRun) {
+    await dryRunUserOperation(ctx, {
+      name: 'limits-set',
+      description: `set ${configs.length} outflow limit(s) of ${safe}`,
+      call: { from: safe, to: ctx.moduleAddress, ...call },
+      expectedChanges: configs.map(config => `outflowLimit(${safe}, ${config.token}).cap: ${config.cap} per ${config.window}s`),
+    }, userOperation);
+    return;
+  }
+
+  userOperation.signature = await safeAccount.signUserOperation(userOperation);
+
+  const userOpHash = getUserOperationHash({
+    chainId: ctx.config.chain.id,
+    entryPointAddress: entryPoint07Address,
+    entryPointVersion: '0.7',
+    userOperation,
+  });
+  console.log("\nOwner-signed UserOperation:");
+  console.log("  Sender:", userOperation.sender);
+  console.log("  Nonce:", userOperation.nonce.toString());
+  console.log("  Signer:", owner.address);
+  console.log("  UserOperation hash:", userOpHash);
+
+  await confirmCountdown([
+    `This will change ${configs.length} outflow limit(s) of ${safe}!`,
+    "Guarded batches moving more than a cap within its window will revert.",
+  ]);
+
+  console.log("📤 Submitting UserOperation...");
+  const submittedHash = await smartAccountClient.sendUserOperation(userOperation);
+  console.log("  UserOperation hash:", submittedHash);
+
+  const receipt = await bundler.bundlerClient.waitForUserOperationReceipt({ hash: submittedHash });
+  console.log("  Transaction hash:", receipt.receipt.transactionHash);
+
+  const after = await getOutflowLimits(ctx, safe, configs.map(config => config.token));
+  after.forEach((limit, i) => {
+    if (limit.cap !== configs[i].cap || (configs[i].cap > 0n && limit.window !== configs[i].window)) {
+      throw new Error(`Outflow limit of ${limit.token} is ${limit.cap} per ${limit.window}s after the UserOperation, expected ${configs[i].cap} per ${configs[i].window}s`);
+    }
+  });
+  console.log(`\n✅ Outflow limits of ${getAddress(safe)} updated`);
+}
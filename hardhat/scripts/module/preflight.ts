@@ -0,0 +1,360 @@
+/**
+ * Guarded Batch Pre-flight Validation
+ *
+ * Reproduces the checks GuardedExecModuleUpgradeable.executeGuardedBatch runs
+ * before executing, so a batch can be rejected before a UserOperation is built
+ * instead of failing in bundler simulation or on-chain:
+ *
+ * 1. Batch not empty (EmptyBatch) and module not paused (EnforcedPause)
+ * 2. Calldata holds a selector (InvalidCalldata)
+ * 3. target+selector is whitelisted (TargetSelectorNotWhitelisted), and its
+ *    arguments satisfy the registry's parameter rules (ParamRuleViolated,
+ *    module 2.4.0+)
+ * 4. transfer/approve calldata is exactly 68 bytes (InvalidCalldata)
+ * 5. transfer recipient is the wallet, an allowed recipient for the token or
+ *    a Safe owner (UnauthorizedERC20Transfer)
+ * 6. approve spender is a whitelisted target (UnauthorizedERC20Approve);
+ *    approve(spender, 0) revocations skip 6 and 7 (module 2.3.0+)
+ * 7. approve amount is within the registry's approval ceiling for the
+ *    token+spender (ApprovalExceedsCeiling, module 2.2.0+)
+ * 8. transfer/approve amounts stay within the account's outflow limit of the
+ *    token, summed over the batch (OutflowLimitExceeded, module 2.1.0+)
+ *
+ * Approvals whose ceiling requires them to be used within the batch
+ * (ApprovalNotUsed) depend on what the batch executes: they are reported as
+ * warnings, not checked.
+ *
+ * Registry state is read with multicalls (module/Safe, then registry, parameter
+ * rules, approval ceilings and outflow limits) from the registry the module actually uses.
+ */
+
+import { Address, Hex, getAddress, hexToBigInt, isAddressEqual, maxUint256, pad, parseAbi, size, slice } from 'viem';
+import { Execution } from '../adapters/types';
+import { ParamRule, decodeParamRules } from '../protocolData/paramRules';
+import { ChainKey, ReadOnlyChainClients, getReadOnlyClients } from '../utils/chains';
+import { GUARDED_EXEC_MODULE_ABI, TARGET_REGISTRY_ABI } from '../utils/utils';
+
+export const TRANSFER_SELECTOR: Hex = '0xa9059cbb';
+export const APPROVE_SELECTOR: Hex = '0x095ea7b3';
+
+/**
+ * Calldata lengths enforced by the module
+ */
+const MIN_SELECTOR_LENGTH = 4;
+const ERC20_CALL_LENGTH = 68;
+
+const SAFE_ABI = parseAbi([
+  "function getOwners() external view returns (address[])",
+]);
+
+/**
+ * Module error an execution would revert with
+ */
+export type GuardedBatchError =
+  | { name: 'InvalidCalldata'; reason: string }
+  | { name: 'TargetSelectorNotWhitelisted'; target: Address; selector: Hex }
+  | { name: 'ParamRuleViolated'; target: Address; selector: Hex; offset: number }
+  | { name: 'UnauthorizedERC20Transfer'; token: Address; to: Address }
+  | { name: 'UnauthorizedERC20Approve'; token: Address; spender: Address }
+  | { name: 'ApprovalExceedsCeiling'; token: Address; spender: Address; amount: bigint; ceiling: bigint }
+  | { name: 'OutflowLimitExceeded'; token: Address; amount: bigint; remaining: bigint };
+
+/**
+ * Verdict for one execution of the batch
+ */
+export interface ExecutionVerdict {
+  index: number;
+  target: Address;
+  selector: Hex | null;
+  ok: boolean;
+  /** First check that fails, in the order the module runs them */
+  error?: GuardedBatchError;
+  /** Decoded transfer recipient / approve spender, when applicable */
+  recipient?: Address;
+  spender?: Address;
+}
+
+/**
+ * Verdict for the whole batch
+ */
+export interface GuardedBatchVerdict {
+  ok: boolean;
+  chainId: number;
+  account: Address;
+  module: Address;
+  registry: Address;
+  /** Batch-level revert (checked before any execution) */
+  batchError?: { name: 'EmptyBatch' } | { name: 'EnforcedPause' };
+  executions: ExecutionVerdict[];
+  /** What executeGuardedBatch would revert with (the first failing execution) */
+  revert?: { index: number; error: GuardedBatchError };
+  /** Non-fatal findings, e.g. configured registry differs from the module's */
+  warnings: string[];
+}
+
+/**
+ * Execution with its calldata split the way the module does
+ */
+interface ParsedExecution {
+  index: number;
+  target: Address;
+  callData: Hex;
+  length: number;
+  selector: Hex | null;
+  /** Address and amount arguments of a 68-byte transfer/approve */
+  counterparty?: Address;
+  amount?: bigint;
+}
+
+function parseExecution(execution: Execution, index: number): ParsedExecution {
+  const callData = execution.callData;
+  const length = size(callData);
+  const parsed: ParsedExecution = {
+    index,
+    target: getAddress(execution.target),
+    callData,
+    length,
+    selector: length >= MIN_SELECTOR_LENGTH ? slice(callData, 0, 4).toLowerCase() as Hex : null,
+  };
+
+  // Module reads bytes 16-35 (the low 20 bytes of the first argument word)
+  const isErc20Call = parsed.selector === TRANSFER_SELECTOR || parsed.selector === APPROVE_SELECTOR;
+  if (isErc20Call && length === ERC20_CALL_LENGTH) {
+    parsed.counterparty = getAddress(slice(callData, 16, 36));
+    parsed.amount = hexToBigInt(slice(callData, 36, 68));
+  }
+  return parsed;
+}
+
+/**
+ * Validate a batch against the module and registry state of a chain
+ * @param executions Batch to pass to executeGuardedBatch
+ * @param account Smart account that will call the module (msg.sender)
+ * @param chain Chain key, or read-only clients from getReadOnlyClients
+ */
+export async function validateGuardedBatch(
+  executions: Execution[],
+  account: Address,
+  chain: ChainKey | ReadOnlyChainClients
+): Promise<GuardedBatchVerdict> {
+  const clients = typeof chain === 'string' ? getReadOnlyClients(chain) : chain;
+  const { publicClient, moduleAddress } = clients;
+  const wallet = getAddress(account);
+  const warnings: string[] = [];
+
+  // Phase 1: module registry + paused flag, Safe owners
+  const [moduleRegistry, paused, owners] = await publicClient.multicall({
+    allowFailure: true,
+    contracts: [
+      { address: moduleAddress, abi: GUARDED_EXEC_MODULE_ABI, functionName: 'registry' },
+      { address: moduleAddress, abi: GUARDED_EXEC_MODULE_ABI, functionName: 'paused' },
+      { address: wallet, abi: SAFE_ABI, functionName: 'getOwners' },
+    ],
+  });
+
+  let registry = clients.registryAddress;
+  if (moduleRegistry.status === 'success') {
+    registry = getAddress(moduleRegistry.result);
+    if (!isAddressEqual(registry, clients.registryAddress)) {
+      warnings.push(`Module uses registry ${registry}, configuration has ${clients.registryAddress}`);
+    }
+  } else {
+    warnings.push(`Could not read registry() from module ${moduleAddress}, using ${registry}`);
+  }
+
+  // The module swallows isOwner failures, so a non-Safe account simply has no owners
+  const safeOwners: Address[] = owners.status === 'success' ? (owners.result as Address[]) : [];
+
+  const parsed = executions.map(parseExecution);
+
+  // Phase 2: registry lookups for every execution
+  const calls: any[] = [];
+  const lookups = parsed.map(execution => {
+    const lookup: { whitelist?: number; spender?: number; recipient?: number } = {};
+    if (!execution.selector) return lookup;
+
+    lookup.whitelist = calls.push({
+      address: registry, abi: TARGET_REGISTRY_ABI, functionName: 'whitelist',
+      args: [execution.target, execution.selector],
+    }) - 1;
+
+    if (execution.counterparty && execution.selector === APPROVE_SELECTOR) {
+      lookup.spender = calls.push({
+        address: registry, abi: TARGET_REGISTRY_ABI, functionName: 'whitelistedTargets',
+        args: [execution.counterparty],
+      }) - 1;
+    } else if (execution.counterparty && !isAddressEqual(execution.counterparty, wallet)) {
+      lookup.recipient = calls.push({
+        address: registry, abi: TARGET_REGISTRY_ABI, functionName: 'allowedERC20TokenRecipients',
+        args: [execution.target, execution.counterparty],
+      }) - 1;
+    }
+    return lookup;
+  });
+
+  const results: any[] = calls.length > 0
+    ? await publicClient.multicall({ allowFailure: false, contracts: calls })
+    : [];
+
+  // Parameter rules per target+selector; registries without them fail the read (no rules)
+  const ruleKeys = [...new Set(parsed.filter(execution => execution.selector).map(execution => `${execution.target}:${execution.selector}`))];
+  const ruleResults: any[] = ruleKeys.length > 0
+    ? await publicClient.multicall({
+      allowFailure: true,
+      contracts: ruleKeys.map(key => ({
+        address: registry, abi: TARGET_REGISTRY_ABI, functionName: 'getParamRules', args: key.split(':'),
+      })),
+    })
+    : [];
+  const paramRules = new Map<string, ParamRule[]>();
+  ruleKeys.forEach((key, i) => {
+    if (ruleResults[i].status === 'success') paramRules.set(key, decodeParamRules(ruleResults[i].result));
+  });
+
+  // Outflow limits of the tokens moved; modules before 2.1.0 have none (the read fails)
+  const limitedTokens = [...new Set(parsed.filter(execution => execution.amount !== undefined).map(execution => execution.target))];
+  const limitResults: any[] = limitedTokens.length > 0
+    ? await publicClient.multicall({
+      allowFailure: true,
+      contracts: limitedTokens.map(token => ({
+        address: moduleAddress, abi: GUARDED_EXEC_MODULE_ABI, functionName: 'outflowLimit', args: [wallet, token],
+      })),
+    })
+    : [];
+  const remaining = new Map<Address, bigint>();
+  limitedTokens.forEach((token, i) => {
+    if (limitResults[i].status === 'success') remaining.set(token, limitResults[i].result[1]);
+  });
+
+  // Approval ceilings; registries without them fail the read (no ceiling)
+  const approvals = parsed.filter(execution => execution.selector === APPROVE_SELECTOR && execution.counterparty);
+  const ceilingResults: any[] = approvals.length > 0
+    ? await publicClient.multicall({
+      allowFailure: true,
+      contracts: approvals.map(execution => ({
+        address: registry, abi: TARGET_REGISTRY_ABI, functionName: 'approvalCeilings', args: [execution.target, execution.counterparty],
+      })),
+    })
+    : [];
+  const ceilings = new Map<number, bigint>();
+  approvals.forEach((execution, i) => {
+    if (ceilingResults[i].status === 'success') ceilings.set(execution.index, ceilingResults[i].result);
+  });
+
+  const expectedAccount = pad(wallet);
+  const verdicts = parsed.map((execution, i): ExecutionVerdict => {
+    const lookup = lookups[i];
+    const verdict: ExecutionVerdict = {
+      index: execution.index,
+      target: execution.target,
+      selector: execution.selector,
+      ok: true,
+    };
+    const fail = (error: GuardedBatchError) => ({ ...verdict, ok: false, error });
+
+    if (!execution.selector) {
+      return fail({ name: 'InvalidCalldata', reason: `Calldata is ${execution.length} bytes, selector needs ${MIN_SELECTOR_LENGTH}` });
+    }
+    if (!results[lookup.whitelist!]) {
+      return fail({ name: 'TargetSelectorNotWhitelisted', target: execution.target, selector: execution.selector });
+    }
+
+    // Words past the end of the calldata fail the rule
+    const violated = (paramRules.get(`${execution.target}:${execution.selector}`) ?? []).find(rule => {
+      const start = MIN_SELECTOR_LENGTH + rule.offset;
+      if (execution.length < start + 32) return true;
+      const word = slice(execution.callData, start, start + 32).toLowerCase();
+      return word !== (rule.condition === 'account' ? expectedAccount : rule.value).toLowerCase();
+    });
+    if (violated) {
+      return fail({ name: 'ParamRuleViolated', target: execution.target, selector: execution.selector, offset: violated.offset });
+    }
+
+    if (execution.selector === TRANSFER_SELECTOR || execution.selector === APPROVE_SELECTOR) {
+      if (execution.length !== ERC20_CALL_LENGTH) {
+        return fail({ name: 'InvalidCalldata', reason: `ERC20 call is ${execution.length} bytes, expected ${ERC20_CALL_LENGTH}` });
+      }
+      const counterparty = execution.counterparty!;
+
+      if (execution.selector === APPROVE_SELECTOR) {
+        verdict.spender = counterparty;
+        if (execution.amount === 0n) return verdict;
+        if (!results[lookup.spender!]) {
+          return fail({ name: 'UnauthorizedERC20Approve', token: execution.target, spender: counterparty });
+        }
+        const ceiling = ceilings.get(execution.index) ?? 0n;
+        if (ceiling === maxUint256) {
+          warnings.push(`[${execution.index}] approve of ${execution.target} to ${counterparty} must be used up by the batch (ApprovalNotUsed otherwise)`);
+        } else if (ceiling !== 0n && execution.amount! > ceiling) {
+          return fail({ name: 'ApprovalExceedsCeiling', token: execution.target, spender: counterparty, amount: execution.amount!, ceiling });
+        }
+      } else {
+        verdict.recipient = counterparty;
+        const authorized =
+          isAddressEqual(counterparty, wallet) ||
+          results[lookup.recipient!] === true ||
+          safeOwners.some(owner => isAddressEqual(owner, counterparty));
+        if (!authorized) {
+          return fail({ name: 'UnauthorizedERC20Transfer', token: execution.target, to: counterparty });
+        }
+      }
+
+      // The module counts executions in order, earlier ones of the batch included
+      const left = remaining.get(execution.target);
+      if (left !== undefined) {
+        if (execution.amount! > left) {
+          return fail({ name: 'OutflowLimitExceeded', token: execution.target, amount: execution.amount!, remaining: left });
+        }
+        remaining.set(execution.target, left - execution.amount!);
+      }
+    }
+
+    return verdict;
+  });
+
+  let batchError: GuardedBatchVerdict['batchError'];
+  if (executions.length === 0) {
+    batchError = { name: 'EmptyBatch' };
+  } else if (paused.status === 'success' && paused.result) {
+    batchError = { name: 'EnforcedPause' };
+  }
+
+  const firstFailure = verdicts.find(verdict => !verdict.ok);
+
+  return {
+    ok: !batchError && !firstFailure,
+    chainId: clients.config.chain.id,
+    account: wallet,
+    module: moduleAddress,
+    registry,
+    batchError,
+    executions: verdicts,
+    revert: firstFailure ? { index: firstFailure.index, error: firstFailure.error! } : undefined,
+    warnings,
+  };
+}
+
+/**
+ * Print a verdict in the console format used by the scripts
+ */
+export function displayGuardedBatchVerdict(verdict: GuardedBatchVerdict): void {
+  console.log(`\n🛡️  Pre-flight (chain ${verdict.chainId}, account ${verdict.account})`);
+  console.log("  Module:", verdict.module);
+  console.log("  Registry:", verdict.registry);
+  verdict.warnings.forEach(warning => console.log(`  ⚠️  ${warning}`));
+
+  if (verdict.batchError) {
+    console.log(`  ❌ Batch rejected: ${verdict.batchError.name}`);
+  }
+
+  verdict.executions.forEach(execution => {
+    const icon = execution.ok ? "✅" : "❌";
+    console.log(`  ${icon} [${execution.index}] ${execution.target} ${execution.selector ?? "(no selector)"}`);
+    if (execution.error) {
+      const { name, ...details } = execution.error;
+      console.log(`       ${name} ${JSON.stringify(details, (_, value) => typeof value === 'bigint' ? value.toString() : value)}`);
+    }
+  });
+
+  console.log(verdict.ok ? "\n✅ Batch passes all module checks" : "\n❌ Batch would revert");
+}
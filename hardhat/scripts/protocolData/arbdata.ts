@@ -1,20 +1,36 @@
 /**
  * Whitelist Configuration Data
  * 
- * This file contains all whitelist configurations (targets + selectors).
+ * Targets and selectors live in the versioned manifest manifests/arbitrum.json
+ * (validated on import, see manifest.ts). whitelistConfig and
+ * removeWhitelistConfig are derived from its active and removed entries.
  * 
  * USAGE:
- * - Comment out items that are already whitelisted to maintain history
- * - Uncomment/add new items you want to whitelist
- * - Use the same format for both add and remove operations
+ * - Add new targets/selectors to manifests/arbitrum.json with status "active"
+ * - To remove an entry, set its status to "removed" and record the reason
+ * - Keep the constants below in sync (checked by `pnpm manifest check`)
  * 
  * TIPS:
- * - Keep commented items for reference/history
+ * - Never delete manifest entries, they are the whitelist history
  * - Add clear descriptions for each entry
  * - Group related targets together
  */
 
 import { Address } from 'viem';
+import { aave } from '../adapters/aave';
+import { compoundV3 } from '../adapters/compoundV3';
+import { batchApproval } from '../adapters/erc20';
+import { erc4626 } from '../adapters/erc4626';
+import manifestJson from './manifests/arbitrum.json';
+import {
+  ApprovalCeilingItem,
+  ParamRuleItem,
+  describeApprovals,
+  manifestToParamRuleItems,
+  manifestToWhitelistItems,
+  parseManifest,
+} from './manifest';
+import { selectorsFromSignatures } from './selectors';
 
 /**
  * ERC20 Token Addresses (Base Chain)
@@ -101,358 +117,138 @@ export interface WhitelistItem {
 }
 
 /**
- * Function Selectors
- * Calculate using: toFunctionSelector(getAbiItem({ abi: [...], name: 'functionName' }))
+ * ERC20 Recipient Item Interface
  */
-export const SELECTORS = {
+export interface RecipientItem {
+  token: Address;
+  recipients: Address[];
+  description: string;
+}
+
+/**
+ * Function Signatures
+ * Human-readable signatures, hashed into SELECTORS with toFunctionSelector.
+ */
+export const SIGNATURES = {
   // ERC20 functions
-  ERC20_APPROVE: '0x095ea7b3' as `0x${string}`, // approve(address,uint256)
-  ERC20_TRANSFER: '0xa9059cbb' as `0x${string}`, // transfer(address,uint256)
+  ERC20_APPROVE: 'function approve(address,uint256)',
+  ERC20_TRANSFER: 'function transfer(address,uint256)',
   
   // AAVE Pool functions
-  AAVE_SUPPLY: '0x617ba037' as `0x${string}`, // supply(address,uint256,address,uint16)
-  AAVE_WITHDRAW: '0x69328dec' as `0x${string}`, // withdraw(address,uint256,address)
+  AAVE_SUPPLY: 'function supply(address,uint256,address,uint16)',
+  AAVE_WITHDRAW: 'function withdraw(address,uint256,address)',
   
   // Compound V3 Pool functions (different from AAVE - uses 2 params instead of 3-4)
-  COMPOUND_V3_SUPPLY: '0xf2b9fdb8' as `0x${string}`, // supply(address,uint256)
-  COMPOUND_V3_WITHDRAW: '0xf3fef3a3' as `0x${string}`, // withdraw(address,uint256)
+  COMPOUND_V3_SUPPLY: 'function supply(address,uint256)',
+  COMPOUND_V3_WITHDRAW: 'function withdraw(address,uint256)',
   
   // Fluid, Spark, Wasabi & Morpho Pool functions (ERC4626 standard - same ABI)
-  ERC4626_DEPOSIT: '0x6e553f65' as `0x${string}`, // deposit(uint256,address)
-  ERC4626_WITHDRAW: '0xb460af94' as `0x${string}`, // withdraw(uint256,address,address)
+  ERC4626_DEPOSIT: 'function deposit(uint256,address)',
+  ERC4626_WITHDRAW: 'function withdraw(uint256,address,address)',
   
   // Harvest Autopilot uses redeem instead of withdraw
-  REDEEM: '0xba087652' as `0x${string}`, // redeem(uint256,address,address)
+  REDEEM: 'function redeem(uint256,address,address)',
   
   // Routing/Swap functions
-  ROUTE_SINGLE: '0xb94c3609' as `0x${string}`, // routeSingle(...)
+  ROUTE_SINGLE: 'function routeSingle((uint8,bytes),bytes)',
   
   // Morpho Adapter functions
-  MORPHO_ADAPTER_ERC4626_DEPOSIT: '0x6ef5eeae' as `0x${string}`, // erc4626Deposit(address,uint256,uint256,address)
-  MORPHO_ADAPTER_ERC4626_REDEEM: '0xa7f6e606' as `0x${string}`, // erc4626Redeem(address,uint256,uint256,address,address)
+  MORPHO_ADAPTER_ERC4626_DEPOSIT: 'function erc4626Deposit(address,uint256,uint256,address)',
+  MORPHO_ADAPTER_ERC4626_REDEEM: 'function erc4626Redeem(address,uint256,uint256,address,address)',
   
   // Morpho Bundler functions
-  MORPHO_BUNDLER_MULTICALL: '0x374f435d' as `0x${string}`, // multicall((address,bytes,uint256,bool,bytes32)[])
+  MORPHO_BUNDLER_MULTICALL: 'function multicall((address,bytes,uint256,bool,bytes32)[])',
   
   // Merkl functions
-  MERKL_CLAIM: '0x71ee95c0' as `0x${string}`, // claim(address[],address[],uint256[],bytes32[][])
+  MERKL_CLAIM: 'function claim(address[],address[],uint256[],bytes32[][])',
   
   // SiloV2 functions
-  SILO_CLAIM_REWARDS: '0xef5cfb8c' as `0x${string}`, // claimRewards(address)
+  SILO_CLAIM_REWARDS: 'function claimRewards(address)',
   
   // Dolomite functions
-  DOLOMITE_DEPOSIT_WEI: '0xb6f32e03' as `0x${string}`, // depositWei(uint256,uint256,uint256,uint256,uint8)
-  DOLOMITE_WITHDRAW_WEI: '0xcc8832d9' as `0x${string}`, // withdrawWei(uint256,uint256,uint256,uint256,uint8)
+  DOLOMITE_DEPOSIT_WEI: 'function depositWei(uint256,uint256,uint256,uint256,uint8)',
+  DOLOMITE_WITHDRAW_WEI: 'function withdrawWei(uint256,uint256,uint256,uint256,uint8)',
 } as const;
 
 /**
- * WHITELIST CONFIGURATION
+ * Function Selectors (derived from SIGNATURES)
+ */
+export const SELECTORS = selectorsFromSignatures(SIGNATURES);
+
+/**
+ * PROTOCOL MANIFEST
  * 
- * Structure your whitelist items here.
- * Comment out items that are already whitelisted to maintain history.
+ * Validated contents of manifests/arbitrum.json.
+ */
+export const protocolManifest = parseManifest(manifestJson, 'manifests/arbitrum.json');
+
+/**
+ * WHITELIST CONFIGURATION
  * 
- * Example:
+ * Active manifest entries.
+ */
+export const whitelistConfig: WhitelistItem[] = manifestToWhitelistItems(protocolManifest, 'active');
+
+/**
+ * REMOVE WHITELIST CONFIGURATION
  * 
- * // Already whitelisted (2024-01-15)
- * // { target: CONTRACTS.AAVE_POOL, selector: '0x69328dec', description: "AAVE Pool supply()" },
+ * Removed manifest entries (removed from the registry if still whitelisted).
+ */
+export const removeWhitelistConfig: WhitelistItem[] = manifestToWhitelistItems(protocolManifest, 'removed');
+
+/**
+ * ERC20 TRANSFER RECIPIENT CONFIGURATION
  * 
- * // New items to whitelist
- * { target: CONTRACTS.AAVE_POOL, selector: '0x69328dec', description: "AAVE Pool supply()" },
+ * Recipients that may receive ERC20 transfers executed through the module
+ * (in addition to the wallet itself and its owners).
  */
-export const whitelistConfig: WhitelistItem[] = [
-  // ========================================
-  // ERC20 TOKEN FUNCTIONS
-  // ========================================
+export const recipientConfig: RecipientItem[] = [
   {
-    target: TOKENS.USDC,
-    selector: SELECTORS.ERC20_APPROVE,
-    description: "USDC approve()",
-  },
-  {
-    target: TOKENS.USDC,
-    selector: SELECTORS.ERC20_TRANSFER,
-    description: "USDC transfer()",
+    token: TOKENS.USDC,
+    recipients: [
+      '0x9954afb60bb5a222714c478ac86990f221788b88' as Address,
+      '0x62be78705295ca9ffdac410b4a9b6101983a7c3b' as Address,
+    ],
+    description: "USDC transfer recipients (Arbitrum)",
   },
+];
 
-  {
-    target: TOKENS.ARB,
-    selector: SELECTORS.ERC20_APPROVE,
-    description: "ARB approve()",
-  },
-  {
-    target: TOKENS.Morpho,
-    selector: SELECTORS.ERC20_APPROVE,
-    description: "Morpho approve()",
-  },
-  {
-    target: TOKENS.Compound,
-    selector: SELECTORS.ERC20_APPROVE,
-    description: "Compound approve()",
-  },
-  
-  // ========================================
-  // AAVE POOL FUNCTIONS
-  // ========================================
-  {
-    target: AAVE_POOLS.USDC,
-    selector: SELECTORS.AAVE_SUPPLY,
-    description: "AAVE Pool USDC - supply()",
-  },
-  {
-    target: AAVE_POOLS.USDC,
-    selector: SELECTORS.AAVE_WITHDRAW,
-    description: "AAVE Pool USDC - withdraw()",
-  },
-  
-  // ========================================
-  // ROUTING/SWAP FUNCTIONS
-  // ========================================
-  {
-    target: '0xF75584eF6673aD213a685a1B58Cc0330B8eA22Cf' as Address,
-    selector: SELECTORS.ROUTE_SINGLE,
-    description: "Router - routeSingle()",
-  },
-  
-  // ========================================
-  // MORPHO ADAPTER/BUNDLER FUNCTIONS (Arbitrum)
-  // ========================================
-  {
-    target: '0x9954aFB60BB5A222714c478ac86990F221788B88' as Address,
-    selector: SELECTORS.MORPHO_ADAPTER_ERC4626_DEPOSIT,
-    description: "Morpho Adapter (Arbitrum) - erc4626Deposit()",
-  },
-  {
-    target: '0x9954aFB60BB5A222714c478ac86990F221788B88' as Address,
-    selector: SELECTORS.MORPHO_ADAPTER_ERC4626_REDEEM,
-    description: "Morpho Adapter (Arbitrum) - erc4626Redeem()",
-  },
-  {
-    target: '0x1fa4431bc113d308bee1d46b0e98cb805fb48c13' as Address,
-    selector: SELECTORS.MORPHO_BUNDLER_MULTICALL,
-    description: "Morpho Bundler3 (Arbitrum) - multicall()",
-  },
-  
-  // ========================================
-  // EULER EARN USDC (Arbitrum)
-  // ========================================
-  {
-    target: '0xe4783824593a50Bfe9dc873204CEc171ebC62dE0' as Address,
-    selector: SELECTORS.ERC4626_DEPOSIT,
-    description: "Euler Earn USDC (Arbitrum) - deposit()",
-  },
-  {
-    target: '0xe4783824593a50Bfe9dc873204CEc171ebC62dE0' as Address,
-    selector: SELECTORS.REDEEM,
-    description: "Euler Earn USDC (Arbitrum) - redeem()",
-  },
-  
-  // ========================================
-  // MERKL DISTRIBUTOR (Arbitrum)
-  // ========================================
-  {
-    target: '0x3Ef3D8bA38EBe18DB133cEc108f4D14CE00Dd9Ae' as Address,
-    selector: SELECTORS.MERKL_CLAIM,
-    description: "Merkl Distributor (Arbitrum) - claim()",
-  },
-  
-  // ========================================
-  // SILOV2 REWARDS CLAIMER (Arbitrum)
-  // ========================================
-  {
-    target: '0x43f8d8995C1b6b37Ca624C49819D671C8dcCe390' as Address,
-    selector: SELECTORS.SILO_CLAIM_REWARDS,
-    description: "SiloV2 RewardsClaimer (Arbitrum) - claimRewards()",
-  },
+/**
+ * REMOVE ERC20 TRANSFER RECIPIENT CONFIGURATION
+ * 
+ * Recipients whose authorization should be revoked.
+ */
+export const removeRecipientConfig: RecipientItem[] = [];
 
-  // ========================================
-  // FLUID POOL FUNCTIONS
-  // ========================================
-  {
-    target: FLUID_POOLS.USDC,
-    selector: SELECTORS.ERC4626_DEPOSIT,
-    description: "Fluid Pool USDC - deposit()",
-  },
-  {
-    target: FLUID_POOLS.USDC,
-    selector: SELECTORS.REDEEM,
-    description: "Fluid Pool USDC - redeem()",
-  },
-  
-  // ========================================
-  // SPARK POOL FUNCTIONS
-  // ========================================
-  {
-    target: SPARK_POOLS.USDC,
-    selector: SELECTORS.ERC4626_DEPOSIT,
-    description: "Spark Pool USDC - deposit()",
-  },
-  {
-    target: SPARK_POOLS.USDC,
-    selector: SELECTORS.REDEEM,
-    description: "Spark Pool USDC - redeem()",
-  },
-  
-  // ========================================
-  // COMPOUND V3 POOL FUNCTIONS
-  // ========================================
-  {
-    target: COMPOUND_V3_POOLS.USDC,
-    selector: SELECTORS.COMPOUND_V3_SUPPLY,
-    description: "Compound V3 Pool USDC - supply()",
-  },
-  {
-    target: COMPOUND_V3_POOLS.USDC,
-    selector: SELECTORS.COMPOUND_V3_WITHDRAW,
-    description: "Compound V3 Pool USDC - withdraw()",
-  },
-  
-  // ========================================
-  // DOLOMITE POOL FUNCTIONS (Arbitrum)
-  // ========================================
-  {
-    target: DOLOMITE_POOLS.USDC,
-    selector: SELECTORS.DOLOMITE_DEPOSIT_WEI,
-    description: "Dolomite Pool USDC - depositWei()",
-  },
-  {
-    target: DOLOMITE_POOLS.USDC,
-    selector: SELECTORS.DOLOMITE_WITHDRAW_WEI,
-    description: "Dolomite Pool USDC - withdrawWei()",
-  },
-  
-  // ========================================
-  // MORPHO POOL FUNCTIONS (Arbitrum)
-  // Only approve is needed for Morpho vaults per the provided list
-  // ========================================
-  {
-    target: ARBITRUM_MORPHO_POOLS['Gauntlet USDC Prime'] as Address,
-    selector: SELECTORS.ERC20_APPROVE,
-    description: "Morpho Gauntlet USDC Prime - approve()",
-  },
-  {
-    target: ARBITRUM_MORPHO_POOLS['Gauntlet USDC Core'] as Address,
-    selector: SELECTORS.ERC20_APPROVE,
-    description: "Morpho Gauntlet USDC Core - approve()",
-  },
-  {
-    target: ARBITRUM_MORPHO_POOLS['Steakhouse Prime USDC'] as Address,
-    selector: SELECTORS.ERC20_APPROVE,
-    description: "Morpho Steakhouse Prime USDC - approve()",
-  },
-  {
-    target: ARBITRUM_MORPHO_POOLS['Hyperithm USDC'] as Address,
-    selector: SELECTORS.ERC20_APPROVE,
-    description: "Morpho Hyperithm USDC - approve()",
-  },
-  {
-    target: ARBITRUM_MORPHO_POOLS['Steakhouse High Yield USDC'] as Address,
-    selector: SELECTORS.ERC20_APPROVE,
-    description: "Morpho Steakhouse High Yield USDC - approve()",
-  },
-  {
-    target: ARBITRUM_MORPHO_POOLS['MEV Capital USDC'] as Address,
-    selector: SELECTORS.ERC20_APPROVE,
-    description: "Morpho MEV Capital USDC - approve()",
-  },
+/**
+ * APPROVAL CEILING CONFIGURATION
+ * 
+ * Maximum approve amount per token+spender, enforced by the module. 'batch'
+ * requires the approve to be used up by the same batch (what the adapters
+ * do), 0n removes a ceiling. Applied with `pnpm registry approvals set`.
+ */
+export const approvalCeilingConfig: ApprovalCeilingItem[] = [
+  ...describeApprovals(aave(AAVE_POOLS.USDC).approvals(TOKENS.USDC), "USDC → AAVE Pool USDC supply"),
+  ...describeApprovals(erc4626(FLUID_POOLS.USDC).approvals(TOKENS.USDC), "USDC → Fluid Pool USDC deposit"),
+  ...describeApprovals(erc4626(SPARK_POOLS.USDC).approvals(TOKENS.USDC), "USDC → Spark Pool USDC deposit"),
+  ...describeApprovals(compoundV3(COMPOUND_V3_POOLS.USDC).approvals(TOKENS.USDC), "USDC → Compound V3 USDC supply"),
+  ...describeApprovals([batchApproval(TOKENS.USDC, DOLOMITE_POOLS.USDC)], "USDC → Dolomite router depositWei"),
+  ...Object.entries(HARVEST_POOLS).flatMap(([name, vault]) =>
+    describeApprovals(erc4626(vault).approvals(TOKENS.USDC), `USDC → Harvest ${name} deposit`)
+  ),
 ];
 
 /**
- * REMOVE WHITELIST CONFIGURATION
+ * PARAMETER RULE CONFIGURATION
  * 
- * Items to be removed from the whitelist.
- * These are items that were previously whitelisted but are no longer needed
- * based on the updated requirements.
+ * Argument rules of the active manifest entries ("paramRules"), e.g. the
+ * receiver of an ERC4626 deposit must be the account. Entries without rules
+ * clear stale registry rules. Applied with `pnpm registry params set`.
  */
-export const removeWhitelistConfig: WhitelistItem[] = [
-  // ========================================
-  // HARVEST POOL FUNCTIONS (To Remove)
-  // Not in the provided list - should be removed
-  // ========================================
-  {
-    target: HARVEST_POOLS['USDC - Autopilot'],
-    selector: SELECTORS.ERC4626_DEPOSIT,
-    description: "Harvest USDC - Autopilot - deposit()",
-  },
-  {
-    target: HARVEST_POOLS['USDC - Autopilot'],
-    selector: SELECTORS.REDEEM,
-    description: "Harvest USDC - Autopilot - redeem()",
-  },
-  
-  // ========================================
-  // MORPHO POOL DEPOSIT/REDEEM (To Remove)
-  // Only approve should remain, deposit/redeem should be removed
-  // ========================================
-  {
-    target: ARBITRUM_MORPHO_POOLS['Gauntlet USDC Prime'] as Address,
-    selector: SELECTORS.ERC4626_DEPOSIT,
-    description: "Morpho Gauntlet USDC Prime - deposit()",
-  },
-  {
-    target: ARBITRUM_MORPHO_POOLS['Gauntlet USDC Prime'] as Address,
-    selector: SELECTORS.REDEEM,
-    description: "Morpho Gauntlet USDC Prime - redeem()",
-  },
-  {
-    target: ARBITRUM_MORPHO_POOLS['Gauntlet USDC Core'] as Address,
-    selector: SELECTORS.ERC4626_DEPOSIT,
-    description: "Morpho Gauntlet USDC Core - deposit()",
-  },
-  {
-    target: ARBITRUM_MORPHO_POOLS['Gauntlet USDC Core'] as Address,
-    selector: SELECTORS.REDEEM,
-    description: "Morpho Gauntlet USDC Core - redeem()",
-  },
-  {
-    target: ARBITRUM_MORPHO_POOLS['Steakhouse Prime USDC'] as Address,
-    selector: SELECTORS.ERC4626_DEPOSIT,
-    description: "Morpho Steakhouse Prime USDC - deposit()",
-  },
-  {
-    target: ARBITRUM_MORPHO_POOLS['Steakhouse Prime USDC'] as Address,
-    selector: SELECTORS.REDEEM,
-    description: "Morpho Steakhouse Prime USDC - redeem()",
-  },
-  {
-    target: ARBITRUM_MORPHO_POOLS['MEV Capital USDC'] as Address,
-    selector: SELECTORS.ERC4626_DEPOSIT,
-    description: "Morpho MEV Capital USDC - deposit()",
-  },
-  {
-    target: ARBITRUM_MORPHO_POOLS['MEV Capital USDC'] as Address,
-    selector: SELECTORS.REDEEM,
-    description: "Morpho MEV Capital USDC - redeem()",
-  },
-  {
-    target: ARBITRUM_MORPHO_POOLS['Steakhouse High Yield USDC'] as Address,
-    selector: SELECTORS.ERC4626_DEPOSIT,
-    description: "Morpho Steakhouse High Yield USDC - deposit()",
-  },
-  {
-    target: ARBITRUM_MORPHO_POOLS['Steakhouse High Yield USDC'] as Address,
-    selector: SELECTORS.REDEEM,
-    description: "Morpho Steakhouse High Yield USDC - redeem()",
-  },
-  {
-    target: ARBITRUM_MORPHO_POOLS['Hyperithm USDC'] as Address,
-    selector: SELECTORS.ERC4626_DEPOSIT,
-    description: "Morpho Hyperithm USDC - deposit()",
-  },
-  {
-    target: ARBITRUM_MORPHO_POOLS['Hyperithm USDC'] as Address,
-    selector: SELECTORS.REDEEM,
-    description: "Morpho Hyperithm USDC - redeem()",
-  },
-  {
-    target: '0xb98c948cfa24072e58935bc004a8a7b376ae746a' as Address,
-    selector: SELECTORS.MORPHO_ADAPTER_ERC4626_REDEEM,
-    description: "Morpho Adapter (Base) - erc4626Redeem() - Wrong chain",
-  },
-];
+export const paramRuleConfig: ParamRuleItem[] = manifestToParamRuleItems(protocolManifest);
 
 /**
- * Helper function to filter out commented items
- * In practice, we'll just export the array and let users comment items directly
+ * Active whitelist items from the manifest
  */
 export function getActiveWhitelistItems(): WhitelistItem[] {
   return whitelistConfig;
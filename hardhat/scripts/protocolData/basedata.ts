@@ -1,20 +1,36 @@
 /**
  * Whitelist Configuration Data
  * 
- * This file contains all whitelist configurations (targets + selectors).
+ * Targets and selectors live in the versioned manifest manifests/base.json
+ * (validated on import, see manifest.ts). whitelistConfig and
+ * removeWhitelistConfig are derived from its active and removed entries.
  * 
  * USAGE:
- * - Comment out items that are already whitelisted to maintain history
- * - Uncomment/add new items you want to whitelist
- * - Use the same format for both add and remove operations
+ * - Add new targets/selectors to manifests/base.json with status "active"
+ * - To remove an entry, set its status to "removed" and record the reason
+ * - Keep the constants below in sync (checked by `pnpm manifest check`)
  * 
  * TIPS:
- * - Keep commented items for reference/history
+ * - Never delete manifest entries, they are the whitelist history
  * - Add clear descriptions for each entry
  * - Group related targets together
  */
 
 import { Address } from 'viem';
+import { aave } from '../adapters/aave';
+import { compoundV3 } from '../adapters/compoundV3';
+import { erc4626 } from '../adapters/erc4626';
+import { moonwell } from '../adapters/moonwell';
+import manifestJson from './manifests/base.json';
+import {
+  ApprovalCeilingItem,
+  ParamRuleItem,
+  describeApprovals,
+  manifestToParamRuleItems,
+  manifestToWhitelistItems,
+  parseManifest,
+} from './manifest';
+import { selectorsFromSignatures } from './selectors';
 
 /**
  * ERC20 Token Addresses (Base Chain)
@@ -127,456 +143,137 @@ export interface WhitelistItem {
 }
 
 /**
- * Function Selectors
- * Calculate using: toFunctionSelector(getAbiItem({ abi: [...], name: 'functionName' }))
+ * ERC20 Recipient Item Interface
  */
-export const SELECTORS = {
+export interface RecipientItem {
+  token: Address;
+  recipients: Address[];
+  description: string;
+}
+
+/**
+ * Function Signatures
+ * Human-readable signatures, hashed into SELECTORS with toFunctionSelector.
+ */
+export const SIGNATURES = {
   // ERC20 functions
-  ERC20_APPROVE: '0x095ea7b3' as `0x${string}`, // approve(address,uint256)
-  ERC20_TRANSFER: '0xa9059cbb' as `0x${string}`, // transfer(address,uint256)
+  ERC20_APPROVE: 'function approve(address,uint256)',
+  ERC20_TRANSFER: 'function transfer(address,uint256)',
   
   // AAVE Pool functions
-  AAVE_SUPPLY: '0x617ba037' as `0x${string}`, // supply(address,uint256,address,uint16)
-  AAVE_WITHDRAW: '0x69328dec' as `0x${string}`, // withdraw(address,uint256,address)
+  AAVE_SUPPLY: 'function supply(address,uint256,address,uint16)',
+  AAVE_WITHDRAW: 'function withdraw(address,uint256,address)',
   
   // Compound V3 Pool functions (different from AAVE - uses 2 params instead of 3-4)
-  COMPOUND_V3_SUPPLY: '0xf2b9fdb8' as `0x${string}`, // supply(address,uint256)
-  COMPOUND_V3_WITHDRAW: '0xf3fef3a3' as `0x${string}`, // withdraw(address,uint256)
+  COMPOUND_V3_SUPPLY: 'function supply(address,uint256)',
+  COMPOUND_V3_WITHDRAW: 'function withdraw(address,uint256)',
   
   // Moonwell Pool functions (uses mint/redeem with single uint256 param)
-  MOONWELL_MINT: '0xa0712d68' as `0x${string}`, // mint(uint256)
-  MOONWELL_REDEEM: '0xdb006a75' as `0x${string}`, // redeem(uint256)
+  MOONWELL_MINT: 'function mint(uint256)',
+  MOONWELL_REDEEM: 'function redeem(uint256)',
   
   // Fluid, Spark, Wasabi & Morpho Pool functions (ERC4626 standard - same ABI)
-  ERC4626_DEPOSIT: '0x6e553f65' as `0x${string}`, // deposit(uint256,address)
-  ERC4626_WITHDRAW: '0xb460af94' as `0x${string}`, // withdraw(uint256,address,address)
+  ERC4626_DEPOSIT: 'function deposit(uint256,address)',
+  ERC4626_WITHDRAW: 'function withdraw(uint256,address,address)',
   
   // Harvest Autopilot uses redeem instead of withdraw
-  REDEEM: '0xba087652' as `0x${string}`, // redeem(uint256,address,address)
+  REDEEM: 'function redeem(uint256,address,address)',
   
   // Routing/Swap functions
-  ROUTE_MULTI: '0xf52e33f5' as `0x${string}`, // routeMulti(...)
-  ROUTE_SINGLE: '0xb94c3609' as `0x${string}`, // routeSingle(...)
+  ROUTE_MULTI: 'function routeMulti((uint8,bytes)[],bytes)',
+  ROUTE_SINGLE: 'function routeSingle((uint8,bytes),bytes)',
   
   // Morpho Adapter functions
-  MORPHO_ADAPTER_ERC4626_DEPOSIT: '0x6ef5eeae' as `0x${string}`, // erc4626Deposit(address,uint256,uint256,address)
-  MORPHO_ADAPTER_ERC4626_REDEEM: '0xa7f6e606' as `0x${string}`, // erc4626Redeem(address,uint256,uint256,address,address)
+  MORPHO_ADAPTER_ERC4626_DEPOSIT: 'function erc4626Deposit(address,uint256,uint256,address)',
+  MORPHO_ADAPTER_ERC4626_REDEEM: 'function erc4626Redeem(address,uint256,uint256,address,address)',
   
   // Morpho Bundler functions
-  MORPHO_BUNDLER_MULTICALL: '0x374f435d' as `0x${string}`, // multicall((address,bytes,uint256,bool,bytes32)[])
+  MORPHO_BUNDLER_MULTICALL: 'function multicall((address,bytes,uint256,bool,bytes32)[])',
   
   // Merkl functions
-  MERKL_CLAIM: '0x71ee95c0' as `0x${string}`, // claim(address[],address[],uint256[],bytes32[][])
+  MERKL_CLAIM: 'function claim(address[],address[],uint256[],bytes32[][])',
 } as const;
 
 /**
- * WHITELIST CONFIGURATION
- * 
- * Structure your whitelist items here.
- * Comment out items that are already whitelisted to maintain history.
- * 
- * Example:
- * 
- * // Already whitelisted (2024-01-15)
- * // { target: CONTRACTS.AAVE_POOL, selector: '0x69328dec', description: "AAVE Pool supply()" },
- * 
- * // New items to whitelist
- * { target: CONTRACTS.AAVE_POOL, selector: '0x69328dec', description: "AAVE Pool supply()" },
+ * Function Selectors (derived from SIGNATURES)
  */
-export const whitelistConfig: WhitelistItem[] = [
-  // ========================================
-  // ERC20 TOKEN FUNCTIONS
-  // ========================================
-  {
-    target: TOKENS.USDC,
-    selector: SELECTORS.ERC20_APPROVE,
-    description: "USDC approve()",
-  },
-  {
-    target: TOKENS.USDC,
-    selector: SELECTORS.ERC20_TRANSFER,
-    description: "USDC transfer()",
-  },
+export const SELECTORS = selectorsFromSignatures(SIGNATURES);
 
-  {
-    target: TOKENS.EXTRA,
-    selector: SELECTORS.ERC20_APPROVE,
-    description: "EXTRA approve()",
-  },
-  {
-    target: TOKENS.Morpho,
-    selector: SELECTORS.ERC20_APPROVE,
-    description: "Morpho approve()",
-  },
-  {
-    target: TOKENS.Compound,
-    selector: SELECTORS.ERC20_APPROVE,
-    description: "Compound approve()",
-  },
-  {
-    target: TOKENS.Seamless,
-    selector: SELECTORS.ERC20_APPROVE,
-    description: "Seamless approve()",
-  },
-  {
-    target: TOKENS.Fluid,
-    selector: SELECTORS.ERC20_APPROVE,
-    description: "Fluid approve()",
-  },
-  
-  // ========================================
-  // AAVE POOL FUNCTIONS
-  // ========================================
-  {
-    target: AAVE_POOLS.USDC,
-    selector: SELECTORS.AAVE_SUPPLY,
-    description: "AAVE Pool USDC - supply()",
-  },
-  {
-    target: AAVE_POOLS.USDC,
-    selector: SELECTORS.AAVE_WITHDRAW,
-    description: "AAVE Pool USDC - withdraw()",
-  },
-  
-  // ========================================
-  // ROUTING/SWAP FUNCTIONS
-  // ========================================
-
-  {
-    target: '0xF75584eF6673aD213a685a1B58Cc0330B8eA22Cf' as Address,
-    selector: SELECTORS.ROUTE_SINGLE,
-    description: "Router - routeSingle()",
-  },
-  
-  // ========================================
-  // MORPHO ADAPTER/BUNDLER FUNCTIONS (Base)
-  // ========================================
-  {
-    target: '0xb98c948cfa24072e58935bc004a8a7b376ae746a' as Address,
-    selector: SELECTORS.MORPHO_ADAPTER_ERC4626_DEPOSIT,
-    description: "Morpho Adapter (Base) - erc4626Deposit()",
-  },
-  {
-    target: '0xb98c948cfa24072e58935bc004a8a7b376ae746a' as Address,
-    selector: SELECTORS.MORPHO_ADAPTER_ERC4626_REDEEM,
-    description: "Morpho Adapter (Base) - erc4626Redeem()",
-  },
-  {
-    target: '0x6BFd8137e702540E7A42B74178A4a49Ba43920C4' as Address,
-    selector: SELECTORS.MORPHO_BUNDLER_MULTICALL,
-    description: "Morpho Bundler3 (Base) - multicall()",
-  },
-  
-  // ========================================
-  // MERKL DISTRIBUTOR (Base)
-  // ========================================
-  {
-    target: '0x3Ef3D8bA38EBe18DB133cEc108f4D14CE00Dd9Ae' as Address,
-    selector: SELECTORS.MERKL_CLAIM,
-    description: "Merkl Distributor (Base) - claim()",
-  },
+/**
+ * PROTOCOL MANIFEST
+ * 
+ * Validated contents of manifests/base.json.
+ */
+export const protocolManifest = parseManifest(manifestJson, 'manifests/base.json');
 
-  // ========================================
-  // FLUID POOL FUNCTIONS
-  // ========================================
-  {
-    target: FLUID_POOLS.USDC,
-    selector: SELECTORS.ERC4626_DEPOSIT,
-    description: "Fluid Pool USDC - deposit()",
-  },
-  {
-    target: FLUID_POOLS.USDC,
-    selector: SELECTORS.REDEEM,
-    description: "Fluid Pool USDC - redeem()",
-  },
-  
-  // ========================================
-  // SPARK POOL FUNCTIONS
-  // ========================================
-  {
-    target: SPARK_POOLS.USDC,
-    selector: SELECTORS.ERC4626_DEPOSIT,
-    description: "Spark Pool USDC - deposit()",
-  },
-  {
-    target: SPARK_POOLS.USDC,
-    selector: SELECTORS.REDEEM,
-    description: "Spark Pool USDC - redeem()",
-  },
-  
-  // ========================================
-  // WASABI POOL FUNCTIONS
-  // ========================================
-  {
-    target: WASABI_POOLS.USDC,
-    selector: SELECTORS.ERC4626_DEPOSIT,
-    description: "Wasabi Pool USDC - deposit()",
-  },
-  {
-    target: WASABI_POOLS.USDC,
-    selector: SELECTORS.REDEEM,
-    description: "Wasabi Pool USDC - redeem()",
-  },
-  
-  // ========================================
-  // COMPOUND V3 POOL FUNCTIONS
-  // ========================================
-  {
-    target: COMPOUND_V3_POOLS.USDC,
-    selector: SELECTORS.COMPOUND_V3_SUPPLY,
-    description: "Compound V3 Pool USDC - supply()",
-  },
-  {
-    target: COMPOUND_V3_POOLS.USDC,
-    selector: SELECTORS.COMPOUND_V3_WITHDRAW,
-    description: "Compound V3 Pool USDC - withdraw()",
-  },
-  
-  // ========================================
-  // MORPHO POOL FUNCTIONS (Base)
-  // Only approve is needed for Morpho vaults per the provided list
-  // ========================================
-  {
-    target: MORPHO_POOLS['Universal - USDC'],
-    selector: SELECTORS.ERC20_APPROVE,
-    description: "Morpho Universal - USDC - approve()",
-  },
-  {
-    target: MORPHO_POOLS['Seamless USDC Vault'],
-    selector: SELECTORS.ERC20_APPROVE,
-    description: "Morpho Seamless USDC Vault - approve()",
-  },
-  {
-    target: MORPHO_POOLS['Moonwell Flagship USDC'],
-    selector: SELECTORS.ERC20_APPROVE,
-    description: "Morpho Moonwell Flagship USDC - approve()",
-  },
-  {
-    target: MORPHO_POOLS['HighYield Clearstar USDC'],
-    selector: SELECTORS.ERC20_APPROVE,
-    description: "Morpho HighYield Clearstar USDC - approve()",
-  },
-  {
-    target: MORPHO_POOLS['Clearstar Reactor OpenEden Boosted USDC'],
-    selector: SELECTORS.ERC20_APPROVE,
-    description: "Morpho Clearstar Reactor OpenEden Boosted USDC - approve()",
-  },
-  {
-    target: MORPHO_POOLS['Gauntlet USDC Prime'],
-    selector: SELECTORS.ERC20_APPROVE,
-    description: "Morpho Gauntlet USDC Prime - approve()",
-  },
-  {
-    target: MORPHO_POOLS['Gauntlet USDC Core'],
-    selector: SELECTORS.ERC20_APPROVE,
-    description: "Morpho Gauntlet USDC Core - approve()",
-  },
-  {
-    target: MORPHO_POOLS['Gauntlet USDC Frontier'],
-    selector: SELECTORS.ERC20_APPROVE,
-    description: "Morpho Gauntlet USDC Frontier - approve()",
-  },
-  {
-    target: MORPHO_POOLS['ExtrafiXLend USDC'],
-    selector: SELECTORS.ERC20_APPROVE,
-    description: "Morpho ExtrafiXLend USDC - approve()",
-  },
-  {
-    target: MORPHO_POOLS['Steakhouse USDC'],
-    selector: SELECTORS.ERC20_APPROVE,
-    description: "Morpho Steakhouse USDC - approve()",
-  },
+/**
+ * WHITELIST CONFIGURATION
+ * 
+ * Active manifest entries.
+ */
+export const whitelistConfig: WhitelistItem[] = manifestToWhitelistItems(protocolManifest, 'active');
 
-  {
-    target: HARVEST_POOLS['USDC - 40 Acres'],
-    selector: SELECTORS.ERC4626_DEPOSIT,
-    description: "Harvest USDC - 40 Acres - deposit()",
-  },
-  {
-    target: HARVEST_POOLS['USDC - 40 Acres'],
-    selector: SELECTORS.REDEEM,
-    description: "Harvest USDC - 40 Acres - redeem()",
-  },
+/**
+ * REMOVE WHITELIST CONFIGURATION
+ * 
+ * Removed manifest entries (removed from the registry if still whitelisted).
+ */
+export const removeWhitelistConfig: WhitelistItem[] = manifestToWhitelistItems(protocolManifest, 'removed');
 
+/**
+ * ERC20 TRANSFER RECIPIENT CONFIGURATION
+ * 
+ * Recipients that may receive ERC20 transfers executed through the module
+ * (in addition to the wallet itself and its owners).
+ */
+export const recipientConfig: RecipientItem[] = [
   {
-    target: MOONWELL_POOLS.USDC,
-    selector: SELECTORS.MOONWELL_MINT,
-    description: "Moonwell Pool USDC - mint()",
-  },
-  {
-    target: MOONWELL_POOLS.USDC,
-    selector: SELECTORS.MOONWELL_REDEEM,
-    description: "Moonwell Pool USDC - redeem()",
+    token: TOKENS.USDC,
+    recipients: [
+      '0x62be78705295ca9ffdac410b4a9b6101983a7c3b' as Address,
+      '0xb98c948CFA24072e58935BC004a8A7b376AE746A' as Address,
+    ],
+    description: "USDC transfer recipients (Base)",
   },
 ];
 
 /**
- * REMOVE WHITELIST CONFIGURATION
+ * REMOVE ERC20 TRANSFER RECIPIENT CONFIGURATION
  * 
- * Items to be removed from the whitelist.
- * These are items that were previously whitelisted but are no longer needed
- * based on the updated requirements.
+ * Recipients whose authorization should be revoked.
  */
-export const removeWhitelistConfig: WhitelistItem[] = [
-  // ========================================
-  // ROUTING/SWAP FUNCTIONS (To Remove)
-  // ========================================
-  {
-    target: '0xF75584eF6673aD213a685a1B58Cc0330B8eA22Cf' as Address,
-    selector: SELECTORS.ROUTE_MULTI,
-    description: "Router - routeMulti()",
-  },
+export const removeRecipientConfig: RecipientItem[] = [];
 
-  {
-    target: FLUID_POOLS.USDC,
-    selector: SELECTORS.ERC4626_WITHDRAW,
-    description: "Fluid Pool USDC - withdraw()",
-  },
-  
-  // ========================================
-  // MORPHO POOL DEPOSIT/REDEEM (To Remove)
-  // Only approve should remain, deposit/redeem should be removed
-  // ========================================
-  {
-    target: MORPHO_POOLS['Universal - USDC'],
-    selector: SELECTORS.ERC4626_DEPOSIT,
-    description: "Morpho Universal - USDC - deposit()",
-  },
-  {
-    target: MORPHO_POOLS['Universal - USDC'],
-    selector: SELECTORS.REDEEM,
-    description: "Morpho Universal - USDC - redeem()",
-  },
-  {
-    target: MORPHO_POOLS['Seamless USDC Vault'],
-    selector: SELECTORS.ERC4626_DEPOSIT,
-    description: "Morpho Seamless USDC Vault - deposit()",
-  },
-  {
-    target: MORPHO_POOLS['Seamless USDC Vault'],
-    selector: SELECTORS.REDEEM,
-    description: "Morpho Seamless USDC Vault - redeem()",
-  },
-  {
-    target: MORPHO_POOLS['Moonwell Flagship USDC'],
-    selector: SELECTORS.ERC4626_DEPOSIT,
-    description: "Morpho Moonwell Flagship USDC - deposit()",
-  },
-  {
-    target: MORPHO_POOLS['Moonwell Flagship USDC'],
-    selector: SELECTORS.REDEEM,
-    description: "Morpho Moonwell Flagship USDC - redeem()",
-  },
-  {
-    target: MORPHO_POOLS['HighYield Clearstar USDC'],
-    selector: SELECTORS.ERC4626_DEPOSIT,
-    description: "Morpho HighYield Clearstar USDC - deposit()",
-  },
-  {
-    target: MORPHO_POOLS['HighYield Clearstar USDC'],
-    selector: SELECTORS.REDEEM,
-    description: "Morpho HighYield Clearstar USDC - redeem()",
-  },
-  {
-    target: MORPHO_POOLS['Clearstar Reactor OpenEden Boosted USDC'],
-    selector: SELECTORS.ERC4626_DEPOSIT,
-    description: "Morpho Clearstar Reactor OpenEden Boosted USDC - deposit()",
-  },
-  {
-    target: MORPHO_POOLS['Clearstar Reactor OpenEden Boosted USDC'],
-    selector: SELECTORS.REDEEM,
-    description: "Morpho Clearstar Reactor OpenEden Boosted USDC - redeem()",
-  },
-  {
-    target: MORPHO_POOLS['Gauntlet USDC Prime'],
-    selector: SELECTORS.ERC4626_DEPOSIT,
-    description: "Morpho Gauntlet USDC Prime - deposit()",
-  },
-  {
-    target: MORPHO_POOLS['Gauntlet USDC Prime'],
-    selector: SELECTORS.REDEEM,
-    description: "Morpho Gauntlet USDC Prime - redeem()",
-  },
-  {
-    target: MORPHO_POOLS['Gauntlet USDC Core'],
-    selector: SELECTORS.ERC4626_DEPOSIT,
-    description: "Morpho Gauntlet USDC Core - deposit()",
-  },
-  {
-    target: MORPHO_POOLS['Gauntlet USDC Core'],
-    selector: SELECTORS.REDEEM,
-    description: "Morpho Gauntlet USDC Core - redeem()",
-  },
-  {
-    target: MORPHO_POOLS['Gauntlet USDC Frontier'],
-    selector: SELECTORS.ERC4626_DEPOSIT,
-    description: "Morpho Gauntlet USDC Frontier - deposit()",
-  },
-  {
-    target: MORPHO_POOLS['Gauntlet USDC Frontier'],
-    selector: SELECTORS.REDEEM,
-    description: "Morpho Gauntlet USDC Frontier - redeem()",
-  },
-  {
-    target: MORPHO_POOLS['ExtrafiXLend USDC'],
-    selector: SELECTORS.ERC4626_DEPOSIT,
-    description: "Morpho ExtrafiXLend USDC - deposit()",
-  },
-  {
-    target: MORPHO_POOLS['ExtrafiXLend USDC'],
-    selector: SELECTORS.REDEEM,
-    description: "Morpho ExtrafiXLend USDC - redeem()",
-  },
-  {
-    target: MORPHO_POOLS['Steakhouse USDC'],
-    selector: SELECTORS.ERC4626_DEPOSIT,
-    description: "Morpho Steakhouse USDC - deposit()",
-  },
-  {
-    target: MORPHO_POOLS['Steakhouse USDC'],
-    selector: SELECTORS.REDEEM,
-    description: "Morpho Steakhouse USDC - redeem()",
-  },
-  
-  // ========================================
-  // HARVEST POOL FUNCTIONS (To Remove)
-  // Not in the provided list - should be removed
-  // ========================================
-  {
-    target: HARVEST_POOLS['USDC - Moonwell'],
-    selector: SELECTORS.ERC4626_DEPOSIT,
-    description: "Harvest USDC - Moonwell - deposit()",
-  },
-  {
-    target: HARVEST_POOLS['USDC - Moonwell'],
-    selector: SELECTORS.REDEEM,
-    description: "Harvest USDC - Moonwell - redeem()",
-  },
-  {
-    target: HARVEST_POOLS['USDC - 40 Acres'],
-    selector: SELECTORS.ERC4626_DEPOSIT,
-    description: "Harvest USDC - 40 Acres - deposit()",
-  },
-  {
-    target: HARVEST_POOLS['USDC - 40 Acres'],
-    selector: SELECTORS.REDEEM,
-    description: "Harvest USDC - 40 Acres - redeem()",
-  },
-  {
-    target: HARVEST_POOLS['USDC - Autopilot'],
-    selector: SELECTORS.ERC4626_DEPOSIT,
-    description: "Harvest USDC - Autopilot - deposit()",
-  },
-  {
-    target: HARVEST_POOLS['USDC - Autopilot'],
-    selector: SELECTORS.REDEEM,
-    description: "Harvest USDC - Autopilot - redeem()",
-  },
+/**
+ * APPROVAL CEILING CONFIGURATION
+ * 
+ * Maximum approve amount per token+spender, enforced by the module. 'batch'
+ * requires the approve to be used up by the same batch (what the adapters
+ * do), 0n removes a ceiling. Applied with `pnpm registry approvals set`.
+ */
+export const approvalCeilingConfig: ApprovalCeilingItem[] = [
+  ...describeApprovals(aave(AAVE_POOLS.USDC).approvals(TOKENS.USDC), "USDC → AAVE Pool USDC supply"),
+  ...describeApprovals(erc4626(FLUID_POOLS.USDC).approvals(TOKENS.USDC), "USDC → Fluid Pool USDC deposit"),
+  ...describeApprovals(erc4626(SPARK_POOLS.USDC).approvals(TOKENS.USDC), "USDC → Spark Pool USDC deposit"),
+  ...describeApprovals(erc4626(WASABI_POOLS.USDC).approvals(TOKENS.USDC), "USDC → Wasabi Pool USDC deposit"),
+  ...describeApprovals(compoundV3(COMPOUND_V3_POOLS.USDC).approvals(TOKENS.USDC), "USDC → Compound V3 USDC supply"),
+  ...describeApprovals(moonwell(MOONWELL_POOLS.USDC).approvals(TOKENS.USDC), "USDC → Moonwell USDC mint"),
+  ...Object.entries(HARVEST_POOLS).flatMap(([name, vault]) =>
+    describeApprovals(erc4626(vault).approvals(TOKENS.USDC), `USDC → Harvest ${name} deposit`)
+  ),
 ];
 
 /**
- * Helper function to filter out commented items
- * In practice, we'll just export the array and let users comment items directly
+ * PARAMETER RULE CONFIGURATION
+ * 
+ * Argument rules of the active manifest entries ("paramRules"), e.g. the
+ * receiver of an ERC4626 deposit must be the account. Entries without rules
+ * clear stale registry rules. Applied with `pnpm registry params set`.
+ */
+export const paramRuleConfig: ParamRuleItem[] = manifestToParamRuleItems(protocolManifest);
+
+/**
+ * Active whitelist items from the manifest
  */
 export function getActiveWhitelistItems(): WhitelistItem[] {
   return whitelistConfig;
@@ -0,0 +1,390 @@
+/**
+ * Protocol Manifest
+ *
+ * Versioned JSON manifest (manifests/<chain>.json) recording every
+ * target+selector the registry should know about on a chain, including
+ * entries that were removed, instead of commenting items in and out of
+ * whitelistConfig.
+ *
+ * Entry format:
+ * {
+ *   "protocol": "Aave",
+ *   "pool": "USDC",
+ *   "target": "0xA238Dd80C259a72e81d7e4664a9801593F98d1c5",   // EIP-55 checksummed
+ *   "signature": "function supply(address,uint256,address,uint16)",
+ *   "selector": "0x617ba037",                                 // optional, must match signature
+ *   "status": "active" | "removed",
+ *   "addedOn": "2025-01-15" | null,                           // null when unknown (migrated entries)
+ *   "reason": "Why the entry was added or removed",
+ *   "description": "AAVE Pool USDC - supply()",
+ *   "paramRules": [{ "param": "onBehalfOf", "equals": "account" }]   // optional, see paramRules.ts
+ * }
+ *
+ * The selector is computed from the signature with toFunctionSelector; a hex
+ * selector, when present, is only a cross-check. The validator follows the zod
+ * parse/safeParse convention and reports every issue at once.
+ *
+ * Parameter rules name parameters of the signature ("function supply(address
+ * asset,uint256 amount,address onBehalfOf,uint16 referralCode)"), or their
+ * 0-based index; they are resolved to registry offsets when parsing.
+ */
+
+import { Address, Hex, getAddress, isAddress, toFunctionSelector } from 'viem';
+import { ApprovalDeclaration } from '../adapters/types';
+import { ParamRule, ParamRuleDeclaration, resolveParamRules } from './paramRules';
+
+/**
+ * Manifest format version understood by this validator
+ */
+export const MANIFEST_VERSION = 1;
+
+export const MANIFEST_STATUSES = ['active', 'removed'] as const;
+
+export type ManifestStatus = typeof MANIFEST_STATUSES[number];
+
+/**
+ * One target+selector entry of a protocol manifest
+ * @dev After parsing, selector is always set (computed from signature).
+ */
+export interface ManifestEntry {
+  protocol: string;
+  pool: string;
+  target: Address;
+  signature: string;
+  selector: Hex;
+  status: ManifestStatus;
+  addedOn: string | null;
+  reason: string;
+  description: string;
+  /** Resolved parameter rules (empty when the entry declares none) */
+  paramRules: ParamRule[];
+}
+
+/**
+ * Protocol manifest of one chain
+ */
+export interface ProtocolManifest {
+  version: number;
+  chain: string;
+  chainId: number;
+  entries: ManifestEntry[];
+}
+
+/**
+ * Parameter rules of a target+selector in the registry (paramRuleConfig)
+ * @dev An empty rules list clears the registry rules
+ */
+export interface ParamRuleItem {
+  target: Address;
+  selector: Hex;
+  signature: string;
+  rules: ParamRule[];
+  description: string;
+}
+
+/**
+ * Approval ceiling of a token+spender in the registry (approvalCeilingConfig)
+ * @dev ceiling 0n removes the ceiling
+ */
+export interface ApprovalCeilingItem extends ApprovalDeclaration {
+  description: string;
+}
+
+/**
+ * Single validation problem, located by its path in the manifest
+ */
+export interface ManifestIssue {
+  path: (string | number)[];
+  message: string;
+}
+
+export type ManifestParseResult =
+  | { success: true; data: ProtocolManifest }
+  | { success: false; issues: ManifestIssue[] };
+
+/**
+ * Thrown by parseManifest when the manifest does not match the schema
+ */
+export class ManifestValidationError extends Error {
+  constructor(public readonly source: string, public readonly issues: ManifestIssue[]) {
+    super(
+      `Invalid protocol manifest ${source}:\n` +
+      issues.map(issue => `  - ${formatManifestPath(issue.path)}: ${issue.message}`).join('\n')
+    );
+    this.name = 'ManifestValidationError';
+  }
+}
+
+/**
+ * Format an issue path as entries[3].selector
+ */
+export function formatManifestPath(path: (string | number)[]): string {
+  return path.reduce<string>(
+    (acc, part) => (typeof part === 'number' ? `${acc}[${part}]` : acc ? `${acc}.${part}` : part),
+    ''
+  ) || '(root)';
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isIsoDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Compute the selector of a signature, or undefined if it cannot be parsed
+ */
+function selectorOf(signature: string): Hex | undefined {
+  try {
+    return toFunctionSelector(signature);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Validate the parameter rule declarations of an entry
+ * @param signature Entry signature, when it parses (rules are then resolved against it)
+ */
+function validateParamRules(rules: unknown, signature: string | undefined, path: (string | number)[], issues: ManifestIssue[]): void {
+  if (!Array.isArray(rules)) {
+    issues.push({ path, message: 'Expected an array of { "param", "equals" }' });
+    return;
+  }
+
+  let valid = true;
+  rules.forEach((rule: any, index) => {
+    const isParam = isNonEmptyString(rule?.param) || (Number.isInteger(rule?.param) && rule.param >= 0);
+    if (!isParam || !isNonEmptyString(rule?.equals)) {
+      issues.push({ path: [...path, index], message: 'Expected { "param": name or index, "equals": "account" or a constant }' });
+      valid = false;
+    }
+  });
+  if (!valid || !signature) return;
+
+  try {
+    resolveParamRules(signature, rules as ParamRuleDeclaration[]);
+  } catch (error: any) {
+    issues.push({ path, message: error.message });
+  }
+}
+
+/**
+ * Validate one manifest entry, pushing issues found
+ * @return the selector computed from the signature, if it could be parsed
+ */
+function validateEntry(entry: any, index: number, issues: ManifestIssue[]): Hex | undefined {
+  const path = ['entries', index];
+  const issue = (field: string, message: string) => issues.push({ path: [...path, field], message });
+
+  if (typeof entry !== 'object' || entry === null) {
+    issues.push({ path, message: 'Expected an object' });
+    return undefined;
+  }
+
+  for (const field of ['protocol', 'pool', 'reason', 'description']) {
+    if (!isNonEmptyString(entry[field])) issue(field, 'Expected a non-empty string');
+  }
+
+  if (typeof entry.target !== 'string' || !isAddress(entry.target, { strict: false })) {
+    issue('target', 'Expected an address');
+  } else if (entry.target !== getAddress(entry.target)) {
+    issue('target', `Address is not EIP-55 checksummed (expected ${getAddress(entry.target)})`);
+  }
+
+  const computed = isNonEmptyString(entry.signature) ? selectorOf(entry.signature) : undefined;
+  if (!computed) {
+    issue('signature', 'Expected a function signature such as "function supply(address,uint256,address,uint16)"');
+  }
+
+  // The hex selector is optional: when omitted it is computed from the signature
+  if (entry.selector !== undefined) {
+    if (typeof entry.selector !== 'string' || !/^0x[0-9a-f]{8}$/.test(entry.selector)) {
+      issue('selector', 'Expected a lowercase 4-byte hex selector');
+    } else if (computed && entry.selector !== computed) {
+      issue('selector', `Selector ${entry.selector} does not match ${entry.signature} (${computed})`);
+    }
+  }
+
+  if (!MANIFEST_STATUSES.includes(entry.status)) {
+    issue('status', `Expected one of: ${MANIFEST_STATUSES.join(', ')}`);
+  }
+
+  if (entry.addedOn !== null && (typeof entry.addedOn !== 'string' || !isIsoDate(entry.addedOn))) {
+    issue('addedOn', 'Expected a YYYY-MM-DD date or null');
+  }
+
+  if (entry.paramRules !== undefined) {
+    validateParamRules(entry.paramRules, computed ? entry.signature : undefined, [...path, 'paramRules'], issues);
+  }
+
+  return computed;
+}
+
+/**
+ * Validate a manifest without throwing
+ */
+export function safeParseManifest(input: unknown): ManifestParseResult {
+  const issues: ManifestIssue[] = [];
+  const manifest = input as any;
+
+  if (typeof manifest !== 'object' || manifest === null) {
+    return { success: false, issues: [{ path: [], message: 'Expected an object' }] };
+  }
+
+  if (manifest.version !== MANIFEST_VERSION) {
+    issues.push({ path: ['version'], message: `Unsupported version ${manifest.version} (expected ${MANIFEST_VERSION})` });
+  }
+  if (!isNonEmptyString(manifest.chain)) {
+    issues.push({ path: ['chain'], message: 'Expected a non-empty string' });
+  }
+  if (!Number.isInteger(manifest.chainId) || manifest.chainId <= 0) {
+    issues.push({ path: ['chainId'], message: 'Expected a positive integer' });
+  }
+  if (!Array.isArray(manifest.entries)) {
+    issues.push({ path: ['entries'], message: 'Expected an array' });
+    return { success: false, issues };
+  }
+
+  // Each target+selector pair may appear only once, whatever its status
+  const seen = new Map<string, number>();
+  const entries: ManifestEntry[] = manifest.entries.map((entry: any, index: number) => {
+    const selector = validateEntry(entry, index, issues);
+
+    if (typeof entry?.target === 'string' && selector) {
+      const key = `${entry.target.toLowerCase()}:${selector}`;
+      const first = seen.get(key);
+      if (first !== undefined) {
+        issues.push({
+          path: ['entries', index],
+          message: `Duplicate target+selector ${entry.target} ${selector} (first defined at entries[${first}])`,
+        });
+      } else {
+        seen.set(key, index);
+      }
+    }
+
+    return { ...entry, selector };
+  });
+
+  if (issues.length > 0) {
+    return { success: false, issues };
+  }
+  const resolved = entries.map(entry => ({
+    ...entry,
+    paramRules: resolveParamRules(entry.signature, (entry.paramRules ?? []) as unknown as ParamRuleDeclaration[]),
+  }));
+  return { success: true, data: { ...manifest, entries: resolved } as ProtocolManifest };
+}
+
+/**
+ * Validate a manifest, throwing ManifestValidationError with every issue found
+ */
+export function parseManifest(input: unknown, source: string = 'manifest'): ProtocolManifest {
+  const result = safeParseManifest(input);
+  if (!result.success) {
+    throw new ManifestValidationError(source, result.issues);
+  }
+  return result.data;
+}
+
+/**
+ * Whitelist items (target, selector, description) for entries with a status
+ */
+export function manifestToWhitelistItems(
+  manifest: ProtocolManifest,
+  status: ManifestStatus
+): Array<{ target: Address; selector: Hex; description: string }> {
+  return manifest.entries
+    .filter(entry => entry.status === status)
+    .map(entry => ({ target: entry.target, selector: entry.selector, description: entry.description }));
+}
+
+/**
+ * Parameter rules of every active entry (empty lists included, to clear stale registry rules)
+ */
+export function manifestToParamRuleItems(manifest: ProtocolManifest): ParamRuleItem[] {
+  return manifest.entries
+    .filter(entry => entry.status === 'active')
+    .map(entry => ({
+      target: entry.target,
+      selector: entry.selector,
+      signature: entry.signature,
+      rules: entry.paramRules,
+      description: entry.description,
+    }));
+}
+
+/**
+ * Approval ceiling items for the approvals an adapter declares
+ */
+export function describeApprovals(declarations: ApprovalDeclaration[], description: string): ApprovalCeilingItem[] {
+  return declarations.map(declaration => ({ ...declaration, description }));
+}
+
+/**
+ * Collect address constants exported by a protocolData module
+ * @dev Picks up single addresses, arrays of addresses and objects whose
+ *      values are all addresses (TOKENS, AAVE_POOLS, SILOV2_REWARDS_CLAIMERS, ...).
+ */
+function collectAddressConstants(exports: Record<string, unknown>): Array<{ name: string; address: string }> {
+  const found: Array<{ name: string; address: string }> = [];
+  const isAddr = (value: unknown): value is string =>
+    typeof value === 'string' && isAddress(value, { strict: false });
+
+  for (const [name, value] of Object.entries(exports)) {
+    if (name === 'SELECTORS') continue;
+    if (isAddr(value)) {
+      found.push({ name, address: value });
+    } else if (Array.isArray(value) && value.length > 0 && value.every(isAddr)) {
+      value.forEach((address, index) => found.push({ name: `${name}[${index}]`, address }));
+    } else if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      const entries = Object.entries(value);
+      if (entries.length > 0 && entries.every(([, v]) => isAddr(v))) {
+        entries.forEach(([key, address]) => found.push({ name: `${name}['${key}']`, address: address as string }));
+      }
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Check the hand-written TS constants of a protocolData module against its manifest
+ * @return errors (constants that drifted from the manifest) and warnings (unused selectors)
+ */
+export function checkConstantsAgainstManifest(
+  manifest: ProtocolManifest,
+  exports: Record<string, unknown>
+): { errors: string[]; warnings: string[] } {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const targets = new Set(manifest.entries.map(entry => entry.target));
+  for (const { name, address } of collectAddressConstants(exports)) {
+    if (!targets.has(getAddress(address))) {
+      errors.push(`${name} (${address}) is not a target in the manifest`);
+    }
+  }
+
+  const selectors = (exports.SELECTORS ?? {}) as Record<string, string>;
+  const selectorValues = new Set(Object.values(selectors).map(selector => selector.toLowerCase()));
+  const manifestSelectors = new Set(manifest.entries.map(entry => entry.selector));
+
+  manifest.entries.forEach((entry, index) => {
+    if (!selectorValues.has(entry.selector)) {
+      errors.push(`entries[${index}] selector ${entry.selector} (${entry.signature}) has no SELECTORS constant`);
+    }
+  });
+  for (const [name, selector] of Object.entries(selectors)) {
+    if (!manifestSelectors.has(selector.toLowerCase() as Hex)) {
+      warnings.push(`SELECTORS.${name} (${selector}) is not used by any manifest entry`);
+    }
+  }
+
+  return { errors, warnings };
+}
@@ -0,0 +1,206 @@
+/**
+ * Parameter Rules
+ *
+ * Registry rules on the arguments of a whitelisted target+selector
+ * (TargetRegistry.setParamRules, enforced by the module since 2.4.0): the
+ * 32-byte word at an offset of the arguments must equal the smart account
+ * executing the batch, or a constant. Offsets are derived from the function
+ * signature, so rules name the parameter instead:
+ *
+ *   paramRule('function deposit(uint256 assets, address receiver)', 'receiver', 'account')
+ *   // { offset: 32, condition: 'account', value: 0x00…00 }
+ *
+ * Manifest entries declare them as { "param": "receiver", "equals": "account" }
+ * (param is a name from the signature or a 0-based index; equals is "account"
+ * or a constant of the parameter's type).
+ *
+ * Only parameters with a fixed position can be pinned: the parameter must be
+ * an address, bool, intN, uintN or bytesN. Parameters before it may be of any
+ * type (a dynamic parameter takes one head word, a static tuple or fixed
+ * array as many as it holds).
+ */
+
+import { AbiFunction, AbiParameter, Hex, encodeAbiParameters, parseAbiItem, zeroHash } from 'viem';
+
+/**
+ * TargetRegistry.MAX_PARAM_RULES
+ */
+export const MAX_PARAM_RULES = 8;
+
+/**
+ * What the word must equal: the executing smart account, or the rule's value
+ */
+export type ParamCondition = 'account' | 'constant';
+
+/**
+ * ParamCondition as the TargetRegistry.ParamCondition enum
+ */
+const CONDITION_IDS: Record<ParamCondition, number> = { account: 0, constant: 1 };
+
+/**
+ * Rule as declared in a manifest entry
+ */
+export interface ParamRuleDeclaration {
+  /** Parameter name (from the signature) or 0-based index */
+  param: string | number;
+  /** "account", or a constant of the parameter's type */
+  equals: string;
+}
+
+/**
+ * Rule as stored in the registry
+ */
+export interface ParamRule {
+  /** Byte offset of the word in the arguments (after the selector) */
+  offset: number;
+  condition: ParamCondition;
+  /** Expected word for 'constant' (zero for 'account') */
+  value: Hex;
+}
+
+const ELEMENTARY_STATIC = /^(address|bool|u?int\d*|bytes([1-9]|[12]\d|3[0-2]))$/;
+
+function isDynamic(param: AbiParameter): boolean {
+  if (param.type === 'string' || param.type === 'bytes') return true;
+  const array = param.type.match(/^(.*)\[(\d*)\]$/);
+  if (array) {
+    return array[2] === '' || isDynamic({ ...param, type: array[1] } as AbiParameter);
+  }
+  if (param.type === 'tuple') {
+    return ((param as { components: readonly AbiParameter[] }).components).some(isDynamic);
+  }
+  return false;
+}
+
+/**
+ * Bytes a parameter takes in the head of the encoding
+ */
+function headSize(param: AbiParameter): number {
+  if (isDynamic(param)) return 32;
+  const array = param.type.match(/^(.*)\[(\d+)\]$/);
+  if (array) {
+    return Number(array[2]) * headSize({ ...param, type: array[1] } as AbiParameter);
+  }
+  if (param.type === 'tuple') {
+    return ((param as { components: readonly AbiParameter[] }).components).reduce((sum, component) => sum + headSize(component), 0);
+  }
+  return 32;
+}
+
+function parseFunction(signature: string): AbiFunction {
+  const item = parseAbiItem(signature.startsWith('function ') ? signature : `function ${signature}`) as AbiFunction;
+  if (item.type !== 'function') {
+    throw new Error(`"${signature}" is not a function signature`);
+  }
+  return item;
+}
+
+/**
+ * Offset and ABI parameter of a named or indexed parameter
+ * @throws if the parameter does not exist or cannot be pinned
+ */
+export function paramOffset(signature: string, param: string | number): { offset: number; parameter: AbiParameter; index: number } {
+  const { inputs } = parseFunction(signature);
+  const index = typeof param === 'number' ? param : inputs.findIndex(input => input.name === param);
+  if (index < 0 || index >= inputs.length) {
+    const names = inputs.map((input, i) => input.name || String(i)).join(', ');
+    throw new Error(`No parameter "${param}" in ${signature} (parameters: ${names || 'none'})`);
+  }
+
+  const parameter = inputs[index];
+  if (!ELEMENTARY_STATIC.test(parameter.type)) {
+    throw new Error(`Parameter "${param}" of ${signature} is ${parameter.type}: only address, bool, intN, uintN and bytesN can be pinned`);
+  }
+  const offset = inputs.slice(0, index).reduce((sum, input) => sum + headSize(input), 0);
+  return { offset, parameter, index };
+}
+
+/**
+ * Build the registry rule pinning one parameter of a signature
+ * @param equals "account", or a constant of the parameter's type (e.g. an address or a number)
+ */
+export function paramRule(signature: string, param: string | number, equals: string): ParamRule {
+  const { offset, parameter } = paramOffset(signature, param);
+  if (equals === 'account') {
+    if (parameter.type !== 'address') {
+      throw new Error(`Parameter "${param}" of ${signature} is ${parameter.type}: only an address can equal the account`);
+    }
+    return { offset, condition: 'account', value: zeroHash };
+  }
+
+  let value: Hex;
+  try {
+    const typed = parameter.type === 'bool'
+      ? equals === 'true'
+      : /^u?int/.test(parameter.type) ? BigInt(equals) : equals;
+    value = encodeAbiParameters([parameter], [typed]);
+  } catch (error: any) {
+    throw new Error(`"${equals}" is not a ${parameter.type} constant for "${param}" of ${signature} (${error.shortMessage ?? error.message})`);
+  }
+  return { offset, condition: 'constant', value };
+}
+
+/**
+ * Resolve the rules a manifest entry declares
+ * @throws on the first declaration that does not resolve
+ */
+export function resolveParamRules(signature: string, declarations: ParamRuleDeclaration[]): ParamRule[] {
+  if (declarations.length > MAX_PARAM_RULES) {
+    throw new Error(`${declarations.length} rules for ${signature}, the registry accepts at most ${MAX_PARAM_RULES}`);
+  }
+  return declarations.map(declaration => paramRule(signature, declaration.param, declaration.equals));
+}
+
+/**
+ * Rules as TargetRegistry.ParamRule tuples
+ */
+export function encodeParamRules(rules: ParamRule[]): Array<{ offset: number; condition: number; value: Hex }> {
+  return rules.map(rule => ({ offset: rule.offset, condition: CONDITION_IDS[rule.condition], value: rule.value }));
+}
+
+/**
+ * Rules as read from TargetRegistry.getParamRules
+ */
+export function decodeParamRules(raw: readonly { offset: number; condition: number; value: Hex }[]): ParamRule[] {
+  return raw.map(rule => ({
+    offset: Number(rule.offset),
+    condition: rule.condition === CONDITION_IDS.account ? 'account' : 'constant',
+    value: rule.value,
+  }));
+}
+
+/**
+ * Whether two rule lists are the same (order included, as the module checks them in order)
+ */
+export function sameParamRules(a: ParamRule[], b: ParamRule[]): boolean {
+  return a.length === b.length && a.every((rule, i) =>
+    rule.offset === b[i].offset && rule.condition === b[i].condition && rule.value.toLowerCase() === b[i].value.toLowerCase()
+  );
+}
+
+/**
+ * Whether `next` keeps every rule of `current` in place and only appends rules
+ * (applies without the registry timelock, as it can only restrict more)
+ */
+export function extendsParamRules(current: ParamRule[], next: ParamRule[]): boolean {
+  return next.length >= current.length && sameParamRules(current, next.slice(0, current.length));
+}
+
+/**
+ * "receiver == account", with the parameter name taken from the signature when it has one
+ */
+export function formatParamRule(rule: ParamRule, signature?: string): string {
+  let name = `word@${rule.offset}`;
+  if (signature) {
+    const { inputs } = parseFunction(signature);
+    let offset = 0;
+    for (const [index, input] of inputs.entries()) {
+      if (offset === rule.offset) {
+        name = input.name || `arg${index}`;
+        break;
+      }
+      offset += headSize(input);
+    }
+  }
+  return `${name} == ${rule.condition === 'account' ? 'account' : rule.value}`;
+}
@@ -1,20 +1,34 @@
 /**
  * Whitelist Configuration Data for Plasma Chain (Chain ID 9745)
  * 
- * This file contains all whitelist configurations (targets + selectors) for Plasma.
+ * Targets and selectors live in the versioned manifest manifests/plasma.json
+ * (validated on import, see manifest.ts). whitelistConfig and
+ * removeWhitelistConfig are derived from its active and removed entries.
  * 
  * USAGE:
- * - Comment out items that are already whitelisted to maintain history
- * - Uncomment/add new items you want to whitelist
- * - Use the same format for both add and remove operations
+ * - Add new targets/selectors to manifests/plasma.json with status "active"
+ * - To remove an entry, set its status to "removed" and record the reason
+ * - Keep the constants below in sync (checked by `pnpm manifest check`)
  * 
  * TIPS:
- * - Keep commented items for reference/history
+ * - Never delete manifest entries, they are the whitelist history
  * - Add clear descriptions for each entry
  * - Group related targets together
  */
 
 import { Address } from 'viem';
+import { aave } from '../adapters/aave';
+import { erc4626 } from '../adapters/erc4626';
+import manifestJson from './manifests/plasma.json';
+import {
+  ApprovalCeilingItem,
+  ParamRuleItem,
+  describeApprovals,
+  manifestToParamRuleItems,
+  manifestToWhitelistItems,
+  parseManifest,
+} from './manifest';
+import { selectorsFromSignatures } from './selectors';
 
 /**
  * ERC20 Token Addresses (Plasma Chain)
@@ -57,126 +71,110 @@ export interface WhitelistItem {
 }
 
 /**
- * Function Selectors
- * Calculate using: toFunctionSelector(getAbiItem({ abi: [...], name: 'functionName' }))
+ * ERC20 Recipient Item Interface
  */
-export const SELECTORS = {
+export interface RecipientItem {
+  token: Address;
+  recipients: Address[];
+  description: string;
+}
+
+/**
+ * Function Signatures
+ * Human-readable signatures, hashed into SELECTORS with toFunctionSelector.
+ */
+export const SIGNATURES = {
   // ERC20 functions
-  ERC20_APPROVE: '0x095ea7b3' as `0x${string}`, // approve(address,uint256)
-  ERC20_TRANSFER: '0xa9059cbb' as `0x${string}`, // transfer(address,uint256)
+  ERC20_APPROVE: 'function approve(address,uint256)',
+  ERC20_TRANSFER: 'function transfer(address,uint256)',
   
   // AAVE Pool functions
-  AAVE_SUPPLY: '0x617ba037' as `0x${string}`, // supply(address,uint256,address,uint16)
-  AAVE_WITHDRAW: '0x69328dec' as `0x${string}`, // withdraw(address,uint256,address)
+  AAVE_SUPPLY: 'function supply(address,uint256,address,uint16)',
+  AAVE_WITHDRAW: 'function withdraw(address,uint256,address)',
   
   // ERC4626 functions
-  ERC4626_DEPOSIT: '0x6e553f65' as `0x${string}`, // deposit(uint256,address)
-  REDEEM: '0xba087652' as `0x${string}`, // redeem(uint256,address,address)
+  ERC4626_DEPOSIT: 'function deposit(uint256,address)',
+  REDEEM: 'function redeem(uint256,address,address)',
   
   // Merkl functions
-  MERKL_CLAIM: '0x71ee95c0' as `0x${string}`, // claim(address[],address[],uint256[],bytes32[][])
+  MERKL_CLAIM: 'function claim(address[],address[],uint256[],bytes32[][])',
 } as const;
 
+/**
+ * Function Selectors (derived from SIGNATURES)
+ */
+export const SELECTORS = selectorsFromSignatures(SIGNATURES);
+
+/**
+ * PROTOCOL MANIFEST
+ * 
+ * Validated contents of manifests/plasma.json.
+ */
+export const protocolManifest = parseManifest(manifestJson, 'manifests/plasma.json');
+
 /**
  * WHITELIST CONFIGURATION
  * 
- * Structure your whitelist items here.
- * Comment out items that are already whitelisted to maintain history.
+ * Active manifest entries.
  */
-export const whitelistConfig: WhitelistItem[] = [
-  // ========================================
-  // ERC20 TOKEN FUNCTIONS
-  // ========================================
-  {
-    target: TOKENS.WXPL,
-    selector: SELECTORS.ERC20_APPROVE,
-    description: "WXPL approve()",
-  },
-  {
-    target: TOKENS.USDT0,
-    selector: SELECTORS.ERC20_APPROVE,
-    description: "USDT0 approve()",
-  },
-  {
-    target: TOKENS.USDT0,
-    selector: SELECTORS.ERC20_TRANSFER,
-    description: "USDT0 transfer()",
-  },
-  
-  // ========================================
-  // AAVE POOL FUNCTIONS
-  // ========================================
-  {
-    target: AAVE_POOLS.USDT0,
-    selector: SELECTORS.AAVE_SUPPLY,
-    description: "AAVE Pool USDT0 - supply()",
-  },
-  {
-    target: AAVE_POOLS.USDT0,
-    selector: SELECTORS.AAVE_WITHDRAW,
-    description: "AAVE Pool USDT0 - withdraw()",
-  },
-  
-  // ========================================
-  // EULER POOL FUNCTIONS
-  // ========================================
-  {
-    target: EULER_POOLS['Re7 USDT0 Core'],
-    selector: SELECTORS.ERC4626_DEPOSIT,
-    description: "Euler Re7 USDT0 Core - deposit()",
-  },
-  {
-    target: EULER_POOLS['Re7 USDT0 Core'],
-    selector: SELECTORS.REDEEM,
-    description: "Euler Re7 USDT0 Core - redeem()",
-  },
-  {
-    target: EULER_POOLS['K3 Capital USDT0 Vault'],
-    selector: SELECTORS.ERC4626_DEPOSIT,
-    description: "Euler K3 Capital USDT0 Vault - deposit()",
-  },
-  {
-    target: EULER_POOLS['K3 Capital USDT0 Vault'],
-    selector: SELECTORS.REDEEM,
-    description: "Euler K3 Capital USDT0 Vault - redeem()",
-  },
-  {
-    target: EULER_POOLS['Hyperithm Euler USDT'],
-    selector: SELECTORS.ERC4626_DEPOSIT,
-    description: "Euler Hyperithm Euler USDT - deposit()",
-  },
-  {
-    target: EULER_POOLS['Hyperithm Euler USDT'],
-    selector: SELECTORS.REDEEM,
-    description: "Euler Hyperithm Euler USDT - redeem()",
-  },
-  
-  // ========================================
-  // FLUID POOL FUNCTIONS
-  // ========================================
-  {
-    target: FLUID_POOLS.USDT0,
-    selector: SELECTORS.ERC4626_DEPOSIT,
-    description: "Fluid Pool USDT0 - deposit()",
-  },
-  {
-    target: FLUID_POOLS.USDT0,
-    selector: SELECTORS.REDEEM,
-    description: "Fluid Pool USDT0 - redeem()",
-  },
-  
-  // ========================================
-  // MERKL DISTRIBUTOR (Plasma)
-  // ========================================
+export const whitelistConfig: WhitelistItem[] = manifestToWhitelistItems(protocolManifest, 'active');
+
+/**
+ * REMOVE WHITELIST CONFIGURATION
+ * 
+ * Removed manifest entries (removed from the registry if still whitelisted).
+ */
+export const removeWhitelistConfig: WhitelistItem[] = manifestToWhitelistItems(protocolManifest, 'removed');
+
+/**
+ * ERC20 TRANSFER RECIPIENT CONFIGURATION
+ * 
+ * Recipients that may receive ERC20 transfers executed through the module
+ * (in addition to the wallet itself and its owners).
+ */
+export const recipientConfig: RecipientItem[] = [
   {
-    target: '0x3Ef3D8bA38EBe18DB133cEc108f4D14CE00Dd9Ae' as Address,
-    selector: SELECTORS.MERKL_CLAIM,
-    description: "Merkl Distributor (Plasma) - claim()",
+    token: TOKENS.USDT0,
+    recipients: [
+      '0x62be78705295ca9ffdac410b4a9b6101983a7c3b' as Address,
+    ],
+    description: "USDT0 transfer recipients (Plasma)",
   },
 ];
 
 /**
- * Helper function to filter out commented items
+ * REMOVE ERC20 TRANSFER RECIPIENT CONFIGURATION
+ * 
+ * Recipients whose authorization should be revoked.
+ */
+export const removeRecipientConfig: RecipientItem[] = [];
+
+/**
+ * APPROVAL CEILING CONFIGURATION
+ * 
+ * Maximum approve amount per token+spender, enforced by the module. 'batch'
+ * requires the approve to be used up by the same batch (what the adapters
+ * do), 0n removes a ceiling. Applied with `pnpm registry approvals set`.
+ */
+export const approvalCeilingConfig: ApprovalCeilingItem[] = [
+  ...describeApprovals(aave(AAVE_POOLS.USDT0).approvals(TOKENS.USDT0), "USDT0 → AAVE Pool USDT0 supply"),
+  ...describeApprovals(erc4626(FLUID_POOLS.USDT0).approvals(TOKENS.USDT0), "USDT0 → Fluid Pool USDT0 deposit"),
+  ...Object.entries(EULER_POOLS).flatMap(([name, vault]) =>
+    describeApprovals(erc4626(vault).approvals(TOKENS.USDT0), `USDT0 → Euler ${name} deposit`)
+  ),
+];
+
+/**
+ * PARAMETER RULE CONFIGURATION
+ * 
+ * Argument rules of the active manifest entries ("paramRules"), e.g. the
+ * receiver of an ERC4626 deposit must be the account. Entries without rules
+ * clear stale registry rules. Applied with `pnpm registry params set`.
+ */
+export const paramRuleConfig: ParamRuleItem[] = manifestToParamRuleItems(protocolManifest);
+
+/**
+ * Active whitelist items from the manifest
  */
 export function getActiveWhitelistItems(): WhitelistItem[] {
   return whitelistConfig;
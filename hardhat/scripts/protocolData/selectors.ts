@@ -0,0 +1,118 @@
+/**
+ * Function Selector Helpers
+ *
+ * Selectors are derived from human-readable signatures with viem's
+ * toFunctionSelector instead of being typed as hex. Both forms are accepted:
+ *
+ *   "function supply(address,uint256,address,uint16)"
+ *   "supply(address asset, uint256 amount, address onBehalfOf, uint16 referralCode)"
+ */
+
+import { Hex, toFunctionSelector, toFunctionSignature } from 'viem';
+
+/**
+ * Signature with the selector it should hash to, and where it was declared
+ */
+export interface SelectorSource {
+  source: string;
+  protocol: string;
+  signature: string;
+  selector?: string;
+}
+
+/**
+ * Hex selector that does not match its signature
+ */
+export interface SelectorMismatch extends SelectorSource {
+  expected: Hex;
+}
+
+/**
+ * One selector produced by several different signatures
+ */
+export interface SelectorCollision {
+  selector: Hex;
+  signatures: Array<{ signature: string; declaredIn: SelectorSource[] }>;
+}
+
+/**
+ * Canonical signature, e.g. "supply(address,uint256,address,uint16)"
+ * @throws if the signature cannot be parsed
+ */
+export function canonicalSignature(signature: string): string {
+  return toFunctionSignature(signature);
+}
+
+/**
+ * Compute the selector of every signature in a map
+ * @throws naming the offending key if a signature cannot be parsed
+ */
+export function selectorsFromSignatures<T extends Record<string, string>>(
+  signatures: T
+): { readonly [K in keyof T]: Hex } {
+  const selectors: Record<string, Hex> = {};
+  for (const [name, signature] of Object.entries(signatures)) {
+    try {
+      selectors[name] = toFunctionSelector(signature);
+    } catch (error: any) {
+      throw new Error(`Invalid signature for ${name}: "${signature}" (${error.shortMessage ?? error.message})`);
+    }
+  }
+  return selectors as { readonly [K in keyof T]: Hex };
+}
+
+/**
+ * Sources whose hex selector disagrees with their signature
+ * @dev Sources without a hex selector or with an unparseable signature are skipped
+ *      (the manifest schema reports those).
+ */
+export function findSelectorMismatches(sources: SelectorSource[]): SelectorMismatch[] {
+  const mismatches: SelectorMismatch[] = [];
+  for (const source of sources) {
+    if (source.selector === undefined) continue;
+    let expected: Hex;
+    try {
+      expected = toFunctionSelector(source.signature);
+    } catch {
+      continue;
+    }
+    if (source.selector.toLowerCase() !== expected) {
+      mismatches.push({ ...source, expected });
+    }
+  }
+  return mismatches;
+}
+
+/**
+ * Selectors shared by different signatures (4-byte hash collisions)
+ * @dev The registry whitelists target+selector pairs, so a collision lets one
+ *      whitelisted entry authorize a different function on the same target.
+ */
+export function findSelectorCollisions(sources: SelectorSource[]): SelectorCollision[] {
+  const bySelector = new Map<Hex, Map<string, SelectorSource[]>>();
+
+  for (const source of sources) {
+    let signature: string;
+    let selector: Hex;
+    try {
+      signature = canonicalSignature(source.signature);
+      selector = toFunctionSelector(signature);
+    } catch {
+      continue;
+    }
+
+    const signatures = bySelector.get(selector) ?? new Map<string, SelectorSource[]>();
+    signatures.set(signature, [...(signatures.get(signature) ?? []), source]);
+    bySelector.set(selector, signatures);
+  }
+
+  const collisions: SelectorCollision[] = [];
+  bySelector.forEach((signatures, selector) => {
+    if (signatures.size < 2) return;
+    collisions.push({
+      selector,
+      signatures: [...signatures].map(([signature, declaredIn]) => ({ signature, declaredIn })),
+    });
+  });
+  return collisions;
+}
@@ -1,20 +1,35 @@
 /**
  * Whitelist Configuration Data for Sonic Chain (Chain ID 146)
  * 
- * This file contains all whitelist configurations (targets + selectors) for Sonic.
+ * Targets and selectors live in the versioned manifest manifests/sonic.json
+ * (validated on import, see manifest.ts). whitelistConfig and
+ * removeWhitelistConfig are derived from its active and removed entries.
  * 
  * USAGE:
- * - Comment out items that are already whitelisted to maintain history
- * - Uncomment/add new items you want to whitelist
- * - Use the same format for both add and remove operations
+ * - Add new targets/selectors to manifests/sonic.json with status "active"
+ * - To remove an entry, set its status to "removed" and record the reason
+ * - Keep the constants below in sync (checked by `pnpm manifest check`)
  * 
  * TIPS:
- * - Keep commented items for reference/history
+ * - Never delete manifest entries, they are the whitelist history
  * - Add clear descriptions for each entry
  * - Group related targets together
  */
 
 import { Address } from 'viem';
+import { aave } from '../adapters/aave';
+import { batchApproval } from '../adapters/erc20';
+import { erc4626 } from '../adapters/erc4626';
+import manifestJson from './manifests/sonic.json';
+import {
+  ApprovalCeilingItem,
+  ParamRuleItem,
+  describeApprovals,
+  manifestToParamRuleItems,
+  manifestToWhitelistItems,
+  parseManifest,
+} from './manifest';
+import { selectorsFromSignatures } from './selectors';
 
 /**
  * ERC20 Token Addresses (Sonic Chain)
@@ -77,198 +92,114 @@ export interface WhitelistItem {
 }
 
 /**
- * Function Selectors
- * Calculate using: toFunctionSelector(getAbiItem({ abi: [...], name: 'functionName' }))
+ * ERC20 Recipient Item Interface
  */
-export const SELECTORS = {
+export interface RecipientItem {
+  token: Address;
+  recipients: Address[];
+  description: string;
+}
+
+/**
+ * Function Signatures
+ * Human-readable signatures, hashed into SELECTORS with toFunctionSelector.
+ */
+export const SIGNATURES = {
   // ERC20 functions
-  ERC20_APPROVE: '0x095ea7b3' as `0x${string}`, // approve(address,uint256)
-  ERC20_TRANSFER: '0xa9059cbb' as `0x${string}`, // transfer(address,uint256)
+  ERC20_APPROVE: 'function approve(address,uint256)',
+  ERC20_TRANSFER: 'function transfer(address,uint256)',
   
   // AAVE Pool functions
-  AAVE_SUPPLY: '0x617ba037' as `0x${string}`, // supply(address,uint256,address,uint16)
-  AAVE_WITHDRAW: '0x69328dec' as `0x${string}`, // withdraw(address,uint256,address)
+  AAVE_SUPPLY: 'function supply(address,uint256,address,uint16)',
+  AAVE_WITHDRAW: 'function withdraw(address,uint256,address)',
   
   // ERC4626 functions
-  ERC4626_DEPOSIT: '0x6e553f65' as `0x${string}`, // deposit(uint256,address)
-  REDEEM: '0xba087652' as `0x${string}`, // redeem(uint256,address,address)
+  ERC4626_DEPOSIT: 'function deposit(uint256,address)',
+  REDEEM: 'function redeem(uint256,address,address)',
   
   // SiloV2 functions
-  SILOV2_ROUTER_EXECUTE: '0xc3cd3eda' as `0x${string}`, // execute((uint8,address,address,bytes)[])
-  SILO_CLAIM_REWARDS: '0xef5cfb8c' as `0x${string}`, // claimRewards(address)
+  SILOV2_ROUTER_EXECUTE: 'function execute((uint8,address,address,bytes)[])',
+  SILO_CLAIM_REWARDS: 'function claimRewards(address)',
   
   // Merkl functions
-  MERKL_CLAIM: '0x71ee95c0' as `0x${string}`, // claim(address[],address[],uint256[],bytes32[][])
+  MERKL_CLAIM: 'function claim(address[],address[],uint256[],bytes32[][])',
 } as const;
 
+/**
+ * Function Selectors (derived from SIGNATURES)
+ */
+export const SELECTORS = selectorsFromSignatures(SIGNATURES);
+
+/**
+ * PROTOCOL MANIFEST
+ * 
+ * Validated contents of manifests/sonic.json.
+ */
+export const protocolManifest = parseManifest(manifestJson, 'manifests/sonic.json');
+
 /**
  * WHITELIST CONFIGURATION
  * 
- * Structure your whitelist items here.
- * Comment out items that are already whitelisted to maintain history.
+ * Active manifest entries.
  */
-export const whitelistConfig: WhitelistItem[] = [
-  // ========================================
-  // ERC20 TOKEN FUNCTIONS
-  // ========================================
-  {
-    target: TOKENS.USDCe,
-    selector: SELECTORS.ERC20_APPROVE,
-    description: "USDC.e approve()",
-  },
-  {
-    target: TOKENS.USDCe,
-    selector: SELECTORS.ERC20_TRANSFER,
-    description: "USDC.e transfer()",
-  },
-  
-  // ========================================
-  // AAVE POOL FUNCTIONS
-  // ========================================
-  {
-    target: AAVE_POOLS.USDCe,
-    selector: SELECTORS.AAVE_SUPPLY,
-    description: "AAVE Pool USDC.e - supply()",
-  },
-  {
-    target: AAVE_POOLS.USDCe,
-    selector: SELECTORS.AAVE_WITHDRAW,
-    description: "AAVE Pool USDC.e - withdraw()",
-  },
-  
-  // ========================================
-  // EULER POOL FUNCTIONS
-  // ========================================
-  {
-    target: EULER_POOLS['MEV Capital Sonic Cluster USDC.e'],
-    selector: SELECTORS.ERC4626_DEPOSIT,
-    description: "Euler MEV Capital Sonic Cluster USDC.e - deposit()",
-  },
-  {
-    target: EULER_POOLS['MEV Capital Sonic Cluster USDC.e'],
-    selector: SELECTORS.REDEEM,
-    description: "Euler MEV Capital Sonic Cluster USDC.e - redeem()",
-  },
-  {
-    target: EULER_POOLS['Re7 Labs Cluster USDC.e'],
-    selector: SELECTORS.ERC4626_DEPOSIT,
-    description: "Euler Re7 Labs Cluster USDC.e - deposit()",
-  },
-  {
-    target: EULER_POOLS['Re7 Labs Cluster USDC.e'],
-    selector: SELECTORS.REDEEM,
-    description: "Euler Re7 Labs Cluster USDC.e - redeem()",
-  },
-  
-  // ========================================
-  // SILOV2 ROUTER (Sonic)
-  // ========================================
-  {
-    target: SILOV2_ROUTER,
-    selector: SELECTORS.SILOV2_ROUTER_EXECUTE,
-    description: "SiloV2 Router (Sonic) - execute()",
-  },
-  
-  // ========================================
-  // SILOV2 VAULT FUNCTIONS (Sonic)
-  // ========================================
-  {
-    target: SILOV2_POOLS['wstkscUSD-USDC-23'],
-    selector: SELECTORS.REDEEM,
-    description: "SiloV2 wstkscUSD-USDC-23 - redeem()",
-  },
-  {
-    target: SILOV2_POOLS['x33-USDC-49'],
-    selector: SELECTORS.REDEEM,
-    description: "SiloV2 x33-USDC-49 - redeem()",
-  },
-  {
-    target: SILOV2_POOLS['Anon-USDC-27'],
-    selector: SELECTORS.REDEEM,
-    description: "SiloV2 Anon-USDC-27 - redeem()",
-  },
-  {
-    target: SILOV2_POOLS['S-USDC-20'],
-    selector: SELECTORS.REDEEM,
-    description: "SiloV2 S-USDC-20 - redeem()",
-  },
-  {
-    target: SILOV2_POOLS['PT-wstkscUSD (29 May)-USDC-34'],
-    selector: SELECTORS.REDEEM,
-    description: "SiloV2 PT-wstkscUSD (29 May)-USDC-34 - redeem()",
-  },
-  {
-    target: SILOV2_POOLS['stS-USDC-36'],
-    selector: SELECTORS.REDEEM,
-    description: "SiloV2 stS-USDC-36 - redeem()",
-  },
-  {
-    target: SILOV2_POOLS['EGGS-USDC-33'],
-    selector: SELECTORS.REDEEM,
-    description: "SiloV2 EGGS-USDC-33 - redeem()",
-  },
-  {
-    target: SILOV2_POOLS['S-USDC-8'],
-    selector: SELECTORS.REDEEM,
-    description: "SiloV2 S-USDC-8 - redeem()",
-  },
-  {
-    target: SILOV2_POOLS['wstkscUSD-USDC-55'],
-    selector: SELECTORS.REDEEM,
-    description: "SiloV2 wstkscUSD-USDC-55 - redeem()",
-  },
-  {
-    target: SILOV2_POOLS['Varlamore USDC Growth'],
-    selector: SELECTORS.REDEEM,
-    description: "SiloV2 Varlamore USDC Growth - redeem()",
-  },
-  {
-    target: SILOV2_POOLS['Apostro - USDC'],
-    selector: SELECTORS.REDEEM,
-    description: "SiloV2 Apostro - USDC - redeem()",
-  },
-  {
-    target: SILOV2_POOLS['Re7 scUSD'],
-    selector: SELECTORS.REDEEM,
-    description: "SiloV2 Re7 scUSD - redeem()",
-  },
-  {
-    target: SILOV2_POOLS['Greenhouse USDC'],
-    selector: SELECTORS.REDEEM,
-    description: "SiloV2 Greenhouse USDC - redeem()",
-  },
-  
-  // ========================================
-  // SILOV2 REWARDS CLAIMERS (Sonic)
-  // ========================================
-  {
-    target: SILOV2_REWARDS_CLAIMERS[0],
-    selector: SELECTORS.SILO_CLAIM_REWARDS,
-    description: "SiloV2 RewardsClaimer (Sonic) #1 - claimRewards()",
-  },
-  {
-    target: SILOV2_REWARDS_CLAIMERS[1],
-    selector: SELECTORS.SILO_CLAIM_REWARDS,
-    description: "SiloV2 RewardsClaimer (Sonic) #2 - claimRewards()",
-  },
-  {
-    target: SILOV2_REWARDS_CLAIMERS[2],
-    selector: SELECTORS.SILO_CLAIM_REWARDS,
-    description: "SiloV2 RewardsClaimer (Sonic) #3 - claimRewards()",
-  },
-  
-  // ========================================
-  // MERKL DISTRIBUTOR (Sonic)
-  // ========================================
+export const whitelistConfig: WhitelistItem[] = manifestToWhitelistItems(protocolManifest, 'active');
+
+/**
+ * REMOVE WHITELIST CONFIGURATION
+ * 
+ * Removed manifest entries (removed from the registry if still whitelisted).
+ */
+export const removeWhitelistConfig: WhitelistItem[] = manifestToWhitelistItems(protocolManifest, 'removed');
+
+/**
+ * ERC20 TRANSFER RECIPIENT CONFIGURATION
+ * 
+ * Recipients that may receive ERC20 transfers executed through the module
+ * (in addition to the wallet itself and its owners).
+ */
+export const recipientConfig: RecipientItem[] = [
   {
-    target: '0x3Ef3D8bA38EBe18DB133cEc108f4D14CE00Dd9Ae' as Address,
-    selector: SELECTORS.MERKL_CLAIM,
-    description: "Merkl Distributor (Sonic) - claim()",
+    token: TOKENS.USDCe,
+    recipients: [
+      '0x62be78705295ca9ffdac410b4a9b6101983a7c3b' as Address,
+    ],
+    description: "USDC.e transfer recipients (Sonic)",
   },
 ];
 
 /**
- * Helper function to filter out commented items
+ * REMOVE ERC20 TRANSFER RECIPIENT CONFIGURATION
+ * 
+ * Recipients whose authorization should be revoked.
+ */
+export const removeRecipientConfig: RecipientItem[] = [];
+
+/**
+ * APPROVAL CEILING CONFIGURATION
+ * 
+ * Maximum approve amount per token+spender, enforced by the module. 'batch'
+ * requires the approve to be used up by the same batch (what the adapters
+ * do), 0n removes a ceiling. Applied with `pnpm registry approvals set`.
+ */
+export const approvalCeilingConfig: ApprovalCeilingItem[] = [
+  ...describeApprovals(aave(AAVE_POOLS.USDCe).approvals(TOKENS.USDCe), "USDC.e → AAVE Pool USDC.e supply"),
+  ...describeApprovals([batchApproval(TOKENS.USDCe, SILOV2_ROUTER)], "USDC.e → SiloV2 router deposit"),
+  ...Object.entries(EULER_POOLS).flatMap(([name, vault]) =>
+    describeApprovals(erc4626(vault).approvals(TOKENS.USDCe), `USDC.e → Euler ${name} deposit`)
+  ),
+];
+
+/**
+ * PARAMETER RULE CONFIGURATION
+ * 
+ * Argument rules of the active manifest entries ("paramRules"), e.g. the
+ * receiver of an ERC4626 deposit must be the account. Entries without rules
+ * clear stale registry rules. Applied with `pnpm registry params set`.
+ */
+export const paramRuleConfig: ParamRuleItem[] = manifestToParamRuleItems(protocolManifest);
+
+/**
+ * Active whitelist items from the manifest
  */
 export function getActiveWhitelistItems(): WhitelistItem[] {
   return whitelistConfig;
@@ -0,0 +1,161 @@
+/**
+ * TargetRegistry Admin CLI
+ *
+ * Chain-agnostic replacement for the per-chain whitelist and recipient scripts.
+ * Clients, registry address and manifest (protocolData/*data.ts) are resolved
+ * from the chain configuration in utils/chains.ts.
+ *
+ * USAGE:
+ *   pnpm registry whitelist add|remove|status --chain base|arbitrum|plasma|sonic
+ *   pnpm registry whitelist reconcile --chain <chain> [--from-block <n>] [--plan] [--out <file>]
+ *   pnpm registry recipients add|remove|status --chain base|arbitrum|plasma|sonic
+ *   pnpm registry approvals set|status --chain base|arbitrum|plasma|sonic
+ *   pnpm registry params set|status --chain base|arbitrum|plasma|sonic
+ *   pnpm registry timelock schedule|pending|execute --chain <chain> [--from-block <n>]
+ *   pnpm registry timelock cancel --chain <chain> --id <operationId,...>
+ *   pnpm registry timelock delay --chain <chain> [--delay <1d|24h|3600>]
+ *   pnpm registry <whitelist|recipients|approvals|params|timelock> <write action> --chain <chain> --as-safe <safe> [--safe-nonce <n>]
+ *   pnpm registry <whitelist|recipients|approvals|params|timelock> <write action> --chain <chain> --dry-run
+ *   pnpm registry safe sign --chain <chain> --proposal <file> [--signer <alias>] [--signatures a.json,b.json]
+ *
+ * whitelist add       - whitelists items in whitelistConfig that are not yet whitelisted
+ * whitelist remove    - removes items in removeWhitelistConfig that are still whitelisted
+ * whitelist reconcile - diffs the live whitelist (from registry events) against whitelistConfig
+ * recipients add      - authorizes recipients in recipientConfig
+ * recipients remove   - revokes recipients in removeRecipientConfig
+ * approvals set       - sets approval ceilings in approvalCeilingConfig that differ from the registry
+ * params set          - sets parameter rules in paramRuleConfig that differ from the registry
+ * timelock schedule   - schedules whitelistConfig / recipientConfig additions (timelock enabled)
+ * timelock pending    - pending operations (from registry events) and the time left on each
+ * timelock execute    - executes the scheduled additions that are ready
+ * timelock cancel     - cancels scheduled operations by id
+ * timelock delay      - shows or changes the timelock delay (decreases are scheduled first)
+ * <group> status      - read-only status of both manifest lists
+ * safe sign           - add owner signatures (keystore key or signature files) to a Safe proposal
+ *
+ * --as-safe writes nothing on-chain: the calls are combined into one Safe transaction
+ * (MultiSend when needed) written to safe-proposals/ with its safeTxHash, EIP-712
+ * payload, signatures and a Transaction Builder batch (see registry/proposal.ts).
+ *
+ * --dry-run sends nothing either: each write is decoded, simulated from the signer with
+ * simulateContract and written to dry-runs/ as an unsigned transaction (see utils/dryRun.ts).
+ *
+ * Read-only actions (status, whitelist reconcile, timelock pending) need no signer. The
+ * signer is unlocked only when a transaction is sent or a Safe proposal is signed: --dry-run
+ * and --as-safe only read its address.
+ */
+
+import { getAddress, isAddress } from 'viem';
+import { getReadOnlyClients, getSignerAddress } from './utils/chains';
+import { loadEnv, parseCommandLine, runCli } from './utils/cli';
+import { RegistryCommand, RegistryContext } from './registry/context';
+import { whitelistAdd, whitelistRemove, whitelistStatus } from './registry/whitelist';
+import { whitelistReconcile } from './registry/reconcile';
+import { recipientsAdd, recipientsRemove, recipientsStatus } from './registry/recipients';
+import { approvalsSet, approvalsStatus } from './registry/approvals';
+import { paramsSet, paramsStatus } from './registry/params';
+import { timelockCancel, timelockDelay, timelockExecute, timelockPending, timelockSchedule } from './registry/timelock';
+import { safeSign, writeSafeProposal } from './registry/proposal';
+
+// Load environment variables
+loadEnv();
+
+const COMMANDS: Record<string, Record<string, RegistryCommand>> = {
+  whitelist: {
+    add: whitelistAdd,
+    remove: whitelistRemove,
+    status: whitelistStatus,
+    reconcile: whitelistReconcile,
+  },
+  recipients: {
+    add: recipientsAdd,
+    remove: recipientsRemove,
+    status: recipientsStatus,
+  },
+  approvals: {
+    set: approvalsSet,
+    status: approvalsStatus,
+  },
+  params: {
+    set: paramsSet,
+    status: paramsStatus,
+  },
+  timelock: {
+    schedule: timelockSchedule,
+    pending: timelockPending,
+    execute: timelockExecute,
+    cancel: timelockCancel,
+    delay: timelockDelay,
+  },
+  safe: {
+    sign: safeSign,
+  },
+};
+
+/**
+ * Actions that only read the registry (run without a signer)
+ */
+const READ_ONLY_ACTIONS: Record<string, string[]> = {
+  whitelist: ['status', 'reconcile'],
+  recipients: ['status'],
+  approvals: ['status'],
+  params: ['status'],
+  timelock: ['pending'],
+};
+
+const USAGE = `Usage: registry <${Object.keys(COMMANDS).join('|')}> <add|remove|set|status|reconcile|schedule|pending|execute|cancel|delay|sign> --chain <chain> [--dry-run | --as-safe <safe>]`;
+
+async function main() {
+  const { values, positionals } = parseCommandLine({
+    chain: { type: 'string' },
+    'from-block': { type: 'string' },
+    plan: { type: 'boolean' },
+    out: { type: 'string' },
+    'dry-run': { type: 'boolean' },
+    'as-safe': { type: 'string' },
+    'safe-nonce': { type: 'string' },
+    proposal: { type: 'string' },
+    signer: { type: 'string' },
+    signatures: { type: 'string' },
+    id: { type: 'string' },
+    delay: { type: 'string' },
+  });
+
+  const [group, action] = positionals;
+  const command = COMMANDS[group]?.[action];
+  if (!command) {
+    throw new Error(USAGE);
+  }
+
+  const { chain, 'dry-run': dryRun, 'as-safe': asSafe, 'safe-nonce': safeNonce, ...options } = values;
+  if (asSafe !== undefined && !isAddress(asSafe)) {
+    throw new Error(`--as-safe must be a Safe address (got "${asSafe}")`);
+  }
+  if (dryRun && asSafe) {
+    throw new Error("--dry-run and --as-safe cannot be combined (--as-safe already sends nothing)");
+  }
+
+  const ctx: RegistryContext = getReadOnlyClients(chain);
+  // Writes read the signer address up front, without unlocking it. With --as-safe the signer
+  // only signs the proposal (left unsigned when none is configured); `safe sign` unlocks its own.
+  const readOnly = READ_ONLY_ACTIONS[group]?.includes(action) ?? false;
+  const signerConfigured = [ctx.config.keystoreAliasEnv, ctx.config.privateKeyEnv].some(key => process.env[key]?.trim());
+  if (!readOnly && group !== 'safe' && (!asSafe || signerConfigured)) {
+    ctx.signerAddress = getSignerAddress(ctx.config);
+  }
+  if (asSafe) {
+    ctx.safe = { address: getAddress(asSafe), calls: [] };
+  }
+  ctx.dryRun = dryRun;
+
+  console.log(`🗂️  Registry ${group} ${action} (${ctx.config.name} Chain)`);
+  console.log("==================================\n");
+
+  await command(ctx, options);
+
+  if (ctx.safe && ctx.safe.calls.length > 0) {
+    await writeSafeProposal(ctx, ctx.safe.address, ctx.safe.calls, safeNonce !== undefined ? BigInt(safeNonce) : undefined);
+  }
+}
+
+runCli(main);
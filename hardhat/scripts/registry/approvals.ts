@@ -0,0 +1,200 @@
+/**
+ * Approval Ceiling Commands
+ *
+ * set    - sets manifest ceilings (approvalCeilingConfig) that differ from the registry
+ * status - shows the registry ceiling of every manifest item
+ *
+ * Ceilings cap the amount of an ERC20 approve executed through the module per
+ * token+spender; 'batch' requires the approve to be used up within the same
+ * batch (TargetRegistry.APPROVAL_MATCH_BATCH) and 0n removes the ceiling.
+ *
+ * With the registry timelock enabled, adding a ceiling or lowering a numeric one
+ * is immediate. Other changes are scheduled by `set` and set by running it again
+ * once ready.
+ */
+
+import { Hex, getAddress } from 'viem';
+import { ApprovalCeiling, decodeApprovalCeiling, encodeApprovalCeiling } from '../adapters/types';
+import { ApprovalCeilingItem } from '../protocolData/manifest';
+import { logTransactionError } from '../utils/cli';
+import { TARGET_REGISTRY_ABI } from '../utils/utils';
+import {
+  RegistryContext,
+  confirmRegistryWrite,
+  displayConfiguration,
+  sendRegistryTransaction,
+} from './context';
+import {
+  ceilingOperationId,
+  classifyTimelockedChanges,
+  displayWaitingChanges,
+  timelockedChangesNotice,
+} from './timelock';
+
+/**
+ * Registry ceiling of one manifest item
+ */
+interface ApprovalCeilingStatus {
+  item: ApprovalCeilingItem;
+  current: ApprovalCeiling;
+  inSync: boolean;
+}
+
+function formatCeiling(ceiling: ApprovalCeiling): string {
+  if (ceiling === 'batch') return "must be used in the batch";
+  return ceiling === 0n ? "none" : ceiling.toString();
+}
+
+/**
+ * Whether a ceiling change only restricts approvals further (TargetRegistry._isCeilingTightening)
+ */
+function isCeilingTightening(current: ApprovalCeiling, next: ApprovalCeiling): boolean {
+  const [from, to] = [encodeApprovalCeiling(current), encodeApprovalCeiling(next)];
+  if (to === from || from === 0n) return true;
+  if (current === 'batch' || next === 'batch' || to === 0n) return false;
+  return to < from;
+}
+
+function ceilingChangeId(status: ApprovalCeilingStatus): Hex {
+  return ceilingOperationId(status.item.token, status.item.spender, encodeApprovalCeiling(status.item.ceiling));
+}
+
+/**
+ * Read the registry ceiling of every item
+ */
+async function checkApprovalCeilings(ctx: RegistryContext, items: ApprovalCeilingItem[]): Promise<ApprovalCeilingStatus[]> {
+  if (items.length === 0) return [];
+  const results = await ctx.publicClient.multicall({
+    allowFailure: false,
+    contracts: items.map(item => ({
+      address: ctx.registryAddress,
+      abi: TARGET_REGISTRY_ABI,
+      functionName: 'approvalCeilings',
+      args: [getAddress(item.token), getAddress(item.spender)],
+    })),
+  });
+  return items.map((item, i) => {
+    const current = decodeApprovalCeiling(results[i] as bigint);
+    return { item, current, inSync: encodeApprovalCeiling(current) === encodeApprovalCeiling(item.ceiling) };
+  });
+}
+
+function displayApprovalCeilingStatus(statuses: ApprovalCeilingStatus[]): void {
+  console.log("\n📊 Approval Ceiling Status:");
+  statuses.forEach((status, index) => {
+    const icon = status.inSync ? "✅" : "❌";
+    console.log(`  ${index + 1}. ${icon} ${status.item.description}`);
+    console.log(`     ${status.item.token} → ${status.item.spender}`);
+    console.log(`     Registry: ${formatCeiling(status.current)}, manifest: ${formatCeiling(status.item.ceiling)}`);
+  });
+}
+
+/**
+ * Set the manifest ceilings that differ from the registry (one batch call)
+ */
+export async function approvalsSet(ctx: RegistryContext): Promise<void> {
+  const { approvalCeilingConfig } = ctx.config.manifest;
+  displayConfiguration(ctx, { "Ceilings in approvalCeilingConfig": approvalCeilingConfig.length });
+
+  if (approvalCeilingConfig.length === 0) {
+    console.log("\n✅ approvalCeilingConfig is empty, nothing to set.");
+    return;
+  }
+
+  console.log("\n🔍 Checking current ceilings...");
+  const statuses = await checkApprovalCeilings(ctx, approvalCeilingConfig);
+  displayApprovalCeilingStatus(statuses);
+
+  const changes = await classifyTimelockedChanges(
+    ctx,
+    statuses.filter(status => !status.inSync),
+    status => !isCeilingTightening(status.current, status.item.ceiling),
+    ceilingChangeId
+  );
+  displayWaitingChanges(changes, status => `${status.item.description}: ${formatCeiling(status.item.ceiling)}`);
+
+  const pending = changes.apply.map(status => status.item);
+  const toSchedule = changes.schedule.map(status => status.item);
+  if (pending.length === 0 && toSchedule.length === 0) {
+    console.log(changes.waiting.length === 0
+      ? "\n✅ All ceilings are already set!"
+      : "\n✅ Nothing to send: the remaining changes wait for the timelock.");
+    return;
+  }
+
+  if (pending.length > 0) {
+    console.log(`\n📋 Preparing to set ${pending.length} ceiling(s):`);
+    pending.forEach((item, index) => {
+      console.log(`  ${index + 1}. ${item.description}: ${formatCeiling(item.ceiling)}`);
+    });
+  }
+  if (toSchedule.length > 0) {
+    console.log(`\n📋 Preparing to schedule ${toSchedule.length} loosening ceiling change(s):`);
+    toSchedule.forEach((item, index) => {
+      console.log(`  ${index + 1}. ${item.description}: ${formatCeiling(item.ceiling)}`);
+    });
+  }
+
+  await confirmRegistryWrite(ctx, [
+    "You are about to change approval ceilings of the registry.",
+    "Guarded batches approving more than a ceiling (or not using a 'batch' approval) will revert.",
+    timelockedChangesNotice(changes),
+  ]);
+
+  try {
+    if (toSchedule.length > 0) {
+      await sendRegistryTransaction(
+        ctx,
+        'scheduleApprovalCeilings',
+        [
+          toSchedule.map(item => getAddress(item.token)),
+          toSchedule.map(item => getAddress(item.spender)),
+          toSchedule.map(item => encodeApprovalCeiling(item.ceiling)),
+        ],
+        `schedule ${toSchedule.length} approval ceiling change(s)`,
+        changes.schedule.map(status => `operationScheduledAt[${ceilingChangeId(status)}]: 0 → now (${status.item.description})`)
+      );
+    }
+    if (pending.length === 0) return;
+
+    const executed = await sendRegistryTransaction(
+      ctx,
+      'setApprovalCeilings',
+      [
+        pending.map(item => getAddress(item.token)),
+        pending.map(item => getAddress(item.spender)),
+        pending.map(item => encodeApprovalCeiling(item.ceiling)),
+      ],
+      `set ${pending.length} approval ceiling(s)`,
+      pending.map(item => `approvalCeilings[${item.token}][${item.spender}] → ${encodeApprovalCeiling(item.ceiling)}`)
+    );
+    if (!executed) return;
+
+    console.log("\n🔍 Verifying ceilings after transaction...");
+    const newStatuses = await checkApprovalCeilings(ctx, pending);
+    displayApprovalCeilingStatus(newStatuses);
+
+    if (newStatuses.every(status => status.inSync)) {
+      console.log("\n✅✅ All ceilings successfully set!");
+    } else {
+      console.log("\n⚠️  Warning: Some ceilings were not updated. Check transaction logs.");
+    }
+  } catch (error: any) {
+    logTransactionError(error);
+    throw error;
+  }
+}
+
+/**
+ * Show the registry ceiling of every manifest item
+ */
+export async function approvalsStatus(ctx: RegistryContext): Promise<void> {
+  const { approvalCeilingConfig } = ctx.config.manifest;
+  displayConfiguration(ctx, { "Ceilings in approvalCeilingConfig": approvalCeilingConfig.length });
+
+  if (approvalCeilingConfig.length === 0) {
+    console.log("\n✅ approvalCeilingConfig is empty.");
+    return;
+  }
+  displayApprovalCeilingStatus(await checkApprovalCeilings(ctx, approvalCeilingConfig));
+}
@@ -0,0 +1,178 @@
+/**
+ * Registry Command Context
+ *
+ * Command context (clients and addresses from utils/chains.ts) and
+ * the shared transaction flow used by all registry admin commands.
+ * Commands start from read-only clients: the signer is unlocked by
+ * unlockSigner when a transaction is sent or a Safe proposal is signed.
+ * In Safe mode (--as-safe) writes are queued for a Safe proposal
+ * (see proposal.ts) instead of being sent from the signer. With --dry-run
+ * they are simulated and exported unsigned (see utils/dryRun.ts).
+ */
+
+import { Abi, Address, ContractFunctionArgs, ContractFunctionName, encodeFunctionData } from 'viem';
+import { ChainClients, ReadOnlyChainClients, getClients } from '../utils/chains';
+import { confirmCountdown } from '../utils/cli';
+import { dryRunTransaction } from '../utils/dryRun';
+import { TARGET_REGISTRY_ABI } from '../utils/utils';
+import { QueuedRegistryCall } from './proposal';
+
+/**
+ * Everything a registry command needs to talk to one chain
+ */
+export type RegistryContext = ReadOnlyChainClients & {
+  /** Chain signer address (read without unlocking); unset for read-only commands */
+  signerAddress?: Address;
+  /** Unlocked signer, set by unlockSigner */
+  signer?: Pick<ChainClients, 'walletClient' | 'account'>;
+  /** Set with --as-safe: the owning Safe and the calls queued for its proposal */
+  safe?: { address: Address; calls: QueuedRegistryCall[] };
+  /** Set with --dry-run: simulate and export writes instead of sending them */
+  dryRun?: boolean;
+};
+
+/**
+ * Flags passed to registry commands (parsed from the command line)
+ */
+export type RegistryCommandOptions = {
+  'from-block'?: string;
+  plan?: boolean;
+  out?: string;
+  proposal?: string;
+  signer?: string;
+  signatures?: string;
+  id?: string;
+  delay?: string;
+};
+
+/**
+ * Registry command implementation
+ */
+export type RegistryCommand = (ctx: RegistryContext, options: RegistryCommandOptions) => Promise<void>;
+
+/**
+ * Write functions of TargetRegistry that the admin commands call
+ */
+export type RegistryWriteFunction = Extract<ContractFunctionName<typeof TARGET_REGISTRY_ABI, 'nonpayable'>,
+  | 'addToWhitelist'
+  | 'removeFromWhitelist'
+  | 'addAllowedERC20TokenRecipient'
+  | 'removeAllowedERC20TokenRecipient'
+  | 'setApprovalCeilings'
+  | 'setParamRules'
+  | 'scheduleAdd'
+  | 'executeAdd'
+  | 'scheduleAddAllowedERC20TokenRecipient'
+  | 'executeAddAllowedERC20TokenRecipient'
+  | 'cancelOperation'
+  | 'scheduleTimelockDelay'
+  | 'setTimelockDelay'
+  | 'scheduleApprovalCeilings'
+  | 'scheduleParamRules'
+>;
+
+/**
+ * Unlock the chain signer (keystore passphrase) the first time it is needed
+ */
+export async function unlockSigner(ctx: RegistryContext): Promise<Pick<ChainClients, 'walletClient' | 'account'>> {
+  if (!ctx.signer) {
+    const { walletClient, account } = await getClients(ctx.config.key);
+    ctx.signer = { walletClient, account };
+  }
+  return ctx.signer;
+}
+
+/**
+ * Print the configuration header shown by every command
+ */
+export function displayConfiguration(ctx: RegistryContext, extra: Record<string, string | number> = {}): void {
+  console.log("Configuration:");
+  console.log(`  Chain: ${ctx.config.name} (${ctx.config.chain.id})`);
+  console.log("  Registry address:", ctx.registryAddress);
+  if (ctx.signerAddress) {
+    console.log("  Account address:", ctx.signerAddress);
+  }
+  if (ctx.safe) {
+    console.log("  Proposing as Safe:", ctx.safe.address);
+  }
+  if (ctx.dryRun) {
+    console.log("  Mode: dry run (nothing is sent)");
+  }
+  Object.entries(extra).forEach(([label, value]) => console.log(`  ${label}:`, value));
+}
+
+/**
+ * Countdown before a registry write (skipped in Safe and dry-run modes: nothing is sent)
+ */
+export async function confirmRegistryWrite(ctx: RegistryContext, warning: string[]): Promise<void> {
+  if (ctx.dryRun) {
+    return;
+  }
+  if (ctx.safe) {
+    console.log(`\n📝 Safe mode: the change is added to a proposal for ${ctx.safe.address}, nothing is sent`);
+    return;
+  }
+  await confirmCountdown(warning);
+}
+
+/**
+ * Send a TargetRegistry transaction and wait for its receipt
+ * @param description What the call does, e.g. "add items to whitelist"
+ * @param expectedChanges Registry state the call should change (printed in dry-run mode)
+ * @return true if the transaction was executed, false if it was queued for a Safe proposal or dry-run only
+ * @dev args are checked against the ABI by the overload signature
+ */
+export async function sendRegistryTransaction<F extends RegistryWriteFunction>(
+  ctx: RegistryContext,
+  functionName: F,
+  args: ContractFunctionArgs<typeof TARGET_REGISTRY_ABI, 'nonpayable', F>,
+  description: string,
+  expectedChanges?: string[]
+): Promise<boolean>;
+export async function sendRegistryTransaction(
+  ctx: RegistryContext,
+  functionName: RegistryWriteFunction,
+  args: readonly unknown[],
+  description: string,
+  expectedChanges: string[] = []
+): Promise<boolean> {
+  const abi: Abi = TARGET_REGISTRY_ABI;
+  const data = encodeFunctionData({ abi, functionName, args });
+
+  if (ctx.dryRun) {
+    await dryRunTransaction(ctx, {
+      name: functionName,
+      description,
+      call: { from: ctx.signerAddress!, to: ctx.registryAddress, abi, functionName, args },
+      expectedChanges,
+    });
+    return false;
+  }
+
+  if (ctx.safe) {
+    ctx.safe.calls.push({ to: ctx.registryAddress, value: 0n, data, description });
+    console.log(`📝 Queued for Safe proposal: ${description}`);
+    return false;
+  }
+
+  const { walletClient } = await unlockSigner(ctx);
+  console.log(`🚀 Sending transaction to ${description}...`);
+  const txHash = await walletClient.sendTransaction({
+    to: ctx.registryAddress,
+    data,
+  });
+
+  console.log("✅ Transaction sent!");
+  console.log("  Transaction hash:", txHash);
+
+  // Wait for confirmation
+  console.log("\n⏳ Waiting for transaction confirmation...");
+  const receipt = await ctx.publicClient.waitForTransactionReceipt({
+    hash: txHash,
+  });
+
+  console.log("✅ Transaction confirmed!");
+  console.log("  Block number:", receipt.blockNumber.toString());
+  console.log("  Gas used:", receipt.gasUsed.toString());
+  return true;
+}
@@ -0,0 +1,205 @@
+/**
+ * Parameter Rule Commands
+ *
+ * set    - sets manifest parameter rules (paramRuleConfig) that differ from the registry
+ * status - shows the registry rules of every manifest entry that has rules in
+ *          the manifest or the registry
+ *
+ * Rules pin one argument word of a target+selector to the executing smart
+ * account or a constant (see protocolData/paramRules.ts). Active entries
+ * without rules clear the registry's rules.
+ *
+ * With the registry timelock enabled, appending rules is immediate. Removing or
+ * replacing rules is scheduled by `set` and set by running it again once ready.
+ */
+
+import { Hex, getAddress } from 'viem';
+import { ParamRuleItem } from '../protocolData/manifest';
+import {
+  ParamRule,
+  decodeParamRules,
+  encodeParamRules,
+  extendsParamRules,
+  formatParamRule,
+  sameParamRules,
+} from '../protocolData/paramRules';
+import { logTransactionError } from '../utils/cli';
+import { TARGET_REGISTRY_ABI } from '../utils/utils';
+import {
+  RegistryContext,
+  confirmRegistryWrite,
+  displayConfiguration,
+  sendRegistryTransaction,
+} from './context';
+import {
+  classifyTimelockedChanges,
+  displayWaitingChanges,
+  paramRulesOperationId,
+  timelockedChangesNotice,
+} from './timelock';
+
+/**
+ * Registry rules of one manifest item
+ */
+interface ParamRuleStatus {
+  item: ParamRuleItem;
+  current: ParamRule[];
+  inSync: boolean;
+}
+
+function formatRules(rules: ParamRule[], signature: string): string {
+  return rules.length === 0 ? "none" : rules.map(rule => formatParamRule(rule, signature)).join(', ');
+}
+
+function paramRulesChangeId(status: ParamRuleStatus): Hex {
+  return paramRulesOperationId(status.item.target, status.item.selector, status.item.rules);
+}
+
+/**
+ * Read the registry rules of every item
+ */
+async function checkParamRules(ctx: RegistryContext, items: ParamRuleItem[]): Promise<ParamRuleStatus[]> {
+  if (items.length === 0) return [];
+  const results = await ctx.publicClient.multicall({
+    allowFailure: false,
+    contracts: items.map(item => ({
+      address: ctx.registryAddress,
+      abi: TARGET_REGISTRY_ABI,
+      functionName: 'getParamRules' as const,
+      args: [getAddress(item.target), item.selector] as const,
+    })),
+  });
+  return items.map((item, i) => {
+    const current = decodeParamRules(results[i]);
+    return { item, current, inSync: sameParamRules(current, item.rules) };
+  });
+}
+
+function displayParamRuleStatus(statuses: ParamRuleStatus[]): void {
+  console.log("\n📊 Parameter Rule Status:");
+  statuses.forEach((status, index) => {
+    const icon = status.inSync ? "✅" : "❌";
+    console.log(`  ${index + 1}. ${icon} ${status.item.description}`);
+    console.log(`     ${status.item.target} ${status.item.selector}`);
+    console.log(`     Registry: ${formatRules(status.current, status.item.signature)}, manifest: ${formatRules(status.item.rules, status.item.signature)}`);
+  });
+}
+
+/**
+ * Set the manifest rules that differ from the registry (one batch call)
+ */
+export async function paramsSet(ctx: RegistryContext): Promise<void> {
+  const { paramRuleConfig } = ctx.config.manifest;
+  displayConfiguration(ctx, {
+    "Entries in paramRuleConfig": paramRuleConfig.length,
+    "Entries with rules": paramRuleConfig.filter(item => item.rules.length > 0).length,
+  });
+
+  if (paramRuleConfig.length === 0) {
+    console.log("\n✅ paramRuleConfig is empty, nothing to set.");
+    return;
+  }
+
+  console.log("\n🔍 Checking current rules...");
+  const statuses = await checkParamRules(ctx, paramRuleConfig);
+
+  const outOfSync = statuses.filter(status => !status.inSync);
+  if (outOfSync.length === 0) {
+    console.log("\n✅ All parameter rules are already set!");
+    return;
+  }
+  displayParamRuleStatus(outOfSync);
+
+  const changes = await classifyTimelockedChanges(
+    ctx,
+    outOfSync,
+    status => !extendsParamRules(status.current, status.item.rules),
+    paramRulesChangeId
+  );
+  displayWaitingChanges(changes, ({ item }) => `${item.description}: ${formatRules(item.rules, item.signature)}`);
+
+  const items = changes.apply.map(status => status.item);
+  const toSchedule = changes.schedule.map(status => status.item);
+  if (items.length === 0 && toSchedule.length === 0) {
+    console.log("\n✅ Nothing to send: the remaining changes wait for the timelock.");
+    return;
+  }
+
+  if (items.length > 0) {
+    console.log(`\n📋 Preparing to set the rules of ${items.length} target+selector(s):`);
+    items.forEach((item, index) => {
+      console.log(`  ${index + 1}. ${item.description}: ${formatRules(item.rules, item.signature)}`);
+    });
+  }
+  if (toSchedule.length > 0) {
+    console.log(`\n📋 Preparing to schedule removing or replacing the rules of ${toSchedule.length} target+selector(s):`);
+    toSchedule.forEach((item, index) => {
+      console.log(`  ${index + 1}. ${item.description}: ${formatRules(item.rules, item.signature)}`);
+    });
+  }
+
+  await confirmRegistryWrite(ctx, [
+    "You are about to change parameter rules of the registry.",
+    "Guarded batches whose arguments break a rule (e.g. a receiver other than the account) will revert.",
+    timelockedChangesNotice(changes),
+  ]);
+
+  try {
+    if (toSchedule.length > 0) {
+      await sendRegistryTransaction(
+        ctx,
+        'scheduleParamRules',
+        [
+          toSchedule.map(item => getAddress(item.target)),
+          toSchedule.map(item => item.selector),
+          toSchedule.map(item => encodeParamRules(item.rules)),
+        ],
+        `schedule parameter rules of ${toSchedule.length} target+selector(s)`,
+        changes.schedule.map(status => `operationScheduledAt[${paramRulesChangeId(status)}]: 0 → now (${status.item.description})`)
+      );
+    }
+    if (items.length === 0) return;
+
+    const executed = await sendRegistryTransaction(
+      ctx,
+      'setParamRules',
+      [
+        items.map(item => getAddress(item.target)),
+        items.map(item => item.selector),
+        items.map(item => encodeParamRules(item.rules)),
+      ],
+      `set parameter rules of ${items.length} target+selector(s)`,
+      items.map(item => `getParamRules(${item.target}, ${item.selector}) → [${formatRules(item.rules, item.signature)}]`)
+    );
+    if (!executed) return;
+
+    console.log("\n🔍 Verifying rules after transaction...");
+    const newStatuses = await checkParamRules(ctx, items);
+    displayParamRuleStatus(newStatuses);
+
+    if (newStatuses.every(status => status.inSync)) {
+      console.log("\n✅✅ All parameter rules successfully set!");
+    } else {
+      console.log("\n⚠️  Warning: Some rules were not updated. Check transaction logs.");
+    }
+  } catch (error: any) {
+    logTransactionError(error);
+    throw error;
+  }
+}
+
+/**
+ * Show the registry rules of the manifest entries that have rules on either side
+ */
+export async function paramsStatus(ctx: RegistryContext): Promise<void> {
+  const { paramRuleConfig } = ctx.config.manifest;
+  displayConfiguration(ctx, { "Entries in paramRuleConfig": paramRuleConfig.length });
+
+  const statuses = (await checkParamRules(ctx, paramRuleConfig))
+    .filter(status => status.item.rules.length > 0 || status.current.length > 0);
+  if (statuses.length === 0) {
+    console.log("\n✅ No parameter rules in the manifest or the registry.");
+    return;
+  }
+  displayParamRuleStatus(statuses);
+}
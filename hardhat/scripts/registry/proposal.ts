@@ -0,0 +1,308 @@
+/**
+ * Safe Proposals for Registry Changes
+ *
+ * With --as-safe <address>, registry commands queue their calldata instead of
+ * sending it. The queued calls become one Safe transaction (a MultiSend batch
+ * when there are several), written to hardhat/safe-proposals/ as:
+ *
+ * - <name>.json            proposal: Safe tx, safeTxHash, EIP-712 payload, signatures
+ * - <name>.tx-builder.json batch for the Safe{Wallet} Transaction Builder
+ *
+ * Co-signers add signatures with `registry safe sign --proposal <file>` (own
+ * keystore key, or signature JSON files). Once the threshold is met the
+ * proposal contains the execTransaction calldata.
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { Address, Hex, PublicClient, getAddress, isAddressEqual } from 'viem';
+import { ChainConfig } from '../utils/chains';
+import { loadKeystoreAccount } from '../utils/keystore';
+import {
+  SAFE_ABI,
+  SafeCall,
+  SafeSignature,
+  SafeTransaction,
+  buildSafeTransaction,
+  encodeExecTransaction,
+  getSafeTxHash,
+  getSafeTxTypedData,
+  signSafeTransaction,
+  toTransactionBuilderJson,
+  verifySafeSignature,
+} from '../utils/safeTx';
+import { TARGET_REGISTRY_ABI } from '../utils/utils';
+import { RegistryContext, RegistryCommandOptions, unlockSigner } from './context';
+
+export const SAFE_PROPOSAL_VERSION = 1;
+
+/**
+ * Registry call queued by a command
+ */
+export interface QueuedRegistryCall extends SafeCall {
+  description: string;
+}
+
+/**
+ * Safe transaction with bigints as decimal strings
+ */
+type SerializedSafeTransaction = { [K in keyof SafeTransaction]: SafeTransaction[K] extends bigint ? string : SafeTransaction[K] };
+
+/**
+ * Proposal file shared with co-signers
+ */
+export interface SafeProposal {
+  version: number;
+  chain: string;
+  chainId: number;
+  safe: Address;
+  registry: Address;
+  createdAt: string;
+  calls: Array<{ to: Address; value: string; data: Hex; description: string }>;
+  safeTx: SerializedSafeTransaction;
+  safeTxHash: Hex;
+  /** EIP-712 payload, as passed to eth_signTypedData_v4 */
+  typedData: ReturnType<typeof serializeTypedData>;
+  signatures: SafeSignature[];
+  /** Present once signatures reach the threshold */
+  execTransaction?: { to: Address; data: Hex };
+}
+
+export function proposalsDir(): string {
+  return join(__dirname, '..', '..', 'safe-proposals');
+}
+
+function serializeSafeTx(tx: SafeTransaction): SerializedSafeTransaction {
+  return {
+    ...tx,
+    value: tx.value.toString(),
+    safeTxGas: tx.safeTxGas.toString(),
+    baseGas: tx.baseGas.toString(),
+    gasPrice: tx.gasPrice.toString(),
+    nonce: tx.nonce.toString(),
+  };
+}
+
+function deserializeSafeTx(tx: SerializedSafeTransaction): SafeTransaction {
+  return {
+    ...tx,
+    value: BigInt(tx.value),
+    safeTxGas: BigInt(tx.safeTxGas),
+    baseGas: BigInt(tx.baseGas),
+    gasPrice: BigInt(tx.gasPrice),
+    nonce: BigInt(tx.nonce),
+  };
+}
+
+function serializeTypedData(chainId: number, safe: Address, tx: SafeTransaction) {
+  const typedData = getSafeTxTypedData(chainId, safe, tx);
+  return {
+    types: {
+      EIP712Domain: [
+        { name: 'chainId', type: 'uint256' },
+        { name: 'verifyingContract', type: 'address' },
+      ],
+      ...typedData.types,
+    },
+    domain: typedData.domain,
+    primaryType: typedData.primaryType,
+    message: serializeSafeTx(tx),
+  };
+}
+
+/**
+ * Owners and threshold of the Safe
+ */
+async function readSafeOwners(publicClient: PublicClient, safe: Address): Promise<{ owners: Address[]; threshold: bigint }> {
+  const [owners, threshold] = await publicClient.multicall({
+    allowFailure: false,
+    contracts: [
+      { address: safe, abi: SAFE_ABI, functionName: 'getOwners' },
+      { address: safe, abi: SAFE_ABI, functionName: 'getThreshold' },
+    ],
+  });
+  return { owners: (owners as Address[]).map(owner => getAddress(owner)), threshold };
+}
+
+/**
+ * Unsigned proposal for the queued calls
+ */
+export function createSafeProposal(
+  config: ChainConfig,
+  safe: Address,
+  registry: Address,
+  calls: QueuedRegistryCall[],
+  nonce: bigint
+): SafeProposal {
+  const chainId = config.chain.id;
+  const tx = buildSafeTransaction(calls, nonce);
+  return {
+    version: SAFE_PROPOSAL_VERSION,
+    chain: config.key,
+    chainId,
+    safe,
+    registry,
+    createdAt: new Date().toISOString(),
+    calls: calls.map(call => ({ to: call.to, value: call.value.toString(), data: call.data, description: call.description })),
+    safeTx: serializeSafeTx(tx),
+    safeTxHash: getSafeTxHash(chainId, safe, tx),
+    typedData: serializeTypedData(chainId, safe, tx),
+    signatures: [],
+  };
+}
+
+/**
+ * Add a signature if it is valid and from an owner that has not signed yet
+ * @throws if the signer is not an owner or the signature is not over the proposal's safeTxHash
+ */
+export async function addSignature(
+  proposal: SafeProposal,
+  owners: Address[],
+  signature: SafeSignature
+): Promise<void> {
+  const tx = deserializeSafeTx(proposal.safeTx);
+  if (!owners.some(owner => isAddressEqual(owner, signature.signer))) {
+    throw new Error(`${signature.signer} is not an owner of Safe ${proposal.safe}`);
+  }
+  if (!await verifySafeSignature(proposal.chainId, proposal.safe, tx, signature)) {
+    throw new Error(`Signature of ${signature.signer} does not match safeTxHash ${proposal.safeTxHash}`);
+  }
+  if (proposal.signatures.some(existing => isAddressEqual(existing.signer, signature.signer))) {
+    console.log(`  ℹ️  ${signature.signer} already signed`);
+    return;
+  }
+  proposal.signatures.push({ signer: getAddress(signature.signer), signature: signature.signature });
+  console.log(`  ✍️  Signature added: ${signature.signer}`);
+}
+
+/**
+ * Refresh execTransaction and print the signing status
+ */
+export function updateExecutionStatus(proposal: SafeProposal, threshold: bigint): void {
+  const collected = BigInt(proposal.signatures.length);
+  console.log(`\n📝 Signatures: ${collected}/${threshold}`);
+
+  if (collected >= threshold) {
+    proposal.execTransaction = {
+      to: proposal.safe,
+      data: encodeExecTransaction(deserializeSafeTx(proposal.safeTx), proposal.signatures),
+    };
+    console.log("✅ Threshold reached: execTransaction calldata is in the proposal");
+  } else {
+    delete proposal.execTransaction;
+    console.log(`   ${threshold - collected} more owner signature(s) needed`);
+  }
+}
+
+/**
+ * Build, sign (when the chain signer is an owner) and write the proposal for the queued calls
+ * @return path of the proposal file
+ */
+export async function writeSafeProposal(
+  ctx: RegistryContext,
+  safe: Address,
+  calls: QueuedRegistryCall[],
+  nonceOverride?: bigint
+): Promise<string> {
+  const { publicClient, config } = ctx;
+  const chainId = config.chain.id;
+
+  const [registryOwner, onChainNonce] = await publicClient.multicall({
+    allowFailure: false,
+    contracts: [
+      { address: ctx.registryAddress, abi: TARGET_REGISTRY_ABI, functionName: 'owner' },
+      { address: safe, abi: SAFE_ABI, functionName: 'nonce' },
+    ],
+  });
+  if (!isAddressEqual(registryOwner, safe)) {
+    console.log(`⚠️  Registry owner is ${registryOwner}, not ${safe}: the Safe transaction would revert`);
+  }
+
+  const { owners, threshold } = await readSafeOwners(publicClient, safe);
+  const nonce = nonceOverride ?? onChainNonce;
+  const proposal = createSafeProposal(config, safe, ctx.registryAddress, calls, nonce);
+  const { safeTxHash } = proposal;
+
+  console.log("\n🔐 Safe proposal");
+  console.log("  Safe:", safe);
+  console.log(`  Owners: ${owners.length}, threshold ${threshold}`);
+  console.log("  Nonce:", nonce.toString());
+  console.log(`  Calls: ${calls.length}${calls.length > 1 ? " (MultiSendCallOnly delegatecall)" : ""}`);
+  console.log("  safeTxHash:", safeTxHash);
+
+  const { signerAddress } = ctx;
+  if (signerAddress && owners.some(owner => isAddressEqual(owner, signerAddress))) {
+    const { account } = await unlockSigner(ctx);
+    await addSignature(proposal, owners, await signSafeTransaction(account, chainId, safe, deserializeSafeTx(proposal.safeTx)));
+  } else {
+    console.log(`  ℹ️  ${signerAddress ? `Signer ${signerAddress} is not a Safe owner` : "No chain signer configured"}, proposal left unsigned`);
+  }
+  updateExecutionStatus(proposal, threshold);
+
+  const name = `${config.key}-${nonce}-${safeTxHash.slice(0, 10)}`;
+  mkdirSync(proposalsDir(), { recursive: true });
+  const file = join(proposalsDir(), `${name}.json`);
+  writeFileSync(file, JSON.stringify(proposal, null, 2) + '\n');
+
+  const builderFile = join(proposalsDir(), `${name}.tx-builder.json`);
+  const builder = toTransactionBuilderJson(chainId, safe, calls, {
+    name: `TargetRegistry update (${config.name})`,
+    description: calls.map(call => call.description).join('; '),
+  });
+  writeFileSync(builderFile, JSON.stringify(builder, null, 2) + '\n');
+
+  console.log(`\n💾 Proposal written to ${file}`);
+  console.log(`💾 Transaction Builder batch written to ${builderFile}`);
+  return file;
+}
+
+/**
+ * registry safe sign --proposal <file> [--signer <alias>] [--signatures a.json,b.json]
+ */
+export async function safeSign(ctx: RegistryContext, options: RegistryCommandOptions): Promise<void> {
+  if (!options.proposal) {
+    throw new Error("--proposal <file> is required");
+  }
+  const proposal: SafeProposal = JSON.parse(readFileSync(options.proposal, 'utf8'));
+  if (proposal.version !== SAFE_PROPOSAL_VERSION) {
+    throw new Error(`${options.proposal} is not a version ${SAFE_PROPOSAL_VERSION} Safe proposal`);
+  }
+  if (proposal.chainId !== ctx.config.chain.id) {
+    throw new Error(`Proposal is for chain ${proposal.chainId}, --chain is ${ctx.config.key} (${ctx.config.chain.id})`);
+  }
+
+  const tx = deserializeSafeTx(proposal.safeTx);
+  if (getSafeTxHash(proposal.chainId, proposal.safe, tx) !== proposal.safeTxHash) {
+    throw new Error("Proposal safeTxHash does not match its Safe transaction");
+  }
+
+  console.log("Proposal:", options.proposal);
+  console.log("  Safe:", proposal.safe);
+  console.log("  safeTxHash:", proposal.safeTxHash);
+  proposal.calls.forEach((call, index) => console.log(`  ${index + 1}. ${call.description}`));
+
+  const { owners, threshold } = await readSafeOwners(ctx.publicClient, proposal.safe);
+  const onChainNonce: bigint = await ctx.publicClient.readContract({
+    address: proposal.safe, abi: SAFE_ABI, functionName: 'nonce',
+  });
+  if (onChainNonce > tx.nonce) {
+    throw new Error(`Safe nonce is already ${onChainNonce}: proposal nonce ${tx.nonce} was used`);
+  }
+
+  // Signature files: { signer, signature } objects or arrays of them
+  for (const file of options.signatures?.split(',').filter(Boolean) ?? []) {
+    const content = JSON.parse(readFileSync(file.trim(), 'utf8'));
+    for (const signature of Array.isArray(content) ? content : [content]) {
+      await addSignature(proposal, owners, signature);
+    }
+  }
+
+  if (!options.signatures || options.signer) {
+    const account = options.signer ? await loadKeystoreAccount(options.signer) : (await unlockSigner(ctx)).account;
+    await addSignature(proposal, owners, await signSafeTransaction(account, proposal.chainId, proposal.safe, tx));
+  }
+
+  updateExecutionStatus(proposal, threshold);
+  writeFileSync(options.proposal, JSON.stringify(proposal, null, 2) + '\n');
+  console.log(`\n💾 Proposal updated: ${options.proposal}`);
+}
@@ -0,0 +1,166 @@
+/**
+ * ERC20 Recipient Commands
+ *
+ * add    - authorizes manifest recipients (recipientConfig) that are NOT yet authorized
+ *          (fails when the registry timelock is enabled, see timelock.ts)
+ * remove - revokes manifest recipients (removeRecipientConfig) that ARE authorized
+ * status - shows the authorization status of both manifest lists
+ */
+
+import { getAddress } from 'viem';
+import { RecipientItem } from '../utils/chains';
+import { checkRecipientStatus, displayRecipientStatus } from '../utils/utils';
+import { logTransactionError } from '../utils/cli';
+import {
+  RegistryContext,
+  confirmRegistryWrite,
+  displayConfiguration,
+  sendRegistryTransaction,
+} from './context';
+import { assertTimelockDisabled } from './timelock';
+
+/**
+ * Authorize manifest recipients that are not yet authorized
+ */
+export async function recipientsAdd(ctx: RegistryContext): Promise<void> {
+  const { recipientConfig } = ctx.config.manifest;
+  displayConfiguration(ctx, { "Tokens to process": recipientConfig.length });
+  await assertTimelockDisabled(ctx);
+
+  if (recipientConfig.length === 0) {
+    console.log("\n✅ recipientConfig is empty, nothing to authorize.");
+    return;
+  }
+
+  for (const item of recipientConfig) {
+    await processRecipientItem(ctx, item, true);
+  }
+}
+
+/**
+ * Revoke manifest recipients that are currently authorized
+ */
+export async function recipientsRemove(ctx: RegistryContext): Promise<void> {
+  const { removeRecipientConfig } = ctx.config.manifest;
+  displayConfiguration(ctx, { "Tokens to process": removeRecipientConfig.length });
+
+  if (removeRecipientConfig.length === 0) {
+    console.log("\n✅ removeRecipientConfig is empty, nothing to revoke.");
+    console.log(`   If you want to revoke recipients, add them to removeRecipientConfig in hardhat/scripts/${ctx.config.manifestFile}`);
+    return;
+  }
+
+  for (const item of removeRecipientConfig) {
+    await processRecipientItem(ctx, item, false);
+  }
+}
+
+/**
+ * Show the authorization status of the add and remove manifest lists
+ */
+export async function recipientsStatus(ctx: RegistryContext): Promise<void> {
+  const { recipientConfig, removeRecipientConfig } = ctx.config.manifest;
+  displayConfiguration(ctx, {
+    "Tokens in recipientConfig": recipientConfig.length,
+    "Tokens in removeRecipientConfig": removeRecipientConfig.length,
+  });
+
+  for (const [label, items] of [
+    ["recipientConfig", recipientConfig],
+    ["removeRecipientConfig", removeRecipientConfig],
+  ] as const) {
+    for (const item of items) {
+      console.log(`\n🔍 ${label}: ${item.description}`);
+      console.log("  Token address:", item.token);
+      const statuses = await checkRecipientStatus(
+        ctx.publicClient,
+        ctx.registryAddress,
+        item.token,
+        item.recipients
+      );
+      displayRecipientStatus(statuses);
+    }
+  }
+}
+
+/**
+ * Authorize (or revoke) the recipients of one manifest item for its token
+ */
+async function processRecipientItem(
+  ctx: RegistryContext,
+  item: RecipientItem,
+  authorize: boolean
+): Promise<void> {
+  const token = getAddress(item.token);
+
+  console.log(`\n🪙 ${item.description}`);
+  console.log("  Token address:", token);
+  console.log("  Recipients to process:", item.recipients.length);
+
+  // Check current authorization status
+  console.log("\n🔍 Checking current authorization status...");
+  const statuses = await checkRecipientStatus(
+    ctx.publicClient,
+    ctx.registryAddress,
+    token,
+    item.recipients
+  );
+
+  displayRecipientStatus(statuses);
+
+  // Only recipients whose state actually changes are sent
+  const pending = statuses.filter(s => s.isAuthorized !== authorize);
+
+  if (pending.length === 0) {
+    console.log(authorize
+      ? "\n✅ All recipients are already authorized!"
+      : "\n✅ None of these recipients are currently authorized!");
+    return;
+  }
+
+  const recipients = pending.map(s => s.recipient);
+
+  console.log(`\n📋 Preparing to ${authorize ? "authorize" : "revoke"} ${pending.length} recipient(s):`);
+  recipients.forEach((recipient, index) => {
+    console.log(`  ${index + 1}. ${recipient}`);
+  });
+
+  await confirmRegistryWrite(ctx, [
+    authorize
+      ? "You are about to authorize these recipients for ERC20 transfers."
+      : "You are about to REVOKE these recipients for ERC20 transfers.",
+    `Token: ${token}`,
+    "This operation is immediate (no timelock).",
+  ]);
+
+  try {
+    const executed = await sendRegistryTransaction(
+      ctx,
+      authorize ? 'addAllowedERC20TokenRecipient' : 'removeAllowedERC20TokenRecipient',
+      [token, recipients],
+      `${authorize ? "authorize" : "revoke"} ${recipients.length} recipient(s) for ${item.description}`,
+      recipients.map(recipient => `allowedERC20TokenRecipients[${token}][${recipient}]: ${!authorize} → ${authorize}`)
+    );
+    if (!executed) return;
+
+    // Verify authorization status after transaction
+    console.log("\n🔍 Verifying authorization status after transaction...");
+    const newStatuses = await checkRecipientStatus(
+      ctx.publicClient,
+      ctx.registryAddress,
+      token,
+      recipients
+    );
+
+    displayRecipientStatus(newStatuses);
+
+    if (newStatuses.every(s => s.isAuthorized === authorize)) {
+      console.log(`\n✅✅ All recipients successfully ${authorize ? "authorized" : "revoked"}!`);
+    } else {
+      console.log("\n⚠️  Warning: Some recipients were not updated. Check transaction logs.");
+    }
+  } catch (error: any) {
+    logTransactionError(error);
+    throw error;
+  }
+}
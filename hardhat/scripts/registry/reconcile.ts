@@ -0,0 +1,290 @@
+/**
+ * Whitelist Reconciliation
+ *
+ * Rebuilds the live whitelist of a TargetRegistry by replaying its
+ * TargetSelectorAdded / TargetSelectorRemoved events and diffs it against the
+ * chain manifest (whitelistConfig):
+ *
+ * - to add:    in whitelistConfig but not live on-chain
+ * - to remove: live on-chain but not in whitelistConfig
+ * - in sync:   in both
+ *
+ * With --plan the diff is turned into one addToWhitelist and one
+ * removeFromWhitelist call (optionally written to a JSON file with --out).
+ * When the registry timelock is enabled, the additions are one scheduleAdd
+ * call instead (leaving out the ones already pending), to be executed with
+ * `timelock execute` once ready.
+ */
+
+import { writeFileSync } from 'fs';
+import { AbiEvent, Address, GetLogsReturnType, Hex, PublicClient, encodeFunctionData, getAddress, parseAbiItem } from 'viem';
+import { WhitelistItem } from '../utils/chains';
+import { TARGET_REGISTRY_ABI } from '../utils/utils';
+import { formatWindow } from '../utils/window';
+import { RegistryCommandOptions, RegistryContext, displayConfiguration } from './context';
+import { readOperationReadyAt, readTimelockDelay, whitelistOperationId } from './timelock';
+
+const TARGET_SELECTOR_ADDED = parseAbiItem(
+  "event TargetSelectorAdded(address indexed target, bytes4 indexed selector)"
+);
+const TARGET_SELECTOR_REMOVED = parseAbiItem(
+  "event TargetSelectorRemoved(address indexed target, bytes4 indexed selector)"
+);
+
+/**
+ * Largest block range requested per eth_getLogs call (halved on RPC errors)
+ */
+const DEFAULT_LOG_CHUNK_SIZE = 100_000n;
+const MIN_LOG_CHUNK_SIZE = 1_000n;
+
+/**
+ * Live whitelist entry rebuilt from events
+ */
+export interface LiveWhitelistEntry {
+  target: Address;
+  selector: Hex;
+  addedInBlock: bigint;
+}
+
+/**
+ * Result of comparing the live whitelist with the manifest
+ */
+export interface WhitelistDiff {
+  toAdd: WhitelistItem[];
+  toRemove: WhitelistItem[];
+  inSync: WhitelistItem[];
+}
+
+/**
+ * Unique key for a target+selector pair
+ */
+export function whitelistKey(target: Address, selector: Hex): string {
+  return `${getAddress(target)}:${selector.toLowerCase()}`;
+}
+
+/**
+ * Find the block in which a contract was deployed (binary search on getCode)
+ * @dev Requires an archive RPC endpoint.
+ */
+export async function findDeploymentBlock(publicClient: PublicClient, address: Address): Promise<bigint> {
+  const latest = await publicClient.getBlockNumber();
+  const code = await publicClient.getCode({ address, blockNumber: latest });
+  if (!code || code === '0x') {
+    throw new Error(`No contract code at ${address}`);
+  }
+
+  let low = 0n;
+  let high = latest;
+  while (low < high) {
+    const mid = (low + high) / 2n;
+    const midCode = await publicClient.getCode({ address, blockNumber: mid });
+    if (midCode && midCode !== '0x') {
+      high = mid;
+    } else {
+      low = mid + 1n;
+    }
+  }
+  return low;
+}
+
+/**
+ * Fetch logs for the given events in block ranges, halving the range when
+ * the RPC rejects a request (too many results / range too large)
+ */
+export async function getLogsInChunks<const abiEvents extends readonly AbiEvent[]>(
+  publicClient: PublicClient,
+  params: { address: Address; events: abiEvents; fromBlock: bigint; toBlock: bigint },
+  chunkSize: bigint = DEFAULT_LOG_CHUNK_SIZE
+): Promise<GetLogsReturnType<undefined, abiEvents>> {
+  const logs: GetLogsReturnType<undefined, abiEvents> = [];
+  let from = params.fromBlock;
+  let size = chunkSize;
+
+  while (from <= params.toBlock) {
+    const to = from + size - 1n < params.toBlock ? from + size - 1n : params.toBlock;
+    try {
+      const chunk = await publicClient.getLogs({
+        address: params.address,
+        events: params.events,
+        fromBlock: from,
+        toBlock: to,
+      });
+      logs.push(...chunk);
+      from = to + 1n;
+    } catch (error) {
+      if (size <= MIN_LOG_CHUNK_SIZE) throw error;
+      size = size / 2n;
+    }
+  }
+
+  return logs;
+}
+
+/**
+ * Rebuild the live whitelist by replaying registry events in order
+ */
+export async function fetchLiveWhitelist(
+  publicClient: PublicClient,
+  registryAddress: Address,
+  fromBlock: bigint,
+  toBlock?: bigint
+): Promise<Map<string, LiveWhitelistEntry>> {
+  const logs = await getLogsInChunks(publicClient, {
+    address: registryAddress,
+    events: [TARGET_SELECTOR_ADDED, TARGET_SELECTOR_REMOVED],
+    fromBlock,
+    toBlock: toBlock ?? await publicClient.getBlockNumber(),
+  });
+
+  logs.sort((a, b) =>
+    a.blockNumber === b.blockNumber
+      ? a.logIndex - b.logIndex
+      : (a.blockNumber < b.blockNumber ? -1 : 1)
+  );
+
+  const live = new Map<string, LiveWhitelistEntry>();
+  for (const log of logs) {
+    const { target, selector } = log.args as { target: Address; selector: Hex };
+    const key = whitelistKey(target, selector);
+    if (log.eventName === 'TargetSelectorAdded') {
+      live.set(key, { target: getAddress(target), selector, addedInBlock: log.blockNumber });
+    } else {
+      live.delete(key);
+    }
+  }
+
+  return live;
+}
+
+/**
+ * Compare the live whitelist with the manifest
+ * @param desired Items that should be whitelisted (whitelistConfig)
+ * @param known Every manifest item, used to label live entries
+ */
+export function diffWhitelist(
+  live: Map<string, LiveWhitelistEntry>,
+  desired: WhitelistItem[],
+  known: WhitelistItem[]
+): WhitelistDiff {
+  const desiredByKey = new Map<string, WhitelistItem>();
+  desired.forEach(item => desiredByKey.set(whitelistKey(item.target, item.selector), item));
+
+  const labels = new Map<string, string>();
+  known.forEach(item => labels.set(whitelistKey(item.target, item.selector), item.description));
+
+  const toAdd: WhitelistItem[] = [];
+  const inSync: WhitelistItem[] = [];
+  desiredByKey.forEach((item, key) => (live.has(key) ? inSync : toAdd).push(item));
+
+  const toRemove: WhitelistItem[] = [];
+  live.forEach((entry, key) => {
+    if (desiredByKey.has(key)) return;
+    toRemove.push({
+      target: entry.target,
+      selector: entry.selector,
+      description: labels.get(key) ?? `(not in manifest, added in block ${entry.addedInBlock})`,
+    });
+  });
+
+  return { toAdd, toRemove, inSync };
+}
+
+/**
+ * Encode the diff as one addToWhitelist (scheduleAdd when timelocked) and one removeFromWhitelist call
+ */
+export function buildReconcilePlan(registryAddress: Address, diff: WhitelistDiff, timelocked = false) {
+  const encode = (functionName: 'addToWhitelist' | 'scheduleAdd' | 'removeFromWhitelist', items: WhitelistItem[]) => {
+    if (items.length === 0) return null;
+    const targets = items.map(item => getAddress(item.target));
+    const selectors = items.map(item => item.selector);
+    return {
+      to: registryAddress,
+      functionName,
+      targets,
+      selectors,
+      data: encodeFunctionData({ abi: TARGET_REGISTRY_ABI, functionName, args: [targets, selectors] }),
+    };
+  };
+
+  return {
+    addToWhitelist: timelocked ? null : encode('addToWhitelist', diff.toAdd),
+    scheduleAdd: timelocked ? encode('scheduleAdd', diff.toAdd) : null,
+    removeFromWhitelist: encode('removeFromWhitelist', diff.toRemove),
+  };
+}
+
+/**
+ * Display one section of the diff
+ */
+function displayDiffSection(title: string, icon: string, items: WhitelistItem[]): void {
+  console.log(`\n${icon} ${title} (${items.length}):`);
+  items.forEach((item, index) => {
+    console.log(`  ${index + 1}. ${item.description}`);
+    console.log(`     Target: ${item.target}`);
+    console.log(`     Selector: ${item.selector}`);
+  });
+}
+
+/**
+ * Reconcile the on-chain whitelist with the manifest
+ */
+export async function whitelistReconcile(
+  ctx: RegistryContext,
+  options: RegistryCommandOptions
+): Promise<void> {
+  const { whitelistConfig, removeWhitelistConfig } = ctx.config.manifest;
+  displayConfiguration(ctx, { "Items in whitelistConfig": whitelistConfig.length });
+
+  let fromBlock: bigint;
+  if (options['from-block'] !== undefined) {
+    fromBlock = BigInt(options['from-block']);
+  } else {
+    console.log("\n🔍 Locating registry deployment block...");
+    fromBlock = await findDeploymentBlock(ctx.publicClient, ctx.registryAddress);
+  }
+  console.log("  Replaying events from block:", fromBlock.toString());
+
+  const live = await fetchLiveWhitelist(ctx.publicClient, ctx.registryAddress, fromBlock);
+  console.log("  Live whitelist entries:", live.size);
+
+  const diff = diffWhitelist(live, whitelistConfig, [...whitelistConfig, ...removeWhitelistConfig]);
+
+  displayDiffSection("To add (in manifest, not on-chain)", "➕", diff.toAdd);
+  displayDiffSection("To remove (on-chain, not in manifest)", "➖", diff.toRemove);
+  displayDiffSection("In sync", "✅", diff.inSync);
+
+  if (!options.plan) return;
+
+  const delay = (await readTimelockDelay(ctx)) ?? 0n;
+  let toAdd = diff.toAdd;
+  if (delay > 0n) {
+    const timestamps = await readOperationReadyAt(ctx, toAdd.map(item => whitelistOperationId(item.target, item.selector)));
+    toAdd = toAdd.filter((_, i) => timestamps[i] === 0n);
+    if (toAdd.length < diff.toAdd.length) {
+      console.log(`\n⏳ ${diff.toAdd.length - toAdd.length} addition(s) already scheduled (see \`timelock pending\`)`);
+    }
+  }
+
+  const plan = buildReconcilePlan(ctx.registryAddress, { ...diff, toAdd }, delay > 0n);
+  console.log("\n📋 Reconciliation plan:");
+  if (!plan.addToWhitelist && !plan.scheduleAdd && !plan.removeFromWhitelist) {
+    console.log("  Nothing to do, registry matches the manifest.");
+    return;
+  }
+  for (const call of [plan.addToWhitelist, plan.scheduleAdd, plan.removeFromWhitelist]) {
+    if (!call) continue;
+    console.log(`  ${call.functionName}(${call.targets.length} item(s))`);
+    console.log(`    To: ${call.to}`);
+    console.log(`    Data: ${call.data}`);
+  }
+
+  if (options.out) {
+    writeFileSync(options.out, JSON.stringify({ chainId: ctx.config.chain.id, ...plan }, null, 2));
+    console.log(`\n💾 Plan written to ${options.out}`);
+  }
+  if (plan.scheduleAdd) {
+    console.log(`\n⏰ The registry timelock is enabled (delay ${formatWindow(Number(delay))}): additions are scheduled.`);
+    console.log("   Execute them once ready with:");
+    console.log(`   pnpm registry timelock execute --chain ${ctx.config.key}`);
+  }
+}
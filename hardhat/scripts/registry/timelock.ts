@@ -0,0 +1,698 @@
+/**
+ * Timelock Commands
+ *
+ * schedule - schedules manifest additions that are not yet applied or pending:
+ *            whitelistConfig items (scheduleAdd) and recipientConfig recipients
+ *            (scheduleAddAllowedERC20TokenRecipient, one call per token)
+ * pending  - lists pending operations (replayed from registry events) with the
+ *            time left before they can be executed
+ * execute  - executes the pending additions that are ready (ceiling and rule
+ *            changes are set by `approvals set` / `params set` once ready)
+ * cancel   - cancels pending operations by id (--id, comma-separated)
+ * delay    - shows the timelock delay; --delay <1d|24h|3600> changes it. Increases
+ *            apply immediately, decreases are scheduled first: run the command again
+ *            once the decrease is ready to set it
+ *
+ * With timelockDelay 0 (the default) the timelock is disabled and `whitelist add` /
+ * `recipients add` apply immediately. Once enabled, approval ceiling and parameter
+ * rule changes that loosen a restriction (removing or raising a ceiling, removing
+ * or replacing rules) are scheduled by `approvals set` / `params set` and set by
+ * the same command once ready. Tightening changes, removals and pause are never
+ * timelocked.
+ */
+
+import { Address, Hex, encodeAbiParameters, getAddress, keccak256, parseAbiItem } from 'viem';
+import { APPROVAL_MATCH_BATCH } from '../adapters/types';
+import { ParamRule, decodeParamRules, encodeParamRules, formatParamRule } from '../protocolData/paramRules';
+import { logTransactionError } from '../utils/cli';
+import { TARGET_REGISTRY_ABI, checkRecipientStatus, checkWhitelistStatus, filterByStatus } from '../utils/utils';
+import { formatWindow, parseWindow } from '../utils/window';
+import {
+  RegistryCommandOptions,
+  RegistryContext,
+  confirmRegistryWrite,
+  displayConfiguration,
+  sendRegistryTransaction,
+} from './context';
+import { findDeploymentBlock, getLogsInChunks, whitelistKey } from './reconcile';
+
+const TARGET_SELECTOR_SCHEDULED = parseAbiItem(
+  "event TargetSelectorScheduled(bytes32 indexed operationId, address indexed target, bytes4 indexed selector, uint256 executeAfter)"
+);
+const RECIPIENT_SCHEDULED = parseAbiItem(
+  "event ERC20TokenRecipientScheduled(bytes32 indexed operationId, address indexed token, address indexed recipient, uint256 executeAfter)"
+);
+const DELAY_DECREASE_SCHEDULED = parseAbiItem(
+  "event TimelockDelayDecreaseScheduled(bytes32 indexed operationId, uint256 newDelay, uint256 executeAfter)"
+);
+const CEILING_SCHEDULED = parseAbiItem(
+  "event ApprovalCeilingScheduled(bytes32 indexed operationId, address indexed token, address indexed spender, uint256 ceiling, uint256 executeAfter)"
+);
+const PARAM_RULES_SCHEDULED = parseAbiItem(
+  "event ParamRulesScheduled(bytes32 indexed operationId, address indexed target, bytes4 indexed selector, (uint32 offset, uint8 condition, bytes32 value)[] rules, uint256 executeAfter)"
+);
+const OPERATION_EXECUTED = parseAbiItem("event OperationExecuted(bytes32 indexed operationId)");
+const OPERATION_CANCELLED = parseAbiItem("event OperationCancelled(bytes32 indexed operationId)");
+
+/**
+ * TargetRegistry.OperationKind (first word of every operation id)
+ */
+const OPERATION_KIND = { whitelist: 0, recipient: 1, delay: 2, ceiling: 3, params: 4 } as const;
+
+/**
+ * Operation scheduled on the registry and neither executed nor cancelled
+ */
+export type PendingOperation = {
+  operationId: Hex;
+  /** Unix seconds from which the operation can be executed */
+  executeAfter: bigint;
+  scheduledInBlock: bigint;
+} & (
+  | { kind: 'whitelist'; target: Address; selector: Hex }
+  | { kind: 'recipient'; token: Address; recipient: Address }
+  | { kind: 'delay'; newDelay: bigint }
+  | { kind: 'ceiling'; token: Address; spender: Address; ceiling: bigint }
+  | { kind: 'params'; target: Address; selector: Hex; rules: ParamRule[] }
+);
+
+/**
+ * TargetRegistry.getOperationId
+ */
+export function whitelistOperationId(target: Address, selector: Hex): Hex {
+  return keccak256(encodeAbiParameters(
+    [{ type: 'uint8' }, { type: 'address' }, { type: 'bytes4' }],
+    [OPERATION_KIND.whitelist, getAddress(target), selector]
+  ));
+}
+
+/**
+ * TargetRegistry.getRecipientOperationId
+ */
+export function recipientOperationId(token: Address, recipient: Address): Hex {
+  return keccak256(encodeAbiParameters(
+    [{ type: 'uint8' }, { type: 'address' }, { type: 'address' }],
+    [OPERATION_KIND.recipient, getAddress(token), getAddress(recipient)]
+  ));
+}
+
+/**
+ * TargetRegistry.getDelayOperationId
+ */
+export function delayOperationId(newDelay: bigint): Hex {
+  return keccak256(encodeAbiParameters([{ type: 'uint8' }, { type: 'uint256' }], [OPERATION_KIND.delay, newDelay]));
+}
+
+/**
+ * TargetRegistry.getCeilingOperationId
+ */
+export function ceilingOperationId(token: Address, spender: Address, ceiling: bigint): Hex {
+  return keccak256(encodeAbiParameters(
+    [{ type: 'uint8' }, { type: 'address' }, { type: 'address' }, { type: 'uint256' }],
+    [OPERATION_KIND.ceiling, getAddress(token), getAddress(spender), ceiling]
+  ));
+}
+
+/**
+ * TargetRegistry.getParamRulesOperationId
+ */
+export function paramRulesOperationId(target: Address, selector: Hex, rules: ParamRule[]): Hex {
+  return keccak256(encodeAbiParameters(
+    [
+      { type: 'uint8' },
+      { type: 'address' },
+      { type: 'bytes4' },
+      {
+        type: 'tuple[]',
+        components: [{ name: 'offset', type: 'uint32' }, { name: 'condition', type: 'uint8' }, { name: 'value', type: 'bytes32' }],
+      },
+    ],
+    [OPERATION_KIND.params, getAddress(target), selector, encodeParamRules(rules)]
+  ));
+}
+
+/**
+ * Timelock delay of the registry in seconds
+ * @return undefined when the registry predates the timelock (no timelockDelay())
+ */
+export async function readTimelockDelay(ctx: RegistryContext): Promise<bigint | undefined> {
+  try {
+    return await ctx.publicClient.readContract({
+      address: ctx.registryAddress,
+      abi: TARGET_REGISTRY_ABI,
+      functionName: 'timelockDelay',
+    });
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Fail when additions must go through the timelock (used by `whitelist add` / `recipients add`)
+ */
+export async function assertTimelockDisabled(ctx: RegistryContext): Promise<void> {
+  const delay = await readTimelockDelay(ctx);
+  if (delay !== undefined && delay > 0n) {
+    throw new Error(
+      `The registry timelock is enabled (delay ${formatWindow(Number(delay))}): additions are scheduled with ` +
+      `"pnpm registry timelock schedule --chain ${ctx.config.key}" and executed with "pnpm registry timelock execute"`
+    );
+  }
+}
+
+async function requireTimelockDelay(ctx: RegistryContext): Promise<bigint> {
+  const delay = await readTimelockDelay(ctx);
+  if (delay === undefined) {
+    throw new Error(`Registry ${ctx.registryAddress} has no timelock (timelockDelay() failed): it predates the timelock`);
+  }
+  return delay;
+}
+
+async function latestTimestamp(ctx: RegistryContext): Promise<bigint> {
+  return (await ctx.publicClient.getBlock({ blockTag: 'latest' })).timestamp;
+}
+
+/**
+ * Timestamp from which each operation can be executed under the current delay (0 = not pending)
+ */
+export async function readOperationReadyAt(ctx: RegistryContext, operationIds: Hex[]): Promise<bigint[]> {
+  if (operationIds.length === 0) return [];
+  return ctx.publicClient.multicall({
+    allowFailure: false,
+    contracts: operationIds.map(operationId => ({
+      address: ctx.registryAddress,
+      abi: TARGET_REGISTRY_ABI,
+      functionName: 'operationReadyAt' as const,
+      args: [operationId],
+    })),
+  });
+}
+
+/**
+ * Rebuild the pending operations by replaying registry events in order, then
+ * keep the ones the registry still holds (with their executeAfter under the
+ * current delay: raising the delay postpones pending operations)
+ */
+export async function fetchPendingOperations(
+  ctx: RegistryContext,
+  fromBlock: bigint,
+  toBlock?: bigint
+): Promise<PendingOperation[]> {
+  const logs = await getLogsInChunks(ctx.publicClient, {
+    address: ctx.registryAddress,
+    events: [
+      TARGET_SELECTOR_SCHEDULED,
+      RECIPIENT_SCHEDULED,
+      DELAY_DECREASE_SCHEDULED,
+      CEILING_SCHEDULED,
+      PARAM_RULES_SCHEDULED,
+      OPERATION_EXECUTED,
+      OPERATION_CANCELLED,
+    ],
+    fromBlock,
+    toBlock: toBlock ?? await ctx.publicClient.getBlockNumber(),
+  });
+
+  logs.sort((a, b) =>
+    a.blockNumber === b.blockNumber
+      ? a.logIndex - b.logIndex
+      : (a.blockNumber < b.blockNumber ? -1 : 1)
+  );
+
+  const pending = new Map<Hex, PendingOperation>();
+  for (const log of logs) {
+    const args = log.args as Record<string, any>;
+    const base = { operationId: args.operationId as Hex, executeAfter: args.executeAfter as bigint, scheduledInBlock: log.blockNumber as bigint };
+    switch (log.eventName) {
+      case 'TargetSelectorScheduled':
+        pending.set(base.operationId, { ...base, kind: 'whitelist', target: getAddress(args.target), selector: args.selector });
+        break;
+      case 'ERC20TokenRecipientScheduled':
+        pending.set(base.operationId, { ...base, kind: 'recipient', token: getAddress(args.token), recipient: getAddress(args.recipient) });
+        break;
+      case 'TimelockDelayDecreaseScheduled':
+        pending.set(base.operationId, { ...base, kind: 'delay', newDelay: args.newDelay });
+        break;
+      case 'ApprovalCeilingScheduled':
+        pending.set(base.operationId, { ...base, kind: 'ceiling', token: getAddress(args.token), spender: getAddress(args.spender), ceiling: args.ceiling });
+        break;
+      case 'ParamRulesScheduled':
+        pending.set(base.operationId, { ...base, kind: 'params', target: getAddress(args.target), selector: args.selector, rules: decodeParamRules(args.rules) });
+        break;
+      default:
+        pending.delete(base.operationId);
+    }
+  }
+
+  const operations = [...pending.values()];
+  const timestamps = await readOperationReadyAt(ctx, operations.map(operation => operation.operationId));
+  return operations
+    .map((operation, i) => ({ ...operation, executeAfter: timestamps[i] }))
+    .filter(operation => operation.executeAfter > 0n);
+}
+
+async function resolveFromBlock(ctx: RegistryContext, options: RegistryCommandOptions): Promise<bigint> {
+  if (options['from-block'] !== undefined) {
+    return BigInt(options['from-block']);
+  }
+  console.log("\n🔍 Locating registry deployment block...");
+  return findDeploymentBlock(ctx.publicClient, ctx.registryAddress);
+}
+
+/**
+ * "2d 3h 15m" (at least the minutes, "<1m" below a minute)
+ */
+function formatRemaining(seconds: bigint): string {
+  const total = Number(seconds);
+  const parts = ([
+    [Math.floor(total / 86400), 'd'],
+    [Math.floor((total % 86400) / 3600), 'h'],
+    [Math.floor((total % 3600) / 60), 'm'],
+  ] as Array<[number, string]>).filter(([value]) => value > 0).map(([value, unit]) => `${value}${unit}`);
+  return parts.length > 0 ? parts.join(' ') : '<1m';
+}
+
+function formatTimestamp(seconds: bigint): string {
+  return new Date(Number(seconds) * 1000).toISOString();
+}
+
+/**
+ * Label of an operation from the manifest
+ */
+function describeOperation(ctx: RegistryContext, operation: PendingOperation): string {
+  const {
+    whitelistConfig, removeWhitelistConfig, recipientConfig, removeRecipientConfig, approvalCeilingConfig, paramRuleConfig,
+  } = ctx.config.manifest;
+  switch (operation.kind) {
+    case 'whitelist': {
+      const key = whitelistKey(operation.target, operation.selector);
+      const item = [...whitelistConfig, ...removeWhitelistConfig].find(item => whitelistKey(item.target, item.selector) === key);
+      return `whitelist ${item?.description ?? `${operation.target} ${operation.selector} (not in manifest)`}`;
+    }
+    case 'recipient': {
+      const item = [...recipientConfig, ...removeRecipientConfig].find(item => getAddress(item.token) === operation.token);
+      return `authorize ${operation.recipient} for ${item?.description ?? `${operation.token} (not in manifest)`}`;
+    }
+    case 'delay':
+      return `timelock delay → ${formatWindow(Number(operation.newDelay))}`;
+    case 'ceiling': {
+      const item = approvalCeilingConfig.find(item =>
+        getAddress(item.token) === operation.token && getAddress(item.spender) === operation.spender
+      );
+      const ceiling = operation.ceiling === APPROVAL_MATCH_BATCH ? 'batch' : operation.ceiling === 0n ? 'none' : operation.ceiling.toString();
+      return `approval ceiling ${item?.description ?? `${operation.token} → ${operation.spender} (not in manifest)`} → ${ceiling}`;
+    }
+    case 'params': {
+      const key = whitelistKey(operation.target, operation.selector);
+      const item = paramRuleConfig.find(item => whitelistKey(item.target, item.selector) === key);
+      const rules = operation.rules.map(rule => formatParamRule(rule, item?.signature)).join(', ');
+      return `parameter rules ${item?.description ?? `${operation.target} ${operation.selector} (not in manifest)`} → [${rules || 'none'}]`;
+    }
+  }
+}
+
+function displayPendingOperations(ctx: RegistryContext, operations: PendingOperation[], now: bigint): void {
+  console.log(`\n⏳ Pending operations (${operations.length}):`);
+  operations.forEach((operation, index) => {
+    const ready = operation.executeAfter <= now;
+    console.log(`  ${index + 1}. ${ready ? "✅" : "⏳"} ${describeOperation(ctx, operation)}`);
+    console.log(`     Id: ${operation.operationId}`);
+    console.log(`     Executable after: ${formatTimestamp(operation.executeAfter)} (${ready ? "ready" : `in ${formatRemaining(operation.executeAfter - now)}`})`);
+  });
+}
+
+/**
+ * Registry changes sorted by the timelock: tightening changes apply immediately,
+ * loosening ones must be scheduled and wait for the delay
+ */
+export interface TimelockedChanges<T> {
+  /** Timelock delay in seconds (0 = disabled or predates the timelock) */
+  delay: bigint;
+  /** Send now: timelock disabled, tightening, or scheduled and ready */
+  apply: T[];
+  /** Loosening and not scheduled yet */
+  schedule: T[];
+  /** Loosening, scheduled and not ready yet */
+  waiting: Array<{ change: T; executeAfter: bigint }>;
+  /** Latest block timestamp (0 when the timelock is disabled) */
+  now: bigint;
+}
+
+/**
+ * Sort changes by what the timelock requires of them (used by `approvals set` / `params set`)
+ * @param loosens Whether the change loosens a restriction (and needs a scheduled operation)
+ * @param operationId Operation id of the change
+ */
+export async function classifyTimelockedChanges<T>(
+  ctx: RegistryContext,
+  changes: T[],
+  loosens: (change: T) => boolean,
+  operationId: (change: T) => Hex
+): Promise<TimelockedChanges<T>> {
+  const delay = (await readTimelockDelay(ctx)) ?? 0n;
+  if (delay === 0n) {
+    return { delay, apply: changes, schedule: [], waiting: [], now: 0n };
+  }
+
+  const loosening = changes.filter(loosens);
+  const [timestamps, now] = await Promise.all([
+    readOperationReadyAt(ctx, loosening.map(operationId)),
+    latestTimestamp(ctx),
+  ]);
+  const result: TimelockedChanges<T> = { delay, apply: [], schedule: [], waiting: [], now };
+  changes.forEach(change => {
+    const index = loosening.indexOf(change);
+    if (index < 0 || (timestamps[index] !== 0n && timestamps[index] <= now)) {
+      result.apply.push(change);
+    } else if (timestamps[index] === 0n) {
+      result.schedule.push(change);
+    } else {
+      result.waiting.push({ change, executeAfter: timestamps[index] });
+    }
+  });
+  return result;
+}
+
+/**
+ * Confirmation line on how the timelock affects the changes
+ */
+export function timelockedChangesNotice(changes: TimelockedChanges<unknown>): string {
+  if (changes.delay === 0n) {
+    return "This operation is immediate (timelock disabled).";
+  }
+  return changes.schedule.length > 0
+    ? `Loosening changes are scheduled: run this command again in ${formatWindow(Number(changes.delay))} to set them.`
+    : "Tightening and ready changes apply immediately.";
+}
+
+/**
+ * List the changes scheduled and waiting for the timelock
+ */
+export function displayWaitingChanges<T>(changes: TimelockedChanges<T>, describe: (change: T) => string): void {
+  if (changes.waiting.length === 0) return;
+  console.log(`\n⏳ Scheduled, waiting for the timelock (${changes.waiting.length}):`);
+  changes.waiting.forEach(({ change, executeAfter }, index) => {
+    console.log(`  ${index + 1}. ${describe(change)}: settable after ${formatTimestamp(executeAfter)} (in ${formatRemaining(executeAfter - changes.now)})`);
+  });
+}
+
+/**
+ * Schedule the manifest additions that are neither applied nor pending
+ */
+export async function timelockSchedule(ctx: RegistryContext): Promise<void> {
+  const { whitelistConfig, recipientConfig } = ctx.config.manifest;
+  const delay = await requireTimelockDelay(ctx);
+  displayConfiguration(ctx, {
+    "Timelock delay": formatWindow(Number(delay)),
+    "Items in whitelistConfig": whitelistConfig.length,
+    "Tokens in recipientConfig": recipientConfig.length,
+  });
+
+  if (delay === 0n) {
+    console.log("\n⚠️  The timelock is disabled: add items directly with `whitelist add` / `recipients add`.");
+    return;
+  }
+
+  console.log("\n🔍 Checking whitelist and pending operations...");
+  const notWhitelisted = filterByStatus(
+    await checkWhitelistStatus(ctx.publicClient, ctx.registryAddress, whitelistConfig),
+    false
+  ).map(status => status.item);
+  const whitelistTimestamps = await readOperationReadyAt(
+    ctx,
+    notWhitelisted.map(item => whitelistOperationId(item.target, item.selector))
+  );
+  const toSchedule = notWhitelisted.filter((_, i) => whitelistTimestamps[i] === 0n);
+
+  const recipientsToSchedule: Array<{ token: Address; description: string; recipients: Address[] }> = [];
+  for (const item of recipientConfig) {
+    const token = getAddress(item.token);
+    const unauthorized = (await checkRecipientStatus(ctx.publicClient, ctx.registryAddress, token, item.recipients))
+      .filter(status => !status.isAuthorized)
+      .map(status => status.recipient);
+    const timestamps = await readOperationReadyAt(ctx, unauthorized.map(recipient => recipientOperationId(token, recipient)));
+    const recipients = unauthorized.filter((_, i) => timestamps[i] === 0n);
+    if (recipients.length > 0) {
+      recipientsToSchedule.push({ token, description: item.description, recipients });
+    }
+  }
+
+  const alreadyPending = notWhitelisted.length - toSchedule.length;
+  if (alreadyPending > 0) {
+    console.log(`  ${alreadyPending} whitelist item(s) already pending (see \`timelock pending\`)`);
+  }
+  if (toSchedule.length === 0 && recipientsToSchedule.length === 0) {
+    console.log("\n✅ Nothing to schedule: every addition is applied or pending.");
+    return;
+  }
+
+  console.log("\n📋 Preparing to schedule:");
+  toSchedule.forEach((item, index) => {
+    console.log(`  ${index + 1}. whitelist ${item.description}`);
+    console.log(`     Target: ${item.target}`);
+    console.log(`     Selector: ${item.selector}`);
+  });
+  recipientsToSchedule.forEach(({ description, recipients }) => {
+    console.log(`  🪙 ${description}: ${recipients.join(', ')}`);
+  });
+
+  await confirmRegistryWrite(ctx, [
+    "You are about to schedule these additions.",
+    `They can be executed in ${formatWindow(Number(delay))} with \`timelock execute\`.`,
+  ]);
+
+  try {
+    if (toSchedule.length > 0) {
+      await sendRegistryTransaction(
+        ctx,
+        'scheduleAdd',
+        [toSchedule.map(item => getAddress(item.target)), toSchedule.map(item => item.selector)],
+        `schedule ${toSchedule.length} whitelist addition(s)`,
+        toSchedule.map(item => `operationScheduledAt[${whitelistOperationId(item.target, item.selector)}]: 0 → now (${item.description})`)
+      );
+    }
+    for (const { token, description, recipients } of recipientsToSchedule) {
+      await sendRegistryTransaction(
+        ctx,
+        'scheduleAddAllowedERC20TokenRecipient',
+        [token, recipients],
+        `schedule authorization of ${recipients.length} recipient(s) for ${description}`,
+        recipients.map(recipient => `operationScheduledAt[${recipientOperationId(token, recipient)}]: 0 → now (${recipient})`)
+      );
+    }
+  } catch (error: any) {
+    logTransactionError(error);
+    throw error;
+  }
+
+  console.log(`\n⏰ Executable after ${formatTimestamp((await latestTimestamp(ctx)) + delay)} (approximately):`);
+  console.log(`   pnpm registry timelock execute --chain ${ctx.config.key}`);
+}
+
+/**
+ * List pending operations with the time left before they can be executed
+ */
+export async function timelockPending(ctx: RegistryContext, options: RegistryCommandOptions): Promise<void> {
+  const delay = await requireTimelockDelay(ctx);
+  displayConfiguration(ctx, { "Timelock delay": delay === 0n ? "0 (disabled)" : formatWindow(Number(delay)) });
+
+  const fromBlock = await resolveFromBlock(ctx, options);
+  console.log("  Replaying events from block:", fromBlock.toString());
+
+  const [operations, now] = await Promise.all([fetchPendingOperations(ctx, fromBlock), latestTimestamp(ctx)]);
+  if (operations.length === 0) {
+    console.log("\n✅ No pending operations.");
+    return;
+  }
+  displayPendingOperations(ctx, operations, now);
+}
+
+/**
+ * Execute the pending additions that are ready
+ */
+export async function timelockExecute(ctx: RegistryContext, options: RegistryCommandOptions): Promise<void> {
+  await requireTimelockDelay(ctx);
+  displayConfiguration(ctx);
+
+  const fromBlock = await resolveFromBlock(ctx, options);
+  console.log("  Replaying events from block:", fromBlock.toString());
+
+  const [operations, now] = await Promise.all([fetchPendingOperations(ctx, fromBlock), latestTimestamp(ctx)]);
+  const additions = operations.filter(operation => operation.kind === 'whitelist' || operation.kind === 'recipient');
+  const ready = additions.filter(operation => operation.executeAfter <= now);
+  const waiting = additions.filter(operation => operation.executeAfter > now);
+
+  if (waiting.length > 0) {
+    displayPendingOperations(ctx, waiting, now);
+  }
+  if (operations.some(operation => operation.kind === 'delay')) {
+    console.log("\n💡 Delay decreases are set with `timelock delay --delay <new delay>` once ready.");
+  }
+  if (operations.some(operation => operation.kind === 'ceiling' || operation.kind === 'params')) {
+    console.log("\n💡 Approval ceiling and parameter rule changes are set with `approvals set` / `params set` once ready.");
+  }
+  if (ready.length === 0) {
+    console.log("\n✅ No pending additions are ready.");
+    return;
+  }
+
+  const whitelistOps = ready.flatMap(operation => operation.kind === 'whitelist' ? [operation] : []);
+  const recipientsByToken = new Map<Address, Address[]>();
+  ready.forEach(operation => {
+    if (operation.kind !== 'recipient') return;
+    recipientsByToken.set(operation.token, [...(recipientsByToken.get(operation.token) ?? []), operation.recipient]);
+  });
+
+  console.log(`\n📋 Preparing to execute ${ready.length} addition(s):`);
+  ready.forEach((operation, index) => console.log(`  ${index + 1}. ${describeOperation(ctx, operation)}`));
+
+  await confirmRegistryWrite(ctx, [
+    "You are about to execute these scheduled additions.",
+    "They apply immediately once executed.",
+  ]);
+
+  try {
+    if (whitelistOps.length > 0) {
+      await sendRegistryTransaction(
+        ctx,
+        'executeAdd',
+        [whitelistOps.map(operation => operation.target), whitelistOps.map(operation => operation.selector)],
+        `execute ${whitelistOps.length} whitelist addition(s)`,
+        whitelistOps.map(operation => `whitelist[${operation.target}][${operation.selector}]: false → true (${describeOperation(ctx, operation)})`)
+      );
+    }
+    for (const [token, recipients] of recipientsByToken) {
+      await sendRegistryTransaction(
+        ctx,
+        'executeAddAllowedERC20TokenRecipient',
+        [token, recipients],
+        `execute authorization of ${recipients.length} recipient(s) for ${token}`,
+        recipients.map(recipient => `allowedERC20TokenRecipients[${token}][${recipient}]: false → true`)
+      );
+    }
+  } catch (error: any) {
+    logTransactionError(error);
+    throw error;
+  }
+}
+
+/**
+ * Cancel pending operations by id
+ */
+export async function timelockCancel(ctx: RegistryContext, options: RegistryCommandOptions): Promise<void> {
+  const operationIds = (options.id ?? '').split(',').map(id => id.trim()).filter(Boolean) as Hex[];
+  if (operationIds.length === 0) {
+    throw new Error("cancel needs --id <operationId,...> (ids are listed by `timelock pending`)");
+  }
+  const invalid = operationIds.filter(id => !/^0x[0-9a-fA-F]{64}$/.test(id));
+  if (invalid.length > 0) {
+    throw new Error(`Invalid operation id(s): ${invalid.join(', ')}`);
+  }
+
+  await requireTimelockDelay(ctx);
+  displayConfiguration(ctx, { "Operations to cancel": operationIds.length });
+
+  const timestamps = await readOperationReadyAt(ctx, operationIds);
+  const notPending = operationIds.filter((_, i) => timestamps[i] === 0n);
+  if (notPending.length > 0) {
+    throw new Error(`Not pending (never scheduled, executed or cancelled): ${notPending.join(', ')}`);
+  }
+
+  console.log(`\n📋 Preparing to cancel ${operationIds.length} operation(s):`);
+  operationIds.forEach((id, index) => console.log(`  ${index + 1}. ${id} (executable after ${formatTimestamp(timestamps[index])})`));
+
+  await confirmRegistryWrite(ctx, [
+    "You are about to CANCEL these scheduled operations.",
+    "They must be scheduled again (and wait the full delay) to be executed.",
+  ]);
+
+  try {
+    const executed = await sendRegistryTransaction(
+      ctx, 'cancelOperation', [operationIds], `cancel ${operationIds.length} scheduled operation(s)`,
+      operationIds.map(id => `operationScheduledAt[${id}]: pending → 0`)
+    );
+    if (!executed) return;
+
+    const after = await readOperationReadyAt(ctx, operationIds);
+    if (after.every(timestamp => timestamp === 0n)) {
+      console.log("\n✅✅ All operations cancelled!");
+    } else {
+      console.log("\n⚠️  Warning: Some operations are still pending. Check transaction logs.");
+    }
+  } catch (error: any) {
+    logTransactionError(error);
+    throw error;
+  }
+}
+
+/**
+ * Show the timelock delay, or change it with --delay
+ */
+export async function timelockDelay(ctx: RegistryContext, options: RegistryCommandOptions): Promise<void> {
+  const current = await requireTimelockDelay(ctx);
+  const max: bigint = await ctx.publicClient.readContract({
+    address: ctx.registryAddress,
+    abi: TARGET_REGISTRY_ABI,
+    functionName: 'MAX_TIMELOCK_DELAY',
+  });
+  displayConfiguration(ctx, {
+    "Timelock delay": current === 0n ? "0 (disabled)" : formatWindow(Number(current)),
+    "Maximum delay": formatWindow(Number(max)),
+  });
+
+  if (options.delay === undefined) return;
+
+  const next = BigInt(parseWindow(options.delay));
+  if (next > max) {
+    throw new Error(`--delay ${options.delay} is above the maximum delay (${formatWindow(Number(max))})`);
+  }
+  if (next === current) {
+    console.log(`\n✅ The delay is already ${formatWindow(Number(next))}.`);
+    return;
+  }
+
+  const label = next === 0n ? "0 (disable the timelock)" : formatWindow(Number(next));
+  let functionName: 'setTimelockDelay' | 'scheduleTimelockDelay' = 'setTimelockDelay';
+  if (next < current) {
+    const operationId = delayOperationId(next);
+    const [executeAfter] = await readOperationReadyAt(ctx, [operationId]);
+    const now = await latestTimestamp(ctx);
+    if (executeAfter === 0n) {
+      functionName = 'scheduleTimelockDelay';
+    } else if (executeAfter > now) {
+      console.log(`\n⏳ The decrease to ${label} is scheduled (${operationId}).`);
+      console.log(`   It can be set after ${formatTimestamp(executeAfter)} (in ${formatRemaining(executeAfter - now)}).`);
+      return;
+    }
+  }
+
+  console.log(functionName === 'scheduleTimelockDelay'
+    ? `\n📋 Preparing to schedule a delay decrease to ${label} (settable in ${formatWindow(Number(current))})`
+    : `\n📋 Preparing to set the delay to ${label}`);
+
+  await confirmRegistryWrite(ctx, [
+    `You are about to change the timelock delay of the registry to ${label}.`,
+    next > current
+      ? "Increases apply immediately; decreasing it later must wait the new delay."
+      : "Decreases shorten the review window of every later addition.",
+  ]);
+
+  try {
+    const executed = await sendRegistryTransaction(
+      ctx, functionName, [next],
+      functionName === 'scheduleTimelockDelay' ? `schedule timelock delay decrease to ${label}` : `set timelock delay to ${label}`,
+      [functionName === 'scheduleTimelockDelay'
+        ? `operationScheduledAt[${delayOperationId(next)}]: 0 → now`
+        : `timelockDelay: ${current} → ${next}`]
+    );
+    if (!executed) return;
+
+    if (functionName === 'scheduleTimelockDelay') {
+      console.log(`\n⏰ Run this command again after ${formatTimestamp((await latestTimestamp(ctx)) + current)} to set the delay.`);
+    } else {
+      console.log(`\n✅✅ Timelock delay set to ${label}!`);
+    }
+  } catch (error: any) {
+    logTransactionError(error);
+    throw error;
+  }
+}
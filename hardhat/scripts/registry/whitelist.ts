@@ -0,0 +1,201 @@
+/**
+ * Whitelist Commands
+ *
+ * add    - adds manifest items (whitelistConfig) that are NOT yet whitelisted
+ *          (fails when the registry timelock is enabled, see timelock.ts)
+ * remove - removes manifest items (removeWhitelistConfig) that ARE whitelisted
+ * status - shows the whitelist status of both manifest lists
+ */
+
+import { getAddress } from 'viem';
+import {
+  checkWhitelistStatus,
+  displayWhitelistStatus,
+  filterByStatus,
+} from '../utils/utils';
+import { logTransactionError } from '../utils/cli';
+import {
+  RegistryContext,
+  confirmRegistryWrite,
+  displayConfiguration,
+  sendRegistryTransaction,
+} from './context';
+import { assertTimelockDisabled } from './timelock';
+
+/**
+ * Add manifest items that are not yet whitelisted
+ */
+export async function whitelistAdd(ctx: RegistryContext): Promise<void> {
+  const { whitelistConfig } = ctx.config.manifest;
+  displayConfiguration(ctx, { "Items to process": whitelistConfig.length });
+  await assertTimelockDisabled(ctx);
+
+  // Check current whitelist status
+  console.log("\n🔍 Checking current whitelist status...");
+  const statuses = await checkWhitelistStatus(
+    ctx.publicClient,
+    ctx.registryAddress,
+    whitelistConfig
+  );
+
+  displayWhitelistStatus(statuses);
+
+  // Filter out already whitelisted items
+  const notWhitelisted = filterByStatus(statuses, false);
+
+  if (notWhitelisted.length === 0) {
+    console.log("\n✅ All items are already whitelisted!");
+    console.log(`   If you want to add new items, add them with status "active" to hardhat/scripts/protocolData/manifests/${ctx.config.key}.json`);
+    return;
+  }
+
+  // Ensure all addresses are properly checksummed (EIP-55)
+  const targetsToAdd = notWhitelisted.map(s => getAddress(s.item.target));
+  const selectorsToAdd = notWhitelisted.map(s => s.item.selector);
+
+  console.log(`\n📋 Preparing to whitelist ${notWhitelisted.length} item(s):`);
+  notWhitelisted.forEach((status, index) => {
+    console.log(`  ${index + 1}. ${status.item.description}`);
+    console.log(`     Target: ${status.item.target}`);
+    console.log(`     Selector: ${status.item.selector}`);
+  });
+
+  await confirmRegistryWrite(ctx, [
+    "You are about to add these items to the whitelist.",
+    "This operation is immediate (no timelock).",
+  ]);
+
+  try {
+    const executed = await sendRegistryTransaction(
+      ctx, 'addToWhitelist', [targetsToAdd, selectorsToAdd], "add items to whitelist",
+      notWhitelisted.map(s => `whitelist[${getAddress(s.item.target)}][${s.item.selector}]: false → true (${s.item.description})`)
+    );
+    if (!executed) return;
+
+    // Verify whitelist status after transaction
+    console.log("\n🔍 Verifying whitelist status after transaction...");
+    const newStatuses = await checkWhitelistStatus(
+      ctx.publicClient,
+      ctx.registryAddress,
+      notWhitelisted.map(s => s.item)
+    );
+
+    displayWhitelistStatus(newStatuses);
+
+    if (newStatuses.every(s => s.isWhitelisted)) {
+      console.log("\n✅✅ All items successfully added to whitelist!");
+    } else {
+      console.log("\n⚠️  Warning: Some items may not have been added. Check transaction logs.");
+    }
+  } catch (error: any) {
+    logTransactionError(error);
+    throw error;
+  }
+}
+
+/**
+ * Remove manifest items that are currently whitelisted
+ */
+export async function whitelistRemove(ctx: RegistryContext): Promise<void> {
+  const { removeWhitelistConfig } = ctx.config.manifest;
+  displayConfiguration(ctx, { "Items to process": removeWhitelistConfig.length });
+
+  if (removeWhitelistConfig.length === 0) {
+    console.log("\n✅ removeWhitelistConfig is empty, nothing to remove.");
+    console.log(`   If you want to remove items, set their status to "removed" in hardhat/scripts/protocolData/manifests/${ctx.config.key}.json`);
+    return;
+  }
+
+  // Check current whitelist status
+  console.log("\n🔍 Checking current whitelist status...");
+  const statuses = await checkWhitelistStatus(
+    ctx.publicClient,
+    ctx.registryAddress,
+    removeWhitelistConfig
+  );
+
+  displayWhitelistStatus(statuses);
+
+  // Filter to only whitelisted items (those we can remove)
+  const currentlyWhitelisted = filterByStatus(statuses, true);
+
+  if (currentlyWhitelisted.length === 0) {
+    console.log("\n✅ No items are currently whitelisted from this configuration!");
+    console.log(`   If you want to remove items, make sure their status is "removed" in hardhat/scripts/protocolData/manifests/${ctx.config.key}.json`);
+    return;
+  }
+
+  // Ensure all addresses are properly checksummed (EIP-55)
+  const targetsToRemove = currentlyWhitelisted.map(s => getAddress(s.item.target));
+  const selectorsToRemove = currentlyWhitelisted.map(s => s.item.selector);
+
+  console.log(`\n📋 Preparing to remove ${currentlyWhitelisted.length} item(s) from whitelist:`);
+  currentlyWhitelisted.forEach((status, index) => {
+    console.log(`  ${index + 1}. ${status.item.description}`);
+    console.log(`     Target: ${status.item.target}`);
+    console.log(`     Selector: ${status.item.selector}`);
+  });
+
+  await confirmRegistryWrite(ctx, [
+    "You are about to REMOVE these items from the whitelist.",
+    "This operation is immediate and cannot be easily undone.",
+  ]);
+
+  try {
+    const executed = await sendRegistryTransaction(
+      ctx, 'removeFromWhitelist', [targetsToRemove, selectorsToRemove], "remove items from whitelist",
+      currentlyWhitelisted.map(s => `whitelist[${getAddress(s.item.target)}][${s.item.selector}]: true → false (${s.item.description})`)
+    );
+    if (!executed) return;
+
+    // Verify whitelist status after transaction
+    console.log("\n🔍 Verifying whitelist status after transaction...");
+    const newStatuses = await checkWhitelistStatus(
+      ctx.publicClient,
+      ctx.registryAddress,
+      currentlyWhitelisted.map(s => s.item)
+    );
+
+    displayWhitelistStatus(newStatuses);
+
+    if (newStatuses.every(s => !s.isWhitelisted)) {
+      console.log("\n✅✅ All items successfully removed from whitelist!");
+    } else {
+      console.log("\n⚠️  Warning: Some items may still be whitelisted. Check transaction logs.");
+    }
+  } catch (error: any) {
+    logTransactionError(error);
+    throw error;
+  }
+}
+
+/**
+ * Show the whitelist status of the add and remove manifest lists
+ */
+export async function whitelistStatus(ctx: RegistryContext): Promise<void> {
+  const { whitelistConfig, removeWhitelistConfig } = ctx.config.manifest;
+  displayConfiguration(ctx, {
+    "Items in whitelistConfig": whitelistConfig.length,
+    "Items in removeWhitelistConfig": removeWhitelistConfig.length,
+  });
+
+  console.log("\n🔍 Checking whitelistConfig...");
+  const addStatuses = await checkWhitelistStatus(
+    ctx.publicClient,
+    ctx.registryAddress,
+    whitelistConfig
+  );
+  displayWhitelistStatus(addStatuses);
+
+  console.log("\n🔍 Checking removeWhitelistConfig...");
+  const removeStatuses = await checkWhitelistStatus(
+    ctx.publicClient,
+    ctx.registryAddress,
+    removeWhitelistConfig
+  );
+  displayWhitelistStatus(removeStatuses);
+
+  console.log("\n📋 Summary:");
+  console.log(`  Pending additions: ${filterByStatus(addStatuses, false).length}`);
+  console.log(`  Pending removals: ${filterByStatus(removeStatuses, true).length}`);
+}
@@ -2,30 +2,22 @@ import { getAccountNonce } from 'permissionless/actions';
 import { createSmartAccountClient } from 'permissionless';
 import { toSafeSmartAccount } from 'permissionless/accounts';
 import { erc7579Actions } from 'permissionless/actions/erc7579';
-import { createPimlicoClient } from 'permissionless/clients/pimlico';
 import { 
   getSmartSessionsValidator,
-  OWNABLE_VALIDATOR_ADDRESS,
-  getSudoPolicy,
-  Session,
   getAccount,
   encodeSmartSessionSignature,
   getOwnableValidatorMockSignature,
   RHINESTONE_ATTESTER_ADDRESS,
   encodeValidatorNonce,
   getOwnableValidator,
-  encodeValidationData,
   getEnableSessionDetails,
 } from '@rhinestone/module-sdk';
-import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
 import { base } from 'viem/chains';
 import { 
-  toHex,
   Address,
   Hex,
   createPublicClient,
   http,
-  toBytes,
   erc20Abi,
   prepareEncodeFunctionData,
   encodeFunctionData,
@@ -33,9 +25,12 @@ import {
 import {
   entryPoint07Address,
   getUserOperationHash,
-  createPaymasterClient,
 } from 'viem/account-abstraction';
 import { toFunctionSelector, getAbiItem } from 'viem';
+import { ParamCondition, provisionSession } from '../sessions/provision';
+import { getBundlerProvider, logBundlerProvider } from '../utils/bundler';
+import { getChainConfig, getSignerAccount } from '../utils/chains';
+import { loadOrCreateKeystoreAccount } from '../utils/keystore';
 import dotenv from "dotenv";
 import { join } from "path";
 
@@ -43,19 +38,30 @@ import { join } from "path";
 dotenv.config({ path: join(__dirname, "..", ".env") });
 
 /**
- * Create session key with sudo policy for USDC approve
+ * Keystore alias of the session key when SESSION_KEY_ALIAS is not set
+ */
+const DEFAULT_SESSION_KEY_ALIAS = 'session-key';
+
+/**
+ * Session policy limits
+ */
+const SESSION_DURATION_SECONDS = 24 * 60 * 60;
+const SESSION_MAX_USES = 10n;
+const MAX_APPROVE_AMOUNT = 1_000_000n;
+
+/**
+ * Create a scoped session key for USDC approve
  * 
  * Follows Rhinestone module-sdk docs pattern using permissionless.js:
  * 1. Install Smart Sessions Module (if not installed)
- * 2. Create session with sudo policy
+ * 2. Create session with time-frame, usage-limit, value-limit and approve amount policies
  * 3. Link session to USDC contract (via action targeting approve function)
  * 4. Enable session on the Safe account
  */
 async function main() {
-  console.log("🔑 Creating session key with sudo policy for USDC approve...");
+  console.log("🔑 Creating scoped session key for USDC approve...");
   
   // Check environment variables
-  const privateKey = process.env.BASE_PRIVATE_KEY;
   const safeAddress = process.env.SAFE_ACCOUNT_ADDRESS;
   const rpcUrl = process.env.BASE_RPC_URL;
   
@@ -67,29 +73,20 @@ async function main() {
   console.log("  USDC contract:", usdcAddress);
   console.log("  RPC URL:", rpcUrl);
   
-  if (!privateKey || !safeAddress || !rpcUrl) {
+  if (!safeAddress || !rpcUrl) {
     throw new Error("Missing required environment variables");
   }
   
-  // Create account from private key
-  const owner = privateKeyToAccount(privateKey as `0x${string}`);
+  // Owner from the keystore (BASE_KEYSTORE_ALIAS) or BASE_PRIVATE_KEY
+  const owner = await getSignerAccount(getChainConfig('base'));
   console.log("\nOwner account address:", owner.address);
   
-  // Generate session key (or use existing from env)
-  let sessionKeyPrivateKey = process.env.SESSION_KEY_PRIVATE_KEY;
-  let sessionOwner;
-  
-  if (sessionKeyPrivateKey) {
-    sessionOwner = privateKeyToAccount(sessionKeyPrivateKey as `0x${string}`);
-    console.log("\nUsing existing session key:");
-  } else {
-    sessionKeyPrivateKey = generatePrivateKey();
-    sessionOwner = privateKeyToAccount(sessionKeyPrivateKey as `0x${string}`);
-    console.log("\nGenerated new session key:");
-  }
-  
+  // Session key from the keystore (generated into it on first use, never printed)
+  const sessionKeyAlias = process.env.SESSION_KEY_ALIAS?.trim() || DEFAULT_SESSION_KEY_ALIAS;
+  const { account: sessionOwner, created } = await loadOrCreateKeystoreAccount(sessionKeyAlias);
+  console.log(created ? "\nGenerated new session key into the keystore:" : "\nUsing session key from the keystore:");
+  console.log("  Alias:", sessionKeyAlias);
   console.log("  Session key address:", sessionOwner.address);
-  console.log("  Session key private key:", sessionKeyPrivateKey);
   
   try {
     // Create clients (same pattern as script 2)
@@ -98,24 +95,8 @@ async function main() {
       chain: base,
     });
     
-    const getPimlicoUrl = (networkId: number) => {
-      const apiKey = 'pim_Pj8F4e4yjMiBej7UmJjgcC';
-      const baseUrl = 'https://api.pimlico.io/v2/';
-      return `${baseUrl}${networkId}/rpc?apikey=${apiKey}`;
-    };
-    
-    const pimlicoUrl = getPimlicoUrl(base.id);
-    const pimlicoClient = createPimlicoClient({
-      transport: http(pimlicoUrl),
-      entryPoint: {
-        address: entryPoint07Address,
-        version: '0.7',
-      },
-    });
-    
-    const paymasterClient = createPaymasterClient({
-      transport: http(pimlicoUrl),
-    });
+    // Bundler and paymaster of the chain (see utils/bundler.ts)
+    const bundler = await getBundlerProvider(getChainConfig('base'), publicClient);
     
     // Create ownable validator for Safe account
     const ownableValidator = getOwnableValidator({
@@ -150,18 +131,17 @@ async function main() {
     
     const loadedSafeAddress = await safeAccount.getAddress();
     console.log("Safe account loaded:", loadedSafeAddress);
+    await logBundlerProvider(bundler, publicClient, loadedSafeAddress);
     
     // Create smart account client
     // @ts-ignore - Type compatibility between permissionless versions
     const smartAccountClient = createSmartAccountClient({
       account: safeAccount,
       chain: base,
-      bundlerTransport: http(pimlicoUrl),
-      paymaster: paymasterClient,
+      bundlerTransport: bundler.bundlerTransport,
+      paymaster: bundler.paymaster,
       userOperation: {
-        estimateFeesPerGas: async () => {
-          return (await pimlicoClient.getUserOperationGasPrice()).fast;
-        },
+        estimateFeesPerGas: bundler.estimateFeesPerGas,
       },
     }).extend(erc7579Actions());
     
@@ -184,7 +164,7 @@ async function main() {
           context: '0x',
         });
         
-        await pimlicoClient.waitForUserOperationReceipt({
+        await bundler.bundlerClient.waitForUserOperationReceipt({
           hash: opHash,
         });
         console.log("Smart Sessions Module installed!");
@@ -199,7 +179,7 @@ async function main() {
           type: 'validator',
           context: '0x',
         });
-        await pimlicoClient.waitForUserOperationReceipt({ hash: opHash });
+        await bundler.bundlerClient.waitForUserOperationReceipt({ hash: opHash });
         console.log("Smart Sessions Module installed!");
       } catch (installError) {
         console.log("Installation check failed, continuing...");
@@ -228,31 +208,23 @@ async function main() {
     console.log("\nCreating session configuration...");
     console.log("  Target (USDC):", usdcAddress);
     console.log("  Selector (approve):", approveSelector);
-    console.log("  Policy: Sudo (allows all operations)");
+    console.log("  Max approve amount:", MAX_APPROVE_AMOUNT.toString());
     
-    // Create the session to enable
-    const session: Session = {
-      sessionValidator: OWNABLE_VALIDATOR_ADDRESS,
-      sessionValidatorInitData: encodeValidationData({
-        threshold: 1,
-        owners: [sessionOwner.address],
-      }),
-      salt: toHex(toBytes('0', { size: 32 })),
-      userOpPolicies: [getSudoPolicy()],
-      erc7739Policies: {
-        allowedERC7739Content: [],
-        erc1271Policies: [],
+    // Scoped session: expires, limited uses, approve amount capped (argument at offset 32)
+    const { session, permissionId } = provisionSession({
+      account: safeAccount.address,
+      sessionKey: sessionOwner.address,
+      chain: { config: getChainConfig('base') },
+      action: { target: usdcAddress, selector: approveSelector },
+      policies: {
+        validUntil: Math.floor(Date.now() / 1000) + SESSION_DURATION_SECONDS,
+        maxUses: SESSION_MAX_USES,
+        argumentRules: [
+          { condition: ParamCondition.LESS_THAN_OR_EQUAL, offset: 32n, ref: MAX_APPROVE_AMOUNT },
+        ],
       },
-      actions: [
-        {
-          actionTarget: usdcAddress, // USDC contract address
-          actionTargetSelector: approveSelector, // approve function selector
-          actionPolicies: [getSudoPolicy()],
-        },
-      ],
-      chainId: BigInt(base.id),
-      permitERC4337Paymaster: true,
-    };
+    });
+    console.log("  Permission ID:", permissionId);
     
     console.log("Session configuration created");
     
@@ -358,7 +330,7 @@ async function main() {
     
     // Wait for receipt
     console.log("\nWaiting for confirmation...");
-    const receipt = await pimlicoClient.waitForUserOperationReceipt({
+    const receipt = await bundler.bundlerClient.waitForUserOperationReceipt({
       hash: userOpHash,
     });
     
@@ -0,0 +1,71 @@
+/**
+ * Smart Sessions Lifecycle CLI
+ *
+ * Lists, inspects and revokes Smart Sessions enabled on a Safe. Sessions are
+ * identified by permission id or by a session descriptor file (written to
+ * hardhat/sessions/ when a session is provisioned, see sessions/store.ts).
+ *
+ * USAGE:
+ *   pnpm session list --safe <address> [--chain base|arbitrum|plasma|sonic]
+ *   pnpm session inspect <permissionId|descriptor.json> --safe <address> [--chain <chain>]
+ *   pnpm session revoke <permissionId|descriptor.json> --safe <address> [--chain <chain>] [--dry-run]
+ *
+ * list    - permission ids on the Smart Sessions validator and stored descriptors,
+ *           with enabled state, session key and expiry
+ * inspect - on-chain validator config and policies of one session, next to its descriptor
+ * revoke  - owner-signed UserOperation calling removeSession (needs the chain signer
+ *           and its bundler, see utils/bundler.ts); --dry-run simulates removeSession from the Safe and
+ *           writes the unsigned UserOperation to dry-runs/ instead
+ *
+ * --chain defaults to base.
+ */
+
+import { getAddress, isAddress } from 'viem';
+import { getClients, getReadOnlyClients } from './utils/chains';
+import { loadEnv, parseCommandLine, runCli } from './utils/cli';
+import { sessionInspect, sessionList, sessionRevoke } from './sessions/commands';
+
+// Load environment variables
+loadEnv();
+
+const USAGE = "Usage: session <list|inspect|revoke> [<permissionId|descriptor.json>] --safe <address> [--chain <chain>] [--dry-run]";
+
+function printHeader(action: string, chainName: string): void {
+  console.log(`🔑 Session ${action} (${chainName} Chain)`);
+  console.log("==================================\n");
+}
+
+async function main() {
+  const { values, positionals } = parseCommandLine({
+    chain: { type: 'string', default: 'base' },
+    safe: { type: 'string' },
+    'dry-run': { type: 'boolean' },
+  });
+
+  const [action, ref] = positionals;
+  if (!['list', 'inspect', 'revoke'].includes(action) || (action !== 'list' && !ref)) {
+    throw new Error(USAGE);
+  }
+  if (!values.safe || !isAddress(values.safe)) {
+    throw new Error(`--safe must be an address\n${USAGE}`);
+  }
+  const safe = getAddress(values.safe);
+
+  // Only revoke needs a signer
+  if (action === 'revoke') {
+    const ctx = await getClients(values.chain);
+    printHeader(action, ctx.config.name);
+    await sessionRevoke(ctx, safe, ref, { dryRun: values['dry-run'] });
+    return;
+  }
+
+  const ctx = getReadOnlyClients(values.chain);
+  printHeader(action, ctx.config.name);
+  if (action === 'list') {
+    await sessionList(ctx, safe);
+  } else {
+    await sessionInspect(ctx, safe, ref);
+  }
+}
+
+runCli(main);
@@ -0,0 +1,232 @@
+/**
+ * Session Lifecycle Commands
+ *
+ * list, inspect and revoke for Smart Sessions on a Safe. Permission ids come
+ * from the Smart Sessions validator (getPermissionIDs) and from the stored
+ * session descriptors; descriptors add the policies they were provisioned with.
+ */
+
+import { SMART_SESSIONS_ADDRESS } from '@rhinestone/module-sdk';
+import { Address, Hex, encodeFunctionData, getAddress, isAddressEqual, isHex, size } from 'viem';
+import { getUserOperationHash, entryPoint07Address } from 'viem/account-abstraction';
+import { ChainClients, ReadOnlyChainClients } from '../utils/chains';
+import { confirmCountdown } from '../utils/cli';
+import { dryRunUserOperation } from '../utils/dryRun';
+import { getSafeAccountClients } from '../utils/safe';
+import { SessionDescriptor, sessionFromDescriptor } from './provision';
+import { SMART_SESSIONS_ABI, getAccountPermissionIds, getEnabledPermissions, getSessionStatus } from './status';
+import { loadSessionDescriptors, readSessionDescriptor } from './store';
+
+/**
+ * Permission id given on the command line, with its descriptor when known
+ */
+interface SessionRef {
+  permissionId: Hex;
+  descriptor?: SessionDescriptor;
+}
+
+/**
+ * Resolve a permission id or descriptor file against the stored descriptors
+ */
+function resolveSession(ref: string, chain: string, safe: Address): SessionRef {
+  if (isHex(ref) && size(ref) === 32) {
+    const permissionId = ref.toLowerCase() as Hex;
+    const descriptor = loadSessionDescriptors(chain, safe).find(stored => stored.permissionId === permissionId);
+    return { permissionId, descriptor };
+  }
+
+  const descriptor = readSessionDescriptor(ref);
+  if (descriptor.chain !== chain || !isAddressEqual(descriptor.account, safe)) {
+    throw new Error(`${ref} describes a session of ${descriptor.account} on ${descriptor.chain}, not ${safe} on ${chain}`);
+  }
+  return { permissionId: descriptor.permissionId, descriptor };
+}
+
+function formatTimestamp(seconds: number): string {
+  return new Date(seconds * 1000).toISOString();
+}
+
+function isExpired(descriptor: SessionDescriptor): boolean {
+  return descriptor.policies.validUntil <= Math.floor(Date.now() / 1000);
+}
+
+/**
+ * List the sessions of a Safe (on-chain ids merged with stored descriptors)
+ */
+export async function sessionList(ctx: ReadOnlyChainClients, safe: Address): Promise<void> {
+  const descriptors = loadSessionDescriptors(ctx.config.key, safe);
+
+  let onChainIds: readonly Hex[] = [];
+  try {
+    onChainIds = await getAccountPermissionIds(ctx.publicClient, safe);
+  } catch (error: any) {
+    console.log(`⚠️  getPermissionIDs failed (${error.shortMessage ?? error.message}), showing stored descriptors only`);
+  }
+
+  const permissionIds = [...new Set([
+    ...onChainIds.map(id => id.toLowerCase() as Hex),
+    ...descriptors.map(descriptor => descriptor.permissionId),
+  ])];
+  if (permissionIds.length === 0) {
+    console.log("No sessions found for", safe);
+    return;
+  }
+
+  const enabled = await getEnabledPermissions(ctx.publicClient, safe, permissionIds);
+
+  console.log(`📋 Sessions of ${safe} (${permissionIds.length}):`);
+  for (const permissionId of permissionIds) {
+    const descriptor = descriptors.find(stored => stored.permissionId === permissionId);
+    const icon = enabled.get(permissionId) ? "🟢" : "⚪";
+    console.log(`\n  ${icon} ${permissionId} - ${enabled.get(permissionId) ? "ENABLED" : "NOT ENABLED"}`);
+
+    if (!descriptor) {
+      console.log("     ⚠️  No descriptor stored (session was not provisioned by these scripts)");
+      continue;
+    }
+    const expiry = isExpired(descriptor) ? " (expired)" : "";
+    console.log(`     Session key: ${descriptor.sessionKey}`);
+    console.log(`     Action: ${descriptor.action.target} ${descriptor.action.selector}`);
+    console.log(`     Valid until: ${formatTimestamp(descriptor.policies.validUntil)}${expiry}`);
+    console.log(`     Max uses: ${descriptor.policies.maxUses}, created ${descriptor.createdAt}`);
+  }
+}
+
+/**
+ * Show the on-chain state of one session next to its descriptor
+ */
+export async function sessionInspect(ctx: ReadOnlyChainClients, safe: Address, ref: string): Promise<void> {
+  const { permissionId, descriptor } = resolveSession(ref, ctx.config.key, safe);
+  if (descriptor) {
+    // Throws if the stored session was edited and no longer matches its permission id
+    sessionFromDescriptor(descriptor);
+  }
+
+  const status = await getSessionStatus(ctx.publicClient, safe, permissionId, descriptor);
+
+  console.log(`🔍 Session ${permissionId}`);
+  console.log(`  Status: ${status.enabled ? "🟢 ENABLED" : "⚪ NOT ENABLED"}`);
+  console.log("  Session validator:", status.sessionValidator);
+  if (status.sessionOwners) {
+    console.log(`  Session owners (threshold ${status.threshold}):`, status.sessionOwners.join(', '));
+  }
+
+  console.log("\n  UserOp policies:");
+  status.userOpPolicies.forEach(policy => console.log(`    - ${policy.name} ${policy.address}`));
+  console.log("\n  Actions:");
+  status.actions.forEach(action => {
+    const label = action.target ? `${action.target} ${action.selector}` : action.actionId;
+    console.log(`    ${label}`);
+    action.policies.forEach(policy => console.log(`      - ${policy.name} ${policy.address}`));
+  });
+
+  if (descriptor) {
+    const { policies } = descriptor;
+    console.log("\n  Descriptor:");
+    console.log("    Session key:", descriptor.sessionKey);
+    console.log("    Valid after:", formatTimestamp(policies.validAfter));
+    console.log(`    Valid until: ${formatTimestamp(policies.validUntil)}${isExpired(descriptor) ? " (expired)" : ""}`);
+    console.log("    Max uses:", policies.maxUses);
+    console.log("    Max value:", policies.maxValue);
+    policies.argumentRules.forEach(rule => {
+      const limit = rule.limit !== undefined ? `, limit ${rule.limit}` : "";
+      console.log(`    Argument rule: condition ${rule.condition} at offset ${rule.offset} ref ${rule.ref}${limit}`);
+    });
+    console.log("    Created:", descriptor.createdAt);
+  } else {
+    console.log("\n  ⚠️  No descriptor stored for this permission id");
+  }
+
+  if (status.sudo) {
+    console.log("\n  ⚠️  Session uses the sudo policy - revoke it");
+  }
+  if (descriptor && status.sessionOwners && !status.sessionOwners.some(owner => isAddressEqual(owner, descriptor.sessionKey))) {
+    console.log(`\n  ⚠️  On-chain session owners do not include descriptor key ${descriptor.sessionKey}`);
+  }
+}
+
+/**
+ * Remove a session with a UserOperation signed by the Safe owner
+ * @param options.dryRun Simulate removeSession and export the unsigned UserOperation instead
+ */
+export async function sessionRevoke(
+  ctx: ChainClients,
+  safe: Address,
+  ref: string,
+  options: { dryRun?: boolean } = {}
+): Promise<void> {
+  const { permissionId, descriptor } = resolveSession(ref, ctx.config.key, safe);
+
+  const enabled = await getEnabledPermissions(ctx.publicClient, safe, [permissionId]);
+  if (!enabled.get(permissionId)) {
+    console.log(`✅ Session ${permissionId} is not enabled on ${safe}, nothing to revoke`);
+    return;
+  }
+
+  console.log("Session to revoke:");
+  console.log("  Permission ID:", permissionId);
+  if (descriptor) {
+    console.log("  Session key:", descriptor.sessionKey);
+  }
+
+  const { safeAccount, smartAccountClient, bundler } = await getSafeAccountClients(ctx, safe);
+
+  // Safe calls SmartSessions.removeSession(permissionId) itself
+  const userOperation = await smartAccountClient.prepareUserOperation({
+    calls: [
+      {
+        to: SMART_SESSIONS_ADDRESS,
+        value: 0n,
+        data: encodeFunctionData({ abi: SMART_SESSIONS_ABI, functionName: 'removeSession', args: [permissionId] }),
+      },
+    ],
+  });
+
+  if (options.dryRun) {
+    await dryRunUserOperation(ctx, {
+      name: 'session-revoke',
+      description: `remove session ${permissionId} from ${safe}`,
+      call: {
+        from: safe,
+        to: SMART_SESSIONS_ADDRESS,
+        abi: SMART_SESSIONS_ABI,
+        functionName: 'removeSession',
+        args: [permissionId],
+      },
+      expectedChanges: [`isPermissionEnabled(${permissionId}, ${safe}): true → false`],
+    }, userOperation);
+    return;
+  }
+
+  userOperation.signature = await safeAccount.signUserOperation(userOperation);
+
+  const userOpHash = getUserOperationHash({
+    chainId: ctx.config.chain.id,
+    entryPointAddress: entryPoint07Address,
+    entryPointVersion: '0.7',
+    userOperation,
+  });
+  console.log("\nOwner-signed UserOperation:");
+  console.log("  Sender:", userOperation.sender);
+  console.log("  Nonce:", userOperation.nonce.toString());
+  console.log("  Signer:", ctx.account.address);
+  console.log("  UserOperation hash:", userOpHash);
+
+  await confirmCountdown([
+    `This will remove session ${permissionId} from ${safe}!`,
+    "The session key will no longer be able to use the account.",
+  ]);
+
+  console.log("📤 Submitting UserOperation...");
+  const submittedHash = await smartAccountClient.sendUserOperation(userOperation);
+  console.log("  UserOperation hash:", submittedHash);
+
+  const receipt = await bundler.bundlerClient.waitForUserOperationReceipt({ hash: submittedHash });
+  console.log("  Transaction hash:", receipt.receipt.transactionHash);
+
+  const after = await getEnabledPermissions(ctx.publicClient, safe, [permissionId]);
+  if (after.get(permissionId)) {
+    throw new Error(`Session ${permissionId} is still enabled after the UserOperation`);
+  }
+  console.log(`\n✅ Session ${permissionId} revoked from ${getAddress(safe)}`);
+}
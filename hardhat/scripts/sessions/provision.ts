@@ -0,0 +1,314 @@
+/**
+ * Session Key Provisioning
+ *
+ * Builds Smart Sessions sessions with scoped policies instead of
+ * getSudoPolicy(). Every session is limited to one action (by default
+ * GuardedExecModule.executeGuardedBatch) and always carries:
+ *
+ * - time-frame policy   (validAfter / validUntil, userOp and action scope)
+ * - usage-limit policy  (maximum number of action calls)
+ * - value-limit policy  (maximum native value sent with the action, default 0)
+ * - call-argument rules (universal action policy, optional)
+ *
+ * Sessions get a random salt, so provisioning the same key twice yields two
+ * distinct permission ids. provisionSession returns a JSON-serializable
+ * descriptor that can be stored and turned back into a Session later.
+ */
+
+import { randomBytes } from 'crypto';
+import {
+  OWNABLE_VALIDATOR_ADDRESS,
+  Session,
+  encodeValidationData,
+  getPermissionId,
+  getTimeFramePolicy,
+  getUniversalActionPolicy,
+  getUsageLimitPolicy,
+  getValueLimitPolicy,
+} from '@rhinestone/module-sdk';
+import { Address, Hex, getAddress, pad, toFunctionSelector, toHex, zeroHash } from 'viem';
+import { ChainKey, ReadOnlyChainClients, getReadOnlyClients } from '../utils/chains';
+
+/**
+ * Descriptor format version
+ */
+export const SESSION_DESCRIPTOR_VERSION = 1;
+
+export const EXECUTE_GUARDED_BATCH_SELECTOR = toFunctionSelector(
+  'function executeGuardedBatch((address,uint256,bytes)[])'
+);
+
+/**
+ * UniversalActionPolicy ParamCondition (not exported by module-sdk's index)
+ */
+export const ParamCondition = {
+  EQUAL: 0,
+  GREATER_THAN: 1,
+  LESS_THAN: 2,
+  GREATER_THAN_OR_EQUAL: 3,
+  LESS_THAN_OR_EQUAL: 4,
+  NOT_EQUAL: 5,
+  IN_RANGE: 6,
+} as const;
+
+/**
+ * UniversalActionPolicy supports at most 16 rules per action
+ */
+const MAX_ARGUMENT_RULES = 16;
+
+/**
+ * Rule on one 32-byte word of the action calldata
+ * @dev Only static head words are bound: the caller chooses the offsets of
+ *      dynamic data (arrays, bytes), so rules on them are not enforced limits.
+ * @param offset Byte offset of the word, counted from the end of the selector
+ * @param ref Reference value the word is compared with
+ * @param limit Optional cumulative limit on the word (e.g. total amount)
+ */
+export interface ArgumentRule {
+  condition: typeof ParamCondition[keyof typeof ParamCondition];
+  offset: bigint;
+  ref: Hex | bigint;
+  limit?: bigint;
+}
+
+/**
+ * Policies of a session. There is no sudo option.
+ */
+export interface SessionPolicies {
+  /** Unix seconds, defaults to now */
+  validAfter?: number;
+  /** Unix seconds, required so sessions always expire */
+  validUntil: number;
+  /** Maximum number of action calls over the session lifetime */
+  maxUses: bigint;
+  /** Maximum cumulative native value sent with the action (default 0) */
+  maxValue?: bigint;
+  /** Additional call-argument rules */
+  argumentRules?: ArgumentRule[];
+}
+
+/**
+ * Part of the chain clients a session is built from
+ * (moduleAddress is only needed for the default action)
+ */
+export type SessionChain = Pick<ReadOnlyChainClients, 'config'> & Partial<Pick<ReadOnlyChainClients, 'moduleAddress'>>;
+
+export interface ProvisionSessionParams {
+  /** Smart account (Safe) the session is enabled on */
+  account: Address;
+  /** Address of the session key (owner of the session validator) */
+  sessionKey: Address;
+  /** Chain key, or clients from getReadOnlyClients / getClients */
+  chain: ChainKey | SessionChain;
+  policies: SessionPolicies;
+  /** Override the action (defaults to the chain's module executeGuardedBatch) */
+  action?: { target: Address; selector: Hex };
+  /** Allow an ERC-4337 paymaster to sponsor session userOps (default true) */
+  permitERC4337Paymaster?: boolean;
+}
+
+/**
+ * Session with bigints stored as decimal strings
+ */
+export type SerializedSession = Omit<Session, 'chainId'> & { chainId: string };
+
+/**
+ * Serializable description of a provisioned session
+ */
+export interface SessionDescriptor {
+  version: number;
+  chain: string;
+  chainId: number;
+  account: Address;
+  sessionKey: Address;
+  permissionId: Hex;
+  salt: Hex;
+  action: { target: Address; selector: Hex };
+  policies: {
+    validAfter: number;
+    validUntil: number;
+    maxUses: string;
+    maxValue: string;
+    argumentRules: Array<{ condition: number; offset: string; ref: Hex; limit?: string }>;
+  };
+  createdAt: string;
+  session: SerializedSession;
+}
+
+/**
+ * Result of provisionSession
+ */
+export interface ProvisionedSession {
+  session: Session;
+  permissionId: Hex;
+  descriptor: SessionDescriptor;
+}
+
+/**
+ * Random 32-byte session salt
+ */
+export function randomSessionSalt(): Hex {
+  return toHex(randomBytes(32));
+}
+
+function toRef(ref: Hex | bigint): Hex {
+  return typeof ref === 'bigint' ? pad(toHex(ref), { size: 32 }) : pad(ref, { size: 32 });
+}
+
+/**
+ * Fixed-size rule tuple of the universal action policy (not exported by module-sdk's index)
+ */
+type UniversalActionParamRules = Parameters<typeof getUniversalActionPolicy>[0]['paramRules']['rules'];
+
+/**
+ * Universal action policy for a set of argument rules (padded to 16 entries)
+ */
+function getArgumentPolicy(rules: ArgumentRule[]) {
+  const emptyRule: UniversalActionParamRules[number] = {
+    condition: ParamCondition.EQUAL,
+    offset: 0n,
+    isLimited: false,
+    ref: zeroHash,
+    usage: { limit: 0n, used: 0n },
+  };
+  const paramRules = Array.from({ length: MAX_ARGUMENT_RULES }, (_, index): UniversalActionParamRules[number] => {
+    const rule = rules[index];
+    return rule === undefined ? emptyRule : {
+      condition: rule.condition,
+      offset: rule.offset,
+      isLimited: rule.limit !== undefined,
+      ref: toRef(rule.ref),
+      usage: { limit: rule.limit ?? 0n, used: 0n },
+    };
+  }) as UniversalActionParamRules;
+
+  return getUniversalActionPolicy({
+    valueLimitPerUse: 0n,
+    paramRules: { length: BigInt(rules.length), rules: paramRules },
+  });
+}
+
+/**
+ * Check the policies and fill in defaults
+ */
+function resolvePolicies(policies: SessionPolicies) {
+  const now = Math.floor(Date.now() / 1000);
+  const validAfter = policies.validAfter ?? now;
+  const { validUntil, maxUses } = policies;
+  const maxValue = policies.maxValue ?? 0n;
+
+  const problems: string[] = [];
+  if (!Number.isInteger(validUntil) || validUntil <= now) problems.push("validUntil must be a unix timestamp in the future");
+  if (validUntil <= validAfter) problems.push("validUntil must be after validAfter");
+  if (maxUses <= 0n) problems.push("maxUses must be positive");
+  if (maxValue < 0n) problems.push("maxValue must not be negative");
+
+  const argumentRules = policies.argumentRules ?? [];
+  if (argumentRules.length > MAX_ARGUMENT_RULES) {
+    problems.push(`At most ${MAX_ARGUMENT_RULES} argument rules are supported (got ${argumentRules.length})`);
+  }
+
+  if (problems.length > 0) {
+    throw new Error("Invalid session policies:\n" + problems.map(p => `  - ${p}`).join('\n'));
+  }
+  return { validAfter, validUntil, maxUses, maxValue, argumentRules };
+}
+
+/**
+ * Build a scoped session for an account and session key
+ */
+export function provisionSession(params: ProvisionSessionParams): ProvisionedSession {
+  const clients = typeof params.chain === 'string' ? getReadOnlyClients(params.chain) : params.chain;
+  const policies = resolvePolicies(params.policies);
+  let action = params.action;
+  if (!action) {
+    if (!clients.moduleAddress) {
+      throw new Error(`No Guarded Exec Module address for ${clients.config.name}: pass chain clients with moduleAddress or an explicit action`);
+    }
+    action = { target: clients.moduleAddress, selector: EXECUTE_GUARDED_BATCH_SELECTOR };
+  }
+
+  const timeFrame = getTimeFramePolicy({
+    validAfter: policies.validAfter,
+    validUntil: policies.validUntil,
+  });
+  const actionPolicies = [
+    timeFrame,
+    getUsageLimitPolicy({ limit: policies.maxUses }),
+    getValueLimitPolicy({ limit: policies.maxValue }),
+    ...(policies.argumentRules.length > 0 ? [getArgumentPolicy(policies.argumentRules)] : []),
+  ];
+
+  const salt = randomSessionSalt();
+  const session: Session = {
+    sessionValidator: OWNABLE_VALIDATOR_ADDRESS,
+    sessionValidatorInitData: encodeValidationData({
+      threshold: 1,
+      owners: [getAddress(params.sessionKey)],
+    }),
+    salt,
+    userOpPolicies: [timeFrame],
+    erc7739Policies: {
+      allowedERC7739Content: [],
+      erc1271Policies: [],
+    },
+    actions: [
+      {
+        actionTarget: getAddress(action.target),
+        actionTargetSelector: action.selector,
+        actionPolicies,
+      },
+    ],
+    chainId: BigInt(clients.config.chain.id),
+    permitERC4337Paymaster: params.permitERC4337Paymaster ?? true,
+  };
+
+  const permissionId = getPermissionId({ session });
+
+  const descriptor: SessionDescriptor = {
+    version: SESSION_DESCRIPTOR_VERSION,
+    chain: clients.config.key,
+    chainId: clients.config.chain.id,
+    account: getAddress(params.account),
+    sessionKey: getAddress(params.sessionKey),
+    permissionId,
+    salt,
+    action: { target: getAddress(action.target), selector: action.selector },
+    policies: {
+      validAfter: policies.validAfter,
+      validUntil: policies.validUntil,
+      maxUses: policies.maxUses.toString(),
+      maxValue: policies.maxValue.toString(),
+      argumentRules: policies.argumentRules.map(rule => ({
+        condition: rule.condition,
+        offset: rule.offset.toString(),
+        ref: toRef(rule.ref),
+        ...(rule.limit !== undefined ? { limit: rule.limit.toString() } : {}),
+      })),
+    },
+    createdAt: new Date().toISOString(),
+    session: serializeSession(session),
+  };
+
+  return { session, permissionId, descriptor };
+}
+
+/**
+ * Session to a JSON-safe object
+ */
+export function serializeSession(session: Session): SerializedSession {
+  return { ...session, chainId: session.chainId.toString() };
+}
+
+/**
+ * Rebuild a Session from a descriptor
+ * @throws if the stored session no longer hashes to the stored permission id
+ */
+export function sessionFromDescriptor(descriptor: SessionDescriptor): Session {
+  const session: Session = { ...descriptor.session, chainId: BigInt(descriptor.session.chainId) };
+  const permissionId = getPermissionId({ session });
+  if (permissionId !== descriptor.permissionId) {
+    throw new Error(`Session descriptor is corrupted: permission id ${permissionId} != ${descriptor.permissionId}`);
+  }
+  return session;
+}
@@ -0,0 +1,167 @@
+/**
+ * On-chain Session State
+ *
+ * Reads the Smart Sessions validator for an account: which permission ids
+ * exist, whether they are enabled, the session validator owners and the
+ * policies attached to the userOp scope and to each enabled action.
+ */
+
+import { GLOBAL_CONSTANTS, SMART_SESSIONS_ADDRESS, getActionId } from '@rhinestone/module-sdk';
+import { Address, Hex, PublicClient, decodeAbiParameters, getAddress, isAddressEqual, parseAbi } from 'viem';
+import { SessionDescriptor } from './provision';
+
+export const SMART_SESSIONS_ABI = parseAbi([
+  "function getPermissionIDs(address account) external view returns (bytes32[] permissionIds)",
+  "function isPermissionEnabled(bytes32 permissionId, address account) external view returns (bool)",
+  "function getSessionValidatorAndConfig(address account, bytes32 permissionId) external view returns (address sessionValidator, bytes sessionValidatorData)",
+  "function getUserOpPolicies(address account, bytes32 permissionId) external view returns (address[])",
+  "function getEnabledActions(address account, bytes32 permissionId) external view returns (bytes32[])",
+  "function getActionPolicies(address account, bytes32 permissionId, bytes32 actionId) external view returns (address[])",
+  "function removeSession(bytes32 permissionId) external",
+]);
+
+/**
+ * Human-readable names of the policy contracts deployed by Rhinestone
+ */
+const KNOWN_POLICIES: Array<[Address, string]> = [
+  [GLOBAL_CONSTANTS.SUDO_POLICY_ADDRESS, 'sudo'],
+  [GLOBAL_CONSTANTS.TIME_FRAME_POLICY_ADDRESS, 'time-frame'],
+  [GLOBAL_CONSTANTS.USAGE_LIMIT_POLICY_ADDRESS, 'usage-limit'],
+  [GLOBAL_CONSTANTS.VALUE_LIMIT_POLICY_ADDRESS, 'value-limit'],
+  [GLOBAL_CONSTANTS.UNIVERSAL_ACTION_POLICY_ADDRESS, 'universal-action'],
+  [GLOBAL_CONSTANTS.SPENDING_LIMITS_POLICY_ADDRESS, 'spending-limits'],
+];
+
+/**
+ * Policy contract with its known name ("unknown" otherwise)
+ */
+export interface PolicyInfo {
+  address: Address;
+  name: string;
+}
+
+/**
+ * On-chain state of one permission id
+ */
+export interface SessionStatus {
+  permissionId: Hex;
+  enabled: boolean;
+  sessionValidator: Address;
+  /** Owners of the session (OwnableValidator config), when decodable */
+  sessionOwners?: Address[];
+  threshold?: bigint;
+  userOpPolicies: PolicyInfo[];
+  actions: Array<{ actionId: Hex; target?: Address; selector?: Hex; policies: PolicyInfo[] }>;
+  /** True if any scope uses the sudo policy */
+  sudo: boolean;
+}
+
+function policyInfo(address: Address): PolicyInfo {
+  const known = KNOWN_POLICIES.find(([policy]) => isAddressEqual(policy, address));
+  return { address: getAddress(address), name: known ? known[1] : 'unknown' };
+}
+
+/**
+ * Permission ids registered for an account on the Smart Sessions validator
+ */
+export async function getAccountPermissionIds(publicClient: PublicClient, account: Address): Promise<readonly Hex[]> {
+  return publicClient.readContract({
+    address: SMART_SESSIONS_ADDRESS,
+    abi: SMART_SESSIONS_ABI,
+    functionName: 'getPermissionIDs',
+    args: [account],
+  });
+}
+
+/**
+ * Enabled flag of several permission ids (one multicall)
+ */
+export async function getEnabledPermissions(
+  publicClient: PublicClient,
+  account: Address,
+  permissionIds: Hex[]
+): Promise<Map<Hex, boolean>> {
+  const results: boolean[] = permissionIds.length > 0
+    ? await publicClient.multicall({
+        allowFailure: false,
+        contracts: permissionIds.map(permissionId => ({
+          address: SMART_SESSIONS_ADDRESS,
+          abi: SMART_SESSIONS_ABI,
+          functionName: 'isPermissionEnabled',
+          args: [permissionId, account],
+        })),
+      })
+    : [];
+  return new Map(permissionIds.map((permissionId, i) => [permissionId, results[i]]));
+}
+
+/**
+ * Read the full on-chain state of a permission id
+ * @param descriptor Optional descriptor, used to label action ids with target and selector
+ */
+export async function getSessionStatus(
+  publicClient: PublicClient,
+  account: Address,
+  permissionId: Hex,
+  descriptor?: SessionDescriptor
+): Promise<SessionStatus> {
+  const [enabled, [sessionValidator, sessionValidatorData], userOpPolicies, actionIds] = await publicClient.multicall({
+    allowFailure: false,
+    contracts: [
+      { address: SMART_SESSIONS_ADDRESS, abi: SMART_SESSIONS_ABI, functionName: 'isPermissionEnabled', args: [permissionId, account] },
+      { address: SMART_SESSIONS_ADDRESS, abi: SMART_SESSIONS_ABI, functionName: 'getSessionValidatorAndConfig', args: [account, permissionId] },
+      { address: SMART_SESSIONS_ADDRESS, abi: SMART_SESSIONS_ABI, functionName: 'getUserOpPolicies', args: [account, permissionId] },
+      { address: SMART_SESSIONS_ADDRESS, abi: SMART_SESSIONS_ABI, functionName: 'getEnabledActions', args: [account, permissionId] },
+    ],
+  });
+
+  const actionPolicies: Address[][] = actionIds.length > 0
+    ? await publicClient.multicall({
+        allowFailure: false,
+        contracts: (actionIds as Hex[]).map(actionId => ({
+          address: SMART_SESSIONS_ADDRESS,
+          abi: SMART_SESSIONS_ABI,
+          functionName: 'getActionPolicies',
+          args: [account, permissionId, actionId],
+        })),
+      })
+    : [];
+
+  // Label action ids with the target/selector they were derived from
+  const labels = new Map<Hex, { target: Address; selector: Hex }>();
+  for (const action of descriptor?.session.actions ?? []) {
+    const actionId = await getActionId({ target: action.actionTarget, selector: action.actionTargetSelector });
+    labels.set(actionId, { target: action.actionTarget, selector: action.actionTargetSelector });
+  }
+
+  const status: SessionStatus = {
+    permissionId,
+    enabled,
+    sessionValidator: getAddress(sessionValidator),
+    userOpPolicies: (userOpPolicies as Address[]).map(policyInfo),
+    actions: (actionIds as Hex[]).map((actionId, i) => ({
+      actionId,
+      ...labels.get(actionId),
+      policies: actionPolicies[i].map(policyInfo),
+    })),
+    sudo: false,
+  };
+  status.sudo = [status.userOpPolicies, ...status.actions.map(action => action.policies)]
+    .some(policies => policies.some(policy => policy.name === 'sudo'));
+
+  // OwnableValidator config: abi.encode(uint256 threshold, address[] owners)
+  if (isAddressEqual(status.sessionValidator, GLOBAL_CONSTANTS.OWNABLE_VALIDATOR_ADDRESS) && sessionValidatorData !== '0x') {
+    try {
+      const [threshold, owners] = decodeAbiParameters(
+        [{ type: 'uint256' }, { type: 'address[]' }],
+        sessionValidatorData
+      );
+      status.threshold = threshold;
+      status.sessionOwners = [...owners];
+    } catch {
+      // Leave owners undefined for configs that do not decode
+    }
+  }
+
+  return status;
+}
@@ -0,0 +1,63 @@
+/**
+ * Session Descriptor Store
+ *
+ * Session descriptors (see provision.ts) are kept as JSON files in
+ * hardhat/sessions/<chain>/<account>/<permissionId>.json. They hold no key
+ * material, only what is needed to recompute permission ids and policies.
+ * The directory can be moved with SESSIONS_DIR.
+ */
+
+import { existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { Address, getAddress } from 'viem';
+import { SESSION_DESCRIPTOR_VERSION, SessionDescriptor } from './provision';
+
+/**
+ * Root directory of the descriptor store
+ */
+export function sessionsDir(): string {
+  return process.env.SESSIONS_DIR?.trim()
+    ? resolve(process.env.SESSIONS_DIR.trim())
+    : join(__dirname, '..', '..', 'sessions');
+}
+
+function accountDir(chain: string, account: Address): string {
+  return join(sessionsDir(), chain, getAddress(account));
+}
+
+/**
+ * Read a descriptor file
+ * @throws if the file is not a session descriptor of a supported version
+ */
+export function readSessionDescriptor(file: string): SessionDescriptor {
+  const descriptor = JSON.parse(readFileSync(file, 'utf8'));
+  if (descriptor?.version !== SESSION_DESCRIPTOR_VERSION || typeof descriptor.permissionId !== 'string' || !descriptor.session) {
+    throw new Error(`${file} is not a version ${SESSION_DESCRIPTOR_VERSION} session descriptor`);
+  }
+  return descriptor;
+}
+
+/**
+ * Write a descriptor to the store
+ * @return path of the written file
+ */
+export function saveSessionDescriptor(descriptor: SessionDescriptor): string {
+  const dir = accountDir(descriptor.chain, descriptor.account);
+  mkdirSync(dir, { recursive: true });
+  const file = join(dir, `${descriptor.permissionId}.json`);
+  writeFileSync(file, JSON.stringify(descriptor, null, 2) + '\n');
+  return file;
+}
+
+/**
+ * All stored descriptors of an account, oldest first
+ */
+export function loadSessionDescriptors(chain: string, account: Address): SessionDescriptor[] {
+  const dir = accountDir(chain, account);
+  if (!existsSync(dir)) return [];
+
+  return readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .map(file => readSessionDescriptor(join(dir, file)))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
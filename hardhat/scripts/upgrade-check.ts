@@ -0,0 +1,102 @@
+/**
+ * Upgrade Safety Check CLI
+ *
+ * Compares the storage layout and upgrade guards of the current and a
+ * candidate GuardedExecModuleUpgradeable implementation (see upgrade/) before
+ * an upgrade is proposed. Reads the solc output of `forge build`:
+ *
+ *   forge build --build-info --extra-output storageLayout   # repository root
+ *
+ * USAGE:
+ *   pnpm upgrade-check --candidate <source:Contract | layout.json> [--current <source:Contract | layout.json>]
+ *                      [--build-info <dir|file>] [--save <file>] [--json]
+ *
+ * --current    defaults to src/module/GuardedExecModuleUpgradeable.sol:GuardedExecModuleUpgradeable
+ * --save       writes the candidate's layout as JSON, to compare the next
+ *              upgrade against what was deployed (pass it as --current)
+ * --build-info defaults to out/build-info
+ *
+ * Exits with an error when the upgrade is unsafe (any error finding).
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { ImplementationLayout, extractLayout } from './upgrade/layout';
+import { UpgradeFinding, checkUpgradeSafety } from './upgrade/safety';
+import { loadEnv, parseCommandLine, runCli } from './utils/cli';
+
+// Load environment variables
+loadEnv();
+
+const DEFAULT_CURRENT = 'src/module/GuardedExecModuleUpgradeable.sol:GuardedExecModuleUpgradeable';
+
+const USAGE = "Usage: upgrade-check --candidate <source:Contract|layout.json> [--current <source:Contract|layout.json>] [--build-info <dir>] [--save <file>] [--json]";
+
+/**
+ * A saved layout (.json) or a contract of the build
+ */
+function loadLayout(reference: string, buildInfo?: string): ImplementationLayout {
+  if (reference.endsWith('.json')) {
+    return JSON.parse(readFileSync(reference, 'utf8'));
+  }
+  return extractLayout(reference, buildInfo);
+}
+
+function printFindings(findings: UpgradeFinding[]): void {
+  const icons = { error: '❌', warning: '⚠️ ', info: 'ℹ️ ' };
+  if (findings.length === 0) {
+    console.log("\nNo layout or guard changes");
+    return;
+  }
+  console.log("");
+  (['error', 'warning', 'info'] as const).forEach(severity => {
+    findings
+      .filter(finding => finding.severity === severity)
+      .forEach(finding => console.log(`${icons[severity]} [${finding.location}] ${finding.kind}: ${finding.message}`));
+  });
+}
+
+async function main() {
+  const { values } = parseCommandLine({
+    current: { type: 'string' },
+    candidate: { type: 'string' },
+    'build-info': { type: 'string' },
+    save: { type: 'string' },
+    json: { type: 'boolean' },
+  });
+
+  if (!values.candidate) {
+    throw new Error(USAGE);
+  }
+
+  const current = loadLayout(values.current ?? DEFAULT_CURRENT, values['build-info']);
+  const candidate = loadLayout(values.candidate, values['build-info']);
+  const report = checkUpgradeSafety(current, candidate);
+
+  if (values.save) {
+    writeFileSync(values.save, JSON.stringify(candidate, null, 2));
+  }
+
+  if (values.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    console.log("🛡️  Upgrade safety check");
+    console.log("==================================");
+    console.log("Current:  ", current.contract);
+    console.log("Candidate:", candidate.contract);
+    console.log(`Storage: ${candidate.storage.length} variable(s), namespaces: ${candidate.namespaces.map(namespace => namespace.id).join(', ') || 'none'}`);
+    printFindings(report.findings);
+    if (values.save) {
+      console.log(`\n💾 Candidate layout written to ${values.save}`);
+    }
+  }
+
+  if (!report.safe) {
+    const errors = report.findings.filter(finding => finding.severity === 'error').length;
+    throw new Error(`Upgrade is not safe: ${errors} error(s)`);
+  }
+  if (!values.json) {
+    console.log("\n✅ Upgrade is layout-compatible");
+  }
+}
+
+runCli(main);
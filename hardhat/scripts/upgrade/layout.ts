@@ -0,0 +1,395 @@
+/**
+ * Implementation Storage Layout
+ *
+ * Extracts what an upgrade has to preserve from the solc output forge keeps in
+ * out/build-info (`forge build --build-info --extra-output storageLayout`):
+ *
+ * - the linear storage layout (solc storageLayout)
+ * - the ERC-7201 namespaces of the contract and its bases: structs annotated
+ *   with `@custom:storage-location erc7201:<id>`, laid out from the AST since
+ *   solc does not report them (GuardedExecModuleStorage, OZ upgradeable
+ *   Ownable, Ownable2Step, Pausable, Initializable)
+ * - the bytes32 `*STORAGE*` slot constants pointing at those namespaces
+ * - whether a constructor calls _disableInitializers, and the modifiers of the
+ *   _authorizeUpgrade that UUPSUpgradeable would call
+ *
+ * Types are compared by signature: structs are expanded to their members and
+ * contract prefixes are dropped, so renaming the contract is not a change.
+ */
+
+import { existsSync, readFileSync, readdirSync, statSync } from 'fs';
+import { join } from 'path';
+import { Hex, keccak256, numberToHex, toHex } from 'viem';
+
+/**
+ * forge build-info directory of the repository root
+ */
+export const BUILD_INFO_DIR = join(__dirname, '..', '..', '..', 'out', 'build-info');
+
+const STORAGE_LOCATION_PATTERN = /@custom:storage-location\s+erc7201:([^\s*]+)/;
+
+/**
+ * One storage variable (slot relative to the namespace for namespaced fields)
+ */
+export interface StorageField {
+  label: string;
+  /** Decimal slot */
+  slot: string;
+  offset: number;
+  type: string;
+  bytes: number;
+  /** Contract that declares it */
+  contract: string;
+}
+
+/**
+ * ERC-7201 namespace: erc7201:<id> at slot erc7201(id)
+ */
+export interface StorageNamespace {
+  id: string;
+  slot: Hex;
+  /** Declaring contract and struct, e.g. GuardedExecModuleUpgradeable.GuardedExecModuleStorage */
+  struct: string;
+  fields: StorageField[];
+}
+
+/**
+ * Upgrade-relevant layout of one implementation contract
+ */
+export interface ImplementationLayout {
+  /** <source path>:<contract name> */
+  contract: string;
+  storage: StorageField[];
+  namespaces: StorageNamespace[];
+  /** bytes32 storage slot constants, keyed by <contract>.<name> */
+  slotConstants: Record<string, Hex>;
+  /** A constructor in the inheritance chain calls _disableInitializers() */
+  disablesInitializers: boolean;
+  /** Whether UUPSUpgradeable is in the inheritance chain */
+  uups: boolean;
+  /** Implementation UUPSUpgradeable calls (undefined when there is none) */
+  authorizeUpgrade?: {
+    contract: string;
+    modifiers: string[];
+    /** Has a modifier or a call/revert in its body (an empty override allows anyone to upgrade) */
+    guarded: boolean;
+  };
+}
+
+/**
+ * solc standard JSON input and output, as saved by forge
+ */
+interface BuildInfo {
+  input: {
+    sources: Record<string, { content?: string }>;
+    settings?: { outputSelection?: Record<string, Record<string, string[]>> };
+  };
+  output: {
+    sources: Record<string, { id: number; ast: any }>;
+    contracts: Record<string, Record<string, { storageLayout?: { storage: any[]; types: Record<string, any> | null } }>>;
+  };
+}
+
+/**
+ * Type of a storage item: signature, size and whether it starts a new slot
+ */
+interface TypeInfo {
+  signature: string;
+  bytes: number;
+  slotAligned: boolean;
+}
+
+/**
+ * ERC-7201 slot of a namespace id
+ */
+export function erc7201Slot(id: string): Hex {
+  const hash = BigInt(keccak256(numberToHex(BigInt(keccak256(toHex(id))) - 1n, { size: 32 })));
+  return numberToHex(hash & ~0xffn, { size: 32 });
+}
+
+/**
+ * Split "<source path>:<contract name>"
+ */
+export function parseContractId(id: string): { source: string; name: string } {
+  const index = id.lastIndexOf(':');
+  if (index <= 0 || index === id.length - 1) {
+    throw new Error(`"${id}" is not <source path>:<contract name>`);
+  }
+  return { source: id.slice(0, index), name: id.slice(index + 1) };
+}
+
+/**
+ * Whether the build asked solc for storage layouts
+ */
+function requestedStorageLayout(buildInfo: BuildInfo): boolean {
+  return Object.values(buildInfo.input.settings?.outputSelection ?? {})
+    .some(files => Object.values(files).some(outputs => outputs.includes('storageLayout')));
+}
+
+/**
+ * Find the build-info file holding a contract, newest first
+ * @throws if no build-info file has it, or it was built without storageLayout
+ */
+export function loadBuildInfo(contractId: string, dir: string = BUILD_INFO_DIR): { buildInfo: BuildInfo; source: string } {
+  const { source, name } = parseContractId(contractId);
+  if (!existsSync(dir)) {
+    throw new Error(`No build-info at ${dir}: run \`forge build --build-info --extra-output storageLayout\` in the repository root`);
+  }
+
+  const files = statSync(dir).isDirectory()
+    ? readdirSync(dir).filter(file => file.endsWith('.json')).map(file => join(dir, file))
+      .sort((a, b) => statSync(b).mtimeMs - statSync(a).mtimeMs)
+    : [dir];
+
+  for (const file of files) {
+    const buildInfo: BuildInfo = JSON.parse(readFileSync(file, 'utf8'));
+    const path = Object.keys(buildInfo.output?.contracts ?? {}).find(key => key.endsWith(source));
+    if (!path || !buildInfo.output.contracts[path][name]) continue;
+    const contract = buildInfo.output.contracts[path][name];
+    if (!contract.storageLayout) {
+      if (!requestedStorageLayout(buildInfo)) {
+        throw new Error(`${file} has no storageLayout for ${contractId}: rebuild with \`--extra-output storageLayout\``);
+      }
+      // forge drops empty layouts from the output, e.g. when all state lives in ERC-7201 namespaces
+      contract.storageLayout = { storage: [], types: null };
+    }
+    return { buildInfo, source: path };
+  }
+
+  throw new Error(`No build-info in ${dir} has ${contractId}: run \`forge build --build-info --extra-output storageLayout\``);
+}
+
+/**
+ * Every AST node with an id, across all sources of the build
+ */
+function indexNodes(buildInfo: BuildInfo): Map<number, any> {
+  const nodes = new Map<number, any>();
+  const visit = (node: any) => {
+    if (!node || typeof node !== 'object') return;
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (typeof node.id === 'number' && typeof node.nodeType === 'string') {
+      nodes.set(node.id, node);
+    }
+    Object.values(node).forEach(visit);
+  };
+  Object.values(buildInfo.output.sources).forEach(source => visit(source.ast));
+  return nodes;
+}
+
+/**
+ * Whether a node contains a node matching the predicate (not descending into emits)
+ */
+function containsNode(node: any, predicate: (node: any) => boolean): boolean {
+  if (!node || typeof node !== 'object') return false;
+  if (Array.isArray(node)) return node.some(child => containsNode(child, predicate));
+  if (node.nodeType === 'EmitStatement') return false;
+  if (typeof node.nodeType === 'string' && predicate(node)) return true;
+  return Object.values(node).some(child => containsNode(child, predicate));
+}
+
+/**
+ * Signature of a solc storageLayout type
+ */
+function linearTypeSignature(types: Record<string, any>, typeId: string): string {
+  const type = types[typeId];
+  if (type.members) {
+    const name = type.label.replace(/^struct (\w+\.)?/, '');
+    return `struct ${name}{${type.members.map((member: any) => `${member.label}:${linearTypeSignature(types, member.type)}`).join(';')}}`;
+  }
+  if (type.encoding === 'mapping') {
+    return `mapping(${linearTypeSignature(types, type.key)} => ${linearTypeSignature(types, type.value)})`;
+  }
+  if (type.base) {
+    return `${linearTypeSignature(types, type.base)}${type.label.match(/\[\d*\]$/)?.[0] ?? '[]'}`;
+  }
+  return type.label.replace(/^(enum|contract) \w+\./, '$1 ');
+}
+
+/**
+ * Lay out struct members (or a contract's variables) the way solc does
+ */
+function layoutMembers(members: any[], nodes: Map<number, any>, contract: string): { fields: StorageField[]; slots: bigint } {
+  const fields: StorageField[] = [];
+  let slot = 0n;
+  let offset = 0;
+
+  for (const member of members) {
+    const info = astTypeInfo(member.typeName, nodes);
+    if (offset > 0 && (info.slotAligned || offset + info.bytes > 32)) {
+      slot++;
+      offset = 0;
+    }
+    fields.push({ label: member.name, slot: slot.toString(), offset, type: info.signature, bytes: info.bytes, contract });
+    if (info.slotAligned || info.bytes >= 32) {
+      slot += BigInt(Math.ceil(info.bytes / 32));
+      offset = 0;
+    } else {
+      offset += info.bytes;
+    }
+  }
+
+  return { fields, slots: slot + (offset > 0 ? 1n : 0n) };
+}
+
+/**
+ * Signature and size of an AST type name
+ */
+function astTypeInfo(typeName: any, nodes: Map<number, any>): TypeInfo {
+  switch (typeName.nodeType) {
+    case 'ElementaryTypeName': {
+      const signature: string = typeName.typeDescriptions?.typeString ?? typeName.name;
+      if (signature === 'string' || signature === 'bytes') return { signature, bytes: 32, slotAligned: true };
+      if (signature.startsWith('address')) return { signature, bytes: 20, slotAligned: false };
+      if (signature === 'bool') return { signature, bytes: 1, slotAligned: false };
+      const bits = signature.match(/^u?int(\d+)$/)?.[1];
+      if (bits) return { signature, bytes: Number(bits) / 8, slotAligned: false };
+      const size = signature.match(/^bytes(\d+)$/)?.[1];
+      if (size) return { signature, bytes: Number(size), slotAligned: false };
+      return { signature, bytes: 32, slotAligned: false };
+    }
+    case 'Mapping':
+      return {
+        signature: `mapping(${astTypeInfo(typeName.keyType, nodes).signature} => ${astTypeInfo(typeName.valueType, nodes).signature})`,
+        bytes: 32,
+        slotAligned: true,
+      };
+    case 'ArrayTypeName': {
+      const base = astTypeInfo(typeName.baseType, nodes);
+      if (!typeName.length) {
+        return { signature: `${base.signature}[]`, bytes: 32, slotAligned: true };
+      }
+      const length = Number(typeName.length.value);
+      const slots = !base.slotAligned && base.bytes <= 16
+        ? Math.ceil(length / Math.floor(32 / base.bytes))
+        : length * Math.ceil(base.bytes / 32);
+      return { signature: `${base.signature}[${length}]`, bytes: slots * 32, slotAligned: true };
+    }
+    case 'FunctionTypeName':
+      return { signature: typeName.typeDescriptions?.typeString ?? 'function', bytes: typeName.visibility === 'external' ? 24 : 8, slotAligned: false };
+    case 'UserDefinedTypeName': {
+      const declaration = nodes.get(typeName.referencedDeclaration);
+      if (!declaration) {
+        throw new Error(`Unknown type declaration ${typeName.referencedDeclaration} (${typeName.typeDescriptions?.typeString})`);
+      }
+      switch (declaration.nodeType) {
+        case 'ContractDefinition':
+          return { signature: `contract ${declaration.name}`, bytes: 20, slotAligned: false };
+        case 'EnumDefinition':
+          return { signature: `enum ${declaration.name}`, bytes: 1, slotAligned: false };
+        case 'UserDefinedValueTypeDefinition':
+          return { ...astTypeInfo(declaration.underlyingType, nodes), signature: declaration.name };
+        case 'StructDefinition': {
+          const { fields, slots } = layoutMembers(declaration.members, nodes, '');
+          return {
+            signature: `struct ${declaration.name}{${fields.map(field => `${field.label}:${field.type}`).join(';')}}`,
+            bytes: Number(slots) * 32,
+            slotAligned: true,
+          };
+        }
+      }
+      throw new Error(`Unsupported storage type ${declaration.nodeType} ${declaration.name}`);
+    }
+  }
+  throw new Error(`Unsupported storage type ${typeName.nodeType}`);
+}
+
+/**
+ * erc7201 id of a struct, from its NatSpec (or the source text before it for
+ * compilers that do not attach struct documentation)
+ */
+function namespaceId(struct: any, buildInfo: BuildInfo, sourcePaths: string[]): string | undefined {
+  const text: string | undefined = typeof struct.documentation === 'string' ? struct.documentation : struct.documentation?.text;
+  const fromDoc = text?.match(STORAGE_LOCATION_PATTERN)?.[1];
+  if (fromDoc) return fromDoc;
+
+  const [start, , fileIndex] = String(struct.src).split(':').map(Number);
+  const content = buildInfo.input.sources[sourcePaths[fileIndex]]?.content;
+  if (!content) return undefined;
+  const before = content.slice(Math.max(0, start - 400), start);
+  const comment = before.match(/(\/\/\/[^\n]*\n\s*|\/\*\*[\s\S]*?\*\/\s*)+$/)?.[0];
+  return comment?.match(STORAGE_LOCATION_PATTERN)?.[1];
+}
+
+/**
+ * Extract the upgrade-relevant layout of a contract from forge build-info
+ */
+export function extractLayout(contractId: string, buildInfoDir?: string): ImplementationLayout {
+  const { name } = parseContractId(contractId);
+  const { buildInfo, source } = loadBuildInfo(contractId, buildInfoDir);
+  const nodes = indexNodes(buildInfo);
+
+  // AST src locations refer to sources by their output id
+  const sourcePaths: string[] = [];
+  Object.entries(buildInfo.output.sources).forEach(([path, { id }]) => {
+    sourcePaths[id] = path;
+  });
+
+  const { storage, types } = buildInfo.output.contracts[source][name].storageLayout!;
+  const linear: StorageField[] = storage.map(item => ({
+    label: item.label,
+    slot: String(item.slot),
+    offset: item.offset,
+    type: linearTypeSignature(types ?? {}, item.type),
+    bytes: Number(types?.[item.type]?.numberOfBytes ?? 32),
+    contract: String(item.contract).split(':').pop()!,
+  }));
+
+  const contractNode = Object.values(buildInfo.output.sources[source].ast.nodes as any[])
+    .find(node => node.nodeType === 'ContractDefinition' && node.name === name);
+  if (!contractNode) {
+    throw new Error(`No contract ${name} in the AST of ${source}`);
+  }
+  const bases: any[] = contractNode.linearizedBaseContracts.map((id: number) => nodes.get(id)).filter(Boolean);
+
+  const namespaces: StorageNamespace[] = [];
+  const slotConstants: Record<string, Hex> = {};
+  let disablesInitializers = false;
+  let authorizeUpgrade: ImplementationLayout['authorizeUpgrade'];
+
+  for (const base of bases) {
+    for (const node of base.nodes) {
+      if (node.nodeType === 'StructDefinition') {
+        const id = namespaceId(node, buildInfo, sourcePaths);
+        if (id) {
+          namespaces.push({
+            id,
+            slot: erc7201Slot(id),
+            struct: `${base.name}.${node.name}`,
+            fields: layoutMembers(node.members, nodes, base.name).fields,
+          });
+        }
+      }
+
+      if (node.nodeType === 'VariableDeclaration' && node.constant && node.typeName?.name === 'bytes32' &&
+          /storage/i.test(node.name) && node.value?.nodeType === 'Literal') {
+        slotConstants[`${base.name}.${node.name}`] = numberToHex(BigInt(node.value.value), { size: 32 });
+      }
+
+      if (node.nodeType === 'FunctionDefinition' && node.kind === 'constructor' &&
+          containsNode(node.body, child => child.nodeType === 'Identifier' && child.name === '_disableInitializers')) {
+        disablesInitializers = true;
+      }
+
+      // Most derived implementation wins (bases are listed most derived first)
+      if (!authorizeUpgrade && node.nodeType === 'FunctionDefinition' && node.name === '_authorizeUpgrade' && node.implemented) {
+        const modifiers: string[] = (node.modifiers ?? []).map((modifier: any) => modifier.modifierName?.name ?? modifier.modifierName?.namePath);
+        const bodyGuard = containsNode(node.body, child =>
+          child.nodeType === 'RevertStatement' || (child.nodeType === 'FunctionCall' && child.kind === 'functionCall'));
+        authorizeUpgrade = { contract: base.name, modifiers, guarded: modifiers.length > 0 || bodyGuard };
+      }
+    }
+  }
+
+  return {
+    contract: `${source}:${name}`,
+    storage: linear,
+    namespaces,
+    slotConstants,
+    disablesInitializers,
+    uups: bases.some(base => base.name === 'UUPSUpgradeable'),
+    authorizeUpgrade,
+  };
+}
@@ -0,0 +1,193 @@
+/**
+ * Upgrade Safety Check
+ *
+ * Compares the layout of the current and the candidate implementation (see
+ * upgrade/layout.ts) and lists what would break the proxy's state or its
+ * upgrade path:
+ *
+ * - errors: a field removed, reordered (moved to another slot/offset),
+ *   retyped or replaced, a field inserted before existing ones, a namespace
+ *   removed or its slot constant changed (or not matching its erc7201 id), no
+ *   _disableInitializers in the constructor, UUPSUpgradeable dropped, or
+ *   _authorizeUpgrade missing or without its guard
+ * - warnings: a renamed field, _authorizeUpgrade modifiers changed
+ * - info: fields and namespaces appended
+ */
+
+import { ImplementationLayout, StorageField, erc7201Slot } from './layout';
+
+export type FindingSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * One difference between the implementations
+ */
+export interface UpgradeFinding {
+  severity: FindingSeverity;
+  kind:
+    | 'removed' | 'reordered' | 'retyped' | 'replaced' | 'renamed' | 'inserted' | 'added'
+    | 'namespace-removed' | 'namespace-added' | 'namespace-slot'
+    | 'initializers' | 'not-uups' | 'authorize-upgrade';
+  /** Linear storage or erc7201:<id> */
+  location: string;
+  message: string;
+}
+
+export interface UpgradeReport {
+  current: string;
+  candidate: string;
+  /** No error findings */
+  safe: boolean;
+  findings: UpgradeFinding[];
+}
+
+const position = (field: StorageField) => `slot ${field.slot} offset ${field.offset}`;
+
+const describe = (field: StorageField) => `${field.contract ? `${field.contract}.` : ''}${field.label} (${field.type})`;
+
+/**
+ * Compare two field lists (contract storage, or one namespace struct)
+ */
+function compareFields(current: StorageField[], candidate: StorageField[], location: string): UpgradeFinding[] {
+  const findings: UpgradeFinding[] = [];
+  const at = (fields: StorageField[], field: StorageField) =>
+    fields.find(other => other.slot === field.slot && other.offset === field.offset);
+  const end = (field: StorageField) => BigInt(field.slot) * 32n + BigInt(field.offset) + BigInt(field.bytes);
+  const currentEnd = current.reduce((max, field) => end(field) > max ? end(field) : max, 0n);
+
+  for (const field of current) {
+    const replacement = at(candidate, field);
+    const moved = candidate.find(other => other.label === field.label && other !== replacement);
+
+    if (!replacement) {
+      findings.push(moved
+        ? { severity: 'error', kind: 'reordered', location, message: `${describe(field)} moved from ${position(field)} to ${position(moved)}` }
+        : { severity: 'error', kind: 'removed', location, message: `${describe(field)} at ${position(field)} was removed` });
+    } else if (replacement.label !== field.label) {
+      if (moved || current.some(other => other.label === replacement.label)) {
+        findings.push({ severity: 'error', kind: 'reordered', location, message: `${position(field)} now holds ${describe(replacement)} instead of ${describe(field)}` });
+      } else if (replacement.type === field.type) {
+        findings.push({ severity: 'warning', kind: 'renamed', location, message: `${describe(field)} at ${position(field)} renamed to ${replacement.label}` });
+      } else {
+        findings.push({ severity: 'error', kind: 'replaced', location, message: `${describe(field)} at ${position(field)} replaced by ${describe(replacement)}` });
+      }
+    } else if (replacement.type !== field.type) {
+      findings.push({ severity: 'error', kind: 'retyped', location, message: `${field.label} at ${position(field)} changed type: ${field.type} -> ${replacement.type}` });
+    }
+  }
+
+  for (const field of candidate) {
+    if (at(current, field) || current.some(other => other.label === field.label)) continue;
+    const start = BigInt(field.slot) * 32n + BigInt(field.offset);
+    findings.push(start < currentEnd
+      ? { severity: 'error', kind: 'inserted', location, message: `${describe(field)} inserted at ${position(field)}, inside the existing layout` }
+      : { severity: 'info', kind: 'added', location, message: `${describe(field)} appended at ${position(field)}` });
+  }
+
+  return findings;
+}
+
+/**
+ * Slot constants that do not match the namespace their contract declares
+ */
+function checkSlotConstants(layout: ImplementationLayout): UpgradeFinding[] {
+  return Object.entries(layout.slotConstants).flatMap(([key, value]): UpgradeFinding[] => {
+    const contract = key.split('.')[0];
+    const declared = layout.namespaces.filter(namespace => namespace.struct.split('.')[0] === contract);
+    if (declared.length === 0 || declared.some(namespace => BigInt(namespace.slot) === BigInt(value))) {
+      return [];
+    }
+    return [{
+      severity: 'error',
+      kind: 'namespace-slot',
+      location: declared.map(namespace => `erc7201:${namespace.id}`).join(', '),
+      message: `${key} = ${value} in ${layout.contract} is not the erc7201 slot of ${declared.map(namespace => `${namespace.id} (${erc7201Slot(namespace.id)})`).join(', ')}`,
+    }];
+  });
+}
+
+/**
+ * Check that the candidate implementation can safely replace the current one
+ */
+export function checkUpgradeSafety(current: ImplementationLayout, candidate: ImplementationLayout): UpgradeReport {
+  const findings: UpgradeFinding[] = compareFields(current.storage, candidate.storage, 'storage');
+
+  for (const namespace of current.namespaces) {
+    const location = `erc7201:${namespace.id}`;
+    const next = candidate.namespaces.find(other => other.id === namespace.id);
+    if (!next) {
+      findings.push({
+        severity: 'error',
+        kind: 'namespace-removed',
+        location,
+        message: `Namespace ${namespace.struct} is gone: its state at ${namespace.slot} is no longer reachable`,
+      });
+      continue;
+    }
+    findings.push(...compareFields(namespace.fields, next.fields, location));
+  }
+  candidate.namespaces
+    .filter(namespace => !current.namespaces.some(other => other.id === namespace.id))
+    .forEach(namespace => findings.push({
+      severity: 'info',
+      kind: 'namespace-added',
+      location: `erc7201:${namespace.id}`,
+      message: `Namespace ${namespace.struct} added at ${namespace.slot}`,
+    }));
+
+  // A constant that keeps its name but points elsewhere moves the namespace
+  // (matched by constant name: the candidate contract may be renamed)
+  const constantName = (key: string) => key.split('.').pop();
+  for (const [key, value] of Object.entries(current.slotConstants)) {
+    const next = Object.entries(candidate.slotConstants).find(([other]) => constantName(other) === constantName(key))?.[1];
+    if (next !== undefined && BigInt(next) !== BigInt(value)) {
+      findings.push({ severity: 'error', kind: 'namespace-slot', location: key, message: `${key} changed from ${value} to ${next}` });
+    }
+  }
+  findings.push(...checkSlotConstants(candidate));
+
+  if (!candidate.disablesInitializers) {
+    findings.push({
+      severity: 'error',
+      kind: 'initializers',
+      location: candidate.contract,
+      message: "No constructor calls _disableInitializers(): anyone can initialize the implementation itself",
+    });
+  }
+
+  if (!candidate.uups) {
+    findings.push({
+      severity: 'error',
+      kind: 'not-uups',
+      location: candidate.contract,
+      message: "UUPSUpgradeable is not inherited: the proxy could never be upgraded again",
+    });
+  }
+
+  if (!candidate.authorizeUpgrade) {
+    findings.push({ severity: 'error', kind: 'authorize-upgrade', location: candidate.contract, message: "No _authorizeUpgrade implementation" });
+  } else if (!candidate.authorizeUpgrade.guarded) {
+    findings.push({
+      severity: 'error',
+      kind: 'authorize-upgrade',
+      location: `${candidate.authorizeUpgrade.contract}._authorizeUpgrade`,
+      message: "_authorizeUpgrade has no modifier and no check in its body: anyone could upgrade the proxy",
+    });
+  } else if (current.authorizeUpgrade) {
+    const dropped = current.authorizeUpgrade.modifiers.filter(modifier => !candidate.authorizeUpgrade!.modifiers.includes(modifier));
+    if (dropped.length > 0) {
+      findings.push({
+        severity: 'warning',
+        kind: 'authorize-upgrade',
+        location: `${candidate.authorizeUpgrade.contract}._authorizeUpgrade`,
+        message: `_authorizeUpgrade no longer uses ${dropped.join(', ')} (now: ${candidate.authorizeUpgrade.modifiers.join(', ') || 'checks in the body'})`,
+      });
+    }
+  }
+
+  return {
+    current: current.contract,
+    candidate: candidate.contract,
+    safe: !findings.some(finding => finding.severity === 'error'),
+    findings,
+  };
+}
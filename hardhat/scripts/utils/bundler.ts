@@ -0,0 +1,274 @@
+/**
+ * Bundler / Paymaster Providers
+ *
+ * UserOperations go through a BundlerProvider chosen per chain: Pimlico, any
+ * ERC-7769 JSON-RPC bundler (with an optional ERC-7677 paymaster), or a
+ * local bundler (anvil, e2e harness). The chain table in chains.ts sets the
+ * default provider and paymaster mode; environment variables override them:
+ *
+ *   <CHAIN>_BUNDLER_PROVIDER  pimlico | erc7769 | local
+ *   <CHAIN>_BUNDLER_URL       bundler URL (required for erc7769)
+ *   <CHAIN>_PAYMASTER_URL     ERC-7677 paymaster URL (sponsored erc7769/local)
+ *   <CHAIN>_PAYMASTER_MODE    sponsored | self-funded
+ *
+ * In self-funded mode no paymaster is used and the Safe pays gas from its
+ * native balance (Plasma and Sonic). Secrets (PIMLICO_API_KEY, URLs with
+ * credentials) are read from the environment or from the keystore alias in
+ * <NAME>_ALIAS, see readSecret().
+ */
+
+import { createPimlicoClient } from 'permissionless/clients/pimlico';
+import { Address, PublicClient, Transport, formatEther, http } from 'viem';
+import { createBundlerClient, createPaymasterClient, entryPoint07Address } from 'viem/account-abstraction';
+import type { ChainConfig } from './chains';
+import { readSecret } from './keystore';
+
+/**
+ * Supported bundler providers (value of <CHAIN>_BUNDLER_PROVIDER)
+ */
+export const BUNDLER_PROVIDER_KINDS = ['pimlico', 'erc7769', 'local'] as const;
+
+export type BundlerProviderKind = typeof BUNDLER_PROVIDER_KINDS[number];
+
+/**
+ * Supported paymaster modes (value of <CHAIN>_PAYMASTER_MODE)
+ */
+export const PAYMASTER_MODES = ['sponsored', 'self-funded'] as const;
+
+export type PaymasterMode = typeof PAYMASTER_MODES[number];
+
+/**
+ * Environment variable (or <NAME>_ALIAS keystore secret) holding the Pimlico API key
+ */
+export const PIMLICO_API_KEY_ENV = 'PIMLICO_API_KEY';
+
+/**
+ * Bundler URL of the local provider when <CHAIN>_BUNDLER_URL is not set
+ */
+export const DEFAULT_LOCAL_BUNDLER_URL = 'http://127.0.0.1:4337';
+
+/**
+ * Per-chain bundler settings (part of ChainConfig)
+ */
+export interface BundlerSettings {
+  /** Default provider */
+  provider: BundlerProviderKind;
+  /** Default paymaster mode */
+  paymaster: PaymasterMode;
+  /** Environment variable overriding the provider */
+  providerEnv: string;
+  /** Environment variable holding the bundler URL */
+  urlEnv: string;
+  /** Environment variable holding the ERC-7677 paymaster URL */
+  paymasterUrlEnv: string;
+  /** Environment variable overriding the paymaster mode */
+  paymasterModeEnv: string;
+}
+
+/**
+ * Gas fees of a UserOperation
+ */
+export type UserOperationFees = {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+};
+
+/**
+ * Bundler and paymaster used to send UserOperations on one chain
+ */
+export interface BundlerProvider {
+  kind: BundlerProviderKind;
+  paymasterMode: PaymasterMode;
+  /** Bundler endpoint without credentials, for logs */
+  label: string;
+  bundlerTransport: Transport;
+  /** ERC-7677 paymaster client (undefined when self-funded) */
+  paymaster?: any;
+  /** ERC-7769 client for receipts and UserOperation lookups */
+  bundlerClient: any;
+  estimateFeesPerGas: () => Promise<UserOperationFees>;
+}
+
+/**
+ * Check whether a string is a supported bundler provider
+ */
+export function isBundlerProviderKind(value: string): value is BundlerProviderKind {
+  return (BUNDLER_PROVIDER_KINDS as readonly string[]).includes(value);
+}
+
+/**
+ * Check whether a string is a supported paymaster mode
+ */
+export function isPaymasterMode(value: string): value is PaymasterMode {
+  return (PAYMASTER_MODES as readonly string[]).includes(value);
+}
+
+/**
+ * Provider and paymaster mode of a chain after environment overrides
+ * @throws on an unknown provider or paymaster mode
+ */
+export function resolveBundlerSettings(config: ChainConfig): { provider: BundlerProviderKind; paymaster: PaymasterMode } {
+  const { bundler } = config;
+  const provider = process.env[bundler.providerEnv]?.trim() || bundler.provider;
+  const paymaster = process.env[bundler.paymasterModeEnv]?.trim() || bundler.paymaster;
+
+  if (!isBundlerProviderKind(provider)) {
+    throw new Error(`${bundler.providerEnv}: unknown provider "${provider}". Expected one of: ${BUNDLER_PROVIDER_KINDS.join(', ')}`);
+  }
+  if (!isPaymasterMode(paymaster)) {
+    throw new Error(`${bundler.paymasterModeEnv}: unknown mode "${paymaster}". Expected one of: ${PAYMASTER_MODES.join(', ')}`);
+  }
+  return { provider, paymaster };
+}
+
+/**
+ * Strip credentials (path after the host, query string) from a URL for logs
+ */
+function redactUrl(url: string): string {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return '<invalid url>';
+  }
+}
+
+function entryPoint() {
+  return { address: entryPoint07Address, version: '0.7' as const };
+}
+
+/**
+ * Pimlico bundler; sponsored mode uses the Pimlico paymaster on the same URL
+ */
+export function createPimlicoProvider(options: {
+  config: ChainConfig;
+  apiKey: string;
+  paymasterMode: PaymasterMode;
+}): BundlerProvider {
+  const url = `https://api.pimlico.io/v2/${options.config.chain.id}/rpc?apikey=${options.apiKey}`;
+  const pimlicoClient = createPimlicoClient({ transport: http(url), entryPoint: entryPoint() });
+
+  return {
+    kind: 'pimlico',
+    paymasterMode: options.paymasterMode,
+    label: `pimlico (${redactUrl(url)}/v2/${options.config.chain.id})`,
+    bundlerTransport: http(url),
+    paymaster: options.paymasterMode === 'sponsored' ? createPaymasterClient({ transport: http(url) }) : undefined,
+    bundlerClient: pimlicoClient,
+    estimateFeesPerGas: async () => (await pimlicoClient.getUserOperationGasPrice()).fast,
+  };
+}
+
+/**
+ * Any ERC-7769 bundler; fees come from the chain RPC and sponsored mode
+ * needs an ERC-7677 paymaster URL
+ */
+export function createErc7769Provider(options: {
+  url: string;
+  publicClient: PublicClient;
+  paymasterMode: PaymasterMode;
+  paymasterUrl?: string;
+  kind?: BundlerProviderKind;
+}): BundlerProvider {
+  if (options.paymasterMode === 'sponsored' && !options.paymasterUrl) {
+    throw new Error("Sponsored mode needs an ERC-7677 paymaster URL (or use self-funded)");
+  }
+
+  return {
+    kind: options.kind ?? 'erc7769',
+    paymasterMode: options.paymasterMode,
+    label: `${options.kind ?? 'erc7769'} (${redactUrl(options.url)})`,
+    bundlerTransport: http(options.url),
+    paymaster: options.paymasterMode === 'sponsored'
+      ? createPaymasterClient({ transport: http(options.paymasterUrl) })
+      : undefined,
+    bundlerClient: createBundlerClient({ transport: http(options.url), client: options.publicClient }),
+    estimateFeesPerGas: async () => {
+      const { maxFeePerGas, maxPriorityFeePerGas } = await options.publicClient.estimateFeesPerGas();
+      return { maxFeePerGas, maxPriorityFeePerGas };
+    },
+  };
+}
+
+/**
+ * Local bundler (anvil); self-funded by default, sponsored mode needs a paymaster URL
+ */
+export function createLocalProvider(options: {
+  url?: string;
+  publicClient: PublicClient;
+  paymasterMode?: PaymasterMode;
+  paymasterUrl?: string;
+}): BundlerProvider {
+  return createErc7769Provider({
+    url: options.url ?? DEFAULT_LOCAL_BUNDLER_URL,
+    publicClient: options.publicClient,
+    paymasterMode: options.paymasterMode ?? 'self-funded',
+    paymasterUrl: options.paymasterUrl,
+    kind: 'local',
+  });
+}
+
+/**
+ * @throws if sponsored mode is configured without an ERC-7677 paymaster URL
+ */
+function requirePaymasterUrl(config: ChainConfig, paymaster: PaymasterMode, paymasterUrl: string | undefined): void {
+  if (paymaster === 'sponsored' && !paymasterUrl) {
+    throw new Error(`${config.bundler.paymasterUrlEnv} is not set (sponsored mode on ${config.name}); set it or ${config.bundler.paymasterModeEnv}=self-funded`);
+  }
+}
+
+/**
+ * Bundler provider of a chain from its configuration and the environment
+ * @throws if the provider needs a key or URL that is not set
+ */
+export async function getBundlerProvider(config: ChainConfig, publicClient: PublicClient): Promise<BundlerProvider> {
+  const { provider, paymaster } = resolveBundlerSettings(config);
+  const paymasterUrl = await readSecret(config.bundler.paymasterUrlEnv);
+
+  switch (provider) {
+    case 'pimlico': {
+      const apiKey = await readSecret(PIMLICO_API_KEY_ENV);
+      if (!apiKey) {
+        throw new Error(`Neither ${PIMLICO_API_KEY_ENV} nor ${PIMLICO_API_KEY_ENV}_ALIAS is set (bundler of ${config.name})`);
+      }
+      const pimlico = createPimlicoProvider({ config, apiKey, paymasterMode: paymaster });
+      // A dedicated paymaster URL takes precedence over the Pimlico one
+      return paymasterUrl && paymaster === 'sponsored'
+        ? { ...pimlico, paymaster: createPaymasterClient({ transport: http(paymasterUrl) }) }
+        : pimlico;
+    }
+    case 'erc7769': {
+      const url = await readSecret(config.bundler.urlEnv);
+      if (!url) {
+        throw new Error(`${config.bundler.urlEnv} is not set (erc7769 bundler of ${config.name})`);
+      }
+      requirePaymasterUrl(config, paymaster, paymasterUrl);
+      return createErc7769Provider({ url, publicClient, paymasterMode: paymaster, paymasterUrl });
+    }
+    case 'local':
+      // Never fall back to self-funded: the Safe would pay gas without the operator asking for it
+      requirePaymasterUrl(config, paymaster, paymasterUrl);
+      return createLocalProvider({
+        url: await readSecret(config.bundler.urlEnv),
+        publicClient,
+        paymasterMode: paymaster,
+        paymasterUrl,
+      });
+  }
+}
+
+/**
+ * Log the provider and, when self-funded, warn if the sender cannot pay gas
+ */
+export async function logBundlerProvider(provider: BundlerProvider, publicClient: PublicClient, sender: Address): Promise<void> {
+  console.log(`  Bundler: ${provider.label}, ${provider.paymasterMode}`);
+  if (provider.paymasterMode !== 'self-funded') {
+    return;
+  }
+
+  const balance: bigint = await publicClient.getBalance({ address: sender });
+  if (balance === 0n) {
+    console.log(`⚠️  Self-funded mode: ${sender} has no native balance to pay gas; fund it first`);
+  } else {
+    console.log(`  Gas paid by ${sender} (balance ${formatEther(balance)})`);
+  }
+}
@@ -0,0 +1,396 @@
+/**
+ * Chain Configuration
+ *
+ * Declarative table of every supported chain: viem chain, environment keys
+ * for RPC URL, signer (keystore alias or legacy private key) and deployed contracts, the ERC-7579 infrastructure
+ * addresses, the bundler provider and paymaster mode and the protocolData manifest. Adding a chain only means adding
+ * one entry to CHAINS (and its variables to env.example).
+ */
+
+import { RHINESTONE_ATTESTER_ADDRESS } from '@rhinestone/module-sdk';
+import { LocalAccount, privateKeyToAccount, toAccount } from 'viem/accounts';
+import { arbitrum, base, sonic, plasma } from 'viem/chains';
+import {
+  Address,
+  Chain,
+  PublicClient,
+  Transport,
+  WalletClient,
+  createPublicClient,
+  createWalletClient,
+  getAddress,
+  http,
+  isAddress,
+  isHex,
+} from 'viem';
+import { ApprovalCeilingItem, ParamRuleItem, ProtocolManifest } from '../protocolData/manifest';
+import type { BundlerSettings } from './bundler';
+import { hasKeystoreAlias, keystoreAddress, loadKeystoreAccount } from './keystore';
+import * as baseData from '../protocolData/basedata';
+import * as arbData from '../protocolData/arbdata';
+import * as plasmaData from '../protocolData/plasmadata';
+import * as sonicData from '../protocolData/sonicdata';
+
+/**
+ * Safe7579 adapter and launchpad (same address on every chain)
+ */
+export const SAFE_7579_ADAPTER_ADDRESS = '0x7579EE8307284F293B1927136486880611F20002' as Address;
+export const ERC7579_LAUNCHPAD_ADDRESS = '0x7579011aB74c46090561ea277Ba79D510c6C00ff' as Address;
+
+/**
+ * Supported chain keys (value of the --chain flag)
+ */
+export const CHAIN_KEYS = ['base', 'arbitrum', 'plasma', 'sonic'] as const;
+
+export type ChainKey = typeof CHAIN_KEYS[number];
+
+/**
+ * Whitelist Item shared by all protocolData manifests
+ */
+export interface WhitelistItem {
+  target: Address;
+  selector: `0x${string}`;
+  description: string;
+}
+
+/**
+ * ERC20 Recipient Item shared by all protocolData manifests
+ */
+export interface RecipientItem {
+  token: Address;
+  recipients: Address[];
+  description: string;
+}
+
+/**
+ * Registry manifest for a chain (taken from protocolData/*data.ts)
+ */
+export interface ChainManifest {
+  protocolManifest: ProtocolManifest;
+  whitelistConfig: WhitelistItem[];
+  removeWhitelistConfig: WhitelistItem[];
+  recipientConfig: RecipientItem[];
+  removeRecipientConfig: RecipientItem[];
+  approvalCeilingConfig: ApprovalCeilingItem[];
+  paramRuleConfig: ParamRuleItem[];
+}
+
+/**
+ * Static configuration of one chain
+ */
+export interface ChainConfig {
+  key: ChainKey;
+  name: string;
+  chain: Chain;
+  /** Environment variable holding the RPC URL */
+  rpcUrlEnv: string;
+  /** Environment variable holding the keystore alias of the signer (see utils/keystore.ts) */
+  keystoreAliasEnv: string;
+  /** Environment variable holding the signer private key (plaintext fallback) */
+  privateKeyEnv: string;
+  /** Environment variable holding the TargetRegistry address */
+  registryAddressEnv: string;
+  /** Environment variable holding the GuardedExecModuleUpgradeable proxy address */
+  moduleAddressEnv: string;
+  /** Environment variable holding the expected proxy implementation (optional, see module/health.ts) */
+  moduleImplementationEnv: string;
+  safe7579Adapter: Address;
+  erc7579Launchpad: Address;
+  attester: Address;
+  /** Bundler provider and paymaster mode (see utils/bundler.ts) */
+  bundler: BundlerSettings;
+  /** TS data file with the constants and recipient lists (targets and selectors live in protocolData/manifests/<key>.json) */
+  manifestFile: string;
+  manifest: ChainManifest;
+}
+
+export const CHAINS: Record<ChainKey, ChainConfig> = {
+  base: {
+    key: 'base',
+    name: 'Base',
+    chain: base,
+    rpcUrlEnv: 'BASE_RPC_URL',
+    keystoreAliasEnv: 'BASE_KEYSTORE_ALIAS',
+    privateKeyEnv: 'BASE_PRIVATE_KEY',
+    registryAddressEnv: 'BASE_TARGET_REGISTRY_ADDRESS',
+    moduleAddressEnv: 'BASE_GUARDED_EXEC_MODULE_ADDRESS',
+    moduleImplementationEnv: 'BASE_GUARDED_EXEC_MODULE_IMPL_ADDRESS',
+    safe7579Adapter: SAFE_7579_ADAPTER_ADDRESS,
+    erc7579Launchpad: ERC7579_LAUNCHPAD_ADDRESS,
+    attester: RHINESTONE_ATTESTER_ADDRESS,
+    bundler: {
+      provider: 'pimlico',
+      paymaster: 'sponsored',
+      providerEnv: 'BASE_BUNDLER_PROVIDER',
+      urlEnv: 'BASE_BUNDLER_URL',
+      paymasterUrlEnv: 'BASE_PAYMASTER_URL',
+      paymasterModeEnv: 'BASE_PAYMASTER_MODE',
+    },
+    manifestFile: 'protocolData/basedata.ts',
+    manifest: baseData,
+  },
+  arbitrum: {
+    key: 'arbitrum',
+    name: 'Arbitrum',
+    chain: arbitrum,
+    rpcUrlEnv: 'ARB_RPC_URL',
+    keystoreAliasEnv: 'ARB_KEYSTORE_ALIAS',
+    privateKeyEnv: 'ARB_PRIVATE_KEY',
+    registryAddressEnv: 'ARB_TARGET_REGISTRY_ADDRESS',
+    moduleAddressEnv: 'ARB_GUARDED_EXEC_MODULE_ADDRESS',
+    moduleImplementationEnv: 'ARB_GUARDED_EXEC_MODULE_IMPL_ADDRESS',
+    safe7579Adapter: SAFE_7579_ADAPTER_ADDRESS,
+    erc7579Launchpad: ERC7579_LAUNCHPAD_ADDRESS,
+    attester: RHINESTONE_ATTESTER_ADDRESS,
+    bundler: {
+      provider: 'pimlico',
+      paymaster: 'sponsored',
+      providerEnv: 'ARB_BUNDLER_PROVIDER',
+      urlEnv: 'ARB_BUNDLER_URL',
+      paymasterUrlEnv: 'ARB_PAYMASTER_URL',
+      paymasterModeEnv: 'ARB_PAYMASTER_MODE',
+    },
+    manifestFile: 'protocolData/arbdata.ts',
+    manifest: arbData,
+  },
+  plasma: {
+    key: 'plasma',
+    name: 'Plasma',
+    chain: plasma,
+    rpcUrlEnv: 'PLASMA_RPC_URL',
+    keystoreAliasEnv: 'PLASMA_KEYSTORE_ALIAS',
+    privateKeyEnv: 'PLASMA_PRIVATE_KEY',
+    registryAddressEnv: 'PLASMA_TARGET_REGISTRY_ADDRESS',
+    moduleAddressEnv: 'PLASMA_GUARDED_EXEC_MODULE_ADDRESS',
+    moduleImplementationEnv: 'PLASMA_GUARDED_EXEC_MODULE_IMPL_ADDRESS',
+    safe7579Adapter: SAFE_7579_ADAPTER_ADDRESS,
+    erc7579Launchpad: ERC7579_LAUNCHPAD_ADDRESS,
+    attester: RHINESTONE_ATTESTER_ADDRESS,
+    bundler: {
+      provider: 'pimlico',
+      // No paymaster here: the Safe pays gas itself
+      paymaster: 'self-funded',
+      providerEnv: 'PLASMA_BUNDLER_PROVIDER',
+      urlEnv: 'PLASMA_BUNDLER_URL',
+      paymasterUrlEnv: 'PLASMA_PAYMASTER_URL',
+      paymasterModeEnv: 'PLASMA_PAYMASTER_MODE',
+    },
+    manifestFile: 'protocolData/plasmadata.ts',
+    manifest: plasmaData,
+  },
+  sonic: {
+    key: 'sonic',
+    name: 'Sonic',
+    chain: sonic,
+    rpcUrlEnv: 'SONIC_RPC_URL',
+    keystoreAliasEnv: 'SONIC_KEYSTORE_ALIAS',
+    privateKeyEnv: 'SONIC_PRIVATE_KEY',
+    registryAddressEnv: 'SONIC_TARGET_REGISTRY_ADDRESS',
+    moduleAddressEnv: 'SONIC_GUARDED_EXEC_MODULE_ADDRESS',
+    moduleImplementationEnv: 'SONIC_GUARDED_EXEC_MODULE_IMPL_ADDRESS',
+    safe7579Adapter: SAFE_7579_ADAPTER_ADDRESS,
+    erc7579Launchpad: ERC7579_LAUNCHPAD_ADDRESS,
+    attester: RHINESTONE_ATTESTER_ADDRESS,
+    bundler: {
+      provider: 'pimlico',
+      // No paymaster here: the Safe pays gas itself
+      paymaster: 'self-funded',
+      providerEnv: 'SONIC_BUNDLER_PROVIDER',
+      urlEnv: 'SONIC_BUNDLER_URL',
+      paymasterUrlEnv: 'SONIC_PAYMASTER_URL',
+      paymasterModeEnv: 'SONIC_PAYMASTER_MODE',
+    },
+    manifestFile: 'protocolData/sonicdata.ts',
+    manifest: sonicData,
+  },
+};
+
+/**
+ * Clients and resolved addresses for one chain
+ */
+export type ChainClients = {
+  config: ChainConfig;
+  publicClient: PublicClient<Transport, Chain>;
+  walletClient: WalletClient<Transport, Chain, LocalAccount>;
+  account: LocalAccount;
+  registryAddress: Address;
+  moduleAddress: Address;
+};
+
+/**
+ * Clients for read-only commands (no signer)
+ */
+export type ReadOnlyChainClients = Pick<ChainClients, 'config' | 'publicClient' | 'registryAddress' | 'moduleAddress'>;
+
+/**
+ * Check whether a string is a supported chain key
+ */
+export function isChainKey(value: string): value is ChainKey {
+  return (CHAIN_KEYS as readonly string[]).includes(value);
+}
+
+/**
+ * Look up a chain configuration, failing with the list of supported keys
+ */
+export function getChainConfig(key: string | undefined): ChainConfig {
+  if (!key || !isChainKey(key)) {
+    throw new Error(`Unknown or missing --chain "${key ?? ''}". Expected one of: ${CHAIN_KEYS.join(', ')}`);
+  }
+  return CHAINS[key];
+}
+
+/**
+ * Validate the environment of a chain and list every problem found
+ */
+export function validateChainEnv(config: ChainConfig, { requireSigner = true }: { requireSigner?: boolean } = {}): string[] {
+  const problems: string[] = [];
+  const read = (key: string) => process.env[key]?.trim();
+
+  if (!read(config.rpcUrlEnv)) {
+    problems.push(`${config.rpcUrlEnv} is not set`);
+  }
+
+  // Read-only clients do not need a signer key
+  if (requireSigner) {
+    const alias = read(config.keystoreAliasEnv);
+    const privateKey = read(config.privateKeyEnv);
+    if (alias) {
+      if (!hasKeystoreAlias(alias)) {
+        problems.push(`${config.keystoreAliasEnv}: no key "${alias}" in the keystore`);
+      }
+    } else if (!privateKey) {
+      problems.push(`Neither ${config.keystoreAliasEnv} nor ${config.privateKeyEnv} is set`);
+    } else if (!isHex(privateKey) || privateKey.length !== 66) {
+      problems.push(`${config.privateKeyEnv} is not a 32-byte hex private key`);
+    }
+  }
+
+  for (const key of [config.registryAddressEnv, config.moduleAddressEnv]) {
+    const value = read(key);
+    if (!value) {
+      problems.push(`${key} is not set`);
+    } else if (!isAddress(value, { strict: false })) {
+      problems.push(`${key} is not a valid address (${value})`);
+    }
+  }
+
+  const implementation = read(config.moduleImplementationEnv);
+  if (implementation && !isAddress(implementation, { strict: false })) {
+    problems.push(`${config.moduleImplementationEnv} is not a valid address (${implementation})`);
+  }
+
+  return problems;
+}
+
+/**
+ * Throw a single error listing every configuration problem of a chain
+ */
+function assertChainEnv(config: ChainConfig, requireSigner: boolean): void {
+  const problems = validateChainEnv(config, { requireSigner });
+  if (problems.length > 0) {
+    throw new Error(
+      `Invalid configuration for ${config.name}:\n` + problems.map(p => `  - ${p}`).join('\n')
+    );
+  }
+}
+
+/**
+ * Create read-only clients for a chain (no signer key required)
+ */
+export function getReadOnlyClients(chainKey: string | undefined): ReadOnlyChainClients {
+  const config = getChainConfig(chainKey);
+  assertChainEnv(config, false);
+
+  return {
+    config,
+    publicClient: createPublicClient({
+      chain: config.chain,
+      transport: http(process.env[config.rpcUrlEnv]!.trim()),
+    }),
+    registryAddress: getAddress(process.env[config.registryAddressEnv]!.trim()),
+    moduleAddress: getAddress(process.env[config.moduleAddressEnv]!.trim()),
+  };
+}
+
+/**
+ * Signer of a chain: the keystore key named by <CHAIN>_KEYSTORE_ALIAS, or the
+ * plaintext <CHAIN>_PRIVATE_KEY when no alias is configured
+ */
+export async function getSignerAccount(config: ChainConfig): Promise<LocalAccount> {
+  const alias = process.env[config.keystoreAliasEnv]?.trim();
+  if (alias) {
+    return loadKeystoreAccount(alias);
+  }
+
+  const privateKey = process.env[config.privateKeyEnv]?.trim();
+  if (!privateKey) {
+    throw new Error(`Neither ${config.keystoreAliasEnv} nor ${config.privateKeyEnv} is set`);
+  }
+  console.log(`⚠️  Using plaintext ${config.privateKeyEnv}; import it with \`pnpm keystore import\` and set ${config.keystoreAliasEnv}`);
+  return privateKeyToAccount(privateKey as `0x${string}`);
+}
+
+/**
+ * Address of the chain signer, without unlocking the keystore
+ */
+export function getSignerAddress(config: ChainConfig): Address {
+  const alias = process.env[config.keystoreAliasEnv]?.trim();
+  if (alias) {
+    return keystoreAddress(alias);
+  }
+
+  const privateKey = process.env[config.privateKeyEnv]?.trim();
+  if (!privateKey) {
+    throw new Error(`Neither ${config.keystoreAliasEnv} nor ${config.privateKeyEnv} is set`);
+  }
+  return privateKeyToAccount(privateKey as `0x${string}`).address;
+}
+
+/**
+ * Chain signer that is unlocked on its first signature, for flows that may end
+ * before signing (dry runs)
+ */
+export function getDeferredSignerAccount(config: ChainConfig): LocalAccount {
+  let signer: Promise<LocalAccount> | undefined;
+  const unlock = () => signer ??= getSignerAccount(config);
+
+  return toAccount({
+    address: getSignerAddress(config),
+    signMessage: async parameters => (await unlock()).signMessage(parameters),
+    signTransaction: async (transaction, options) => (await unlock()).signTransaction(transaction, options),
+    signTypedData: async parameters => (await unlock()).signTypedData(parameters),
+  });
+}
+
+/**
+ * Create clients for a chain from its configuration
+ * @dev Validates the whole chain configuration first and reports every
+ *      missing or malformed variable in a single error.
+ */
+export async function getClients(chainKey: string | undefined): Promise<ChainClients> {
+  const config = getChainConfig(chainKey);
+  assertChainEnv(config, true);
+
+  const rpcUrl = process.env[config.rpcUrlEnv]!.trim();
+  const account = await getSignerAccount(config);
+
+  const publicClient = createPublicClient({
+    chain: config.chain,
+    transport: http(rpcUrl),
+  });
+
+  const walletClient = createWalletClient({
+    account,
+    chain: config.chain,
+    transport: http(rpcUrl),
+  });
+
+  return {
+    config,
+    publicClient,
+    walletClient,
+    account,
+    registryAddress: getAddress(process.env[config.registryAddressEnv]!.trim()),
+    moduleAddress: getAddress(process.env[config.moduleAddressEnv]!.trim()),
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * CLI Utility Functions
+ *
+ * Common helpers for the command-line entry points (argument parsing,
+ * confirmation countdown and process exit handling).
+ */
+
+import { parseArgs, ParseArgsConfig } from 'util';
+import dotenv from "dotenv";
+import { join } from "path";
+
+/**
+ * Load the hardhat/.env file shared by all scripts
+ */
+export function loadEnv(): void {
+  dotenv.config({ path: join(__dirname, "..", "..", ".env") });
+}
+
+/**
+ * Parse command line arguments into positionals and flags
+ */
+export function parseCommandLine<T extends NonNullable<ParseArgsConfig['options']>>(
+  options: T,
+  argv: string[] = process.argv.slice(2)
+) {
+  return parseArgs({ args: argv, options, allowPositionals: true, strict: true });
+}
+
+/**
+ * Give the operator a chance to abort before a state-changing operation
+ */
+export async function confirmCountdown(warning: string[], seconds: number = 5): Promise<void> {
+  console.log(`\n⚠️  WARNING: ${warning[0]}`);
+  warning.slice(1).forEach(line => console.log(`   ${line}`));
+  console.log(`   Press Ctrl+C to cancel, or wait ${seconds} seconds to continue...\n`);
+
+  await new Promise(resolve => setTimeout(resolve, seconds * 1000));
+}
+
+/**
+ * Print viem error details in the format used across scripts
+ */
+export function logTransactionError(error: any): void {
+  console.error("\n❌ Error:", error.message);
+  if (error.shortMessage) {
+    console.error("  Short message:", error.shortMessage);
+  }
+  if (error.data) {
+    console.error("  Error data:", error.data);
+  }
+}
+
+/**
+ * Run a CLI main function and exit the process with the right status code
+ */
+export function runCli(main: () => Promise<void>): void {
+  main()
+    .then(() => {
+      console.log("\n✅ Script completed successfully!");
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("\n❌ Fatal error:", error instanceof Error ? error.message : error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,241 @@
+/**
+ * Dry Run and Calldata Export
+ *
+ * Shared --dry-run flow of the state-changing scripts: print the decoded
+ * calldata, target, value and expected state changes, simulate the call with
+ * publicClient.simulateContract (msg.sender set to whoever would make it), and
+ * write an unsigned transaction (or UserOperation) JSON to hardhat/dry-runs/
+ * that can be signed on an air-gapped machine. Nothing is broadcast.
+ */
+
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import {
+  Abi,
+  AbiFunction,
+  AbiStateMutability,
+  Address,
+  ContractFunctionArgs,
+  ContractFunctionName,
+  Hex,
+  PublicClient,
+  decodeFunctionData,
+  encodeFunctionData,
+  getAbiItem,
+  keccak256,
+  serializeTransaction,
+  toFunctionSignature,
+} from 'viem';
+import { entryPoint07Address, getUserOperationHash } from 'viem/account-abstraction';
+import { ChainConfig, ReadOnlyChainClients } from './chains';
+
+export const DRY_RUN_VERSION = 1;
+
+/**
+ * Contract call a script would make (functionName and args checked against the ABI)
+ */
+export interface DryRunCall<
+  abi extends Abi = Abi,
+  functionName extends ContractFunctionName<abi> = ContractFunctionName<abi>,
+> {
+  /** msg.sender of the call: the signer, or the Safe for calls made through a UserOperation */
+  from: Address;
+  to: Address;
+  value?: bigint;
+  abi: abi;
+  functionName: functionName;
+  args: ContractFunctionArgs<abi, AbiStateMutability, functionName>;
+}
+
+/**
+ * What a dry run simulates and reports
+ */
+export interface DryRunPlan<
+  abi extends Abi = Abi,
+  functionName extends ContractFunctionName<abi> = ContractFunctionName<abi>,
+> {
+  /** File name stem, e.g. "whitelist-add" */
+  name: string;
+  description: string;
+  call: DryRunCall<abi, functionName>;
+  /** State the script expects to change, e.g. "whitelist[target][selector]: false → true" */
+  expectedChanges: string[];
+}
+
+/**
+ * Clients a dry run needs (read-only)
+ */
+type DryRunClients = Pick<ReadOnlyChainClients, 'config' | 'publicClient'>;
+
+export function dryRunDir(): string {
+  return join(__dirname, '..', '..', 'dry-runs');
+}
+
+/**
+ * JSON.stringify with bigints as decimal strings
+ */
+function toJson(value: unknown): string {
+  return JSON.stringify(value, (_, v) => typeof v === 'bigint' ? v.toString() : v, 2) + '\n';
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === 'object' || typeof value === 'bigint'
+    ? JSON.stringify(value, (_, v) => typeof v === 'bigint' ? v.toString() : v)
+    : String(value);
+}
+
+/**
+ * Print the decoded call and the expected state changes, then simulate it
+ * @return encoded calldata and the simulated return value
+ * @throws if the simulation reverts
+ */
+export async function simulateCall(publicClient: PublicClient, plan: DryRunPlan): Promise<{ data: Hex; result: unknown }> {
+  const { call } = plan;
+  const data = encodeFunctionData({ abi: call.abi, functionName: call.functionName, args: call.args });
+
+  // Decode the encoded bytes (not the inputs) so the output shows what would be signed
+  const decoded = decodeFunctionData({ abi: call.abi, data });
+  const abiItem = getAbiItem({ abi: call.abi, name: decoded.functionName, args: decoded.args }) as AbiFunction;
+
+  console.log(`\n🧪 Dry run: ${plan.description}`);
+  console.log("  From:", call.from);
+  console.log("  Target:", call.to);
+  console.log("  Value:", (call.value ?? 0n).toString());
+  console.log("  Function:", toFunctionSignature(abiItem));
+  abiItem.inputs.forEach((input, index) => {
+    console.log(`    ${input.name || `arg${index}`} (${input.type}): ${formatValue(decoded.args?.[index])}`);
+  });
+  console.log("  Calldata:", data);
+
+  console.log("\n📋 Expected state changes:");
+  plan.expectedChanges.forEach(change => console.log(`  - ${change}`));
+
+  console.log("\n🔍 Simulating...");
+  try {
+    const { result } = await publicClient.simulateContract({
+      account: call.from,
+      address: call.to,
+      abi: call.abi,
+      functionName: call.functionName,
+      args: call.args,
+      value: call.value ?? 0n,
+    });
+    console.log("✅ Simulation succeeded");
+    if (result !== undefined) {
+      console.log("  Return value:", formatValue(result));
+    }
+    return { data, result };
+  } catch (error: any) {
+    throw new Error(`Simulation reverted: ${error.shortMessage ?? error.message}`);
+  }
+}
+
+function writeDryRunFile(config: ChainConfig, plan: DryRunPlan, content: object): string {
+  mkdirSync(dryRunDir(), { recursive: true });
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const file = join(dryRunDir(), `${config.key}-${plan.name}-${stamp}.json`);
+  writeFileSync(file, toJson(content));
+  console.log(`\n💾 Unsigned ${'userOperation' in content ? "UserOperation" : "transaction"} written to ${file}`);
+  return file;
+}
+
+function describePlan(config: ChainConfig, plan: DryRunPlan, data: Hex, result: unknown) {
+  return {
+    version: DRY_RUN_VERSION,
+    chain: config.key,
+    chainId: config.chain.id,
+    description: plan.description,
+    createdAt: new Date().toISOString(),
+    call: {
+      from: plan.call.from,
+      to: plan.call.to,
+      value: plan.call.value ?? 0n,
+      functionName: plan.call.functionName,
+      args: plan.call.args,
+      data,
+    },
+    expectedChanges: plan.expectedChanges,
+    simulation: { success: true, result },
+  };
+}
+
+/**
+ * Simulate a call sent directly by an EOA and export it as an unsigned EIP-1559 transaction
+ * @dev Nonce, gas and fees are read now; sign before the nonce is used by another transaction
+ * @return path of the written file
+ */
+export async function dryRunTransaction<const abi extends Abi, functionName extends ContractFunctionName<abi>>(
+  clients: DryRunClients,
+  plan: DryRunPlan<abi, functionName>
+): Promise<string> {
+  const { config, publicClient } = clients;
+  const { data, result } = await simulateCall(publicClient, plan);
+  const { from, to } = plan.call;
+  const value = plan.call.value ?? 0n;
+
+  const [nonce, gas, fees] = await Promise.all([
+    publicClient.getTransactionCount({ address: from, blockTag: 'pending' }),
+    publicClient.estimateGas({ account: from, to, data, value }),
+    publicClient.estimateFeesPerGas(),
+  ]);
+
+  const transaction = {
+    type: 'eip1559' as const,
+    chainId: config.chain.id,
+    to,
+    value,
+    data,
+    nonce,
+    gas,
+    maxFeePerGas: fees.maxFeePerGas,
+    maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+  };
+  const unsignedSerialized = serializeTransaction(transaction);
+
+  console.log("\n📝 Unsigned transaction:");
+  console.log("  Nonce:", nonce);
+  console.log("  Gas:", gas.toString());
+  console.log("  Max fee per gas:", fees.maxFeePerGas.toString());
+  console.log("  Signing hash:", keccak256(unsignedSerialized));
+
+  return writeDryRunFile(config, plan, {
+    ...describePlan(config, plan, data, result),
+    transaction: { from, ...transaction },
+    unsignedSerialized,
+    signingHash: keccak256(unsignedSerialized),
+  });
+}
+
+/**
+ * Simulate the call a Safe makes through a UserOperation and export the unsigned UserOperation
+ * @param userOperation Prepared UserOperation (gas and paymaster fields set); its signature is dropped
+ * @return path of the written file
+ */
+export async function dryRunUserOperation<const abi extends Abi, functionName extends ContractFunctionName<abi>>(
+  clients: DryRunClients,
+  plan: DryRunPlan<abi, functionName>,
+  userOperation: any
+): Promise<string> {
+  const { config, publicClient } = clients;
+  const { data, result } = await simulateCall(publicClient, plan);
+
+  const { signature: _signature, ...unsigned } = userOperation;
+  const userOpHash = getUserOperationHash({
+    chainId: config.chain.id,
+    entryPointAddress: entryPoint07Address,
+    entryPointVersion: '0.7',
+    userOperation: { ...unsigned, signature: '0x' },
+  });
+
+  console.log("\n📝 Unsigned UserOperation:");
+  console.log("  Sender:", unsigned.sender);
+  console.log("  Nonce:", unsigned.nonce.toString());
+  console.log("  UserOperation hash:", userOpHash);
+
+  return writeDryRunFile(config, plan, {
+    ...describePlan(config, plan, data, result),
+    entryPoint: entryPoint07Address,
+    userOperation: unsigned,
+    userOpHash,
+  });
+}
@@ -0,0 +1,395 @@
+/**
+ * Encrypted Keystore
+ *
+ * Owner and session keys are stored as Web3 Secret Storage (v3) JSON files,
+ * the format used by geth, ethers and foundry (`cast wallet import`):
+ * scrypt key derivation, AES-128-CTR encryption and a keccak256 MAC.
+ *
+ * Files live in hardhat/keystore/<alias>.json (git-ignored, KEYSTORE_DIR to
+ * override). Scripts get viem LocalAccounts by alias; private keys are never
+ * printed. The passphrase is read from KEYSTORE_PASSPHRASE_FILE or prompted
+ * for on the terminal.
+ *
+ * The same format holds secrets that are not keys (bundler API keys, URLs
+ * with credentials): their files have no address. readSecret() resolves a
+ * secret from its environment variable or from the alias in <NAME>_ALIAS.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, randomUUID, scryptSync, timingSafeEqual } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { createInterface } from 'readline';
+import { Address, Hex, bytesToHex, concat, getAddress, hexToBytes, hexToString, isHex, keccak256, stringToBytes } from 'viem';
+import { LocalAccount, generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+
+/**
+ * Environment variable pointing to a file holding the keystore passphrase
+ */
+export const KEYSTORE_PASSPHRASE_FILE_ENV = 'KEYSTORE_PASSPHRASE_FILE';
+
+/**
+ * Default scrypt parameters (geth "standard" strength)
+ */
+const SCRYPT_N = 262144;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const DKLEN = 32;
+
+const ALIAS_PATTERN = /^[a-z0-9][a-z0-9._-]*$/;
+
+/**
+ * Web3 Secret Storage v3 file
+ */
+export interface KeystoreV3 {
+  version: 3;
+  id: string;
+  /** Lowercase address without 0x prefix (absent for secrets) */
+  address?: string;
+  crypto: {
+    cipher: 'aes-128-ctr';
+    cipherparams: { iv: string };
+    ciphertext: string;
+    kdf: 'scrypt';
+    kdfparams: { dklen: number; n: number; r: number; p: number; salt: string };
+    mac: string;
+  };
+}
+
+/**
+ * Alias and address of a stored key (no address for secrets)
+ */
+export interface KeystoreEntry {
+  alias: string;
+  address?: Address;
+}
+
+function strip0x(hex: string): string {
+  return hex.startsWith('0x') ? hex.slice(2) : hex;
+}
+
+function deriveKey(passphrase: string, params: KeystoreV3['crypto']['kdfparams']): Buffer {
+  return scryptSync(passphrase.normalize('NFKC'), Buffer.from(params.salt, 'hex'), params.dklen, {
+    N: params.n,
+    r: params.r,
+    p: params.p,
+    // scrypt needs 128 * N * r bytes; Node's default cap (32 MiB) is below geth's standard N
+    maxmem: 256 * params.n * params.r,
+  });
+}
+
+function computeMac(derivedKey: Buffer, ciphertext: Buffer): string {
+  return strip0x(keccak256(concat([bytesToHex(derivedKey.subarray(16, 32)), bytesToHex(ciphertext)])));
+}
+
+/**
+ * Encrypt bytes into the crypto section of a v3 keystore
+ */
+function encryptBytes(
+  plaintext: Uint8Array,
+  passphrase: string,
+  kdf: { n?: number; r?: number; p?: number }
+): KeystoreV3['crypto'] {
+  const kdfparams = {
+    dklen: DKLEN,
+    n: kdf.n ?? SCRYPT_N,
+    r: kdf.r ?? SCRYPT_R,
+    p: kdf.p ?? SCRYPT_P,
+    salt: randomBytes(32).toString('hex'),
+  };
+  const derivedKey = deriveKey(passphrase, kdfparams);
+  const iv = randomBytes(16);
+
+  const cipher = createCipheriv('aes-128-ctr', derivedKey.subarray(0, 16), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+  return {
+    cipher: 'aes-128-ctr',
+    cipherparams: { iv: iv.toString('hex') },
+    ciphertext: ciphertext.toString('hex'),
+    kdf: 'scrypt',
+    kdfparams,
+    mac: computeMac(derivedKey, ciphertext),
+  };
+}
+
+/**
+ * Encrypt a private key into a v3 keystore object
+ */
+export function encryptKeystore(
+  privateKey: Hex,
+  passphrase: string,
+  kdf: { n?: number; r?: number; p?: number } = {}
+): KeystoreV3 {
+  const address = privateKeyToAccount(privateKey).address;
+  return {
+    version: 3,
+    id: randomUUID(),
+    address: strip0x(address).toLowerCase(),
+    crypto: encryptBytes(hexToBytes(privateKey), passphrase, kdf),
+  };
+}
+
+/**
+ * Encrypt a secret string (API key, URL) into a v3 keystore object without address
+ */
+export function encryptKeystoreSecret(
+  secret: string,
+  passphrase: string,
+  kdf: { n?: number; r?: number; p?: number } = {}
+): KeystoreV3 {
+  return {
+    version: 3,
+    id: randomUUID(),
+    crypto: encryptBytes(stringToBytes(secret), passphrase, kdf),
+  };
+}
+
+/**
+ * Decrypt a v3 keystore object
+ * @throws if the passphrase is wrong (MAC mismatch) or the format is unsupported
+ */
+export function decryptKeystore(keystore: KeystoreV3, passphrase: string): Hex {
+  // Older geth and ethers write the section as "Crypto"
+  const crypto: KeystoreV3['crypto'] = keystore.crypto ?? (keystore as any).Crypto;
+  if (keystore.version !== 3 || crypto?.kdf !== 'scrypt' || crypto.cipher !== 'aes-128-ctr') {
+    throw new Error("Unsupported keystore: expected version 3 with scrypt and aes-128-ctr");
+  }
+
+  const derivedKey = deriveKey(passphrase, crypto.kdfparams);
+  const ciphertext = Buffer.from(crypto.ciphertext, 'hex');
+  const mac = Buffer.from(computeMac(derivedKey, ciphertext), 'hex');
+  if (!timingSafeEqual(mac, Buffer.from(crypto.mac, 'hex'))) {
+    throw new Error("Wrong keystore passphrase");
+  }
+
+  const decipher = createDecipheriv('aes-128-ctr', derivedKey.subarray(0, 16), Buffer.from(crypto.cipherparams.iv, 'hex'));
+  const privateKey = bytesToHex(Buffer.concat([decipher.update(ciphertext), decipher.final()]));
+
+  if (keystore.address && privateKeyToAccount(privateKey).address.toLowerCase() !== `0x${strip0x(keystore.address).toLowerCase()}`) {
+    throw new Error("Keystore address does not match the decrypted key");
+  }
+  return privateKey;
+}
+
+/**
+ * Directory holding the keystore files
+ */
+export function keystoreDir(): string {
+  return process.env.KEYSTORE_DIR?.trim()
+    ? resolve(process.env.KEYSTORE_DIR.trim())
+    : join(__dirname, '..', '..', 'keystore');
+}
+
+function keystoreFile(alias: string): string {
+  if (!ALIAS_PATTERN.test(alias)) {
+    throw new Error(`Invalid keystore alias "${alias}" (lowercase letters, digits, ".", "_" and "-")`);
+  }
+  return join(keystoreDir(), `${alias}.json`);
+}
+
+function writeKeystore(file: string, keystore: KeystoreV3): void {
+  mkdirSync(keystoreDir(), { recursive: true, mode: 0o700 });
+  writeFileSync(file, JSON.stringify(keystore, null, 2) + '\n', { mode: 0o600 });
+}
+
+function readKeystore(alias: string): KeystoreV3 {
+  const file = keystoreFile(alias);
+  if (!existsSync(file)) {
+    throw new Error(`No key "${alias}" in keystore ${keystoreDir()}`);
+  }
+  return JSON.parse(readFileSync(file, 'utf8'));
+}
+
+export function hasKeystoreAlias(alias: string): boolean {
+  return existsSync(keystoreFile(alias));
+}
+
+/**
+ * Address of a stored key, read from its file (no passphrase needed)
+ * @throws if the alias is missing or holds a secret
+ */
+export function keystoreAddress(alias: string): Address {
+  const { address } = readKeystore(alias);
+  if (!address) {
+    throw new Error(`Keystore alias "${alias}" holds a secret, not a key`);
+  }
+  return getAddress(`0x${strip0x(address)}`);
+}
+
+/**
+ * Stored keys (no passphrase needed)
+ */
+export function listKeystore(): KeystoreEntry[] {
+  const dir = keystoreDir();
+  if (!existsSync(dir)) return [];
+
+  return readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .map(file => {
+      const alias = file.slice(0, -'.json'.length);
+      const { address } = readKeystore(alias);
+      return { alias, address: address ? getAddress(`0x${strip0x(address)}`) : undefined };
+    })
+    .sort((a, b) => a.alias.localeCompare(b.alias));
+}
+
+/**
+ * Read a line from the terminal without echoing it
+ */
+export async function promptHidden(question: string): Promise<string> {
+  if (!process.stdin.isTTY) {
+    throw new Error(`Cannot prompt without a terminal: set ${KEYSTORE_PASSPHRASE_FILE_ENV}`);
+  }
+
+  const rl = createInterface({ input: process.stdin, output: process.stdout, terminal: true });
+  process.stdout.write(question);
+  // Suppress readline's echo of the typed characters
+  (rl as any)._writeToOutput = () => {};
+
+  return new Promise(resolve => {
+    rl.question('', answer => {
+      rl.close();
+      process.stdout.write('\n');
+      resolve(answer);
+    });
+  });
+}
+
+/**
+ * Passphrase from KEYSTORE_PASSPHRASE_FILE, or prompted for
+ * @param confirm Ask twice (when creating a key)
+ */
+export async function readPassphrase(confirm = false): Promise<string> {
+  const file = process.env[KEYSTORE_PASSPHRASE_FILE_ENV]?.trim();
+  if (file) {
+    // Trailing newline of the file is not part of the passphrase
+    return readFileSync(file, 'utf8').replace(/\r?\n$/, '');
+  }
+
+  const passphrase = await promptHidden("🔐 Keystore passphrase: ");
+  if (confirm && passphrase !== await promptHidden("🔐 Repeat passphrase: ")) {
+    throw new Error("Passphrases do not match");
+  }
+  return passphrase;
+}
+
+/**
+ * Passphrases that opened a key in this process (one prompt for several aliases)
+ */
+const passphraseCache: string[] = [];
+
+/**
+ * Encrypt and store a private key under an alias
+ * @throws if the alias already exists
+ */
+export async function importKeystoreKey(alias: string, privateKey: Hex, passphrase?: string): Promise<KeystoreEntry> {
+  const file = keystoreFile(alias);
+  if (existsSync(file)) {
+    throw new Error(`Keystore alias "${alias}" already exists`);
+  }
+  if (!isHex(privateKey) || privateKey.length !== 66) {
+    throw new Error("Private key must be 32 bytes of hex");
+  }
+
+  const keystore = encryptKeystore(privateKey, passphrase ?? await readPassphrase(true));
+  writeKeystore(file, keystore);
+
+  return { alias, address: getAddress(`0x${keystore.address}`) };
+}
+
+/**
+ * Encrypt and store a secret (API key, URL) under an alias
+ * @throws if the alias already exists
+ */
+export async function importKeystoreSecret(alias: string, secret: string, passphrase?: string): Promise<KeystoreEntry> {
+  const file = keystoreFile(alias);
+  if (existsSync(file)) {
+    throw new Error(`Keystore alias "${alias}" already exists`);
+  }
+  if (!secret) {
+    throw new Error("Secret must not be empty");
+  }
+
+  writeKeystore(file, encryptKeystoreSecret(secret, passphrase ?? await readPassphrase(true)));
+  return { alias };
+}
+
+/**
+ * Generate a new key directly into the keystore
+ * @return alias and address only; the key is never returned
+ */
+export async function generateKeystoreKey(alias: string, passphrase?: string): Promise<KeystoreEntry> {
+  return importKeystoreKey(alias, generatePrivateKey(), passphrase);
+}
+
+/**
+ * Decrypt a stored key as a viem LocalAccount
+ */
+export async function loadKeystoreAccount(alias: string, passphrase?: string): Promise<LocalAccount> {
+  const keystore = readKeystore(alias);
+  if (!keystore.address) {
+    throw new Error(`Keystore alias "${alias}" holds a secret, not a key`);
+  }
+  return privateKeyToAccount(await unlockKeystore(alias, keystore, `key "${alias}" (0x${keystore.address})`, passphrase));
+}
+
+/**
+ * Decrypt a stored secret (see importKeystoreSecret)
+ */
+export async function loadKeystoreSecret(alias: string, passphrase?: string): Promise<string> {
+  const keystore = readKeystore(alias);
+  if (keystore.address) {
+    throw new Error(`Keystore alias "${alias}" holds a key, not a secret`);
+  }
+  return hexToString(await unlockKeystore(alias, keystore, `secret "${alias}"`, passphrase));
+}
+
+/**
+ * Decrypt with the given passphrase, a cached one, or a prompted one
+ */
+async function unlockKeystore(alias: string, keystore: KeystoreV3, label: string, passphrase?: string): Promise<Hex> {
+  const candidates = passphrase !== undefined ? [passphrase] : [...passphraseCache];
+  for (const candidate of candidates) {
+    try {
+      return decryptKeystore(keystore, candidate);
+    } catch {
+      // Try the next cached passphrase, then prompt
+    }
+  }
+  if (passphrase !== undefined) {
+    throw new Error(`Wrong passphrase for keystore alias "${alias}"`);
+  }
+
+  console.log(`🔐 Unlocking keystore ${label}`);
+  const entered = await readPassphrase();
+  const plaintext = decryptKeystore(keystore, entered);
+  passphraseCache.push(entered);
+  return plaintext;
+}
+
+/**
+ * Secret from an environment variable, or from the keystore alias named by
+ * <name>_ALIAS (e.g. PIMLICO_API_KEY or PIMLICO_API_KEY_ALIAS)
+ * @return undefined when neither is set
+ */
+export async function readSecret(name: string): Promise<string | undefined> {
+  const alias = process.env[`${name}_ALIAS`]?.trim();
+  if (alias) {
+    return loadKeystoreSecret(alias);
+  }
+  return process.env[name]?.trim() || undefined;
+}
+
+/**
+ * Load a stored key, generating it into the keystore first if the alias is new
+ */
+export async function loadOrCreateKeystoreAccount(alias: string): Promise<{ account: LocalAccount; created: boolean }> {
+  if (hasKeystoreAlias(alias)) {
+    return { account: await loadKeystoreAccount(alias), created: false };
+  }
+
+  const passphrase = await readPassphrase(true);
+  await generateKeystoreKey(alias, passphrase);
+  passphraseCache.push(passphrase);
+  return { account: await loadKeystoreAccount(alias, passphrase), created: true };
+}
@@ -0,0 +1,99 @@
+/**
+ * Safe Smart Account Helpers
+ *
+ * Loads an existing or counterfactual ERC-7579 Safe (Safe7579 adapter +
+ * launchpad from the chain configuration) as a permissionless smart account
+ * owned by the chain signer, sending through the bundler provider of the
+ * chain (see bundler.ts).
+ */
+
+import { createSmartAccountClient } from 'permissionless';
+import { toSafeSmartAccount } from 'permissionless/accounts';
+import { erc7579Actions } from 'permissionless/actions/erc7579';
+import { getOwnableValidator } from '@rhinestone/module-sdk';
+import { Address, fromHex, toHex } from 'viem';
+import { entryPoint07Address } from 'viem/account-abstraction';
+import { BundlerProvider, getBundlerProvider, logBundlerProvider } from './bundler';
+import { ChainClients } from './chains';
+
+/**
+ * Environment variable holding the Safe salt (see accountSaltNonce)
+ */
+export const ACCOUNT_SALT_ENV = 'ACCOUNT_SALT';
+
+/**
+ * Existing Safe by address, or counterfactual Safe by salt nonce
+ */
+export type SafeAccountRef = Address | { saltNonce: bigint };
+
+/**
+ * Clients to build and send UserOperations from a Safe
+ */
+export type SafeAccountClients = {
+  safeAccount: any;
+  smartAccountClient: any;
+  bundler: BundlerProvider;
+};
+
+/**
+ * Safe salt nonce from a salt string (default ACCOUNT_SALT), derived like
+ * 1-create-safe-account.ts (the UTF-8 bytes of the value, default "0x1") so
+ * both predict the same Safe
+ */
+export function accountSaltNonce(salt?: string): bigint {
+  return fromHex(toHex(salt || process.env[ACCOUNT_SALT_ENV] || '0x1'), 'bigint');
+}
+
+/**
+ * Load a Safe owned by the chain signer
+ * @param clients account is the owner signing UserOperations (see getDeferredSignerAccount to unlock it lazily)
+ * @param safe Address of an existing Safe, or the salt nonce of a counterfactual one
+ */
+export async function getSafeAccountClients(
+  clients: Pick<ChainClients, 'config' | 'publicClient' | 'account'>,
+  safe: SafeAccountRef
+): Promise<SafeAccountClients> {
+  const { config, publicClient, account } = clients;
+  const bundler = await getBundlerProvider(config, publicClient);
+
+  const ownableValidator = getOwnableValidator({
+    owners: [account.address],
+    threshold: 1,
+  });
+
+  const safeAccount = await toSafeSmartAccount({
+    client: publicClient,
+    owners: [account],
+    version: '1.4.1',
+    entryPoint: {
+      address: entryPoint07Address,
+      version: '0.7',
+    },
+    safe4337ModuleAddress: config.safe7579Adapter,
+    erc7579LaunchpadAddress: config.erc7579Launchpad,
+    attesters: [config.attester],
+    attestersThreshold: 1,
+    ...(typeof safe === 'string' ? { address: safe } : { saltNonce: safe.saltNonce }),
+    validators: [
+      {
+        address: ownableValidator.address,
+        context: ownableValidator.initData,
+      },
+    ],
+  });
+
+  await logBundlerProvider(bundler, publicClient, safeAccount.address);
+
+  // @ts-ignore - Type compatibility between permissionless versions
+  const smartAccountClient = createSmartAccountClient({
+    account: safeAccount,
+    chain: config.chain,
+    bundlerTransport: bundler.bundlerTransport,
+    paymaster: bundler.paymaster,
+    userOperation: {
+      estimateFeesPerGas: bundler.estimateFeesPerGas,
+    },
+  }).extend(erc7579Actions());
+
+  return { safeAccount, smartAccountClient, bundler };
+}
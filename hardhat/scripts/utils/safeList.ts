@@ -0,0 +1,92 @@
+/**
+ * Safe Lists
+ *
+ * Safes to check per chain, collected from the sources the multi-Safe
+ * commands accept (`pnpm doctor`, `pnpm allowances`):
+ *
+ *   --safes         comma-separated addresses, used on every chain
+ *   --file          JSON array of addresses (every chain), JSON object of
+ *                   chain key -> addresses, or text with one address per line
+ *   --from-indexer  every Safe that executed a guarded batch through the
+ *                   chain's module, from the audit log (`pnpm indexer sync`)
+ */
+
+import { readFileSync } from 'fs';
+import { Address, getAddress, isAddress } from 'viem';
+import { ChainKey, getChainConfig, getReadOnlyClients } from './chains';
+
+/**
+ * Safes per chain (ALL = every chain)
+ */
+export type SafeList = Record<ChainKey | 'ALL', Set<Address>>;
+
+export function emptySafeList(): SafeList {
+  return { ALL: new Set(), base: new Set(), arbitrum: new Set(), plasma: new Set(), sonic: new Set() };
+}
+
+export function addSafes(list: SafeList, chain: ChainKey | 'ALL', source: string, addresses: unknown[]): void {
+  for (const value of addresses) {
+    if (typeof value !== 'string' || !isAddress(value.trim(), { strict: false })) {
+      throw new Error(`${source}: "${value}" is not an address`);
+    }
+    list[chain].add(getAddress(value.trim()));
+  }
+}
+
+/**
+ * Read a Safe list file: JSON array, JSON object keyed by chain, or one address per line
+ */
+export function readSafesFile(list: SafeList, file: string): void {
+  const content = readFileSync(file, 'utf8');
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    const lines = content.split('\n').map(line => line.replace(/#.*/, '').trim()).filter(Boolean);
+    addSafes(list, 'ALL', file, lines);
+    return;
+  }
+
+  if (Array.isArray(parsed)) {
+    addSafes(list, 'ALL', file, parsed);
+    return;
+  }
+  if (!parsed || typeof parsed !== 'object') {
+    throw new Error(`${file}: expected an array of addresses or an object of chain -> addresses`);
+  }
+  for (const [key, addresses] of Object.entries(parsed)) {
+    const config = getChainConfig(key);
+    if (!Array.isArray(addresses)) {
+      throw new Error(`${file}: "${key}" must be an array of addresses`);
+    }
+    addSafes(list, config.key, file, addresses);
+  }
+}
+
+/**
+ * Safes that executed a guarded batch through each chain's current module
+ * @dev Imported lazily so the other sources work without better-sqlite3
+ */
+export async function readIndexedSafes(list: SafeList, chainKeys: ChainKey[], dbPath?: string): Promise<void> {
+  const { auditDbPath, openAuditDatabase, queryEvents } = await import('../indexer/db');
+  const db = openAuditDatabase(dbPath ?? auditDbPath());
+  try {
+    for (const key of chainKeys) {
+      const { config, moduleAddress } = getReadOnlyClients(key);
+      const rows = queryEvents(db, { chainId: config.chain.id, contract: 'module', eventNames: ['GuardedBatchExecuted'] });
+      const executors = rows
+        .filter(row => getAddress(row.address) === moduleAddress)
+        .map(row => row.args.executor);
+      addSafes(list, key, 'audit log', executors);
+    }
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Safes of one chain: the ones listed for every chain plus the chain's own
+ */
+export function safesForChain(list: SafeList, chain: ChainKey): Address[] {
+  return [...new Set([...list.ALL, ...list[chain]])];
+}
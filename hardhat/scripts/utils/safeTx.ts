@@ -0,0 +1,231 @@
+/**
+ * Safe Multisig Transaction Helpers
+ *
+ * Builds Safe transactions (single call, or a MultiSendCallOnly batch
+ * executed by delegatecall), their EIP-712 payload and safeTxHash, and
+ * collects owner signatures in the order execTransaction expects.
+ * Also exports batches in the Safe Transaction Builder JSON format.
+ */
+
+import {
+  Address,
+  Hex,
+  concat,
+  encodeFunctionData,
+  encodePacked,
+  getAddress,
+  hashTypedData,
+  parseAbi,
+  recoverTypedDataAddress,
+  size,
+  zeroAddress,
+} from 'viem';
+import { LocalAccount } from 'viem/accounts';
+
+/**
+ * MultiSendCallOnly v1.4.1 (same address on every chain with the Safe singleton factory)
+ */
+export const MULTISEND_CALL_ONLY_ADDRESS = '0x9641d764fc13c8B624c04430C7356C1C7C8102e2' as Address;
+
+export const SAFE_ABI = parseAbi([
+  "function nonce() external view returns (uint256)",
+  "function getThreshold() external view returns (uint256)",
+  "function getOwners() external view returns (address[])",
+  "function VERSION() external view returns (string)",
+  "function getTransactionHash(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, uint256 _nonce) external view returns (bytes32)",
+  "function execTransaction(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, bytes signatures) external payable returns (bool)",
+]);
+
+const MULTISEND_ABI = parseAbi([
+  "function multiSend(bytes transactions) external payable",
+]);
+
+/**
+ * Safe operation types
+ */
+export const SafeOperation = {
+  Call: 0,
+  DelegateCall: 1,
+} as const;
+
+/**
+ * Plain call to include in a Safe transaction
+ */
+export interface SafeCall {
+  to: Address;
+  value: bigint;
+  data: Hex;
+}
+
+/**
+ * Safe transaction as signed by the owners (SafeTx EIP-712 struct)
+ */
+export interface SafeTransaction {
+  to: Address;
+  value: bigint;
+  data: Hex;
+  operation: number;
+  safeTxGas: bigint;
+  baseGas: bigint;
+  gasPrice: bigint;
+  gasToken: Address;
+  refundReceiver: Address;
+  nonce: bigint;
+}
+
+/**
+ * Owner signature over a safeTxHash
+ */
+export interface SafeSignature {
+  signer: Address;
+  signature: Hex;
+}
+
+const SAFE_TX_TYPES = {
+  SafeTx: [
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'data', type: 'bytes' },
+    { name: 'operation', type: 'uint8' },
+    { name: 'safeTxGas', type: 'uint256' },
+    { name: 'baseGas', type: 'uint256' },
+    { name: 'gasPrice', type: 'uint256' },
+    { name: 'gasToken', type: 'address' },
+    { name: 'refundReceiver', type: 'address' },
+    { name: 'nonce', type: 'uint256' },
+  ],
+} as const;
+
+/**
+ * Encode calls for MultiSendCallOnly.multiSend
+ * @dev Each call is packed as operation (uint8), to, value, data length, data
+ */
+export function encodeMultiSend(calls: SafeCall[]): Hex {
+  const packed = concat(calls.map(call => encodePacked(
+    ['uint8', 'address', 'uint256', 'uint256', 'bytes'],
+    [SafeOperation.Call, call.to, call.value, BigInt(size(call.data)), call.data]
+  )));
+  return encodeFunctionData({ abi: MULTISEND_ABI, functionName: 'multiSend', args: [packed] });
+}
+
+/**
+ * Safe transaction for one or more calls (no gas refund)
+ */
+export function buildSafeTransaction(calls: SafeCall[], nonce: bigint): SafeTransaction {
+  if (calls.length === 0) {
+    throw new Error("A Safe transaction needs at least one call");
+  }
+
+  const single = calls.length === 1;
+  return {
+    to: single ? getAddress(calls[0].to) : MULTISEND_CALL_ONLY_ADDRESS,
+    value: single ? calls[0].value : 0n,
+    data: single ? calls[0].data : encodeMultiSend(calls),
+    operation: single ? SafeOperation.Call : SafeOperation.DelegateCall,
+    safeTxGas: 0n,
+    baseGas: 0n,
+    gasPrice: 0n,
+    gasToken: zeroAddress,
+    refundReceiver: zeroAddress,
+    nonce,
+  };
+}
+
+/**
+ * EIP-712 payload owners sign (Safe >= 1.3.0 domain: chainId + verifyingContract)
+ */
+export function getSafeTxTypedData(chainId: number, safe: Address, tx: SafeTransaction) {
+  return {
+    domain: { chainId, verifyingContract: getAddress(safe) },
+    types: SAFE_TX_TYPES,
+    primaryType: 'SafeTx' as const,
+    message: tx,
+  };
+}
+
+export function getSafeTxHash(chainId: number, safe: Address, tx: SafeTransaction): Hex {
+  return hashTypedData(getSafeTxTypedData(chainId, safe, tx));
+}
+
+/**
+ * Sign a Safe transaction with a local account (EIP-712)
+ */
+export async function signSafeTransaction(
+  account: LocalAccount,
+  chainId: number,
+  safe: Address,
+  tx: SafeTransaction
+): Promise<SafeSignature> {
+  const signature = await account.signTypedData(getSafeTxTypedData(chainId, safe, tx));
+  return { signer: getAddress(account.address), signature };
+}
+
+/**
+ * Check that a signature was made by its claimed signer over the Safe transaction
+ */
+export async function verifySafeSignature(
+  chainId: number,
+  safe: Address,
+  tx: SafeTransaction,
+  signature: SafeSignature
+): Promise<boolean> {
+  const recovered = await recoverTypedDataAddress({
+    ...getSafeTxTypedData(chainId, safe, tx),
+    signature: signature.signature,
+  });
+  return getAddress(recovered) === getAddress(signature.signer);
+}
+
+/**
+ * Concatenate signatures sorted by signer, as execTransaction requires
+ */
+export function packSafeSignatures(signatures: SafeSignature[]): Hex {
+  const sorted = [...signatures].sort((a, b) =>
+    BigInt(a.signer) < BigInt(b.signer) ? -1 : BigInt(a.signer) > BigInt(b.signer) ? 1 : 0
+  );
+  return concat(sorted.map(signature => signature.signature));
+}
+
+/**
+ * execTransaction calldata once enough signatures are collected
+ */
+export function encodeExecTransaction(tx: SafeTransaction, signatures: SafeSignature[]): Hex {
+  return encodeFunctionData({
+    abi: SAFE_ABI,
+    functionName: 'execTransaction',
+    args: [
+      tx.to, tx.value, tx.data, tx.operation, tx.safeTxGas, tx.baseGas,
+      tx.gasPrice, tx.gasToken, tx.refundReceiver, packSafeSignatures(signatures),
+    ],
+  });
+}
+
+/**
+ * Safe Transaction Builder batch file (Safe{Wallet} "Transaction Builder" app)
+ */
+export function toTransactionBuilderJson(
+  chainId: number,
+  safe: Address,
+  calls: SafeCall[],
+  meta: { name: string; description: string }
+) {
+  return {
+    version: '1.0',
+    chainId: chainId.toString(),
+    createdAt: Date.now(),
+    meta: {
+      name: meta.name,
+      description: meta.description,
+      txBuilderVersion: '1.16.5',
+      createdFromSafeAddress: getAddress(safe),
+      createdFromOwnerAddress: '',
+    },
+    transactions: calls.map(call => ({
+      to: getAddress(call.to),
+      value: call.value.toString(),
+      data: call.data,
+      contractMethod: null,
+      contractInputsValues: null,
+    })),
+  };
+}
@@ -4,13 +4,9 @@
  * Common utilities for whitelist management scripts
  */
 
-import { privateKeyToAccount } from 'viem/accounts';
-import { arbitrum, base, sonic, plasma } from 'viem/chains';
 import { 
-  createPublicClient,
-  createWalletClient,
-  http, 
   Address,
+  PublicClient,
   parseAbi,
   getAddress,
 } from 'viem';
@@ -19,129 +15,118 @@ import {
  * TargetRegistry ABI - Only the functions we need
  */
 export const TARGET_REGISTRY_ABI = parseAbi([
+  "struct ParamRule { uint32 offset; uint8 condition; bytes32 value; }",
   // Batch whitelist operations
   "function addToWhitelist(address[] calldata targets, bytes4[] calldata selectors) external",
   "function removeFromWhitelist(address[] calldata targets, bytes4[] calldata selectors) external",
   // Public mapping getters (auto-generated from public mappings)
   "function whitelist(address target, bytes4 selector) external view returns (bool)",
   "function whitelistedTargets(address target) external view returns (bool)",
+  // ERC20 recipient operations
+  "function addAllowedERC20TokenRecipient(address token, address[] calldata recipients) external",
+  "function removeAllowedERC20TokenRecipient(address token, address[] calldata recipients) external",
+  "function allowedERC20TokenRecipients(address token, address recipient) external view returns (bool)",
+  // Approval ceilings (0 = none, APPROVAL_MATCH_BATCH = must be used within the batch)
+  "function setApprovalCeilings(address[] calldata tokens, address[] calldata spenders, uint256[] calldata ceilings) external",
+  "function approvalCeilings(address token, address spender) external view returns (uint256)",
+  "function APPROVAL_MATCH_BATCH() external view returns (uint256)",
+  // Parameter rules (condition: 0 = EQUALS_ACCOUNT, 1 = EQUALS_CONSTANT)
+  "function setParamRules(address[] calldata targets, bytes4[] calldata selectors, ParamRule[][] calldata rules) external",
+  "function getParamRules(address target, bytes4 selector) external view returns (ParamRule[])",
+  "function MAX_PARAM_RULES() external view returns (uint256)",
+  // Timelock on additions and loosening ceiling / rule changes (timelockDelay 0 = disabled)
+  "function timelockDelay() external view returns (uint256)",
+  "function MAX_TIMELOCK_DELAY() external view returns (uint256)",
+  "function scheduleAdd(address[] calldata targets, bytes4[] calldata selectors) external returns (bytes32[] operationIds)",
+  "function executeAdd(address[] calldata targets, bytes4[] calldata selectors) external",
+  "function scheduleAddAllowedERC20TokenRecipient(address token, address[] calldata recipients) external returns (bytes32[] operationIds)",
+  "function executeAddAllowedERC20TokenRecipient(address token, address[] calldata recipients) external",
+  "function cancelOperation(bytes32[] calldata operationIds) external",
+  "function scheduleTimelockDelay(uint256 newDelay) external returns (bytes32 operationId)",
+  "function setTimelockDelay(uint256 newDelay) external",
+  "function scheduleApprovalCeilings(address[] calldata tokens, address[] calldata spenders, uint256[] calldata ceilings) external returns (bytes32[] operationIds)",
+  "function scheduleParamRules(address[] calldata targets, bytes4[] calldata selectors, ParamRule[][] calldata rules) external returns (bytes32[] operationIds)",
+  "function operationScheduledAt(bytes32 operationId) external view returns (uint256)",
+  "function operationReadyAt(bytes32 operationId) external view returns (uint256)",
+  "function isOperationPending(bytes32 operationId) external view returns (bool)",
+  "function isOperationReady(bytes32 operationId) external view returns (bool)",
+  "function getOperationId(address target, bytes4 selector) external pure returns (bytes32)",
+  "function getRecipientOperationId(address token, address recipient) external pure returns (bytes32)",
+  "function getDelayOperationId(uint256 newDelay) external pure returns (bytes32)",
+  "function getCeilingOperationId(address token, address spender, uint256 ceiling) external pure returns (bytes32)",
+  "function getParamRulesOperationId(address target, bytes4 selector, ParamRule[] calldata rules) external pure returns (bytes32)",
+  // Ownable2Step / Pausable
+  "function owner() external view returns (address)",
+  "function paused() external view returns (bool)",
   // Events
   "event TargetSelectorAdded(address indexed target, bytes4 indexed selector)",
   "event TargetSelectorRemoved(address indexed target, bytes4 indexed selector)",
+  "event ERC20TokenRecipientAuthorized(address indexed token, address indexed recipient, bool authorized)",
+  "event ApprovalCeilingSet(address indexed token, address indexed spender, uint256 ceiling)",
+  "event ParamRulesSet(address indexed target, bytes4 indexed selector, ParamRule[] rules)",
+  "event TargetSelectorScheduled(bytes32 indexed operationId, address indexed target, bytes4 indexed selector, uint256 executeAfter)",
+  "event ERC20TokenRecipientScheduled(bytes32 indexed operationId, address indexed token, address indexed recipient, uint256 executeAfter)",
+  "event TimelockDelayDecreaseScheduled(bytes32 indexed operationId, uint256 newDelay, uint256 executeAfter)",
+  "event ApprovalCeilingScheduled(bytes32 indexed operationId, address indexed token, address indexed spender, uint256 ceiling, uint256 executeAfter)",
+  "event ParamRulesScheduled(bytes32 indexed operationId, address indexed target, bytes4 indexed selector, ParamRule[] rules, uint256 executeAfter)",
+  "event OperationExecuted(bytes32 indexed operationId)",
+  "event OperationCancelled(bytes32 indexed operationId)",
+  "event TimelockDelaySet(uint256 oldDelay, uint256 newDelay)",
 ]);
 
 /**
- * Clients type for whitelist operations
- */
-export type WhitelistClients = {
-  publicClient: any;
-  walletClient: any;
-  account: ReturnType<typeof privateKeyToAccount>;
-};
-
-/**
- * Create clients for Base chain from environment variables
- */
-export function createBaseClients(): WhitelistClients {
-  const privateKey = process.env.BASE_PRIVATE_KEY;
-  const rpcUrl = process.env.BASE_RPC_URL;
-
-  if (!privateKey) {
-    throw new Error("Missing required environment variable: BASE_PRIVATE_KEY");
-  }
-  if (!rpcUrl) {
-    throw new Error("Missing required environment variable: BASE_RPC_URL");
-  }
-
-  const account = privateKeyToAccount(privateKey as `0x${string}`);
-
-  const publicClient = createPublicClient({
-    chain: base,
-    transport: http(rpcUrl),
-  });
-
-  const walletClient = createWalletClient({
-    account,
-    chain: base,
-    transport: http(rpcUrl),
-  });
-
-  return { publicClient, walletClient, account };
-}
-
-/**
- * Create clients for Arbitrum chain from environment variables
- */
-export function createArbitrumClients(): WhitelistClients {
-  const privateKey = process.env.ARB_PRIVATE_KEY;
-  const rpcUrl = process.env.ARB_RPC_URL;
-
-  if (!privateKey) {
-    throw new Error("Missing required environment variable: ARB_PRIVATE_KEY");
-  }
-  if (!rpcUrl) {
-    throw new Error("Missing required environment variable: ARB_RPC_URL");
-  }
-
-  const account = privateKeyToAccount(privateKey as `0x${string}`);
-
-  const publicClient = createPublicClient({
-    chain: arbitrum,
-    transport: http(rpcUrl),
-  });
-
-  const walletClient = createWalletClient({
-    account,
-    chain: arbitrum,
-    transport: http(rpcUrl),
-  });
-
-  return { publicClient, walletClient, account };
-}
-
-/**
- * Get registry address from environment (Base)
- */
-export function getBaseRegistryAddress(): Address {
-  const registryAddress = process.env.BASE_TARGET_REGISTRY_ADDRESS;
-  if (!registryAddress) {
-    throw new Error("Missing required environment variable: BASE_TARGET_REGISTRY_ADDRESS");
-  }
-  return registryAddress as Address;
-}
-
-/**
- * Get registry address from environment (Arbitrum)
- */
-export function getArbitrumRegistryAddress(): Address {
-  const registryAddress = process.env.ARB_TARGET_REGISTRY_ADDRESS;
-  if (!registryAddress) {
-    throw new Error("Missing required environment variable: ARB_TARGET_REGISTRY_ADDRESS");
-  }
-  return registryAddress as Address;
-}
+ * GuardedExecModuleUpgradeable ABI - Only the functions we need
+ * Execution struct: { address target; uint256 value; bytes callData; }
+ */
+export const GUARDED_EXEC_MODULE_ABI = parseAbi([
+  "struct Execution { address target; uint256 value; bytes callData; }",
+  "struct OutflowLimit { uint128 cap; uint64 window; uint64 windowStart; uint128 spent; }",
+  "function executeGuardedBatch(Execution[] calldata executions) external",
+  "function registry() external view returns (address)",
+  "function paused() external view returns (bool)",
+  "function version() external pure returns (string)",
+  // Outflow limits (2.1.0+), set by the account itself
+  "function setOutflowLimit(address token, uint128 cap, uint64 window) external",
+  "function setOutflowLimits(address[] calldata tokens, uint128[] calldata caps, uint64[] calldata windows) external",
+  "function outflowLimit(address account, address token) external view returns (OutflowLimit limit, uint256 remaining)",
+  // Events
+  "event GuardedBatchExecuted(address indexed executor, address[] targets, bytes4[] selectors, uint256 timestamp)",
+  "event RegistryUpdated(address indexed oldRegistry, address indexed newRegistry)",
+  "event OutflowLimitSet(address indexed account, address indexed token, uint256 cap, uint256 window)",
+  // Errors
+  "error InvalidRegistry()",
+  "error EmptyBatch()",
+  "error TargetSelectorNotWhitelisted(address target, bytes4 selector)",
+  "error UnauthorizedERC20Transfer(address token, address to)",
+  "error UnauthorizedERC20Approve(address token, address spender)",
+  "error InvalidCalldata()",
+  "error LengthMismatch()",
+  "error OutflowLimitExceeded(address token, uint256 amount, uint256 remaining)",
+  "error InvalidOutflowWindow()",
+  "error ApprovalExceedsCeiling(address token, address spender, uint256 amount, uint256 ceiling)",
+  "error ApprovalNotUsed(address token, address spender, uint256 allowance)",
+  "error ParamRuleViolated(address target, bytes4 selector, uint256 offset)",
+]);
 
 /**
- * @deprecated Use createBaseClients() instead
- * Legacy function for backward compatibility
+ * ERC-7579 module type ids
  */
-export function createClients(): WhitelistClients {
-  return createBaseClients();
-}
+export const MODULE_TYPE_VALIDATOR = 1n;
+export const MODULE_TYPE_EXECUTOR = 2n;
 
 /**
- * @deprecated Use getBaseRegistryAddress() instead
- * Legacy function for backward compatibility
+ * ERC-7579 account ABI - module management
  */
-export function getRegistryAddress(): Address {
-  return getBaseRegistryAddress();
-}
+export const ERC7579_ACCOUNT_ABI = parseAbi([
+  "function installModule(uint256 moduleTypeId, address module, bytes initData) external",
+  "function isModuleInstalled(uint256 moduleTypeId, address module, bytes additionalContext) external view returns (bool)",
+]);
 
 /**
  * Check if items are already whitelisted
  */
 export async function checkWhitelistStatus(
-  publicClient: any,
+  publicClient: PublicClient,
   registryAddress: Address,
   items: Array<{ target: Address; selector: `0x${string}`; description: string }>
 ): Promise<Array<{ item: typeof items[0]; isWhitelisted: boolean }>> {
@@ -186,84 +171,39 @@ export function filterByStatus<T extends { isWhitelisted: boolean }>(
 }
 
 /**
- * Create clients for Plasma chain from environment variables
+ * Check if recipients are already authorized for ERC20 transfers
  */
-export function createPlasmaClients(): WhitelistClients {
-  const privateKey = process.env.PLASMA_PRIVATE_KEY;
-  const rpcUrl = process.env.PLASMA_RPC_URL;
-
-  if (!privateKey) {
-    throw new Error("Missing required environment variable: PLASMA_PRIVATE_KEY");
-  }
-  if (!rpcUrl) {
-    throw new Error("Missing required environment variable: PLASMA_RPC_URL");
-  }
-
-  const account = privateKeyToAccount(privateKey as `0x${string}`);
-
-  const publicClient = createPublicClient({
-    chain: plasma,
-    transport: http(rpcUrl),
-  });
-
-  const walletClient = createWalletClient({
-    account,
-    chain: plasma,
-    transport: http(rpcUrl),
-  });
-
-  return { publicClient, walletClient, account };
+export async function checkRecipientStatus(
+  publicClient: PublicClient,
+  registryAddress: Address,
+  token: Address,
+  recipients: Address[]
+): Promise<Array<{ recipient: Address; isAuthorized: boolean }>> {
+  const statuses = await Promise.all(
+    recipients.map(async (recipient) => {
+      // Ensure address is properly checksummed (EIP-55)
+      const checksummedRecipient = getAddress(recipient);
+      const isAuthorized = await publicClient.readContract({
+        address: registryAddress,
+        abi: TARGET_REGISTRY_ABI,
+        functionName: 'allowedERC20TokenRecipients',
+        args: [getAddress(token), checksummedRecipient],
+      });
+      return { recipient: checksummedRecipient, isAuthorized };
+    })
+  );
+  return statuses;
 }
 
 /**
- * Create clients for Sonic chain from environment variables
+ * Display recipient authorization status
  */
-export function createSonicClients(): WhitelistClients {
-  const privateKey = process.env.SONIC_PRIVATE_KEY;
-  const rpcUrl = process.env.SONIC_RPC_URL;
-
-  if (!privateKey) {
-    throw new Error("Missing required environment variable: SONIC_PRIVATE_KEY");
-  }
-  if (!rpcUrl) {
-    throw new Error("Missing required environment variable: SONIC_RPC_URL");
-  }
-
-  const account = privateKeyToAccount(privateKey as `0x${string}`);
-
-  const publicClient = createPublicClient({
-    chain: sonic,
-    transport: http(rpcUrl),
-  });
-
-  const walletClient = createWalletClient({
-    account,
-    chain: sonic,
-    transport: http(rpcUrl),
+export function displayRecipientStatus(
+  statuses: Array<{ recipient: Address; isAuthorized: boolean }>
+): void {
+  console.log("\n📊 Authorization Status:");
+  statuses.forEach((status, index) => {
+    const icon = status.isAuthorized ? "✅" : "❌";
+    console.log(`  ${icon} ${index + 1}. ${status.recipient} - ${status.isAuthorized ? "AUTHORIZED" : "NOT AUTHORIZED"}`);
   });
-
-  return { publicClient, walletClient, account };
 }
-
-/**
- * Get registry address from environment (Plasma)
- */
-export function getPlasmaRegistryAddress(): Address {
-  const registryAddress = process.env.PLASMA_TARGET_REGISTRY_ADDRESS;
-  if (!registryAddress) {
-    throw new Error("Missing required environment variable: PLASMA_TARGET_REGISTRY_ADDRESS");
-  }
-  return registryAddress as Address;
-}
-
-/**
- * Get registry address from environment (Sonic)
- */
-export function getSonicRegistryAddress(): Address {
-  const registryAddress = process.env.SONIC_TARGET_REGISTRY_ADDRESS;
-  if (!registryAddress) {
-    throw new Error("Missing required environment variable: SONIC_TARGET_REGISTRY_ADDRESS");
-  }
-  return registryAddress as Address;
-}
-
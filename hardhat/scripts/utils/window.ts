@@ -0,0 +1,36 @@
+/**
+ * Time Windows
+ *
+ * Parsing and formatting of durations given in seconds or with a unit suffix
+ * ("30m", "1d"): outflow limit windows and the registry timelock delay.
+ */
+
+import { maxUint64 } from 'viem';
+
+const WINDOW_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400, w: 604800 };
+
+/**
+ * Window length: seconds, or a number with an s/m/h/d/w suffix ("30m", "1d")
+ */
+export function parseWindow(value: string): number {
+  const match = value.trim().match(/^(\d+)\s*([smhdw]?)$/);
+  if (!match) {
+    throw new Error(`Invalid window "${value}": use seconds or <n>s|m|h|d|w`);
+  }
+  const seconds = Number(match[1]) * WINDOW_UNITS[match[2] || 's'];
+  if (BigInt(seconds) > maxUint64) {
+    throw new Error(`Window "${value}" does not fit uint64`);
+  }
+  return seconds;
+}
+
+/**
+ * Largest unit that divides the window evenly ("86400" -> "1d")
+ */
+export function formatWindow(seconds: number): string {
+  if (seconds === 0) return '0s';
+  const [unit, size] = Object.entries(WINDOW_UNITS)
+    .reverse()
+    .find(([, size]) => seconds % size === 0)!;
+  return `${seconds / size}${unit}`;
+}
@@ -0,0 +1,43 @@
+/**
+ * Smart Sessions Fixture
+ *
+ * Reads the runtime code of Smart Sessions at its module-sdk address from a
+ * live chain into fixtures/smart-sessions/runtime-code.json (see
+ * harness/canonical.ts). Run it once (and after upgrading module-sdk) and
+ * commit the result; the e2e session steps then run offline.
+ *
+ * USAGE:
+ *   pnpm e2e:fixtures [--rpc-url <url>]
+ *
+ * --rpc-url defaults to BASE_RPC_URL.
+ */
+
+import { createPublicClient, http } from 'viem';
+import { SMART_SESSIONS_FIXTURE_FILE, fetchSmartSessionsFixture, saveSmartSessionsFixture } from './harness/canonical';
+import { loadEnv, parseCommandLine, runCli } from '../../scripts/utils/cli';
+
+// Load environment variables
+loadEnv();
+
+async function main() {
+  const { values } = parseCommandLine({
+    'rpc-url': { type: 'string' },
+  });
+
+  const rpcUrl = values['rpc-url'] ?? process.env.BASE_RPC_URL?.trim();
+  if (!rpcUrl) {
+    throw new Error("Pass --rpc-url or set BASE_RPC_URL");
+  }
+
+  console.log("🧱 Smart Sessions fixture");
+  console.log("==================================\n");
+
+  const publicClient = createPublicClient({ transport: http(rpcUrl) });
+  const fixture = await fetchSmartSessionsFixture(publicClient);
+
+  console.log(`  SmartSessions ${fixture.address} (${(fixture.code.length - 2) / 2} bytes)`);
+  saveSmartSessionsFixture(fixture);
+  console.log(`\n💾 Chain ${fixture.source.chainId}, block ${fixture.source.blockNumber} → ${SMART_SESSIONS_FIXTURE_FILE}`);
+}
+
+runCli(main);
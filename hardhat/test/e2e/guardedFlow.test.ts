@@ -0,0 +1,246 @@
+/**
+ * End-to-end flow on a local stack (anvil + mock bundler):
+ * create account → install module → whitelist → executeGuardedBatch (owner)
+ * → create session → executeGuardedBatch (session key)
+ *
+ * Each step mirrors the numbered script that does it on a live chain and
+ * builds on the state the previous step left behind.
+ */
+
+import { expect } from 'chai';
+import { createSmartAccountClient } from 'permissionless';
+import { toSafeSmartAccount } from 'permissionless/accounts';
+import { getAccountNonce } from 'permissionless/actions';
+import { erc7579Actions } from 'permissionless/actions/erc7579';
+import {
+  encodeSmartSessionSignature,
+  encodeValidatorNonce,
+  getAccount,
+  getEnableSessionDetails,
+  getOwnableValidator,
+  getOwnableValidatorMockSignature,
+  getSmartSessionsValidator,
+  isSessionEnabled,
+} from '@rhinestone/module-sdk';
+import { Address, erc20Abi, parseEventLogs, toFunctionSelector } from 'viem';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import { entryPoint07Address, getUserOperationHash } from 'viem/account-abstraction';
+import { encodeExecuteGuardedBatch, erc20, toExecution } from '../../scripts/adapters';
+import { provisionSession } from '../../scripts/sessions/provision';
+import { BundlerProvider, createLocalProvider } from '../../scripts/utils/bundler';
+import { GUARDED_EXEC_MODULE_ABI, TARGET_REGISTRY_ABI } from '../../scripts/utils/utils';
+import { LocalStack, deployLocalStack } from './harness/stack';
+
+const DEPOSIT_AMOUNT = 250_000_000n; // 250 mUSDC
+
+describe('GuardedExecModule end to end (local stack)', function () {
+  let stack: LocalStack;
+  const owner = privateKeyToAccount(generatePrivateKey());
+  const sessionKey = privateKeyToAccount(generatePrivateKey());
+  let safeAccount: any;
+  let smartAccountClient: any;
+  let bundler: BundlerProvider;
+  let permissionId: `0x${string}`;
+
+  before(async function () {
+    stack = await deployLocalStack();
+
+    // Self-funded: the Safe pays gas, as on Plasma and Sonic
+    bundler = createLocalProvider({ url: stack.bundler.url, publicClient: stack.publicClient });
+  });
+
+  after(async function () {
+    await stack?.stop();
+  });
+
+  it('creates and deploys the Safe account', async function () {
+    const ownableValidator = getOwnableValidator({ owners: [owner.address], threshold: 1 });
+
+    safeAccount = await toSafeSmartAccount({
+      client: stack.publicClient,
+      owners: [owner],
+      version: '1.4.1',
+      entryPoint: { address: entryPoint07Address, version: '0.7' },
+      safe4337ModuleAddress: stack.config.safe7579Adapter,
+      erc7579LaunchpadAddress: stack.config.erc7579Launchpad,
+      attesters: [stack.config.attester],
+      attestersThreshold: 1,
+      validators: [{ address: ownableValidator.address, context: ownableValidator.initData }],
+      saltNonce: 0n,
+    });
+    await stack.fund(safeAccount.address);
+
+    smartAccountClient = createSmartAccountClient({
+      account: safeAccount,
+      chain: stack.config.chain,
+      bundlerTransport: bundler.bundlerTransport,
+      paymaster: bundler.paymaster,
+      userOperation: {
+        estimateFeesPerGas: bundler.estimateFeesPerGas,
+      },
+    }).extend(erc7579Actions());
+
+    const hash = await smartAccountClient.sendTransaction({ to: safeAccount.address, value: 0n, data: '0x' });
+    await stack.publicClient.waitForTransactionReceipt({ hash });
+
+    const code = await stack.publicClient.getCode({ address: safeAccount.address });
+    expect(code).to.not.equal(undefined);
+    expect(code).to.not.equal('0x');
+  });
+
+  it('installs the GuardedExecModule as executor', async function () {
+    const opHash = await smartAccountClient.installModule({ type: 'executor', address: stack.moduleAddress, context: '0x' });
+    const receipt = await bundler.bundlerClient.waitForUserOperationReceipt({ hash: opHash });
+    expect(receipt.success).to.equal(true);
+
+    const installed = await smartAccountClient.isModuleInstalled({ type: 'executor', address: stack.moduleAddress, context: '0x' });
+    expect(installed).to.equal(true);
+  });
+
+  it('whitelists the token approve and the pool deposit', async function () {
+    const targets: Address[] = [stack.token.address, stack.pool.address];
+    const selectors = [toFunctionSelector('function approve(address,uint256)'), toFunctionSelector('function deposit(uint256)')];
+
+    const hash = await stack.walletClient.writeContract({
+      address: stack.registryAddress,
+      abi: TARGET_REGISTRY_ABI,
+      functionName: 'addToWhitelist',
+      args: [targets, selectors],
+    });
+    await stack.publicClient.waitForTransactionReceipt({ hash });
+
+    for (let i = 0; i < targets.length; i++) {
+      const whitelisted = await stack.publicClient.readContract({
+        address: stack.registryAddress,
+        abi: TARGET_REGISTRY_ABI,
+        functionName: 'whitelist',
+        args: [targets[i], selectors[i]],
+      });
+      expect(whitelisted, `${targets[i]} ${selectors[i]}`).to.equal(true);
+    }
+
+    await stack.walletClient.writeContract({
+      address: stack.token.address,
+      abi: stack.token.abi,
+      functionName: 'mint',
+      args: [safeAccount.address, DEPOSIT_AMOUNT],
+    });
+  });
+
+  it('runs executeGuardedBatch from the account owner', async function () {
+    const executions = [
+      ...erc20.approve({ token: stack.token.address, spender: stack.pool.address, amount: DEPOSIT_AMOUNT }),
+      toExecution(stack.pool.address, stack.pool.abi, 'deposit', [DEPOSIT_AMOUNT]),
+    ];
+
+    const opHash = await smartAccountClient.sendUserOperation({
+      calls: [{ to: stack.moduleAddress, value: 0n, data: encodeExecuteGuardedBatch(executions) }],
+    });
+    const receipt = await bundler.bundlerClient.waitForUserOperationReceipt({ hash: opHash });
+    expect(receipt.success).to.equal(true);
+
+    const [executed] = parseEventLogs({ abi: GUARDED_EXEC_MODULE_ABI, eventName: 'GuardedBatchExecuted', logs: receipt.logs });
+    expect(executed, 'GuardedBatchExecuted').to.not.equal(undefined);
+    expect(executed.args.executor).to.equal(safeAccount.address);
+
+    const [lastCaller, callCount] = await stack.publicClient.readContract({
+      address: stack.pool.address,
+      abi: stack.pool.abi,
+      functionName: 'getLastCallInfo',
+    }) as [Address, bigint];
+    expect(lastCaller).to.equal(safeAccount.address);
+    expect(callCount).to.equal(1n);
+  });
+
+  it('installs Smart Sessions for the session key', async function () {
+    // Needs fixtures/smart-sessions/runtime-code.json (`pnpm e2e:fixtures`), see harness/canonical.ts
+    if (!stack.smartSessions) this.skip();
+
+    const smartSessions = getSmartSessionsValidator({});
+    const opHash = await smartAccountClient.installModule({ type: 'validator', address: smartSessions.address, context: '0x' });
+    const receipt = await bundler.bundlerClient.waitForUserOperationReceipt({ hash: opHash });
+    expect(receipt.success).to.equal(true);
+  });
+
+  it('enables the session and runs executeGuardedBatch with the session key', async function () {
+    if (!stack.smartSessions) this.skip();
+
+    const { session, permissionId: id } = provisionSession({
+      account: safeAccount.address,
+      sessionKey: sessionKey.address,
+      chain: { config: stack.config, moduleAddress: stack.moduleAddress },
+      policies: {
+        validUntil: Math.floor(Date.now() / 1000) + 60 * 60,
+        maxUses: 5n,
+      },
+    });
+    permissionId = id;
+
+    // Enable mode, as in script 3: the owner signs the enable hash, the session key signs the UserOperation
+    const account = getAccount({ address: safeAccount.address, type: 'safe' });
+    const sessionDetails: any = await getEnableSessionDetails({
+      sessions: [session],
+      account,
+      clients: [stack.publicClient],
+    });
+    sessionDetails.enableSessionData.enableSession.permissionEnableSig =
+      await owner.signMessage({ message: { raw: sessionDetails.permissionEnableHash } });
+
+    const nonce = await getAccountNonce(stack.publicClient, {
+      address: safeAccount.address,
+      entryPointAddress: entryPoint07Address,
+      key: encodeValidatorNonce({ account, validator: getSmartSessionsValidator({}) }),
+    });
+    sessionDetails.signature = getOwnableValidatorMockSignature({ threshold: 1 });
+
+    const executions = [
+      ...erc20.approve({ token: stack.token.address, spender: stack.pool.address, amount: DEPOSIT_AMOUNT }),
+      toExecution(stack.pool.address, stack.pool.abi, 'deposit', [DEPOSIT_AMOUNT]),
+    ];
+
+    const userOperation = await smartAccountClient.prepareUserOperation({
+      account: safeAccount,
+      calls: [{ to: stack.moduleAddress, value: 0n, data: encodeExecuteGuardedBatch(executions) }],
+      nonce,
+      signature: encodeSmartSessionSignature(sessionDetails),
+    });
+    sessionDetails.signature = await sessionKey.signMessage({
+      message: {
+        raw: getUserOperationHash({
+          chainId: stack.config.chain.id,
+          entryPointAddress: entryPoint07Address,
+          entryPointVersion: '0.7',
+          userOperation,
+        }),
+      },
+    });
+    userOperation.signature = encodeSmartSessionSignature(sessionDetails);
+
+    const opHash = await smartAccountClient.sendUserOperation(userOperation);
+    const receipt = await bundler.bundlerClient.waitForUserOperationReceipt({ hash: opHash });
+    expect(receipt.success).to.equal(true);
+
+    const [executed] = parseEventLogs({ abi: GUARDED_EXEC_MODULE_ABI, eventName: 'GuardedBatchExecuted', logs: receipt.logs });
+    expect(executed, 'GuardedBatchExecuted').to.not.equal(undefined);
+    expect(executed.args.executor).to.equal(safeAccount.address);
+    expect(executed.args.targets).to.deep.equal([stack.token.address, stack.pool.address]);
+
+    const allowance = await stack.publicClient.readContract({
+      address: stack.token.address,
+      abi: erc20Abi,
+      functionName: 'allowance',
+      args: [safeAccount.address, stack.pool.address],
+    });
+    expect(allowance).to.equal(DEPOSIT_AMOUNT);
+
+    const [lastCaller, callCount] = await stack.publicClient.readContract({
+      address: stack.pool.address,
+      abi: stack.pool.abi,
+      functionName: 'getLastCallInfo',
+    }) as [Address, bigint];
+    expect(lastCaller).to.equal(safeAccount.address);
+    expect(callCount).to.equal(2n);
+
+    expect(await isSessionEnabled({ client: stack.publicClient, account: safeAccount.address, permissionId })).to.equal(true);
+  });
+});
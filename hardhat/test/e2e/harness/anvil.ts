@@ -0,0 +1,92 @@
+/**
+ * Anvil Process
+ *
+ * Starts a throwaway anvil node on a free port and stops it again. The node
+ * runs with automine, so every transaction is mined as soon as it is sent.
+ */
+
+import { ChildProcess, spawn } from 'child_process';
+import { AddressInfo, createServer } from 'net';
+
+/**
+ * Seconds to wait for anvil to answer its first request
+ */
+const STARTUP_TIMEOUT_SECONDS = 30;
+
+export const ANVIL_CHAIN_ID = 31337;
+
+export interface AnvilNode {
+  rpcUrl: string;
+  port: number;
+  stop: () => Promise<void>;
+}
+
+/**
+ * Ask the OS for a free TCP port
+ */
+export async function getFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+/**
+ * Wait until the node answers eth_chainId
+ */
+async function waitForRpc(rpcUrl: string, child: ChildProcess): Promise<void> {
+  const deadline = Date.now() + STARTUP_TIMEOUT_SECONDS * 1000;
+  while (Date.now() < deadline) {
+    if (child.exitCode !== null) {
+      throw new Error(`anvil exited with code ${child.exitCode} before it was ready`);
+    }
+    try {
+      const response = await fetch(rpcUrl, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'eth_chainId', params: [] }),
+      });
+      if (response.ok) return;
+    } catch {
+      // Not listening yet
+    }
+    await new Promise(resolve => setTimeout(resolve, 200));
+  }
+  throw new Error(`anvil did not answer on ${rpcUrl} within ${STARTUP_TIMEOUT_SECONDS}s`);
+}
+
+/**
+ * Start anvil (from Foundry, must be on PATH) on a free port
+ * @dev Set ANVIL_BIN to use another binary.
+ */
+export async function startAnvil(options: { port?: number } = {}): Promise<AnvilNode> {
+  const port = options.port ?? await getFreePort();
+  const rpcUrl = `http://127.0.0.1:${port}`;
+
+  const child = spawn(process.env.ANVIL_BIN || 'anvil', [
+    '--port', port.toString(),
+    '--chain-id', ANVIL_CHAIN_ID.toString(),
+    '--hardfork', 'cancun',
+    '--silent',
+  ], { stdio: ['ignore', 'ignore', 'inherit'] });
+
+  const spawnError = new Promise<never>((_, reject) => {
+    child.once('error', error => reject(new Error(`Could not start anvil (is Foundry installed?): ${error.message}`)));
+  });
+  await Promise.race([waitForRpc(rpcUrl, child), spawnError]);
+
+  return {
+    rpcUrl,
+    port,
+    stop: async () => {
+      if (child.exitCode !== null) return;
+      const exited = new Promise(resolve => child.once('exit', resolve));
+      child.kill('SIGTERM');
+      await exited;
+    },
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * Forge Artifacts
+ *
+ * Loads ABI and creation bytecode of the contracts compiled by `forge build`
+ * in the repository root (out/). Artifacts are looked up by source path, so
+ * contracts with the same name in different files (e.g. MockERC20 in
+ * test/mocks and modulekit) are told apart.
+ *
+ * Also reads the precompiled bytecode modulekit ships as Solidity constants
+ * (lib/modulekit/src/deployment/precompiles), which needs no compilation.
+ */
+
+import { existsSync, readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { Abi, Hex } from 'viem';
+
+/**
+ * Foundry output directory of the repository root
+ */
+export const FORGE_OUT_DIR = join(__dirname, '..', '..', '..', '..', 'out');
+
+/**
+ * modulekit precompiles, as vendored in the repository root
+ */
+export const MODULEKIT_PRECOMPILES_DIR = join(__dirname, '..', '..', '..', '..', 'lib', 'modulekit', 'src', 'deployment', 'precompiles');
+
+export interface ForgeArtifact {
+  abi: Abi;
+  bytecode: Hex;
+}
+
+/**
+ * Every <contractName>.json below the output directory
+ */
+function findArtifactFiles(dir: string, fileName: string): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) return findArtifactFiles(path, fileName);
+    return entry.name === fileName ? [path] : [];
+  });
+}
+
+/**
+ * Load a compiled contract
+ * @param sourcePath Source file as forge sees it, e.g. "src/registry/TargetRegistry.sol"
+ *                   (a suffix is enough for library sources)
+ * @throws if out/ is missing or holds no artifact for the contract
+ */
+export function loadForgeArtifact(sourcePath: string, contractName: string): ForgeArtifact {
+  if (!existsSync(FORGE_OUT_DIR)) {
+    throw new Error(`No forge output at ${FORGE_OUT_DIR}: run \`forge build\` in the repository root`);
+  }
+
+  for (const file of findArtifactFiles(FORGE_OUT_DIR, `${contractName}.json`)) {
+    const artifact = JSON.parse(readFileSync(file, 'utf8'));
+    const targets = Object.keys(artifact.metadata?.settings?.compilationTarget ?? {});
+    if (targets.some(target => target.endsWith(sourcePath))) {
+      return { abi: artifact.abi, bytecode: artifact.bytecode.object };
+    }
+  }
+
+  throw new Error(`No forge artifact for ${sourcePath}:${contractName}: run \`forge build\` in the repository root`);
+}
+
+/**
+ * Load a bytecode constant of modulekit's precompiles
+ * @param file e.g. "Safe7579Precompiles.sol"
+ * @param name Constant holding the hex literal, e.g. "SAFE7579_BYTECODE"
+ * @throws if the file has no such constant
+ */
+export function loadModulekitPrecompile(file: string, name: string): Hex {
+  const source = readFileSync(join(MODULEKIT_PRECOMPILES_DIR, file), 'utf8');
+  const match = source.match(new RegExp(`\\b${name}\\s*=\\s*hex"([0-9a-fA-F]+)"`));
+  if (!match) {
+    throw new Error(`No bytecode constant ${name} in ${join(MODULEKIT_PRECOMPILES_DIR, file)}`);
+  }
+  return `0x${match[1]}`;
+}
@@ -0,0 +1,245 @@
+/**
+ * Mock Bundler
+ *
+ * Minimal ERC-4337 bundler for anvil: an HTTP JSON-RPC server that answers
+ * the eth_*UserOperation* methods and pimlico_getUserOperationGasPrice, and
+ * forwards every other method to the node. eth_sendUserOperation submits a
+ * one-operation handleOps bundle right away (anvil automines), so the
+ * receipt is available as soon as the call returns.
+ *
+ * Gas estimation returns fixed, generous limits instead of simulating, and
+ * validation failures are reported with the EntryPoint's FailedOp reason
+ * (e.g. "AA23 reverted") as JSON-RPC error -32500.
+ */
+
+import { IncomingMessage, Server, ServerResponse, createServer } from 'http';
+import {
+  Address,
+  Hex,
+  createPublicClient,
+  createWalletClient,
+  decodeErrorResult,
+  encodeFunctionData,
+  http,
+  numberToHex,
+  parseEventLogs,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { foundry } from 'viem/chains';
+import {
+  RpcUserOperation,
+  entryPoint07Abi,
+  entryPoint07Address,
+  formatUserOperation,
+  getUserOperationHash,
+  toPackedUserOperation,
+} from 'viem/account-abstraction';
+import { AddressInfo } from 'net';
+
+/**
+ * Anvil default account #1, used as bundler EOA and beneficiary
+ * (account #0 is the test deployer)
+ */
+export const BUNDLER_PRIVATE_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d' as Hex;
+
+/**
+ * Gas limits returned by eth_estimateUserOperationGas
+ * @dev Large enough for a Safe deployment through the launchpad and a Smart
+ *      Sessions enable-mode validation; the unused part is refunded.
+ */
+export const MOCK_GAS_ESTIMATE = {
+  preVerificationGas: 100_000n,
+  verificationGasLimit: 5_000_000n,
+  callGasLimit: 3_000_000n,
+  paymasterVerificationGasLimit: 0n,
+  paymasterPostOpGasLimit: 0n,
+};
+
+/**
+ * JSON-RPC error code of rejected UserOperations (ERC-7769)
+ */
+const USER_OPERATION_REJECTED = -32500;
+
+export interface MockBundler {
+  url: string;
+  /** Bundler EOA that sends the handleOps transactions */
+  address: Address;
+  stop: () => Promise<void>;
+}
+
+class RpcError extends Error {
+  constructor(public code: number, message: string, public data?: unknown) {
+    super(message);
+  }
+}
+
+interface StoredUserOperation {
+  userOperation: RpcUserOperation;
+  transactionHash: Hex;
+  blockHash: Hex;
+  blockNumber: Hex;
+  receipt: Record<string, unknown>;
+}
+
+/**
+ * Turn a handleOps revert into the bundler error message
+ */
+function describeHandleOpsRevert(error: any): string {
+  const data: Hex | undefined = error?.walk?.((e: any) => typeof e?.data === 'string')?.data;
+  if (typeof data === 'string') {
+    try {
+      const decoded = decodeErrorResult({ abi: entryPoint07Abi, data });
+      if (decoded.errorName === 'FailedOp') return decoded.args[1];
+      if (decoded.errorName === 'FailedOpWithRevert') return `${decoded.args[1]} (inner revert ${decoded.args[2]})`;
+      return decoded.errorName;
+    } catch {
+      return `handleOps reverted with ${data}`;
+    }
+  }
+  return error?.shortMessage ?? error?.message ?? String(error);
+}
+
+/**
+ * Start the mock bundler in front of an anvil node
+ */
+export async function startMockBundler(rpcUrl: string, options: { port?: number } = {}): Promise<MockBundler> {
+  const account = privateKeyToAccount(BUNDLER_PRIVATE_KEY);
+  const publicClient = createPublicClient({ chain: foundry, transport: http(rpcUrl) });
+  const walletClient = createWalletClient({ account, chain: foundry, transport: http(rpcUrl) });
+  const chainId = await publicClient.getChainId();
+  const userOperations = new Map<Hex, StoredUserOperation>();
+
+  const forward = async (method: string, params: unknown[]) =>
+    publicClient.request({ method: method as any, params: params as any });
+
+  async function sendUserOperation(rpcUserOperation: RpcUserOperation, entryPoint: Address): Promise<Hex> {
+    if (entryPoint.toLowerCase() !== entryPoint07Address.toLowerCase()) {
+      throw new RpcError(-32602, `Unsupported EntryPoint ${entryPoint} (only ${entryPoint07Address})`);
+    }
+    const userOperation = formatUserOperation(rpcUserOperation);
+    const userOpHash = getUserOperationHash({
+      chainId,
+      entryPointAddress: entryPoint07Address,
+      entryPointVersion: '0.7',
+      userOperation: userOperation as any,
+    });
+
+    const data = encodeFunctionData({
+      abi: entryPoint07Abi,
+      functionName: 'handleOps',
+      args: [[toPackedUserOperation(userOperation as any)], account.address],
+    });
+
+    // Run the bundle first so validation failures come back as FailedOp reasons
+    try {
+      await publicClient.call({ account: account.address, to: entryPoint07Address, data });
+    } catch (error) {
+      throw new RpcError(USER_OPERATION_REJECTED, describeHandleOpsRevert(error));
+    }
+
+    const transactionHash = await walletClient.sendTransaction({ to: entryPoint07Address, data });
+    await publicClient.waitForTransactionReceipt({ hash: transactionHash });
+    const receipt: any = await publicClient.request({ method: 'eth_getTransactionReceipt', params: [transactionHash] });
+
+    userOperations.set(userOpHash, {
+      userOperation: rpcUserOperation,
+      transactionHash,
+      blockHash: receipt.blockHash,
+      blockNumber: receipt.blockNumber,
+      receipt,
+    });
+    return userOpHash;
+  }
+
+  function userOperationReceipt(userOpHash: Hex) {
+    const stored = userOperations.get(userOpHash);
+    if (!stored) return null;
+
+    const logs = stored.receipt.logs as any[];
+    const [event] = parseEventLogs({ abi: entryPoint07Abi, eventName: 'UserOperationEvent', logs })
+      .filter(log => log.args.userOpHash === userOpHash);
+    const [revert] = parseEventLogs({ abi: entryPoint07Abi, eventName: 'UserOperationRevertReason', logs })
+      .filter(log => log.args.userOpHash === userOpHash);
+
+    return {
+      userOpHash,
+      entryPoint: entryPoint07Address,
+      sender: event.args.sender,
+      nonce: numberToHex(event.args.nonce),
+      paymaster: event.args.paymaster,
+      actualGasCost: numberToHex(event.args.actualGasCost),
+      actualGasUsed: numberToHex(event.args.actualGasUsed),
+      success: event.args.success,
+      reason: revert?.args.revertReason ?? '0x',
+      logs,
+      receipt: stored.receipt,
+    };
+  }
+
+  async function handle(method: string, params: any[]): Promise<unknown> {
+    switch (method) {
+      case 'eth_supportedEntryPoints':
+        return [entryPoint07Address];
+      case 'eth_sendUserOperation':
+        return sendUserOperation(params[0], params[1]);
+      case 'eth_estimateUserOperationGas':
+        return Object.fromEntries(Object.entries(MOCK_GAS_ESTIMATE).map(([key, value]) => [key, numberToHex(value)]));
+      case 'eth_getUserOperationReceipt':
+        return userOperationReceipt(params[0]);
+      case 'eth_getUserOperationByHash': {
+        const stored = userOperations.get(params[0]);
+        return stored ? {
+          userOperation: stored.userOperation,
+          entryPoint: entryPoint07Address,
+          transactionHash: stored.transactionHash,
+          blockHash: stored.blockHash,
+          blockNumber: stored.blockNumber,
+        } : null;
+      }
+      case 'pimlico_getUserOperationGasPrice': {
+        const fees = await publicClient.estimateFeesPerGas();
+        const price = { maxFeePerGas: numberToHex(fees.maxFeePerGas), maxPriorityFeePerGas: numberToHex(fees.maxPriorityFeePerGas) };
+        return { slow: price, standard: price, fast: price };
+      }
+      default:
+        return forward(method, params);
+    }
+  }
+
+  async function respond(request: any) {
+    try {
+      return { jsonrpc: '2.0', id: request.id, result: await handle(request.method, request.params ?? []) };
+    } catch (error: any) {
+      const rpcError = error instanceof RpcError
+        ? error
+        : new RpcError(error?.code ?? -32603, error?.shortMessage ?? error?.message ?? String(error), error?.data);
+      return { jsonrpc: '2.0', id: request.id, error: { code: rpcError.code, message: rpcError.message, data: rpcError.data } };
+    }
+  }
+
+  const server: Server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', async () => {
+      let payload: any;
+      try {
+        payload = JSON.parse(body);
+      } catch {
+        res.writeHead(400).end();
+        return;
+      }
+      const result = Array.isArray(payload) ? await Promise.all(payload.map(respond)) : await respond(payload);
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify(result));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(options.port ?? 0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    address: account.address,
+    stop: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve()))),
+  };
+}
@@ -0,0 +1,242 @@
+/**
+ * Canonical Contracts
+ *
+ * Deploys the ERC-4337 / ERC-7579 infrastructure the scripts expect on a
+ * fresh anvil node, from artifacts committed to the repository:
+ *
+ * - EntryPoint v0.7 and Safe 1.4.1 (singleton, proxy factory): release
+ *   artifacts in fixtures/, deployed through the same CREATE2 factories and
+ *   salts as on live chains, so they land at their canonical addresses
+ * - Safe7579 adapter and launchpad: modulekit's precompiled bytecode
+ *   (lib/modulekit). They cannot reach Rhinestone's addresses, so the local
+ *   chain config points at wherever they were deployed
+ *
+ * The tree has no source for the ERC-7484 registry, OwnableValidator and the
+ * Smart Sessions policies, so modulekit's mocks (out/, from `forge build`)
+ * stand in at their module-sdk addresses, as in modulekit's own test kit:
+ * MockRegistry accepts every module, MockValidator every signature and
+ * MockPolicy every action. The e2e flow does not cover policy enforcement.
+ *
+ * Smart Sessions has no stand-in: modulekit's precompile predates the Session
+ * struct module-sdk encodes. Its runtime code is read once from a live chain
+ * into fixtures/smart-sessions/runtime-code.json (`pnpm e2e:fixtures`) and
+ * etched at the module-sdk address; without that file the session steps are
+ * skipped.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { GLOBAL_CONSTANTS } from '@rhinestone/module-sdk';
+import {
+  Account,
+  Address,
+  Chain,
+  Hex,
+  PublicClient,
+  TestClient,
+  Transport,
+  WalletClient,
+  concat,
+  encodeAbiParameters,
+  getAddress,
+  keccak256,
+} from 'viem';
+import { entryPoint07Address } from 'viem/account-abstraction';
+import { ChainConfig } from '../../../scripts/utils/chains';
+import { loadForgeArtifact, loadModulekitPrecompile } from './artifacts';
+
+/**
+ * Release artifacts, copied unchanged from the npm packages named by their directory
+ */
+export const RELEASE_ARTIFACTS_DIR = join(__dirname, '..', 'fixtures');
+
+/**
+ * Deterministic deployment proxy (CREATE2 with salt ‖ init code), predeployed by anvil
+ */
+export const CREATE2_DEPLOYER_ADDRESS = '0x4e59b44847b379578588920ca78fbf26c0b4956c' as Address;
+
+/**
+ * Salt of the canonical EntryPoint v0.7 deployment
+ */
+export const ENTRYPOINT_07_SALT = '0x90d8084deab30c2a37c45e8d47f49f2f7965183cb6990a98943ef94940681de3' as Hex;
+
+/**
+ * Safe singleton factory; Safe 1.4.1 is deployed through it with salt 0
+ */
+export const SAFE_SINGLETON_FACTORY_ADDRESS = '0x914d7Fec6aaC8cd542e72Bca78B30650d45643d7' as Address;
+
+/**
+ * Safe 1.4.1 singleton and proxy factory (permissionless defaults)
+ */
+export const SAFE_SINGLETON_ADDRESS = '0x41675C099F32341bf84BFc5382aF534df5C7461a' as Address;
+export const SAFE_PROXY_FACTORY_ADDRESS = '0x4e1DCf7AD4e460CfD30791CCC4F9c8a4f820ec67' as Address;
+
+/**
+ * Module-sdk addresses that get modulekit's MockPolicy
+ */
+export const MOCK_POLICY_ADDRESSES: Record<string, Address> = {
+  SudoPolicy: GLOBAL_CONSTANTS.SUDO_POLICY_ADDRESS,
+  TimeFramePolicy: GLOBAL_CONSTANTS.TIME_FRAME_POLICY_ADDRESS,
+  UsageLimitPolicy: GLOBAL_CONSTANTS.USAGE_LIMIT_POLICY_ADDRESS,
+  ValueLimitPolicy: GLOBAL_CONSTANTS.VALUE_LIMIT_POLICY_ADDRESS,
+  UniversalActionPolicy: GLOBAL_CONSTANTS.UNIVERSAL_ACTION_POLICY_ADDRESS,
+};
+
+export const SMART_SESSIONS_FIXTURE_FILE = join(RELEASE_ARTIFACTS_DIR, 'smart-sessions', 'runtime-code.json');
+
+/**
+ * Smart Sessions runtime code read from a live chain
+ */
+export interface SmartSessionsFixture {
+  /** Chain id and block the code was read from */
+  source: { chainId: number; blockNumber: string };
+  address: Address;
+  codeHash: Hex;
+  code: Hex;
+}
+
+/**
+ * Addresses of the contracts that have no canonical deployment on anvil
+ */
+export interface CanonicalDeployment extends Pick<ChainConfig, 'safe7579Adapter' | 'erc7579Launchpad'> {
+  /** Whether Smart Sessions was etched (needs the fixture) */
+  smartSessions: boolean;
+}
+
+export interface CanonicalClients {
+  publicClient: PublicClient;
+  walletClient: WalletClient<Transport, Chain, Account>;
+  testClient: TestClient;
+}
+
+/**
+ * Creation bytecode of a release artifact
+ * @param path Relative to fixtures/, e.g. "safe-contracts-1.4.1/Safe.json"
+ */
+function loadReleaseBytecode(path: string): Hex {
+  return JSON.parse(readFileSync(join(RELEASE_ARTIFACTS_DIR, path), 'utf8')).bytecode;
+}
+
+/**
+ * Send init code through a CREATE2 factory and check it landed at the expected address
+ * @throws if the expected address has no code afterwards
+ */
+async function deployCreate2(clients: CanonicalClients, factory: Address, salt: Hex, bytecode: Hex, expected: Address): Promise<void> {
+  const hash = await clients.walletClient.sendTransaction({ to: factory, data: concat([salt, bytecode]) });
+  await clients.publicClient.waitForTransactionReceipt({ hash });
+
+  const code = await clients.publicClient.getCode({ address: expected });
+  if (!code || code === '0x') {
+    throw new Error(`CREATE2 through ${factory} left no code at ${expected}: the artifact does not match the canonical deployment`);
+  }
+}
+
+/**
+ * Deploy init code from the deployer and return the new address
+ */
+async function deployBytecode(clients: CanonicalClients, bytecode: Hex): Promise<Address> {
+  const hash = await clients.walletClient.deployContract({ abi: [], bytecode });
+  const receipt = await clients.publicClient.waitForTransactionReceipt({ hash });
+  if (!receipt.contractAddress) {
+    throw new Error(`Deployment ${hash} created no contract`);
+  }
+  return receipt.contractAddress;
+}
+
+/**
+ * Place the runtime code of a forge artifact at an address
+ */
+async function etchForgeArtifact(clients: CanonicalClients, address: Address, sourcePath: string, contractName: string): Promise<void> {
+  // eth_call with creation code returns the runtime code
+  const { data } = await clients.publicClient.call({ data: loadForgeArtifact(sourcePath, contractName).bytecode });
+  await clients.testClient.setCode({ address, bytecode: data! });
+}
+
+/**
+ * Replay the presigned deployment of the Safe singleton factory for chain 31337
+ */
+async function deploySafeSingletonFactory(clients: CanonicalClients): Promise<void> {
+  const deployment = JSON.parse(readFileSync(join(RELEASE_ARTIFACTS_DIR, 'safe-singleton-factory-2.0.0', '31337.json'), 'utf8'));
+
+  await clients.testClient.setBalance({
+    address: deployment.signerAddress,
+    value: BigInt(deployment.gasPrice) * BigInt(deployment.gasLimit),
+  });
+  const hash = await clients.publicClient.sendRawTransaction({ serializedTransaction: deployment.transaction });
+  await clients.publicClient.waitForTransactionReceipt({ hash });
+}
+
+/**
+ * Read the Smart Sessions runtime code from a live chain
+ * @throws if it has no code there
+ */
+export async function fetchSmartSessionsFixture(publicClient: PublicClient): Promise<SmartSessionsFixture> {
+  const chainId = await publicClient.getChainId();
+  const blockNumber = await publicClient.getBlockNumber();
+  const address = getAddress(GLOBAL_CONSTANTS.SMART_SESSIONS_ADDRESS);
+
+  const code = await publicClient.getCode({ address, blockNumber });
+  if (!code || code === '0x') {
+    throw new Error(`Smart Sessions has no code at ${address} on chain ${chainId}`);
+  }
+  return { source: { chainId, blockNumber: blockNumber.toString() }, address, codeHash: keccak256(code), code };
+}
+
+export function saveSmartSessionsFixture(fixture: SmartSessionsFixture, file: string = SMART_SESSIONS_FIXTURE_FILE): void {
+  mkdirSync(dirname(file), { recursive: true });
+  writeFileSync(file, JSON.stringify(fixture, null, 2) + '\n');
+}
+
+/**
+ * Load the Smart Sessions fixture, if it was generated
+ * @throws if it is for another address or corrupted
+ */
+export function loadSmartSessionsFixture(file: string = SMART_SESSIONS_FIXTURE_FILE): SmartSessionsFixture | undefined {
+  if (!existsSync(file)) return undefined;
+
+  const fixture: SmartSessionsFixture = JSON.parse(readFileSync(file, 'utf8'));
+  if (getAddress(fixture.address) !== getAddress(GLOBAL_CONSTANTS.SMART_SESSIONS_ADDRESS)) {
+    throw new Error(`${file} is for ${fixture.address}, module-sdk expects Smart Sessions at ${GLOBAL_CONSTANTS.SMART_SESSIONS_ADDRESS} (re-run \`pnpm e2e:fixtures\`)`);
+  }
+  if (keccak256(fixture.code) !== fixture.codeHash) {
+    throw new Error(`${file}: code does not match its codeHash (re-run \`pnpm e2e:fixtures\`)`);
+  }
+  return fixture;
+}
+
+/**
+ * Deploy the canonical contracts and etch the mocks
+ * @returns where the Safe7579 adapter and launchpad were deployed, and whether Smart Sessions is available
+ */
+export async function deployCanonicalContracts(clients: CanonicalClients): Promise<CanonicalDeployment> {
+  await deployCreate2(clients, CREATE2_DEPLOYER_ADDRESS, ENTRYPOINT_07_SALT,
+    loadReleaseBytecode('account-abstraction-0.7.0/EntryPoint.json'), entryPoint07Address);
+
+  const salt = encodeAbiParameters([{ type: 'uint256' }], [0n]);
+  await deploySafeSingletonFactory(clients);
+  await deployCreate2(clients, SAFE_SINGLETON_FACTORY_ADDRESS, salt,
+    loadReleaseBytecode('safe-contracts-1.4.1/Safe.json'), SAFE_SINGLETON_ADDRESS);
+  await deployCreate2(clients, SAFE_SINGLETON_FACTORY_ADDRESS, salt,
+    loadReleaseBytecode('safe-contracts-1.4.1/SafeProxyFactory.json'), SAFE_PROXY_FACTORY_ADDRESS);
+
+  // The launchpad checks modules against the registry, so it goes in first
+  await etchForgeArtifact(clients, GLOBAL_CONSTANTS.REGISTRY_ADDRESS, 'module-bases/mocks/MockRegistry.sol', 'MockRegistry');
+
+  const safe7579Adapter = await deployBytecode(clients, loadModulekitPrecompile('Safe7579Precompiles.sol', 'SAFE7579_BYTECODE'));
+  const erc7579Launchpad = await deployBytecode(clients, concat([
+    loadModulekitPrecompile('Safe7579Precompiles.sol', 'SAFE7579_LAUNCHPAD_BYTECODE'),
+    encodeAbiParameters([{ type: 'address' }, { type: 'address' }], [entryPoint07Address, GLOBAL_CONSTANTS.REGISTRY_ADDRESS]),
+  ]));
+
+  await etchForgeArtifact(clients, GLOBAL_CONSTANTS.OWNABLE_VALIDATOR_ADDRESS, 'module-bases/mocks/MockValidator.sol', 'MockValidator');
+  for (const address of Object.values(MOCK_POLICY_ADDRESSES)) {
+    await etchForgeArtifact(clients, address, 'module-bases/mocks/MockPolicy.sol', 'MockPolicy');
+  }
+
+  const smartSessions = loadSmartSessionsFixture();
+  if (smartSessions) {
+    await clients.testClient.setCode({ address: smartSessions.address, bytecode: smartSessions.code });
+  }
+
+  return { safe7579Adapter, erc7579Launchpad, smartSessions: smartSessions !== undefined };
+}
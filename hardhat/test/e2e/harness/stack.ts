@@ -0,0 +1,130 @@
+/**
+ * Local Module Stack
+ *
+ * Brings up everything the scripts talk to on a fresh anvil node:
+ *
+ * - canonical ERC-4337 / ERC-7579 contracts (see canonical.ts)
+ * - TargetRegistry and the GuardedExecModuleUpgradeable proxy (forge artifacts)
+ * - MockERC20 and MockDeFiPool from test/mocks as protocol targets
+ * - the mock bundler (see bundler.ts)
+ *
+ * The deployer (anvil account #0) owns the registry and the module.
+ */
+
+import {
+  Address,
+  Hex,
+  createPublicClient,
+  createTestClient,
+  createWalletClient,
+  encodeFunctionData,
+  http,
+  parseEther,
+} from 'viem';
+import { LocalAccount, privateKeyToAccount } from 'viem/accounts';
+import { foundry } from 'viem/chains';
+import { CHAINS, ChainClients, ChainConfig } from '../../../scripts/utils/chains';
+import { AnvilNode, startAnvil } from './anvil';
+import { ForgeArtifact, loadForgeArtifact } from './artifacts';
+import { MockBundler, startMockBundler } from './bundler';
+import { CanonicalDeployment, deployCanonicalContracts } from './canonical';
+
+/**
+ * Anvil default account #0
+ */
+export const DEPLOYER_PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80' as Hex;
+
+export interface LocalStack extends ChainClients {
+  anvil: AnvilNode;
+  bundler: MockBundler;
+  testClient: any;
+  /** Whether Smart Sessions is deployed (see canonical.ts) */
+  smartSessions: boolean;
+  token: { address: Address; abi: ForgeArtifact['abi'] };
+  pool: { address: Address; abi: ForgeArtifact['abi'] };
+  /** Give an address native balance for gas */
+  fund: (address: Address, amount?: bigint) => Promise<void>;
+  stop: () => Promise<void>;
+}
+
+/**
+ * Chain configuration for anvil
+ * @dev Same environment keys and manifest as Base (the scripts' default
+ *      chain); only the viem chain and the Safe7579 addresses differ.
+ */
+export function localChainConfig({ safe7579Adapter, erc7579Launchpad }: CanonicalDeployment): ChainConfig {
+  return { ...CHAINS.base, safe7579Adapter, erc7579Launchpad, name: 'Local', chain: foundry };
+}
+
+/**
+ * Deploy a forge artifact and wait for it
+ */
+async function deploy(publicClient: any, walletClient: any, artifact: ForgeArtifact, args: unknown[] = []): Promise<Address> {
+  const hash = await walletClient.deployContract({ abi: artifact.abi, bytecode: artifact.bytecode, args });
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  if (!receipt.contractAddress) {
+    throw new Error(`Deployment ${hash} created no contract`);
+  }
+  return receipt.contractAddress;
+}
+
+/**
+ * Start anvil and the mock bundler and deploy the module stack
+ */
+export async function deployLocalStack(): Promise<LocalStack> {
+  const anvil = await startAnvil();
+  let bundler: MockBundler | undefined;
+
+  try {
+    const account: LocalAccount = privateKeyToAccount(DEPLOYER_PRIVATE_KEY);
+    const transport = http(anvil.rpcUrl);
+    const publicClient = createPublicClient({ chain: foundry, transport });
+    const walletClient = createWalletClient({ account, chain: foundry, transport });
+    const testClient = createTestClient({ mode: 'anvil', chain: foundry, transport });
+
+    const canonical = await deployCanonicalContracts({ publicClient, walletClient, testClient });
+
+    const registryAddress = await deploy(publicClient, walletClient,
+      loadForgeArtifact('src/registry/TargetRegistry.sol', 'TargetRegistry'), [account.address]);
+
+    const moduleArtifact = loadForgeArtifact('src/module/GuardedExecModuleUpgradeable.sol', 'GuardedExecModuleUpgradeable');
+    const implementation = await deploy(publicClient, walletClient, moduleArtifact);
+    const moduleAddress = await deploy(publicClient, walletClient,
+      loadForgeArtifact('ERC1967/ERC1967Proxy.sol', 'ERC1967Proxy'),
+      [implementation, encodeFunctionData({ abi: moduleArtifact.abi, functionName: 'initialize', args: [registryAddress, account.address] })]);
+
+    const tokenArtifact = loadForgeArtifact('test/mocks/MockERC20.sol', 'MockERC20');
+    const poolArtifact = loadForgeArtifact('test/mocks/MockDeFiPool.sol', 'MockDeFiPool');
+    const tokenAddress = await deploy(publicClient, walletClient, tokenArtifact, ['Mock USD Coin', 'mUSDC', 6]);
+    const poolAddress = await deploy(publicClient, walletClient, poolArtifact);
+
+    bundler = await startMockBundler(anvil.rpcUrl);
+    const started = bundler;
+
+    return {
+      config: localChainConfig(canonical),
+      publicClient,
+      walletClient,
+      account,
+      registryAddress,
+      moduleAddress,
+      anvil,
+      bundler: started,
+      testClient,
+      smartSessions: canonical.smartSessions,
+      token: { address: tokenAddress, abi: tokenArtifact.abi },
+      pool: { address: poolAddress, abi: poolArtifact.abi },
+      fund: async (address, amount = parseEther('10')) => {
+        await testClient.setBalance({ address, value: amount });
+      },
+      stop: async () => {
+        await started.stop();
+        await anvil.stop();
+      },
+    };
+  } catch (error) {
+    await bundler?.stop();
+    await anvil.stop();
+    throw error;
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Audit log indexer against the local stack (see harness/stack.ts)
+ *
+ * Indexes the registry and module events into a temporary database, fails a
+ * sync halfway (the RPC drops transaction lookups), resumes it from the
+ * stored cursors and exports the result as CSV and JSON. The resumed log must
+ * match a sync of the same chain into an empty database.
+ */
+
+import { expect } from 'chai';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Address, Hex, createPublicClient, custom, getAddress, parseAbi, toFunctionSelector } from 'viem';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import { AuditDatabase, getCursor, openAuditDatabase, queryEvents } from '../../scripts/indexer/db';
+import { formatAuditLog } from '../../scripts/indexer/export';
+import { syncAuditLog } from '../../scripts/indexer/sync';
+import { ReadOnlyChainClients } from '../../scripts/utils/chains';
+import { TARGET_REGISTRY_ABI } from '../../scripts/utils/utils';
+import { LocalStack, deployLocalStack } from './harness/stack';
+
+const MODULE_PAUSE_ABI = parseAbi([
+  "function pause() external",
+  "function unpause() external",
+]);
+
+const APPROVE_SELECTOR = toFunctionSelector('function approve(address,uint256)');
+
+describe('audit log indexer (local stack)', function () {
+  let stack: LocalStack;
+  let dir: string;
+  let db: AuditDatabase;
+  let chainId: number;
+  let firstSyncBlock: bigint;
+  let token: Address;
+  const recipient = privateKeyToAccount(generatePrivateKey()).address;
+
+  /**
+   * Block of a mined transaction
+   */
+  async function mined(hash: Hex): Promise<bigint> {
+    return (await stack.publicClient.waitForTransactionReceipt({ hash })).blockNumber;
+  }
+
+  before(async function () {
+    stack = await deployLocalStack();
+    chainId = stack.config.chain.id;
+    // Logs carry checksummed addresses
+    token = getAddress(stack.token.address);
+    dir = mkdtempSync(join(tmpdir(), 'audit-log-'));
+    db = openAuditDatabase(join(dir, 'audit.sqlite'));
+
+    firstSyncBlock = await mined(await stack.walletClient.writeContract({
+      address: stack.registryAddress,
+      abi: TARGET_REGISTRY_ABI,
+      functionName: 'addToWhitelist',
+      args: [[stack.token.address], [APPROVE_SELECTOR]],
+    }));
+  });
+
+  after(async function () {
+    db?.close();
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    await stack?.stop();
+  });
+
+  it('indexes both contracts from their deployment up to a block', async function () {
+    const summary = await syncAuditLog(stack, db, { toBlock: firstSyncBlock, confirmations: 0n });
+
+    expect(summary.registry?.toBlock).to.equal(firstSyncBlock);
+    expect(summary.module?.toBlock).to.equal(firstSyncBlock);
+    expect(getCursor(db, chainId, stack.registryAddress)).to.equal(firstSyncBlock);
+    expect(getCursor(db, chainId, stack.moduleAddress)).to.equal(firstSyncBlock);
+
+    const rows = queryEvents(db, { chainId });
+    expect(rows.map(row => `${row.contract}:${row.eventName}`)).to.include.members([
+      'registry:OwnershipTransferred',
+      'registry:TargetSelectorAdded',
+      'module:Upgraded',
+      'module:OwnershipTransferred',
+    ]);
+
+    const added = rows.find(row => row.eventName === 'TargetSelectorAdded')!;
+    expect(added.blockNumber).to.equal(Number(firstSyncBlock));
+    expect(added.txFrom).to.equal(stack.account.address);
+    expect(added.args).to.deep.equal({ target: token, selector: APPROVE_SELECTOR });
+    expect(added.label).to.equal(`whitelisted: unknown ${token} ${APPROVE_SELECTOR}`);
+  });
+
+  it('keeps the cursors and stored events when a sync fails halfway', async function () {
+    await mined(await stack.walletClient.writeContract({
+      address: stack.registryAddress,
+      abi: TARGET_REGISTRY_ABI,
+      functionName: 'addAllowedERC20TokenRecipient',
+      args: [stack.token.address, [recipient]],
+    }));
+    await mined(await stack.walletClient.writeContract({ address: stack.moduleAddress, abi: MODULE_PAUSE_ABI, functionName: 'pause' }));
+    await mined(await stack.walletClient.writeContract({ address: stack.moduleAddress, abi: MODULE_PAUSE_ABI, functionName: 'unpause' }));
+    const stored = queryEvents(db, { chainId }).length;
+
+    // Logs are fetched, then the RPC drops before their senders are read
+    const flaky: ReadOnlyChainClients = {
+      ...stack,
+      publicClient: createPublicClient({
+        chain: stack.config.chain,
+        transport: custom({
+          request: ({ method, params }) => method === 'eth_getTransactionByHash'
+            ? Promise.reject(new Error("connection reset"))
+            : stack.publicClient.request({ method, params }),
+        }),
+      }),
+    };
+
+    let failure: Error | undefined;
+    try {
+      await syncAuditLog(flaky, db, { confirmations: 0n });
+    } catch (error) {
+      failure = error as Error;
+    }
+    expect(failure?.message).to.contain("connection reset");
+    expect(getCursor(db, chainId, stack.registryAddress)).to.equal(firstSyncBlock);
+    expect(getCursor(db, chainId, stack.moduleAddress)).to.equal(firstSyncBlock);
+    expect(queryEvents(db, { chainId })).to.have.length(stored);
+  });
+
+  it('resumes from the cursors and ends with the same log as a fresh sync', async function () {
+    const head = await stack.publicClient.getBlockNumber({ cacheTime: 0 });
+    const summary = await syncAuditLog(stack, db, { confirmations: 0n });
+
+    expect(summary.registry).to.deep.equal({ fromBlock: firstSyncBlock + 1n, toBlock: head, inserted: 1 });
+    expect(summary.module).to.deep.equal({ fromBlock: firstSyncBlock + 1n, toBlock: head, inserted: 2 });
+    expect(getCursor(db, chainId, stack.registryAddress)).to.equal(head);
+
+    const again = await syncAuditLog(stack, db, { confirmations: 0n });
+    expect(again).to.deep.equal({ registry: null, module: null });
+
+    const fresh = openAuditDatabase(join(dir, 'fresh.sqlite'));
+    try {
+      await syncAuditLog(stack, fresh, { confirmations: 0n });
+      expect(queryEvents(db, { chainId })).to.deep.equal(queryEvents(fresh, { chainId }));
+    } finally {
+      fresh.close();
+    }
+  });
+
+  it('exports the stored log as CSV and JSON', async function () {
+    const rows = queryEvents(db, { chainId });
+
+    const lines = formatAuditLog(rows, 'csv').trimEnd().split('\n');
+    expect(lines[0]).to.equal('chainId,contract,address,blockNumber,time,txHash,txFrom,logIndex,eventName,label,args');
+    expect(lines).to.have.length(rows.length + 1);
+
+    const authorized = lines.find(line => line.includes(',ERC20TokenRecipientAuthorized,'));
+    expect(authorized).to.contain(`authorized ${recipient} for ${token}`);
+    expect(authorized).to.contain(`"{""token"":""${token}"",""recipient"":""${recipient}"",""authorized"":true}"`);
+
+    const exported = JSON.parse(formatAuditLog(rows, 'json'));
+    expect(exported).to.deep.equal(rows.map(row => ({ ...row, time: new Date(row.blockTimestamp * 1000).toISOString() })));
+    expect(rows.filter(row => row.contract === 'module').map(row => row.eventName))
+      .to.deep.equal(['Upgraded', 'OwnershipTransferred', 'Paused', 'Unpaused']);
+  });
+});
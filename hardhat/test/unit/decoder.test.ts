@@ -0,0 +1,210 @@
+/**
+ * Guarded batch decoder (scripts/module/decoder.ts) on fixed calldata
+ *
+ * A supply to Aave (approve + supply) is wrapped layer by layer the way a
+ * session key sends it: executeGuardedBatch, the ERC-7579 execute of the Safe
+ * (single and batch mode) and an EntryPoint v0.7 UserOperation. Each layer
+ * must unwrap back to the same labelled leaf calls.
+ */
+
+import { expect } from 'chai';
+import {
+  Address,
+  Hex,
+  encodeAbiParameters,
+  encodeFunctionData,
+  encodePacked,
+  erc20Abi,
+  pad,
+  parseAbi,
+  zeroAddress,
+} from 'viem';
+import { entryPoint07Address } from 'viem/account-abstraction';
+import { AAVE_POOL_ABI } from '../../scripts/adapters/aave';
+import { DecoderContext, decodeCall, decodeGuardedBatchCalldata, formatDecodedCall } from '../../scripts/module/decoder';
+import { ChainManifest } from '../../scripts/utils/chains';
+import { GUARDED_EXEC_MODULE_ABI } from '../../scripts/utils/utils';
+
+const USDC: Address = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+const AAVE_POOL: Address = '0xA238Dd80C259a72e81d7e4664a9801593F98d1c5';
+const SAFE: Address = '0x1111111111111111111111111111111111111111';
+const MODULE: Address = '0x2222222222222222222222222222222222222222';
+const STRANGER: Address = '0x3333333333333333333333333333333333333333';
+
+const ACCOUNT_ABI = parseAbi([
+  "function execute(bytes32 mode, bytes executionCalldata) external payable",
+]);
+
+const ENTRY_POINT_ABI = parseAbi([
+  "struct PackedUserOperation { address sender; uint256 nonce; bytes initCode; bytes callData; bytes32 accountGasLimits; uint256 preVerificationGas; bytes32 gasFees; bytes paymasterAndData; bytes signature; }",
+  "function handleOps(PackedUserOperation[] ops, address beneficiary) external",
+]);
+
+/** ERC-7579 execution modes: call type in the first byte, default exec type */
+const MODE_SINGLE: Hex = pad('0x00', { dir: 'right' });
+const MODE_BATCH: Hex = pad('0x01', { dir: 'right' });
+
+const manifest: ChainManifest = {
+  protocolManifest: {
+    version: 1,
+    chain: 'base',
+    chainId: 8453,
+    entries: [
+      {
+        protocol: 'ERC20',
+        pool: 'USDC',
+        target: USDC,
+        signature: 'function approve(address,uint256)',
+        selector: '0x095ea7b3',
+        status: 'active',
+        addedOn: null,
+        reason: '',
+        description: 'USDC approve()',
+        paramRules: [],
+      },
+      {
+        protocol: 'AAVE',
+        pool: 'Pool USDC',
+        target: AAVE_POOL,
+        signature: 'function supply(address,uint256,address,uint16)',
+        selector: '0x617ba037',
+        status: 'active',
+        addedOn: null,
+        reason: '',
+        description: 'AAVE Pool USDC - supply()',
+        paramRules: [],
+      },
+    ],
+  },
+  whitelistConfig: [],
+  removeWhitelistConfig: [],
+  recipientConfig: [],
+  removeRecipientConfig: [],
+  approvalCeilingConfig: [],
+  paramRuleConfig: [],
+};
+
+const ctx: DecoderContext = { manifest, moduleAddress: MODULE, tokenDecimals: new Map([[USDC, 6]]) };
+
+const approveCall = { target: USDC, value: 0n, callData: encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [AAVE_POOL, 1_000_000_000n] }) };
+const supplyCall = { target: AAVE_POOL, value: 0n, callData: encodeFunctionData({ abi: AAVE_POOL_ABI, functionName: 'supply', args: [USDC, 1_000_000_000n, SAFE, 0] }) };
+
+const guardedBatch = encodeFunctionData({ abi: GUARDED_EXEC_MODULE_ABI, functionName: 'executeGuardedBatch', args: [[approveCall, supplyCall]] });
+
+const LEAF_LABELS = [
+  'USDC – approve(spender=AAVE Pool USDC, amount=1000 USDC)',
+  'AAVE Pool USDC – supply(asset=USDC, amount=1000 USDC, onBehalfOf=Safe, referralCode=0)',
+];
+
+/**
+ * Safe.execute in single mode: the Safe calls the module with executeGuardedBatch
+ */
+function executeSingle(): { target: Address; data: Hex } {
+  return {
+    target: SAFE,
+    data: encodeFunctionData({
+      abi: ACCOUNT_ABI,
+      functionName: 'execute',
+      args: [MODE_SINGLE, encodePacked(['address', 'uint256', 'bytes'], [MODULE, 0n, guardedBatch])],
+    }),
+  };
+}
+
+describe('guarded batch decoder', function () {
+  it('decodes raw executeGuardedBatch calldata into labelled executions', function () {
+    const decoded = decodeGuardedBatchCalldata({ ...ctx, account: SAFE }, guardedBatch);
+
+    expect(decoded.functionName).to.equal('executeGuardedBatch');
+    expect(decoded.label).to.equal('GuardedExecModule – executeGuardedBatch(2 execution(s))');
+    expect(decoded.calls?.map(call => call.label)).to.deep.equal(LEAF_LABELS);
+    expect(decoded.calls?.every(call => call.inManifest)).to.equal(true);
+
+    const [approve] = decoded.calls!;
+    expect(approve.target).to.equal(USDC);
+    expect(approve.selector).to.equal('0x095ea7b3');
+    expect(approve.args?.map(arg => [arg.name, arg.type, arg.value])).to.deep.equal([
+      ['spender', 'address', AAVE_POOL],
+      ['amount', 'uint256', 1_000_000_000n],
+    ]);
+  });
+
+  it('unwraps a single-mode account execute', function () {
+    const call = executeSingle();
+    expect(call.data.slice(0, 10)).to.equal('0xe9ae5c53');
+
+    const decoded = decodeCall(ctx, call);
+    expect(decoded.label).to.equal('Safe – execute(single, 1 call(s))');
+    expect(decoded.calls).to.have.length(1);
+    expect(decoded.calls![0].target).to.equal(MODULE);
+    expect(decoded.calls![0].label).to.equal('GuardedExecModule – executeGuardedBatch(2 execution(s))');
+    expect(decoded.calls![0].calls?.map(inner => inner.label)).to.deep.equal(LEAF_LABELS);
+  });
+
+  it('unwraps a batch-mode account execute', function () {
+    const executionCalldata = encodeAbiParameters(
+      [{ type: 'tuple[]', components: [{ name: 'target', type: 'address' }, { name: 'value', type: 'uint256' }, { name: 'callData', type: 'bytes' }] }],
+      [[
+        { target: MODULE, value: 0n, callData: guardedBatch },
+        { target: USDC, value: 0n, callData: encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [STRANGER, 5_000_000n] }) },
+      ]]
+    );
+    const decoded = decodeCall(ctx, {
+      target: SAFE,
+      data: encodeFunctionData({ abi: ACCOUNT_ABI, functionName: 'execute', args: [MODE_BATCH, executionCalldata] }),
+    });
+
+    expect(decoded.label).to.equal('Safe – execute(batch, 2 call(s))');
+    expect(decoded.calls![0].calls?.map(inner => inner.label)).to.deep.equal(LEAF_LABELS);
+    expect(decoded.calls![1].label).to.equal(`ERC20 USDC – transfer(recipient=${STRANGER}, amount=5 USDC)`);
+    expect(decoded.calls![1].inManifest).to.equal(false);
+  });
+
+  it('unwraps the UserOperations of handleOps, with the sender as the account', function () {
+    const { data: callData } = executeSingle();
+    const data = encodeFunctionData({
+      abi: ENTRY_POINT_ABI,
+      functionName: 'handleOps',
+      args: [[{
+        sender: SAFE,
+        nonce: 0n,
+        initCode: '0x',
+        callData,
+        accountGasLimits: pad('0x'),
+        preVerificationGas: 0n,
+        gasFees: pad('0x'),
+        paymasterAndData: '0x',
+        signature: '0x',
+      }], zeroAddress],
+    });
+
+    const decoded = decodeCall({ manifest, tokenDecimals: ctx.tokenDecimals }, { target: entryPoint07Address, data });
+    expect(decoded.label).to.equal('EntryPoint – handleOps(1 UserOperation(s))');
+
+    const [account] = decoded.calls!;
+    expect(account.label).to.equal('Safe – execute(single, 1 call(s))');
+    // The module address is taken from the call to executeGuardedBatch
+    expect(account.calls![0].label).to.equal('GuardedExecModule – executeGuardedBatch(2 execution(s))');
+    expect(account.calls![0].calls?.map(inner => inner.label)).to.deep.equal(LEAF_LABELS);
+  });
+
+  it('prints an indented tree and flags calls missing from the manifest', function () {
+    const decoded = decodeGuardedBatchCalldata({ ...ctx, account: SAFE }, encodeFunctionData({
+      abi: GUARDED_EXEC_MODULE_ABI,
+      functionName: 'executeGuardedBatch',
+      args: [[approveCall, { target: USDC, value: 0n, callData: encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [SAFE, 1n] }) }]],
+    }));
+
+    expect(formatDecodedCall(decoded)).to.deep.equal([
+      '- GuardedExecModule – executeGuardedBatch(2 execution(s))',
+      `  - ${LEAF_LABELS[0]}`,
+      '  - ERC20 USDC – transfer(recipient=Safe, amount=0.000001 USDC) ⚠️ not in manifest',
+    ]);
+  });
+
+  it('labels calls it cannot decode instead of throwing', function () {
+    const decoded = decodeCall(ctx, { target: SAFE, data: encodeFunctionData({ abi: ACCOUNT_ABI, functionName: 'execute', args: [pad('0x02', { dir: 'right' }), '0x'] }) });
+
+    expect(decoded.calls).to.equal(undefined);
+    expect(decoded.label).to.match(/^0x1111111111111111111111111111111111111111 – undecodable wrapper 0xe9ae5c53: Unsupported ERC-7579 call type 0x2/);
+  });
+});
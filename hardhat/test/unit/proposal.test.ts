@@ -0,0 +1,115 @@
+/**
+ * Registry Safe proposals (scripts/registry/proposal.ts) without a chain
+ *
+ * Builds a two-call proposal for a 2-of-3 Safe, collects owner signatures out
+ * of order and checks when the execTransaction calldata appears and what it
+ * carries.
+ */
+
+import { expect } from 'chai';
+import { Address, concat, decodeFunctionData, encodeFunctionData, toFunctionSelector } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { addSignature, createSafeProposal, updateExecutionStatus } from '../../scripts/registry/proposal';
+import { getChainConfig } from '../../scripts/utils/chains';
+import {
+  MULTISEND_CALL_ONLY_ADDRESS,
+  SAFE_ABI,
+  SafeOperation,
+  buildSafeTransaction,
+  getSafeTxHash,
+  signSafeTransaction,
+} from '../../scripts/utils/safeTx';
+import { TARGET_REGISTRY_ABI } from '../../scripts/utils/utils';
+
+const config = getChainConfig('base');
+const SAFE: Address = '0x5aFE000000000000000000000000000000000001';
+const REGISTRY: Address = '0x4444444444444444444444444444444444444444';
+const TARGET: Address = '0x2222222222222222222222222222222222222222';
+const APPROVE_SELECTOR = toFunctionSelector('function approve(address,uint256)');
+
+/** anvil accounts 0-3: 0xf39F..., 0x7099..., 0x3C44..., 0x90F7... (not an owner) */
+const [ALICE, BOB, CAROL, MALLORY] = [
+  '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+  '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d',
+  '0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a',
+  '0x7c852118294e51e653712a81e05800f419141751be58f605c371e15141b007a6',
+].map(key => privateKeyToAccount(key as `0x${string}`));
+const OWNERS = [ALICE.address, BOB.address, CAROL.address];
+
+const CALLS = [
+  {
+    to: REGISTRY,
+    value: 0n,
+    data: encodeFunctionData({ abi: TARGET_REGISTRY_ABI, functionName: 'addToWhitelist', args: [[TARGET], [APPROVE_SELECTOR]] }),
+    description: `whitelist ${TARGET} approve`,
+  },
+  {
+    to: REGISTRY,
+    value: 0n,
+    data: encodeFunctionData({ abi: TARGET_REGISTRY_ABI, functionName: 'removeFromWhitelist', args: [[TARGET], [APPROVE_SELECTOR]] }),
+    description: `remove ${TARGET} approve`,
+  },
+];
+
+describe('registry Safe proposals', function () {
+  const tx = buildSafeTransaction(CALLS, 3n);
+
+  it('records the MultiSend Safe transaction and its safeTxHash', function () {
+    const proposal = createSafeProposal(config, SAFE, REGISTRY, CALLS, 3n);
+
+    expect(proposal.chainId).to.equal(config.chain.id);
+    expect(proposal.safeTx).to.deep.include({ to: MULTISEND_CALL_ONLY_ADDRESS, value: '0', operation: SafeOperation.DelegateCall, nonce: '3' });
+    expect(proposal.safeTxHash).to.equal(getSafeTxHash(config.chain.id, SAFE, tx));
+    expect(proposal.typedData.message).to.deep.equal(proposal.safeTx);
+    expect(proposal.calls.map(call => call.description)).to.deep.equal(CALLS.map(call => call.description));
+    expect(proposal.signatures).to.deep.equal([]);
+  });
+
+  it('assembles execTransaction once the threshold is reached, signatures sorted by owner', async function () {
+    const proposal = createSafeProposal(config, SAFE, REGISTRY, CALLS, 3n);
+    const [alice, carol] = await Promise.all([ALICE, CAROL].map(owner => signSafeTransaction(owner, config.chain.id, SAFE, tx)));
+
+    await addSignature(proposal, OWNERS, alice);
+    updateExecutionStatus(proposal, 2n);
+    expect(proposal.execTransaction).to.equal(undefined);
+
+    await addSignature(proposal, OWNERS, carol);
+    await addSignature(proposal, OWNERS, alice);
+    expect(proposal.signatures.map(signature => signature.signer)).to.deep.equal([ALICE.address, CAROL.address]);
+
+    updateExecutionStatus(proposal, 2n);
+    expect(proposal.execTransaction?.to).to.equal(SAFE);
+    const { functionName, args } = decodeFunctionData({ abi: SAFE_ABI, data: proposal.execTransaction!.data });
+    expect(functionName).to.equal('execTransaction');
+    // 0x3C44... (Carol) signs before 0xf39F... (Alice)
+    expect(args).to.deep.equal([
+      tx.to, tx.value, tx.data, tx.operation, tx.safeTxGas, tx.baseGas,
+      tx.gasPrice, tx.gasToken, tx.refundReceiver, concat([carol.signature, alice.signature]),
+    ]);
+
+    // A raised threshold drops the calldata again
+    updateExecutionStatus(proposal, 3n);
+    expect(proposal.execTransaction).to.equal(undefined);
+  });
+
+  it('rejects signatures from non-owners and over another transaction', async function () {
+    const proposal = createSafeProposal(config, SAFE, REGISTRY, CALLS, 3n);
+
+    let failure: Error | undefined;
+    try {
+      await addSignature(proposal, OWNERS, await signSafeTransaction(MALLORY, config.chain.id, SAFE, tx));
+    } catch (error) {
+      failure = error as Error;
+    }
+    expect(failure?.message).to.equal(`${MALLORY.address} is not an owner of Safe ${SAFE}`);
+
+    failure = undefined;
+    try {
+      await addSignature(proposal, OWNERS, await signSafeTransaction(BOB, config.chain.id, SAFE, { ...tx, nonce: 4n }));
+    } catch (error) {
+      failure = error as Error;
+    }
+    expect(failure?.message).to.equal(`Signature of ${BOB.address} does not match safeTxHash ${proposal.safeTxHash}`);
+    expect(proposal.signatures).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Safe transaction helpers (scripts/utils/safeTx.ts)
+ *
+ * The safeTxHash vectors were computed by Safe 1.4.1 itself: the singleton of
+ * test/e2e/fixtures/safe-contracts-1.4.1 etched at SAFE on an anvil chain with
+ * chain id 8453, then getTransactionHash called with the same fields.
+ */
+
+import { expect } from 'chai';
+import { Address, concat, decodeFunctionData, parseAbi, parseEther, size, zeroAddress } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import {
+  MULTISEND_CALL_ONLY_ADDRESS,
+  SAFE_ABI,
+  SafeOperation,
+  buildSafeTransaction,
+  encodeExecTransaction,
+  encodeMultiSend,
+  getSafeTxHash,
+  packSafeSignatures,
+  signSafeTransaction,
+  verifySafeSignature,
+} from '../../scripts/utils/safeTx';
+
+const CHAIN_ID = 8453;
+const SAFE: Address = '0x5aFE000000000000000000000000000000000001';
+const TARGET: Address = '0x2222222222222222222222222222222222222222';
+const OTHER: Address = '0x3333333333333333333333333333333333333333';
+
+/** anvil accounts 0-2: 0xf39F..., 0x7099..., 0x3C44... */
+const OWNERS = [
+  privateKeyToAccount('0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80'),
+  privateKeyToAccount('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d'),
+  privateKeyToAccount('0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a'),
+];
+
+const MULTISEND_ABI = parseAbi([
+  "function multiSend(bytes transactions) external payable",
+]);
+
+const BATCH = [
+  { to: TARGET, value: 0n, data: '0xdeadbeef' as const },
+  { to: OTHER, value: 5n, data: '0x' as const },
+];
+
+describe('Safe transactions', function () {
+  it('hashes a single call like Safe.getTransactionHash', function () {
+    const tx = buildSafeTransaction([{ to: TARGET, value: parseEther('1'), data: '0xdeadbeef' }], 7n);
+
+    expect(tx).to.deep.equal({
+      to: TARGET,
+      value: parseEther('1'),
+      data: '0xdeadbeef',
+      operation: SafeOperation.Call,
+      safeTxGas: 0n,
+      baseGas: 0n,
+      gasPrice: 0n,
+      gasToken: zeroAddress,
+      refundReceiver: zeroAddress,
+      nonce: 7n,
+    });
+    expect(getSafeTxHash(CHAIN_ID, SAFE, tx)).to.equal('0x32347dbf1a1833d250830fb3db854decdc437305ac0939a57cc758823dc2bd0c');
+  });
+
+  it('packs several calls into a MultiSendCallOnly delegatecall', function () {
+    // operation (1 byte) | to (20) | value (32) | data length (32) | data, per call
+    const packed = concat([
+      '0x00', TARGET, `0x${'0'.repeat(64)}`, `0x${'0'.repeat(63)}4`, '0xdeadbeef',
+      '0x00', OTHER, `0x${'0'.repeat(63)}5`, `0x${'0'.repeat(64)}`,
+    ]);
+    const data = encodeMultiSend(BATCH);
+    expect(decodeFunctionData({ abi: MULTISEND_ABI, data }).args[0]).to.equal(packed.toLowerCase());
+    expect(size(packed)).to.equal(2 * 85 + 4);
+
+    const tx = buildSafeTransaction(BATCH, 7n);
+    expect(tx.to).to.equal(MULTISEND_CALL_ONLY_ADDRESS);
+    expect(tx.value).to.equal(0n);
+    expect(tx.data).to.equal(data);
+    expect(tx.operation).to.equal(SafeOperation.DelegateCall);
+    expect(getSafeTxHash(CHAIN_ID, SAFE, tx)).to.equal('0x6b1820aae3027b44076b2bda0209c76c70f4510f2ac234bdaeffca45b6f5dc7e');
+  });
+
+  it('rejects an empty batch', function () {
+    expect(() => buildSafeTransaction([], 0n)).to.throw("A Safe transaction needs at least one call");
+  });
+
+  it('verifies owner signatures against the signer and the transaction', async function () {
+    const tx = buildSafeTransaction(BATCH, 7n);
+    const signature = await signSafeTransaction(OWNERS[0], CHAIN_ID, SAFE, tx);
+
+    expect(signature.signer).to.equal(OWNERS[0].address);
+    expect(size(signature.signature)).to.equal(65);
+    expect(await verifySafeSignature(CHAIN_ID, SAFE, tx, signature)).to.equal(true);
+    expect(await verifySafeSignature(CHAIN_ID, SAFE, tx, { ...signature, signer: OWNERS[1].address })).to.equal(false);
+    expect(await verifySafeSignature(CHAIN_ID, SAFE, { ...tx, nonce: 8n }, signature)).to.equal(false);
+  });
+
+  it('orders signatures by ascending signer address in execTransaction', async function () {
+    const tx = buildSafeTransaction(BATCH, 7n);
+    const signatures = await Promise.all(OWNERS.map(owner => signSafeTransaction(owner, CHAIN_ID, SAFE, tx)));
+    const [first, second, third] = signatures;
+    // 0x3C44... < 0x7099... < 0xf39F...
+    const expected = concat([third.signature, second.signature, first.signature]);
+
+    expect(packSafeSignatures(signatures)).to.equal(expected);
+    expect(packSafeSignatures([second, first, third])).to.equal(expected);
+
+    const { functionName, args } = decodeFunctionData({ abi: SAFE_ABI, data: encodeExecTransaction(tx, signatures) });
+    expect(functionName).to.equal('execTransaction');
+    expect(args).to.deep.equal([
+      tx.to, tx.value, tx.data, tx.operation, tx.safeTxGas, tx.baseGas,
+      tx.gasPrice, tx.gasToken, tx.refundReceiver, expected,
+    ]);
+  });
+});
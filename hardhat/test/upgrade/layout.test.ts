@@ -0,0 +1,155 @@
+/**
+ * Upgrade layout extraction and safety checks, on the forge build-info of the
+ * repository (`forge build --build-info --extra-output storageLayout`)
+ *
+ * MockGuardedExecModuleUpgradeableV2 is checked against the module, and the
+ * candidates of test/mocks/MockUpgradeLayouts.sol against MockUpgradeLayoutV1,
+ * one kind of change each. MockStoragePacking checks the namespace layout the
+ * script computes from the AST against the one solc reports.
+ */
+
+import { expect } from 'chai';
+import { extractLayout, loadBuildInfo } from '../../scripts/upgrade/layout';
+import { UpgradeFinding, checkUpgradeSafety } from '../../scripts/upgrade/safety';
+
+const MODULE = 'src/module/GuardedExecModuleUpgradeable.sol:GuardedExecModuleUpgradeable';
+const MODULE_V2 = 'test/mocks/MockGuardedExecModuleUpgradeableV2.sol:MockGuardedExecModuleUpgradeableV2';
+const MOCKS = 'test/mocks/MockUpgradeLayouts.sol';
+
+const mock = (name: string) => `${MOCKS}:${name}`;
+
+const kinds = (findings: UpgradeFinding[]) => findings.map(finding => `${finding.severity}:${finding.kind}`);
+
+describe('upgrade layout and safety checks (forge build-info)', function () {
+  describe('GuardedExecModuleUpgradeable', function () {
+    it('extracts the registry namespace, its slot constant and the upgrade guards', function () {
+      const layout = extractLayout(MODULE);
+
+      const namespace = layout.namespaces.find(other => other.id === 'zyfai.storage.GuardedExecModule');
+      expect(namespace?.slot).to.equal('0x295e5725ff7abc8ecde20ecacfd357d4e36e80a3400e382495405ddf25fc1100');
+      expect(namespace?.fields.map(field => field.label)).to.deep.equal(['registry', 'outflowLimits']);
+      expect(namespace?.fields[0]).to.deep.equal(
+        { label: 'registry', slot: '0', offset: 0, type: 'contract TargetRegistry', bytes: 20, contract: 'GuardedExecModuleUpgradeable' },
+      );
+      expect(namespace?.fields[1]).to.include({ slot: '1', offset: 0 });
+      expect(layout.slotConstants['GuardedExecModuleUpgradeable.GUARDED_EXEC_MODULE_STORAGE_LOCATION']).to.equal(namespace?.slot);
+      expect(layout.namespaces.map(other => other.id)).to.include.members([
+        'openzeppelin.storage.Ownable',
+        'openzeppelin.storage.Ownable2Step',
+        'openzeppelin.storage.Pausable',
+        'openzeppelin.storage.Initializable',
+      ]);
+      expect(layout.disablesInitializers).to.equal(true);
+      expect(layout.uups).to.equal(true);
+      expect(layout.authorizeUpgrade).to.deep.equal({ contract: 'GuardedExecModuleUpgradeable', modifiers: ['onlyOwner'], guarded: true });
+    });
+
+    it('has no findings against itself', function () {
+      const layout = extractLayout(MODULE);
+      const report = checkUpgradeSafety(layout, layout);
+
+      expect(report.safe).to.equal(true);
+      expect(report.findings).to.deep.equal([]);
+    });
+
+    it('reports the fields MockGuardedExecModuleUpgradeableV2 appends and the state it drops', function () {
+      const report = checkUpgradeSafety(extractLayout(MODULE), extractLayout(MODULE_V2));
+      const added = report.findings.filter(finding => finding.kind === 'added');
+
+      expect(added.map(finding => [finding.severity, finding.location])).to.deep.equal([['info', 'storage'], ['info', 'storage']]);
+      expect(added[0].message).to.contain('upgradeCounter (uint256) appended at slot 0 offset 0');
+      expect(added[1].message).to.contain('upgradeMessage (string) appended at slot 1 offset 0');
+
+      // V2 predates outflow limits and Ownable2Step
+      expect(report.safe).to.equal(false);
+      expect(report.findings.filter(finding => finding.severity === 'error').map(finding => [finding.kind, finding.location])).to.deep.equal([
+        ['removed', 'erc7201:zyfai.storage.GuardedExecModule'],
+        ['namespace-removed', 'erc7201:openzeppelin.storage.Ownable2Step'],
+      ]);
+    });
+  });
+
+  describe('MockUpgradeLayoutV1 candidates', function () {
+    let current: ReturnType<typeof extractLayout>;
+
+    before(function () {
+      current = extractLayout(mock('MockUpgradeLayoutV1'));
+    });
+
+    it('reports appended fields and namespace members as info', function () {
+      const report = checkUpgradeSafety(current, extractLayout(mock('MockUpgradeLayoutV2')));
+
+      expect(report.safe).to.equal(true);
+      expect(report.findings).to.deep.equal([
+        {
+          severity: 'info',
+          kind: 'added',
+          location: 'storage',
+          message: 'MockUpgradeLayoutV2.upgradeCounter (uint256) appended at slot 2 offset 0',
+        },
+        {
+          severity: 'info',
+          kind: 'added',
+          location: 'erc7201:zyfai.storage.MockUpgradeLayout',
+          message: 'MockUpgradeLayoutV2.epoch (uint64) appended at slot 2 offset 0',
+        },
+      ]);
+    });
+
+    it('rejects reordered state variables and a retyped namespace field', function () {
+      const report = checkUpgradeSafety(current, extractLayout(mock('MockUpgradeLayoutReordered')));
+
+      expect(report.safe).to.equal(false);
+      expect(kinds(report.findings)).to.deep.equal(['error:reordered', 'error:reordered', 'error:retyped']);
+      expect(report.findings[0]).to.include({ location: 'storage' });
+      expect(report.findings[0].message).to.contain('counter');
+      expect(report.findings[2]).to.deep.equal({
+        severity: 'error',
+        kind: 'retyped',
+        location: 'erc7201:zyfai.storage.MockUpgradeLayout',
+        message: 'root at slot 1 offset 0 changed type: bytes32 -> uint256',
+      });
+    });
+
+    it('rejects a slot constant that no longer points at the namespace', function () {
+      const report = checkUpgradeSafety(current, extractLayout(mock('MockUpgradeLayoutMovedNamespace')));
+
+      expect(report.safe).to.equal(false);
+      expect(kinds(report.findings)).to.deep.equal(['error:namespace-slot', 'error:namespace-slot']);
+      expect(report.findings[0]).to.include({ location: 'MockUpgradeLayoutV1.MOCK_LAYOUT_STORAGE_LOCATION' });
+      expect(report.findings[1]).to.include({ location: 'erc7201:zyfai.storage.MockUpgradeLayout' });
+    });
+
+    it('rejects a candidate without _disableInitializers and with an unguarded _authorizeUpgrade', function () {
+      const candidate = extractLayout(mock('MockUpgradeLayoutUnguarded'));
+      const report = checkUpgradeSafety(current, candidate);
+
+      expect(candidate.disablesInitializers).to.equal(false);
+      expect(candidate.authorizeUpgrade).to.deep.equal({ contract: 'MockUpgradeLayoutUnguarded', modifiers: [], guarded: false });
+      expect(report.safe).to.equal(false);
+      expect(kinds(report.findings)).to.deep.equal(['error:initializers', 'error:authorize-upgrade']);
+      expect(report.findings[1].location).to.equal('MockUpgradeLayoutUnguarded._authorizeUpgrade');
+    });
+  });
+
+  describe('namespace packing', function () {
+    it('lays out namespace structs the way solc lays out the same struct in linear storage', function () {
+      const contractId = mock('MockStoragePacking');
+      const layout = extractLayout(contractId);
+      const namespace = layout.namespaces.find(other => other.id === 'zyfai.storage.MockStoragePacking');
+      expect(namespace, 'MockStoragePacking namespace').to.not.equal(undefined);
+
+      const { buildInfo, source } = loadBuildInfo(contractId);
+      const { storage, types } = buildInfo.output.contracts[source]['MockStoragePacking'].storageLayout!;
+      const packed = storage.find(item => item.label === 'packed');
+      const solc = types![packed.type].members.map((member: any) => ({
+        label: member.label,
+        slot: member.slot,
+        offset: member.offset,
+        bytes: Number(types![member.type].numberOfBytes),
+      }));
+
+      expect(namespace!.fields.map(({ label, slot, offset, bytes }) => ({ label, slot, offset, bytes }))).to.deep.equal(solc);
+    });
+  });
+});
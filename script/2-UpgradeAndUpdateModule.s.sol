@@ -17,6 +17,7 @@ import { UUPSUpgradeable } from
  * PREREQUISITES:
  * - Set New TARGET_REGISTRY_ADDRESS env variable
  * - Set PROXY_ADDRESS env variable (existing proxy from previous deployment)
+ * - Check the new implementation's storage layout: `pnpm upgrade-check` in hardhat/
  */
 contract UpgradeAndUpdateModule is Script {
     // Existing proxy address (from previous deployment)
@@ -16,8 +16,9 @@ import { TargetRegistry } from "../registry/TargetRegistry.sol";
  *         while maintaining smart account context. Uses UUPS upgradeable pattern.
  * @dev Session keys can execute batch operations on whitelisted target+selector combinations.
  *      All executions maintain smart account context (msg.sender = smart account).
- *      Security: Whitelist validation, ERC20 transfer restrictions, pausable, upgradeable,
- *      two-step ownership transfer for enhanced security.
+ *      Security: Whitelist validation, parameter rules, ERC20 transfer restrictions, approval
+ *      ceilings, per-account token outflow limits, pausable, upgradeable, two-step ownership
+ *      transfer for enhanced security.
  */
 contract GuardedExecModuleUpgradeable is 
     ERC7579ExecutorBase,
@@ -53,10 +54,28 @@ contract GuardedExecModuleUpgradeable is
      */
     uint256 private constant MIN_TRANSFER_LENGTH = 68;
 
+    /**
+     * @notice Approval ceiling requiring the approved amount to be used within the batch
+     * @dev Same value as TargetRegistry.APPROVAL_MATCH_BATCH
+     */
+    uint256 private constant APPROVAL_MATCH_BATCH = type(uint256).max;
+
     /*//////////////////////////////////////////////////////////////
                                STORAGE
     //////////////////////////////////////////////////////////////*/
     
+    /**
+     * @notice Token outflow limit of an account
+     * @dev Packed in two slots. spent counts the transfer and approve amounts of the window that
+     *      started at windowStart; a new window starts with the first outflow after it ends.
+     */
+    struct OutflowLimit {
+        uint128 cap;
+        uint64 window;
+        uint64 windowStart;
+        uint128 spent;
+    }
+
     /// @custom:storage-location erc7201:zyfai.storage.GuardedExecModule
     struct GuardedExecModuleStorage {
         /**
@@ -65,6 +84,11 @@ contract GuardedExecModuleUpgradeable is
          *      Can be updated via updateRegistry for migration.
          */
         TargetRegistry registry;
+        /**
+         * @notice Outflow limits per account and token
+         * @dev Set by the account itself via setOutflowLimit(s). Appended in 2.1.0.
+         */
+        mapping(address account => mapping(address token => OutflowLimit)) outflowLimits;
     }
 
     // keccak256(abi.encode(uint256(keccak256("zyfai.storage.GuardedExecModule")) - 1)) & ~bytes32(uint256(0xff))
@@ -89,6 +113,15 @@ contract GuardedExecModuleUpgradeable is
      */
     event RegistryUpdated(address indexed oldRegistry, address indexed newRegistry);
 
+    /**
+     * @notice Emitted when an account sets or removes an outflow limit
+     * @param account The account the limit applies to
+     * @param token The ERC20 token
+     * @param cap Maximum amount per window (0 = no limit)
+     * @param window Window length in seconds
+     */
+    event OutflowLimitSet(address indexed account, address indexed token, uint256 cap, uint256 window);
+
     /**
      * @notice Emitted after a successful guarded batch execution
      * @param executor The caller that triggered the batch
@@ -134,6 +167,34 @@ contract GuardedExecModuleUpgradeable is
     /// @notice Thrown when calldata is invalid (too short or malformed)
     error InvalidCalldata();
 
+    /// @notice Thrown when an ERC20 approve amount is above the registry's ceiling for the spender
+    /// @param token The ERC20 token address
+    /// @param spender The spender address
+    /// @param amount The approve amount
+    /// @param ceiling The ceiling configured in the registry
+    error ApprovalExceedsCeiling(address token, address spender, uint256 amount, uint256 ceiling);
+
+    /// @notice Thrown when an approval that must be used within the batch is left over
+    /// @param token The ERC20 token address
+    /// @param spender The spender address
+    /// @param allowance The allowance left after execution
+    error ApprovalNotUsed(address token, address spender, uint256 allowance);
+
+    /// @notice Thrown when a call argument does not satisfy a parameter rule of the registry
+    /// @param target The target contract address
+    /// @param selector The function selector
+    /// @param offset Byte offset of the checked word in the arguments
+    error ParamRuleViolated(address target, bytes4 selector, uint256 offset);
+
+    /// @notice Thrown when a transfer or approve exceeds the account's outflow limit for the token
+    /// @param token The ERC20 token address
+    /// @param amount The transfer or approve amount
+    /// @param remaining What is left of the cap in the current window
+    error OutflowLimitExceeded(address token, uint256 amount, uint256 remaining);
+
+    /// @notice Thrown when an outflow limit has a cap but no window
+    error InvalidOutflowWindow();
+
     /*//////////////////////////////////////////////////////////////
                              CONSTRUCTOR
     //////////////////////////////////////////////////////////////*/
@@ -188,7 +249,7 @@ contract GuardedExecModuleUpgradeable is
      * @return Version string
      */
     function version() external pure returns (string memory) {
-        return "2.0.0";
+        return "2.4.0";
     }
 
     /**
@@ -250,11 +311,77 @@ contract GuardedExecModuleUpgradeable is
 
     /**
      * @notice Module uninstallation hook (no-op)
-     * @dev No storage to clean up. Required by ERC7579 interface.
+     * @dev Outflow limits are kept, so uninstalling and reinstalling does not lift them.
+     *      Required by ERC7579 interface.
      * @param data Uninstallation data (unused)
      */
     function onUninstall(bytes calldata data) external override {
-        // No-op: No storage to clean up
+        // No-op: Outflow limits stay in place
+    }
+
+    /**
+     * @notice Set the calling account's outflow limit for a token
+     * @dev Called by the account itself (Safe transaction or UserOperation), not through
+     *      executeGuardedBatch. Transfer and approve amounts of the token executed through
+     *      executeGuardedBatch are counted per window of `window` seconds. A cap of 0 removes the
+     *      limit. Updating a limit keeps what was already spent in the current window.
+     * @param token The ERC20 token address
+     * @param cap Maximum amount per window, in token units (0 = no limit)
+     * @param window Window length in seconds
+     */
+    function setOutflowLimit(address token, uint128 cap, uint64 window) external {
+        _setOutflowLimit(token, cap, window);
+    }
+
+    /**
+     * @notice Set several outflow limits of the calling account
+     * @dev See setOutflowLimit. Arrays are matched by index.
+     * @param tokens The ERC20 token addresses
+     * @param caps Maximum amounts per window
+     * @param windows Window lengths in seconds
+     */
+    function setOutflowLimits(
+        address[] calldata tokens,
+        uint128[] calldata caps,
+        uint64[] calldata windows
+    )
+        external
+    {
+        uint256 length = tokens.length;
+        if (caps.length != length || windows.length != length) revert LengthMismatch();
+
+        for (uint256 i = 0; i < length;) {
+            _setOutflowLimit(tokens[i], caps[i], windows[i]);
+            unchecked {
+                ++i;
+            }
+        }
+    }
+
+    /**
+     * @notice Get an account's outflow limit for a token
+     * @dev When the window has ended, spent is reported as 0 (the next outflow starts a new
+     *      window).
+     * @param account The account address
+     * @param token The ERC20 token address
+     * @return limit The stored limit (cap 0 = no limit)
+     * @return remaining What can still leave in the current window (max uint256 without a limit)
+     */
+    function outflowLimit(
+        address account,
+        address token
+    )
+        external
+        view
+        returns (OutflowLimit memory limit, uint256 remaining)
+    {
+        limit = _getGuardedExecModuleStorage().outflowLimits[account][token];
+        if (limit.cap == 0) return (limit, type(uint256).max);
+
+        if (block.timestamp >= uint256(limit.windowStart) + limit.window) {
+            limit.spent = 0;
+        }
+        remaining = limit.cap > limit.spent ? limit.cap - limit.spent : 0;
     }
     
     /**
@@ -298,14 +425,19 @@ contract GuardedExecModuleUpgradeable is
             if (!reg.whitelist(target, selector)) {
                 revert TargetSelectorNotWhitelisted(target, selector);
             }
+
+            // Security check 1b: Verify the arguments satisfy the target+selector's parameter rules
+            _validateParamRules(target, selector, callData, reg);
             
             // Security check 2 & 3: Validate ERC20 transfer/approve authorization
             // Most common case (non-transfer, non-approve) skips these checks entirely
             // Using else-if to avoid checking both conditions when first matches
             if (selector == TRANSFER_SELECTOR) {
                 _validateERC20Transfer(target, callData, callDataLength, reg);
+                _consumeOutflow(s, target, callData);
             } else if (selector == APPROVE_SELECTOR) {
                 _validateERC20Approve(target, callData, callDataLength, reg);
+                _consumeOutflow(s, target, callData);
             }
             
             unchecked {
@@ -318,6 +450,9 @@ contract GuardedExecModuleUpgradeable is
         // based on the Execution.value fields in the executions array
         _execute(executions);
 
+        // Security check 4: approvals that had to be used within the batch are used up
+        _validateApprovalsUsed(executions, reg);
+
         emit GuardedBatchExecuted(msg.sender, targets, selectors, block.timestamp);
     }
 
@@ -346,6 +481,61 @@ contract GuardedExecModuleUpgradeable is
      * @param newImplementation The address of the new implementation contract
      */
     function _authorizeUpgrade(address newImplementation) internal override onlyOwner { }
+
+    /**
+     * @notice Store an outflow limit of the calling account
+     * @param token The ERC20 token address
+     * @param cap Maximum amount per window (0 = no limit)
+     * @param window Window length in seconds
+     */
+    function _setOutflowLimit(address token, uint128 cap, uint64 window) internal {
+        mapping(address => OutflowLimit) storage limits =
+            _getGuardedExecModuleStorage().outflowLimits[msg.sender];
+
+        if (cap == 0) {
+            delete limits[token];
+        } else {
+            if (window == 0) revert InvalidOutflowWindow();
+            limits[token].cap = cap;
+            limits[token].window = window;
+        }
+
+        emit OutflowLimitSet(msg.sender, token, cap, window);
+    }
+
+    /**
+     * @notice Count a transfer or approve amount against the account's outflow limit
+     * @dev Called after the calldata length was validated (68 bytes). Starts a new window when
+     *      the current one has ended. No-op when the account has no limit for the token.
+     * @param s The module storage
+     * @param token The ERC20 token address
+     * @param callData The encoded transfer/approve(address, uint256 amount) call data
+     */
+    function _consumeOutflow(
+        GuardedExecModuleStorage storage s,
+        address token,
+        bytes calldata callData
+    )
+        internal
+    {
+        OutflowLimit storage limit = s.outflowLimits[msg.sender][token];
+        uint256 cap = limit.cap;
+        if (cap == 0) return;
+
+        uint256 spent = limit.spent;
+        if (block.timestamp >= uint256(limit.windowStart) + limit.window) {
+            limit.windowStart = uint64(block.timestamp);
+            spent = 0;
+        }
+
+        // Amount is the second argument (bytes 36-67)
+        uint256 amount = uint256(bytes32(callData[36:68]));
+        uint256 remaining = cap > spent ? cap - spent : 0;
+        if (amount > remaining) revert OutflowLimitExceeded(token, amount, remaining);
+
+        // spent + amount <= cap, which fits in uint128
+        limit.spent = uint128(spent + amount);
+    }
     
     /**
      * @notice Validate ERC20 transfer authorization
@@ -377,10 +567,50 @@ contract GuardedExecModuleUpgradeable is
         }
     }
 
+    /**
+     * @notice Validate the call arguments against the registry's parameter rules
+     * @dev Each rule compares the 32-byte word at its offset (after the selector) with the
+     *      smart account (msg.sender) or a constant. Calldata too short for a word fails the rule.
+     * @param target The target contract address
+     * @param selector The function selector
+     * @param callData The full call data
+     * @param reg The cached registry instance
+     */
+    function _validateParamRules(
+        address target,
+        bytes4 selector,
+        bytes calldata callData,
+        TargetRegistry reg
+    )
+        internal
+        view
+    {
+        TargetRegistry.ParamRule[] memory rules = reg.getParamRules(target, selector);
+        uint256 length = rules.length;
+        for (uint256 i = 0; i < length;) {
+            TargetRegistry.ParamRule memory rule = rules[i];
+            uint256 start = MIN_SELECTOR_LENGTH + rule.offset;
+            if (callData.length < start + 32) revert ParamRuleViolated(target, selector, rule.offset);
+
+            bytes32 expected = rule.condition == TargetRegistry.ParamCondition.EQUALS_ACCOUNT
+                ? bytes32(uint256(uint160(msg.sender)))
+                : rule.value;
+            if (bytes32(callData[start:start + 32]) != expected) {
+                revert ParamRuleViolated(target, selector, rule.offset);
+            }
+            unchecked {
+                ++i;
+            }
+        }
+    }
+
     /**
      * @notice Validate ERC20 approve authorization
      * @dev Validates calldata format and checks if approve spender is whitelisted.
-     *      Spender must be a whitelisted target address in the registry (trusted DeFi contract).
+     *      Spender must be a whitelisted target address in the registry (trusted DeFi contract),
+     *      unless the amount is 0 (revocation).
+     *      The amount must not exceed the registry's approval ceiling for the token+spender
+     *      (APPROVAL_MATCH_BATCH ceilings are checked after execution).
      * @param token The ERC20 token address
      * @param callData The encoded approve(address spender, uint256 amount) call data
      * @param callDataLength The length of callData (cached to avoid repeated calldata loads)
@@ -401,11 +631,48 @@ contract GuardedExecModuleUpgradeable is
         // Extract spender address from calldata (bytes 16-35, ignoring 12-byte padding)
         address spender = address(bytes20(callData[16:36]));
 
+        // Amount is the second argument (bytes 36-67)
+        uint256 amount = uint256(bytes32(callData[36:68]));
+
+        // Revoking an allowance is always allowed, also for spenders no longer whitelisted
+        if (amount == 0) return;
+
         // Check if spender is whitelisted as a target address (trusted contract)
         // Spender must be in the whitelistedTargets mapping (has at least one selector whitelisted)
         // Using auto-generated getter from public mapping to avoid duplicate bytecode
         if (!reg.whitelistedTargets(spender)) {
             revert UnauthorizedERC20Approve(token, spender);
         }
+
+        uint256 ceiling = reg.approvalCeilings(token, spender);
+        if (ceiling != 0 && ceiling != APPROVAL_MATCH_BATCH && amount > ceiling) {
+            revert ApprovalExceedsCeiling(token, spender, amount, ceiling);
+        }
+    }
+
+    /**
+     * @notice Check that approvals with an APPROVAL_MATCH_BATCH ceiling were used up
+     * @dev Runs after execution: the allowance of each such approve must be back to 0, i.e. the
+     *      batch used exactly the approved amount. Calldata lengths were validated before
+     *      execution. Kept out of the validation loop to avoid extra stack variables there.
+     * @param executions The executed batch
+     * @param reg The cached registry instance
+     */
+    function _validateApprovalsUsed(Execution[] calldata executions, TargetRegistry reg) internal view {
+        uint256 length = executions.length;
+        for (uint256 i = 0; i < length;) {
+            bytes calldata callData = executions[i].callData;
+            if (bytes4(callData[:4]) == APPROVE_SELECTOR) {
+                address token = executions[i].target;
+                address spender = address(bytes20(callData[16:36]));
+                if (reg.approvalCeilings(token, spender) == APPROVAL_MATCH_BATCH) {
+                    uint256 allowance = IERC20(token).allowance(msg.sender, spender);
+                    if (allowance != 0) revert ApprovalNotUsed(token, spender, allowance);
+                }
+            }
+            unchecked {
+                ++i;
+            }
+        }
     }
 }
@@ -12,12 +12,52 @@ import { ISafeWallet } from "../interfaces/ISafeWallet.sol";
  *         for secure DeFi operations. Owner can directly add/remove whitelisted targets and selectors.
  * @dev Security Features:
  *      - Pausable functionality for emergency stops
+ *      - Optional timelock on additions and loosening ceiling or parameter rule changes (removals stay immediate)
  *      - Only owner can modify whitelist
  *      - Batch operations supported for gas efficiency
  *      - ERC20 transfer recipient authorization for additional security
+ *      - Optional ERC20 approval ceilings per token+spender
+ *      - Optional parameter rules per target+selector (e.g. receiver must be the account)
  *      - Two-step ownership transfer for enhanced security
  */
 contract TargetRegistry is Ownable2Step, Pausable {
+    /*//////////////////////////////////////////////////////////////
+                                 TYPES
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice What a calldata word must equal
+     * @dev EQUALS_ACCOUNT: the smart account executing the batch (address, left-padded).
+     *      EQUALS_CONSTANT: the rule's value.
+     */
+    enum ParamCondition {
+        EQUALS_ACCOUNT,
+        EQUALS_CONSTANT
+    }
+
+    /**
+     * @notice Constraint on one 32-byte word of the call arguments
+     * @param offset Byte offset of the word in the arguments (after the 4-byte selector)
+     * @param condition What the word must equal
+     * @param value Expected word for EQUALS_CONSTANT (0 for EQUALS_ACCOUNT)
+     */
+    struct ParamRule {
+        uint32 offset;
+        ParamCondition condition;
+        bytes32 value;
+    }
+
+    /**
+     * @notice Kind of a timelocked operation (part of its operation id)
+     */
+    enum OperationKind {
+        WHITELIST_ADD,
+        RECIPIENT_ADD,
+        DELAY_DECREASE,
+        CEILING_SET,
+        PARAM_RULES_SET
+    }
+
     /*//////////////////////////////////////////////////////////////
                                 STORAGE
     //////////////////////////////////////////////////////////////*/
@@ -54,6 +94,55 @@ contract TargetRegistry is Ownable2Step, Pausable {
      */
     mapping(address => mapping(address => bool)) public allowedERC20TokenRecipients;
 
+    /**
+     * @notice Approval ceilings: token => spender => ceiling
+     * @dev Enforced by GuardedExecModule on ERC20 approve calls. 0 = no ceiling (any amount),
+     *      APPROVAL_MATCH_BATCH = the batch must use up the approved amount, any other value
+     *      = maximum approve amount.
+     */
+    mapping(address => mapping(address => uint256)) public approvalCeilings;
+
+    /**
+     * @notice Ceiling value requiring the approved amount to be used within the same batch
+     * @dev The module checks after execution that the allowance is back to 0.
+     */
+    uint256 public constant APPROVAL_MATCH_BATCH = type(uint256).max;
+
+    /**
+     * @notice Maximum number of parameter rules per target+selector
+     * @dev Bounds the gas GuardedExecModule spends validating one execution.
+     */
+    uint256 public constant MAX_PARAM_RULES = 8;
+
+    /**
+     * @notice Parameter rules: target => selector => rules
+     * @dev Enforced by GuardedExecModule on every execution of the target+selector. Kept when
+     *      the target+selector is removed from the whitelist (set an empty list to clear).
+     */
+    mapping(address => mapping(bytes4 => ParamRule[])) internal _paramRules;
+
+    /**
+     * @notice Delay in seconds between scheduling and executing an addition
+     * @dev 0 = timelock disabled: addToWhitelist and addAllowedERC20TokenRecipient apply immediately.
+     *      Otherwise additions, and approval ceiling or parameter rule changes that loosen a restriction,
+     *      are scheduled and applied once the delay has passed. Removals, pause and tightening changes
+     *      are always immediate.
+     */
+    uint256 public timelockDelay;
+
+    /**
+     * @notice Maximum timelock delay
+     */
+    uint256 public constant MAX_TIMELOCK_DELAY = 30 days;
+
+    /**
+     * @notice Scheduled operations: operation id => timestamp it was scheduled at
+     * @dev 0 = not scheduled (never scheduled, executed or cancelled). An operation is ready once the
+     *      current timelockDelay has passed since it was scheduled, so raising the delay also postpones
+     *      pending operations (a decrease scheduled under a short delay cannot skip a longer one).
+     */
+    mapping(bytes32 => uint256) public operationScheduledAt;
+
     /*//////////////////////////////////////////////////////////////
                                  EVENTS
     //////////////////////////////////////////////////////////////*/
@@ -82,6 +171,103 @@ contract TargetRegistry is Ownable2Step, Pausable {
         address indexed token, address indexed recipient, bool authorized
     );
 
+    /**
+     * @notice Emitted when an approval ceiling is set or removed
+     * @param token The ERC20 token address
+     * @param spender The spender address
+     * @param ceiling The new ceiling (0 = removed, APPROVAL_MATCH_BATCH = must be used in the batch)
+     */
+    event ApprovalCeilingSet(address indexed token, address indexed spender, uint256 ceiling);
+
+    /**
+     * @notice Emitted when the parameter rules of a target+selector are replaced
+     * @param target The target contract address
+     * @param selector The function selector
+     * @param rules The new rules (empty = removed)
+     */
+    event ParamRulesSet(address indexed target, bytes4 indexed selector, ParamRule[] rules);
+
+    /**
+     * @notice Emitted when a whitelist addition is scheduled
+     * @param operationId The operation id (getOperationId)
+     * @param target The target contract address to whitelist
+     * @param selector The function selector to whitelist
+     * @param executeAfter Timestamp from which the addition can be executed under the current delay
+     */
+    event TargetSelectorScheduled(
+        bytes32 indexed operationId, address indexed target, bytes4 indexed selector, uint256 executeAfter
+    );
+
+    /**
+     * @notice Emitted when an ERC20 recipient authorization is scheduled
+     * @param operationId The operation id (getRecipientOperationId)
+     * @param token The ERC20 token address
+     * @param recipient The recipient address to authorize
+     * @param executeAfter Timestamp from which the authorization can be executed under the current delay
+     */
+    event ERC20TokenRecipientScheduled(
+        bytes32 indexed operationId, address indexed token, address indexed recipient, uint256 executeAfter
+    );
+
+    /**
+     * @notice Emitted when an approval ceiling change is scheduled
+     * @param operationId The operation id (getCeilingOperationId)
+     * @param token The ERC20 token address
+     * @param spender The spender address
+     * @param ceiling The new ceiling
+     * @param executeAfter Timestamp from which the ceiling can be set under the current delay
+     */
+    event ApprovalCeilingScheduled(
+        bytes32 indexed operationId,
+        address indexed token,
+        address indexed spender,
+        uint256 ceiling,
+        uint256 executeAfter
+    );
+
+    /**
+     * @notice Emitted when a parameter rules replacement is scheduled
+     * @param operationId The operation id (getParamRulesOperationId)
+     * @param target The contract address
+     * @param selector The function selector
+     * @param rules The new rules
+     * @param executeAfter Timestamp from which the rules can be set under the current delay
+     */
+    event ParamRulesScheduled(
+        bytes32 indexed operationId,
+        address indexed target,
+        bytes4 indexed selector,
+        ParamRule[] rules,
+        uint256 executeAfter
+    );
+
+    /**
+     * @notice Emitted when a timelock delay decrease is scheduled
+     * @param operationId The operation id (getDelayOperationId)
+     * @param newDelay The new delay in seconds
+     * @param executeAfter Timestamp from which the new delay can be set under the current delay
+     */
+    event TimelockDelayDecreaseScheduled(bytes32 indexed operationId, uint256 newDelay, uint256 executeAfter);
+
+    /**
+     * @notice Emitted when a scheduled operation is executed
+     * @param operationId The operation id
+     */
+    event OperationExecuted(bytes32 indexed operationId);
+
+    /**
+     * @notice Emitted when a scheduled operation is cancelled
+     * @param operationId The operation id
+     */
+    event OperationCancelled(bytes32 indexed operationId);
+
+    /**
+     * @notice Emitted when the timelock delay changes
+     * @param oldDelay The previous delay in seconds
+     * @param newDelay The new delay in seconds (0 = timelock disabled)
+     */
+    event TimelockDelaySet(uint256 oldDelay, uint256 newDelay);
+
     /*//////////////////////////////////////////////////////////////
                                  ERRORS
     //////////////////////////////////////////////////////////////*/
@@ -115,6 +301,31 @@ contract TargetRegistry is Ownable2Step, Pausable {
     /// @notice Thrown when array lengths don't match (e.g., targets and selectors arrays)
     error LengthMismatch();
 
+    /// @notice Thrown when more than MAX_PARAM_RULES rules are set for a target+selector
+    error TooManyParamRules();
+
+    /// @notice Thrown when an EQUALS_ACCOUNT rule carries a value
+    error InvalidParamRule();
+
+    /// @notice Thrown when an immediate addition is attempted while the timelock is enabled
+    error TimelockActive();
+
+    /// @notice Thrown when a delay is above MAX_TIMELOCK_DELAY, or a scheduled decrease is not a decrease
+    error InvalidDelay();
+
+    /// @notice Thrown when scheduling an operation that is already scheduled
+    /// @param operationId The operation id
+    error OperationAlreadyScheduled(bytes32 operationId);
+
+    /// @notice Thrown when executing or cancelling an operation that is not scheduled
+    /// @param operationId The operation id
+    error OperationNotScheduled(bytes32 operationId);
+
+    /// @notice Thrown when executing an operation before the current delay has passed since scheduling
+    /// @param operationId The operation id
+    /// @param readyAt Timestamp from which the operation can be executed
+    error OperationNotReady(bytes32 operationId, uint256 readyAt);
+
     /*//////////////////////////////////////////////////////////////
                               CONSTRUCTOR
     //////////////////////////////////////////////////////////////*/
@@ -131,7 +342,7 @@ contract TargetRegistry is Ownable2Step, Pausable {
     
     /**
      * @notice Pause the registry (emergency stop)
-     * @dev Blocks addToWhitelist and removeFromWhitelist when paused.
+     * @dev Blocks registry changes when paused, except cancelling scheduled operations.
      */
     function pause() external onlyOwner {
         _pause();
@@ -147,7 +358,8 @@ contract TargetRegistry is Ownable2Step, Pausable {
 
     /**
      * @notice Add target+selector(s) to whitelist (batch operation)
-     * @dev Owner only. Immediate operation. Reverts if contract is paused.
+     * @dev Owner only. Immediate operation. Reverts if contract is paused or the timelock is enabled
+     * (use scheduleAdd and executeAdd).
      * @param targets Array of contract addresses to whitelist
      * @param selectors Array of function selectors to whitelist
      */
@@ -159,6 +371,7 @@ contract TargetRegistry is Ownable2Step, Pausable {
         onlyOwner
         whenNotPaused
     {
+        if (timelockDelay != 0) revert TimelockActive();
         uint256 length = targets.length;
         if (length == 0) revert EmptyBatch();
         if (length != selectors.length) revert LengthMismatch();
@@ -199,8 +412,9 @@ contract TargetRegistry is Ownable2Step, Pausable {
     
     /**
      * @notice Add authorized recipient(s) for a specific ERC20 token (batch operation)
-     * @dev Owner only. Immediate operation. Reverts if contract is paused. Authorizes recipients for ERC20
-     * transfers.
+     * @dev Owner only. Immediate operation. Reverts if contract is paused or the timelock is enabled
+     * (use scheduleAddAllowedERC20TokenRecipient and executeAddAllowedERC20TokenRecipient).
+     * Authorizes recipients for ERC20 transfers.
      * @param token The ERC20 token address
      * @param recipients Array of recipient addresses to authorize
      */
@@ -212,6 +426,7 @@ contract TargetRegistry is Ownable2Step, Pausable {
         onlyOwner
         whenNotPaused
     {
+        if (timelockDelay != 0) revert TimelockActive();
         uint256 length = recipients.length;
         for (uint256 i = 0; i < length;) {
             _addAllowedERC20TokenRecipient(token, recipients[i]);
@@ -244,6 +459,405 @@ contract TargetRegistry is Ownable2Step, Pausable {
         }
     }
     
+    /**
+     * @notice Set approval ceilings for token+spender pairs (batch operation)
+     * @dev Owner only. Reverts if contract is paused. A ceiling of 0 removes the ceiling,
+     * APPROVAL_MATCH_BATCH requires the approved amount to be used within the batch. Adding a ceiling
+     * or lowering a numeric one is immediate. With the timelock enabled, any other change (removing,
+     * raising, switching to or from APPROVAL_MATCH_BATCH) must be scheduled with
+     * scheduleApprovalCeilings and reverts until it is ready.
+     * @param tokens Array of ERC20 token addresses
+     * @param spenders Array of spender addresses
+     * @param ceilings Array of ceilings
+     */
+    function setApprovalCeilings(
+        address[] calldata tokens,
+        address[] calldata spenders,
+        uint256[] calldata ceilings
+    )
+        external
+        onlyOwner
+        whenNotPaused
+    {
+        uint256 length = tokens.length;
+        if (length == 0) revert EmptyBatch();
+        if (length != spenders.length || length != ceilings.length) revert LengthMismatch();
+
+        for (uint256 i = 0; i < length;) {
+            _setApprovalCeiling(tokens[i], spenders[i], ceilings[i]);
+            unchecked {
+                ++i;
+            }
+        }
+    }
+
+    /**
+     * @notice Replace the parameter rules of target+selector pairs (batch operation)
+     * @dev Owner only. Reverts if contract is paused. An empty list removes the rules. Rules can be
+     * set before the target+selector is whitelisted. Appending rules to the current list is
+     * immediate. With the timelock enabled, any other change (removing or replacing rules) must be
+     * scheduled with scheduleParamRules and reverts until it is ready.
+     * @param targets Array of contract addresses
+     * @param selectors Array of function selectors
+     * @param rules Array of rule lists, one per target+selector
+     */
+    function setParamRules(
+        address[] calldata targets,
+        bytes4[] calldata selectors,
+        ParamRule[][] calldata rules
+    )
+        external
+        onlyOwner
+        whenNotPaused
+    {
+        uint256 length = targets.length;
+        if (length == 0) revert EmptyBatch();
+        if (length != selectors.length || length != rules.length) revert LengthMismatch();
+
+        for (uint256 i = 0; i < length;) {
+            _setParamRules(targets[i], selectors[i], rules[i]);
+            unchecked {
+                ++i;
+            }
+        }
+    }
+
+    /**
+     * @notice Parameter rules of a target+selector
+     * @dev Called by GuardedExecModule for every execution. Empty when there are no rules.
+     * @param target The contract address
+     * @param selector The function selector
+     * @return The rules
+     */
+    function getParamRules(address target, bytes4 selector) external view returns (ParamRule[] memory) {
+        return _paramRules[target][selector];
+    }
+
+    /**
+     * @notice Schedule approval ceiling changes for token+spender pairs (batch operation)
+     * @dev Owner only. Reverts if contract is paused. Set with setApprovalCeilings once timelockDelay
+     * has passed.
+     * @param tokens Array of ERC20 token addresses
+     * @param spenders Array of spender addresses
+     * @param ceilings Array of ceilings
+     * @return operationIds The operation id of each change
+     */
+    function scheduleApprovalCeilings(
+        address[] calldata tokens,
+        address[] calldata spenders,
+        uint256[] calldata ceilings
+    )
+        external
+        onlyOwner
+        whenNotPaused
+        returns (bytes32[] memory operationIds)
+    {
+        uint256 length = tokens.length;
+        if (length == 0) revert EmptyBatch();
+        if (length != spenders.length || length != ceilings.length) revert LengthMismatch();
+
+        operationIds = new bytes32[](length);
+        for (uint256 i = 0; i < length;) {
+            operationIds[i] = _scheduleApprovalCeiling(tokens[i], spenders[i], ceilings[i]);
+            unchecked {
+                ++i;
+            }
+        }
+    }
+
+    /**
+     * @notice Schedule parameter rules replacements for target+selector pairs (batch operation)
+     * @dev Owner only. Reverts if contract is paused. Set with setParamRules once timelockDelay has
+     * passed.
+     * @param targets Array of contract addresses
+     * @param selectors Array of function selectors
+     * @param rules Array of rule lists, one per target+selector
+     * @return operationIds The operation id of each replacement
+     */
+    function scheduleParamRules(
+        address[] calldata targets,
+        bytes4[] calldata selectors,
+        ParamRule[][] calldata rules
+    )
+        external
+        onlyOwner
+        whenNotPaused
+        returns (bytes32[] memory operationIds)
+    {
+        uint256 length = targets.length;
+        if (length == 0) revert EmptyBatch();
+        if (length != selectors.length || length != rules.length) revert LengthMismatch();
+
+        operationIds = new bytes32[](length);
+        for (uint256 i = 0; i < length;) {
+            operationIds[i] = _scheduleParamRules(targets[i], selectors[i], rules[i]);
+            unchecked {
+                ++i;
+            }
+        }
+    }
+
+    /**
+     * @notice Schedule the addition of target+selector(s) to the whitelist (batch operation)
+     * @dev Owner only. Reverts if contract is paused. Executable with executeAdd once timelockDelay
+     * has passed.
+     * @param targets Array of contract addresses to whitelist
+     * @param selectors Array of function selectors to whitelist
+     * @return operationIds The operation id of each target+selector
+     */
+    function scheduleAdd(
+        address[] calldata targets,
+        bytes4[] calldata selectors
+    )
+        external
+        onlyOwner
+        whenNotPaused
+        returns (bytes32[] memory operationIds)
+    {
+        uint256 length = targets.length;
+        if (length == 0) revert EmptyBatch();
+        if (length != selectors.length) revert LengthMismatch();
+
+        operationIds = new bytes32[](length);
+        for (uint256 i = 0; i < length;) {
+            operationIds[i] = _scheduleAdd(targets[i], selectors[i]);
+            unchecked {
+                ++i;
+            }
+        }
+    }
+
+    /**
+     * @notice Execute scheduled whitelist additions (batch operation)
+     * @dev Owner only. Reverts if contract is paused or any addition is not scheduled or not ready.
+     * @param targets Array of contract addresses to whitelist
+     * @param selectors Array of function selectors to whitelist
+     */
+    function executeAdd(
+        address[] calldata targets,
+        bytes4[] calldata selectors
+    )
+        external
+        onlyOwner
+        whenNotPaused
+    {
+        uint256 length = targets.length;
+        if (length == 0) revert EmptyBatch();
+        if (length != selectors.length) revert LengthMismatch();
+
+        for (uint256 i = 0; i < length;) {
+            _executeOperation(getOperationId(targets[i], selectors[i]));
+            _addToWhitelist(targets[i], selectors[i]);
+            unchecked {
+                ++i;
+            }
+        }
+    }
+
+    /**
+     * @notice Schedule the authorization of recipient(s) for a specific ERC20 token (batch operation)
+     * @dev Owner only. Reverts if contract is paused. Executable with
+     * executeAddAllowedERC20TokenRecipient once timelockDelay has passed.
+     * @param token The ERC20 token address
+     * @param recipients Array of recipient addresses to authorize
+     * @return operationIds The operation id of each recipient
+     */
+    function scheduleAddAllowedERC20TokenRecipient(
+        address token,
+        address[] calldata recipients
+    )
+        external
+        onlyOwner
+        whenNotPaused
+        returns (bytes32[] memory operationIds)
+    {
+        uint256 length = recipients.length;
+        operationIds = new bytes32[](length);
+        for (uint256 i = 0; i < length;) {
+            operationIds[i] = _scheduleAddAllowedERC20TokenRecipient(token, recipients[i]);
+            unchecked {
+                ++i;
+            }
+        }
+    }
+
+    /**
+     * @notice Execute scheduled recipient authorizations for a specific ERC20 token (batch operation)
+     * @dev Owner only. Reverts if contract is paused or any authorization is not scheduled or not ready.
+     * @param token The ERC20 token address
+     * @param recipients Array of recipient addresses to authorize
+     */
+    function executeAddAllowedERC20TokenRecipient(
+        address token,
+        address[] calldata recipients
+    )
+        external
+        onlyOwner
+        whenNotPaused
+    {
+        uint256 length = recipients.length;
+        for (uint256 i = 0; i < length;) {
+            _executeOperation(getRecipientOperationId(token, recipients[i]));
+            _addAllowedERC20TokenRecipient(token, recipients[i]);
+            unchecked {
+                ++i;
+            }
+        }
+    }
+
+    /**
+     * @notice Cancel scheduled operations (batch operation)
+     * @dev Owner only. Allowed while paused.
+     * @param operationIds Array of operation ids to cancel
+     */
+    function cancelOperation(bytes32[] calldata operationIds) external onlyOwner {
+        uint256 length = operationIds.length;
+        if (length == 0) revert EmptyBatch();
+
+        for (uint256 i = 0; i < length;) {
+            bytes32 operationId = operationIds[i];
+            if (operationScheduledAt[operationId] == 0) revert OperationNotScheduled(operationId);
+            delete operationScheduledAt[operationId];
+            emit OperationCancelled(operationId);
+            unchecked {
+                ++i;
+            }
+        }
+    }
+
+    /**
+     * @notice Schedule a decrease of the timelock delay
+     * @dev Owner only. Reverts if contract is paused. The decrease waits for the current delay, so the
+     * timelock cannot be switched off in one transaction. Set with setTimelockDelay once ready.
+     * @param newDelay The new delay in seconds (0 disables the timelock)
+     * @return operationId The operation id (getDelayOperationId)
+     */
+    function scheduleTimelockDelay(uint256 newDelay)
+        external
+        onlyOwner
+        whenNotPaused
+        returns (bytes32 operationId)
+    {
+        if (newDelay >= timelockDelay) revert InvalidDelay();
+
+        operationId = getDelayOperationId(newDelay);
+        uint256 executeAfter = _schedule(operationId);
+        emit TimelockDelayDecreaseScheduled(operationId, newDelay, executeAfter);
+    }
+
+    /**
+     * @notice Set the timelock delay
+     * @dev Owner only. Reverts if contract is paused. Increases apply immediately, decreases must be
+     * scheduled with scheduleTimelockDelay first and wait for the delay in force when they are set.
+     * @param newDelay The new delay in seconds (0 disables the timelock)
+     */
+    function setTimelockDelay(uint256 newDelay) external onlyOwner whenNotPaused {
+        if (newDelay > MAX_TIMELOCK_DELAY) revert InvalidDelay();
+
+        uint256 oldDelay = timelockDelay;
+        if (newDelay < oldDelay) {
+            _executeOperation(getDelayOperationId(newDelay));
+        }
+        timelockDelay = newDelay;
+        emit TimelockDelaySet(oldDelay, newDelay);
+    }
+
+    /**
+     * @notice Check if an operation is scheduled
+     * @param operationId The operation id
+     * @return True if the operation is scheduled (ready or not)
+     */
+    function isOperationPending(bytes32 operationId) external view returns (bool) {
+        return operationScheduledAt[operationId] != 0;
+    }
+
+    /**
+     * @notice Check if a scheduled operation can be executed
+     * @param operationId The operation id
+     * @return True if the operation is scheduled and the current delay has passed
+     */
+    function isOperationReady(bytes32 operationId) external view returns (bool) {
+        uint256 readyAt = operationReadyAt(operationId);
+        return readyAt != 0 && block.timestamp >= readyAt;
+    }
+
+    /**
+     * @notice Timestamp from which a scheduled operation can be executed under the current delay
+     * @param operationId The operation id
+     * @return The timestamp (0 when the operation is not scheduled)
+     */
+    function operationReadyAt(bytes32 operationId) public view returns (uint256) {
+        uint256 scheduledAt = operationScheduledAt[operationId];
+        return scheduledAt == 0 ? 0 : scheduledAt + timelockDelay;
+    }
+
+    /**
+     * @notice Operation id of a whitelist addition
+     * @param target The contract address
+     * @param selector The function selector
+     * @return The operation id
+     */
+    function getOperationId(address target, bytes4 selector) public pure returns (bytes32) {
+        return keccak256(abi.encode(OperationKind.WHITELIST_ADD, target, selector));
+    }
+
+    /**
+     * @notice Operation id of an ERC20 recipient authorization
+     * @param token The ERC20 token address
+     * @param recipient The recipient address
+     * @return The operation id
+     */
+    function getRecipientOperationId(address token, address recipient) public pure returns (bytes32) {
+        return keccak256(abi.encode(OperationKind.RECIPIENT_ADD, token, recipient));
+    }
+
+    /**
+     * @notice Operation id of a timelock delay decrease
+     * @param newDelay The new delay in seconds
+     * @return The operation id
+     */
+    function getDelayOperationId(uint256 newDelay) public pure returns (bytes32) {
+        return keccak256(abi.encode(OperationKind.DELAY_DECREASE, newDelay));
+    }
+
+    /**
+     * @notice Operation id of an approval ceiling change
+     * @param token The ERC20 token address
+     * @param spender The spender address
+     * @param ceiling The new ceiling
+     * @return The operation id
+     */
+    function getCeilingOperationId(
+        address token,
+        address spender,
+        uint256 ceiling
+    )
+        public
+        pure
+        returns (bytes32)
+    {
+        return keccak256(abi.encode(OperationKind.CEILING_SET, token, spender, ceiling));
+    }
+
+    /**
+     * @notice Operation id of a parameter rules replacement
+     * @param target The contract address
+     * @param selector The function selector
+     * @param rules The new rules
+     * @return The operation id
+     */
+    function getParamRulesOperationId(
+        address target,
+        bytes4 selector,
+        ParamRule[] calldata rules
+    )
+        public
+        pure
+        returns (bytes32)
+    {
+        return keccak256(abi.encode(OperationKind.PARAM_RULES_SET, target, selector, rules));
+    }
+
     /**
      * @notice Check if an ERC20 transfer to a specific recipient is authorized
      * @dev Called by GuardedExecModule. Authorized if recipient is: explicitly authorized, wallet
@@ -353,6 +967,230 @@ contract TargetRegistry is Ownable2Step, Pausable {
         emit ERC20TokenRecipientAuthorized(token, recipient, false);
     }
     
+    /**
+     * @notice Internal function to set the approval ceiling of a token+spender pair
+     * @dev Validates inputs and stores the ceiling. Called by setApprovalCeilings batch function.
+     * @param token The ERC20 token address
+     * @param spender The spender address
+     * @param ceiling The ceiling (0 = no ceiling)
+     */
+    function _setApprovalCeiling(address token, address spender, uint256 ceiling) internal {
+        if (token == address(0)) revert InvalidERC20Token();
+        if (spender == address(0)) revert InvalidTarget();
+
+        if (timelockDelay != 0 && !_isCeilingTightening(approvalCeilings[token][spender], ceiling)) {
+            _executeOperation(getCeilingOperationId(token, spender, ceiling));
+        }
+
+        approvalCeilings[token][spender] = ceiling;
+        emit ApprovalCeilingSet(token, spender, ceiling);
+    }
+
+    /**
+     * @notice Internal function to replace the parameter rules of a target+selector
+     * @dev Validates inputs and stores the rules. Called by setParamRules batch function.
+     * @param target The contract address
+     * @param selector The function selector
+     * @param rules The new rules
+     */
+    function _setParamRules(address target, bytes4 selector, ParamRule[] calldata rules) internal {
+        if (target == address(0)) revert InvalidTarget();
+        if (selector == bytes4(0)) revert InvalidSelector();
+        uint256 length = rules.length;
+        if (length > MAX_PARAM_RULES) revert TooManyParamRules();
+
+        ParamRule[] storage stored = _paramRules[target][selector];
+        if (timelockDelay != 0 && !_extendsParamRules(stored, rules)) {
+            _executeOperation(getParamRulesOperationId(target, selector, rules));
+        }
+
+        delete _paramRules[target][selector];
+        for (uint256 i = 0; i < length;) {
+            if (rules[i].condition == ParamCondition.EQUALS_ACCOUNT && rules[i].value != bytes32(0)) {
+                revert InvalidParamRule();
+            }
+            stored.push(rules[i]);
+            unchecked {
+                ++i;
+            }
+        }
+        emit ParamRulesSet(target, selector, rules);
+    }
+
+    /**
+     * @notice Internal function to schedule an approval ceiling change
+     * @dev Validates inputs and schedules the operation. Called by scheduleApprovalCeilings batch
+     * function.
+     * @param token The ERC20 token address
+     * @param spender The spender address
+     * @param ceiling The new ceiling
+     * @return operationId The operation id
+     */
+    function _scheduleApprovalCeiling(
+        address token,
+        address spender,
+        uint256 ceiling
+    )
+        internal
+        returns (bytes32 operationId)
+    {
+        if (token == address(0)) revert InvalidERC20Token();
+        if (spender == address(0)) revert InvalidTarget();
+
+        operationId = getCeilingOperationId(token, spender, ceiling);
+        uint256 executeAfter = _schedule(operationId);
+        emit ApprovalCeilingScheduled(operationId, token, spender, ceiling, executeAfter);
+    }
+
+    /**
+     * @notice Internal function to schedule a parameter rules replacement
+     * @dev Validates inputs and schedules the operation. Called by scheduleParamRules batch function.
+     * @param target The contract address
+     * @param selector The function selector
+     * @param rules The new rules
+     * @return operationId The operation id
+     */
+    function _scheduleParamRules(
+        address target,
+        bytes4 selector,
+        ParamRule[] calldata rules
+    )
+        internal
+        returns (bytes32 operationId)
+    {
+        if (target == address(0)) revert InvalidTarget();
+        if (selector == bytes4(0)) revert InvalidSelector();
+        uint256 length = rules.length;
+        if (length > MAX_PARAM_RULES) revert TooManyParamRules();
+        for (uint256 i = 0; i < length;) {
+            if (rules[i].condition == ParamCondition.EQUALS_ACCOUNT && rules[i].value != bytes32(0)) {
+                revert InvalidParamRule();
+            }
+            unchecked {
+                ++i;
+            }
+        }
+
+        operationId = getParamRulesOperationId(target, selector, rules);
+        uint256 executeAfter = _schedule(operationId);
+        emit ParamRulesScheduled(operationId, target, selector, rules, executeAfter);
+    }
+
+    /**
+     * @notice Internal function to schedule a whitelist addition
+     * @dev Validates inputs and schedules the operation. Called by scheduleAdd batch function.
+     * @param target The contract address to whitelist
+     * @param selector The function selector to whitelist
+     * @return operationId The operation id
+     */
+    function _scheduleAdd(address target, bytes4 selector) internal returns (bytes32 operationId) {
+        if (target == address(0)) revert InvalidTarget();
+        if (selector == bytes4(0)) revert InvalidSelector();
+        if (whitelist[target][selector]) revert AlreadyWhitelisted();
+
+        operationId = getOperationId(target, selector);
+        uint256 executeAfter = _schedule(operationId);
+        emit TargetSelectorScheduled(operationId, target, selector, executeAfter);
+    }
+
+    /**
+     * @notice Internal function to schedule an ERC20 recipient authorization
+     * @dev Validates inputs and schedules the operation. Called by
+     * scheduleAddAllowedERC20TokenRecipient batch function.
+     * @param token The ERC20 token address
+     * @param recipient The recipient address to authorize
+     * @return operationId The operation id
+     */
+    function _scheduleAddAllowedERC20TokenRecipient(
+        address token,
+        address recipient
+    )
+        internal
+        returns (bytes32 operationId)
+    {
+        if (token == address(0)) revert InvalidERC20Token();
+        if (recipient == address(0)) revert InvalidRecipient();
+        if (allowedERC20TokenRecipients[token][recipient]) revert AlreadyWhitelisted();
+
+        operationId = getRecipientOperationId(token, recipient);
+        uint256 executeAfter = _schedule(operationId);
+        emit ERC20TokenRecipientScheduled(operationId, token, recipient, executeAfter);
+    }
+
+    /**
+     * @notice Internal function to record a scheduled operation
+     * @param operationId The operation id
+     * @return executeAfter Timestamp from which the operation can be executed under the current delay
+     */
+    function _schedule(bytes32 operationId) internal returns (uint256 executeAfter) {
+        if (operationScheduledAt[operationId] != 0) revert OperationAlreadyScheduled(operationId);
+
+        operationScheduledAt[operationId] = block.timestamp;
+        executeAfter = block.timestamp + timelockDelay;
+    }
+
+    /**
+     * @notice Internal function to consume a scheduled operation that is ready
+     * @dev Measured against the current delay: for a delay decrease, the delay being replaced.
+     * @param operationId The operation id
+     */
+    function _executeOperation(bytes32 operationId) internal {
+        uint256 scheduledAt = operationScheduledAt[operationId];
+        if (scheduledAt == 0) revert OperationNotScheduled(operationId);
+        uint256 readyAt = scheduledAt + timelockDelay;
+        if (block.timestamp < readyAt) revert OperationNotReady(operationId, readyAt);
+
+        delete operationScheduledAt[operationId];
+        emit OperationExecuted(operationId);
+    }
+
+    /**
+     * @notice Internal function to check if an approval ceiling change only tightens it
+     * @dev Tightening: unchanged, a ceiling added where there was none, or a lower numeric ceiling.
+     * @param current The current ceiling
+     * @param ceiling The new ceiling
+     * @return True if the change can apply without the timelock
+     */
+    function _isCeilingTightening(uint256 current, uint256 ceiling) internal pure returns (bool) {
+        if (ceiling == current || current == 0) return true;
+        if (ceiling == 0 || current == APPROVAL_MATCH_BATCH || ceiling == APPROVAL_MATCH_BATCH) {
+            return false;
+        }
+        return ceiling < current;
+    }
+
+    /**
+     * @notice Internal function to check if new parameter rules keep every current rule
+     * @dev True when the current rules are a prefix of the new ones (rules are only appended).
+     * @param current The current rules
+     * @param rules The new rules
+     * @return True if the change can apply without the timelock
+     */
+    function _extendsParamRules(
+        ParamRule[] storage current,
+        ParamRule[] calldata rules
+    )
+        internal
+        view
+        returns (bool)
+    {
+        uint256 length = current.length;
+        if (rules.length < length) return false;
+        for (uint256 i = 0; i < length;) {
+            ParamRule storage rule = current[i];
+            if (
+                rule.offset != rules[i].offset || rule.condition != rules[i].condition
+                    || rule.value != rules[i].value
+            ) {
+                return false;
+            }
+            unchecked {
+                ++i;
+            }
+        }
+        return true;
+    }
+
     /**
      * @notice Internal function to check if recipient is authorized for ERC20 transfers
      * @dev Checks authorization: explicitly authorized recipient, smart wallet itself, or wallet
@@ -323,7 +323,7 @@ contract GuardedExecModuleUpgradeableTest is RhinestoneModuleKit, Test {
         
         // Check version
         string memory version = guardedModule.version();
-        assertEq(version, "2.0.0", "Version should be 2.0.0");
+        assertEq(version, "2.4.0", "Version should be 2.4.0");
         
         // Check name
         string memory name = guardedModule.name();
@@ -1101,6 +1101,23 @@ contract GuardedExecModuleUpgradeableTest is RhinestoneModuleKit, Test {
         });
     }
 
+    /**
+     * @notice Test: approve(spender, 0) revokes allowances of spenders that are not whitelisted
+     * @dev Allowances granted before a target was removed from the whitelist can still be revoked
+     */
+    function test_ERC20ApproveZeroRevokesUnauthorizedSpender() public {
+        address formerTarget = makeAddr("formerTarget");
+        vm.prank(smartAccount);
+        usdcToken.approve(formerTarget, 100 * 10 ** 6);
+
+        _execERC20(address(usdcToken), APPROVE_SELECTOR, formerTarget, 0);
+        assertEq(usdcToken.allowance(smartAccount, formerTarget), 0, "Allowance should be revoked");
+
+        // Non-zero amounts still need a whitelisted spender
+        instance.expect4337Revert(GuardedExecModuleUpgradeable.UnauthorizedERC20Approve.selector);
+        _execERC20(address(usdcToken), APPROVE_SELECTOR, formerTarget, 1);
+    }
+
     /**
      * @notice Test: Smart wallet executes transaction with ETH value using its own balance
      * @dev Verifies that when Execution struct contains value > 0, the smart wallet uses its own
@@ -1219,4 +1236,261 @@ contract GuardedExecModuleUpgradeableTest is RhinestoneModuleKit, Test {
             )
         );
     }
+
+    /**
+     * @notice Helper: execute a single ERC20 call through the module from the smart account
+     */
+    function _execERC20(address token, bytes4 selector, address to, uint256 amount) internal {
+        address[] memory targets = new address[](1);
+        bytes[] memory calldatas = new bytes[](1);
+        uint256[] memory values = new uint256[](1);
+
+        targets[0] = token;
+        calldatas[0] = abi.encodeWithSelector(selector, to, amount);
+        values[0] = 0;
+
+        instance.exec({
+            target: address(guardedModule),
+            value: 0,
+            callData: abi.encodeWithSelector(
+                GuardedExecModuleUpgradeable.executeGuardedBatch.selector,
+                _toExecutions(targets, calldatas, values)
+            )
+        });
+    }
+
+    /**
+     * @notice Test: Outflow limit caps transfers per window and resets after the window
+     */
+    function test_OutflowLimitCapsTransfersPerWindow() public {
+        usdcToken.mint(smartAccount, 1000 * 10 ** 6);
+        address owner = mockSafeWallet.getOwners()[1];
+
+        vm.prank(smartAccount);
+        guardedModule.setOutflowLimit(address(usdcToken), 150 * 10 ** 6, 1 days);
+
+        // 100 of 150 USDC
+        _execERC20(address(usdcToken), TRANSFER_SELECTOR, owner, 100 * 10 ** 6);
+
+        (, uint256 remaining) = guardedModule.outflowLimit(smartAccount, address(usdcToken));
+        assertEq(remaining, 50 * 10 ** 6, "50 USDC should remain in the window");
+
+        // Another 100 exceeds the cap
+        instance.expect4337Revert(GuardedExecModuleUpgradeable.OutflowLimitExceeded.selector);
+        _execERC20(address(usdcToken), TRANSFER_SELECTOR, owner, 100 * 10 ** 6);
+
+        // Next window
+        vm.warp(block.timestamp + 1 days);
+        (, remaining) = guardedModule.outflowLimit(smartAccount, address(usdcToken));
+        assertEq(remaining, 150 * 10 ** 6, "Cap should be available again");
+
+        _execERC20(address(usdcToken), TRANSFER_SELECTOR, owner, 100 * 10 ** 6);
+        assertEq(usdcToken.balanceOf(owner), 200 * 10 ** 6, "Two transfers should have gone through");
+    }
+
+    /**
+     * @notice Test: Approvals count toward the same outflow limit as transfers
+     */
+    function test_OutflowLimitCountsApprovals() public {
+        usdcToken.mint(smartAccount, 1000 * 10 ** 6);
+
+        vm.prank(smartAccount);
+        guardedModule.setOutflowLimit(address(usdcToken), 150 * 10 ** 6, 1 days);
+
+        _execERC20(address(usdcToken), APPROVE_SELECTOR, address(uniswapPool), 100 * 10 ** 6);
+
+        instance.expect4337Revert(GuardedExecModuleUpgradeable.OutflowLimitExceeded.selector);
+        _execERC20(address(usdcToken), TRANSFER_SELECTOR, smartAccount, 60 * 10 ** 6);
+
+        // Other tokens are not limited
+        wethToken.mint(smartAccount, 1 ether);
+        _execERC20(address(wethToken), TRANSFER_SELECTOR, smartAccount, 1 ether);
+    }
+
+    /**
+     * @notice Test: Limits are per account, removable and validated
+     */
+    function test_SetOutflowLimits() public {
+        address otherAccount = makeAddr("otherAccount");
+
+        address[] memory tokens = new address[](2);
+        uint128[] memory caps = new uint128[](2);
+        uint64[] memory windows = new uint64[](2);
+        tokens[0] = address(usdcToken);
+        tokens[1] = address(wethToken);
+        caps[0] = 500 * 10 ** 6;
+        caps[1] = 2 ether;
+        windows[0] = 1 days;
+        windows[1] = 7 days;
+
+        vm.prank(smartAccount);
+        guardedModule.setOutflowLimits(tokens, caps, windows);
+
+        (GuardedExecModuleUpgradeable.OutflowLimit memory limit, uint256 remaining) =
+            guardedModule.outflowLimit(smartAccount, address(wethToken));
+        assertEq(limit.cap, 2 ether, "WETH cap should be set");
+        assertEq(limit.window, 7 days, "WETH window should be set");
+        assertEq(remaining, 2 ether, "Nothing spent yet");
+
+        // Another account has no limit
+        (, remaining) = guardedModule.outflowLimit(otherAccount, address(wethToken));
+        assertEq(remaining, type(uint256).max, "Other account should be unlimited");
+
+        // Cap 0 removes the limit
+        vm.prank(smartAccount);
+        guardedModule.setOutflowLimit(address(wethToken), 0, 0);
+        (limit, remaining) = guardedModule.outflowLimit(smartAccount, address(wethToken));
+        assertEq(limit.cap, 0, "WETH limit should be removed");
+        assertEq(remaining, type(uint256).max, "WETH should be unlimited");
+
+        vm.prank(smartAccount);
+        vm.expectRevert(GuardedExecModuleUpgradeable.InvalidOutflowWindow.selector);
+        guardedModule.setOutflowLimit(address(usdcToken), 1, 0);
+
+        uint64[] memory shortWindows = new uint64[](1);
+        vm.prank(smartAccount);
+        vm.expectRevert(GuardedExecModuleUpgradeable.LengthMismatch.selector);
+        guardedModule.setOutflowLimits(tokens, caps, shortWindows);
+    }
+
+    /**
+     * @notice Helper: set one approval ceiling in the registry
+     */
+    function _setApprovalCeiling(address token, address spender, uint256 ceiling) internal {
+        address[] memory tokens = new address[](1);
+        address[] memory spenders = new address[](1);
+        uint256[] memory ceilings = new uint256[](1);
+        tokens[0] = token;
+        spenders[0] = spender;
+        ceilings[0] = ceiling;
+
+        vm.prank(registryOwner);
+        registry.setApprovalCeilings(tokens, spenders, ceilings);
+    }
+
+    /**
+     * @notice Helper: approve aavePool for `approved` USDC and let it pull `pulled` in one batch
+     */
+    function _execApproveAndDeposit(uint256 approved, uint256 pulled) internal {
+        address[] memory targets = new address[](2);
+        bytes[] memory calldatas = new bytes[](2);
+        uint256[] memory values = new uint256[](2);
+
+        targets[0] = address(usdcToken);
+        calldatas[0] = abi.encodeWithSelector(APPROVE_SELECTOR, address(aavePool), approved);
+        targets[1] = address(aavePool);
+        calldatas[1] = abi.encodeWithSelector(MockDeFiPool.depositToken.selector, address(usdcToken), pulled);
+
+        instance.exec({
+            target: address(guardedModule),
+            value: 0,
+            callData: abi.encodeWithSelector(
+                GuardedExecModuleUpgradeable.executeGuardedBatch.selector,
+                _toExecutions(targets, calldatas, values)
+            )
+        });
+    }
+
+    /**
+     * @notice Test: Approve amounts above the registry ceiling revert
+     */
+    function test_ApprovalCeilingCapsApproveAmount() public {
+        _setApprovalCeiling(address(usdcToken), address(uniswapPool), 100 * 10 ** 6);
+
+        _execERC20(address(usdcToken), APPROVE_SELECTOR, address(uniswapPool), 100 * 10 ** 6);
+        assertEq(usdcToken.allowance(smartAccount, address(uniswapPool)), 100 * 10 ** 6, "Approve at the ceiling should pass");
+
+        instance.expect4337Revert(GuardedExecModuleUpgradeable.ApprovalExceedsCeiling.selector);
+        _execERC20(address(usdcToken), APPROVE_SELECTOR, address(uniswapPool), type(uint256).max);
+
+        // Other spenders and tokens keep unlimited approvals
+        _execERC20(address(usdcToken), APPROVE_SELECTOR, address(curvePool), type(uint256).max);
+        _execERC20(address(wethToken), APPROVE_SELECTOR, address(uniswapPool), type(uint256).max);
+    }
+
+    /**
+     * @notice Test: Match-batch ceilings require the batch to use the whole approval
+     */
+    function test_ApprovalMatchBatchRequiresFullUse() public {
+        usdcToken.mint(smartAccount, 1000 * 10 ** 6);
+
+        address[] memory whitelistTargets = new address[](1);
+        bytes4[] memory whitelistSelectors = new bytes4[](1);
+        whitelistTargets[0] = address(aavePool);
+        whitelistSelectors[0] = MockDeFiPool.depositToken.selector;
+        vm.prank(registryOwner);
+        registry.addToWhitelist(whitelistTargets, whitelistSelectors);
+
+        _setApprovalCeiling(address(usdcToken), address(aavePool), registry.APPROVAL_MATCH_BATCH());
+
+        // Pool pulls exactly the approved amount
+        _execApproveAndDeposit(100 * 10 ** 6, 100 * 10 ** 6);
+        assertEq(usdcToken.balanceOf(address(aavePool)), 100 * 10 ** 6, "Pool should hold the deposit");
+        assertEq(usdcToken.allowance(smartAccount, address(aavePool)), 0, "No allowance should be left");
+
+        // Leftover allowance reverts the whole batch
+        instance.expect4337Revert(GuardedExecModuleUpgradeable.ApprovalNotUsed.selector);
+        _execApproveAndDeposit(100 * 10 ** 6, 60 * 10 ** 6);
+
+        // A standalone approve is never used up
+        instance.expect4337Revert(GuardedExecModuleUpgradeable.ApprovalNotUsed.selector);
+        _execERC20(address(usdcToken), APPROVE_SELECTOR, address(aavePool), 100 * 10 ** 6);
+    }
+
+    /**
+     * @notice Helper: call aavePool.depositFor(amount, receiver) through the module
+     */
+    function _execDepositFor(uint256 amount, address receiver) internal {
+        address[] memory targets = new address[](1);
+        bytes[] memory calldatas = new bytes[](1);
+        uint256[] memory values = new uint256[](1);
+        targets[0] = address(aavePool);
+        calldatas[0] = abi.encodeWithSelector(MockDeFiPool.depositFor.selector, amount, receiver);
+
+        instance.exec({
+            target: address(guardedModule),
+            value: 0,
+            callData: abi.encodeWithSelector(
+                GuardedExecModuleUpgradeable.executeGuardedBatch.selector,
+                _toExecutions(targets, calldatas, values)
+            )
+        });
+    }
+
+    /**
+     * @notice Test: Parameter rules pin arguments to the smart account or a constant
+     */
+    function test_ParamRulesRestrictArguments() public {
+        address[] memory targets = new address[](1);
+        bytes4[] memory selectors = new bytes4[](1);
+        targets[0] = address(aavePool);
+        selectors[0] = MockDeFiPool.depositFor.selector;
+        vm.prank(registryOwner);
+        registry.addToWhitelist(targets, selectors);
+
+        // receiver (second word) must be the account, amount (first word) must be 100
+        TargetRegistry.ParamRule[][] memory rules = new TargetRegistry.ParamRule[][](1);
+        rules[0] = new TargetRegistry.ParamRule[](2);
+        rules[0][0] = TargetRegistry.ParamRule(32, TargetRegistry.ParamCondition.EQUALS_ACCOUNT, bytes32(0));
+        rules[0][1] = TargetRegistry.ParamRule(0, TargetRegistry.ParamCondition.EQUALS_CONSTANT, bytes32(uint256(100)));
+        vm.prank(registryOwner);
+        registry.setParamRules(targets, selectors, rules);
+
+        _execDepositFor(100, smartAccount);
+        (address lastCaller,) = aavePool.getLastCallInfo();
+        assertEq(lastCaller, smartAccount, "Deposit to the account should pass");
+
+        address attacker = makeAddr("attacker");
+        instance.expect4337Revert(GuardedExecModuleUpgradeable.ParamRuleViolated.selector);
+        _execDepositFor(100, attacker);
+
+        instance.expect4337Revert(GuardedExecModuleUpgradeable.ParamRuleViolated.selector);
+        _execDepositFor(101, smartAccount);
+
+        // Without rules any receiver is accepted again
+        rules[0] = new TargetRegistry.ParamRule[](0);
+        vm.prank(registryOwner);
+        registry.setParamRules(targets, selectors, rules);
+        _execDepositFor(101, attacker);
+    }
 }
@@ -14,6 +14,13 @@ contract TargetRegistryTest is Test {
     address public mockTarget;
     bytes4 public constant SWAP_SELECTOR = bytes4(keccak256("swap(uint256,uint256)"));
 
+    event ApprovalCeilingSet(address indexed token, address indexed spender, uint256 ceiling);
+    event ParamRulesSet(address indexed target, bytes4 indexed selector, TargetRegistry.ParamRule[] rules);
+    event TargetSelectorScheduled(
+        bytes32 indexed operationId, address indexed target, bytes4 indexed selector, uint256 executeAfter
+    );
+    event OperationCancelled(bytes32 indexed operationId);
+
     function setUp() public {
         owner = makeAddr("owner");
         user = makeAddr("user");
@@ -646,4 +653,448 @@ contract TargetRegistryTest is Test {
         registry.acceptOwnership();
         assertEq(registry.owner(), secondPendingOwner, "Second pending owner should become owner");
     }
+
+    /**
+     * @notice Test: Owner sets and removes approval ceilings
+     */
+    function test_SetApprovalCeilings() public {
+        address token = makeAddr("token");
+        address[] memory tokens = new address[](2);
+        address[] memory spenders = new address[](2);
+        uint256[] memory ceilings = new uint256[](2);
+        tokens[0] = token;
+        tokens[1] = token;
+        spenders[0] = mockTarget;
+        spenders[1] = user;
+        ceilings[0] = 1000;
+        ceilings[1] = registry.APPROVAL_MATCH_BATCH();
+
+        vm.expectEmit(true, true, false, true);
+        emit ApprovalCeilingSet(token, mockTarget, 1000);
+        vm.prank(owner);
+        registry.setApprovalCeilings(tokens, spenders, ceilings);
+
+        assertEq(registry.approvalCeilings(token, mockTarget), 1000, "Ceiling should be set");
+        assertEq(registry.approvalCeilings(token, user), type(uint256).max, "Match-batch ceiling should be set");
+
+        // 0 removes the ceiling
+        ceilings[0] = 0;
+        vm.prank(owner);
+        registry.setApprovalCeilings(tokens, spenders, ceilings);
+        assertEq(registry.approvalCeilings(token, mockTarget), 0, "Ceiling should be removed");
+    }
+
+    /**
+     * @notice Test: Approval ceilings are owner-only and validated
+     */
+    function test_SetApprovalCeilingsValidation() public {
+        address[] memory tokens = new address[](1);
+        address[] memory spenders = new address[](1);
+        uint256[] memory ceilings = new uint256[](1);
+        tokens[0] = makeAddr("token");
+        spenders[0] = mockTarget;
+        ceilings[0] = 1000;
+
+        vm.prank(user);
+        vm.expectRevert();
+        registry.setApprovalCeilings(tokens, spenders, ceilings);
+
+        vm.prank(owner);
+        vm.expectRevert(TargetRegistry.LengthMismatch.selector);
+        registry.setApprovalCeilings(tokens, spenders, new uint256[](2));
+
+        vm.prank(owner);
+        vm.expectRevert(TargetRegistry.EmptyBatch.selector);
+        registry.setApprovalCeilings(new address[](0), new address[](0), new uint256[](0));
+
+        spenders[0] = address(0);
+        vm.prank(owner);
+        vm.expectRevert(TargetRegistry.InvalidTarget.selector);
+        registry.setApprovalCeilings(tokens, spenders, ceilings);
+
+        tokens[0] = address(0);
+        spenders[0] = mockTarget;
+        vm.prank(owner);
+        vm.expectRevert(TargetRegistry.InvalidERC20Token.selector);
+        registry.setApprovalCeilings(tokens, spenders, ceilings);
+    }
+
+    /**
+     * @notice Helper: one target+selector with the given rules, as setParamRules arguments
+     */
+    function _paramRulesBatch(TargetRegistry.ParamRule[] memory rules)
+        internal
+        view
+        returns (address[] memory targets, bytes4[] memory selectors, TargetRegistry.ParamRule[][] memory ruleLists)
+    {
+        targets = new address[](1);
+        selectors = new bytes4[](1);
+        ruleLists = new TargetRegistry.ParamRule[][](1);
+        targets[0] = mockTarget;
+        selectors[0] = SWAP_SELECTOR;
+        ruleLists[0] = rules;
+    }
+
+    /**
+     * @notice Test: Set, replace and clear the parameter rules of a target+selector
+     */
+    function test_SetParamRules() public {
+        TargetRegistry.ParamRule[] memory rules = new TargetRegistry.ParamRule[](2);
+        rules[0] = TargetRegistry.ParamRule(32, TargetRegistry.ParamCondition.EQUALS_ACCOUNT, bytes32(0));
+        rules[1] = TargetRegistry.ParamRule(0, TargetRegistry.ParamCondition.EQUALS_CONSTANT, bytes32(uint256(100)));
+        (address[] memory targets, bytes4[] memory selectors, TargetRegistry.ParamRule[][] memory ruleLists) =
+            _paramRulesBatch(rules);
+
+        vm.expectEmit(true, true, false, true);
+        emit ParamRulesSet(mockTarget, SWAP_SELECTOR, rules);
+        vm.prank(owner);
+        registry.setParamRules(targets, selectors, ruleLists);
+
+        TargetRegistry.ParamRule[] memory stored = registry.getParamRules(mockTarget, SWAP_SELECTOR);
+        assertEq(stored.length, 2, "Two rules should be stored");
+        assertEq(stored[0].offset, 32, "Offset should be stored");
+        assertEq(uint8(stored[1].condition), uint8(TargetRegistry.ParamCondition.EQUALS_CONSTANT), "Condition should be stored");
+        assertEq(stored[1].value, bytes32(uint256(100)), "Value should be stored");
+
+        // Setting replaces the previous rules
+        ruleLists[0] = new TargetRegistry.ParamRule[](1);
+        ruleLists[0][0] = rules[1];
+        vm.prank(owner);
+        registry.setParamRules(targets, selectors, ruleLists);
+        assertEq(registry.getParamRules(mockTarget, SWAP_SELECTOR).length, 1, "Rules should be replaced");
+
+        // An empty list clears them
+        ruleLists[0] = new TargetRegistry.ParamRule[](0);
+        vm.prank(owner);
+        registry.setParamRules(targets, selectors, ruleLists);
+        assertEq(registry.getParamRules(mockTarget, SWAP_SELECTOR).length, 0, "Rules should be cleared");
+    }
+
+    /**
+     * @notice Test: Parameter rules are owner-only and validated
+     */
+    function test_SetParamRulesValidation() public {
+        TargetRegistry.ParamRule[] memory rules = new TargetRegistry.ParamRule[](1);
+        rules[0] = TargetRegistry.ParamRule(32, TargetRegistry.ParamCondition.EQUALS_ACCOUNT, bytes32(0));
+        (address[] memory targets, bytes4[] memory selectors, TargetRegistry.ParamRule[][] memory ruleLists) =
+            _paramRulesBatch(rules);
+
+        vm.prank(user);
+        vm.expectRevert();
+        registry.setParamRules(targets, selectors, ruleLists);
+
+        vm.prank(owner);
+        vm.expectRevert(TargetRegistry.LengthMismatch.selector);
+        registry.setParamRules(targets, new bytes4[](2), ruleLists);
+
+        vm.prank(owner);
+        vm.expectRevert(TargetRegistry.EmptyBatch.selector);
+        registry.setParamRules(new address[](0), new bytes4[](0), new TargetRegistry.ParamRule[][](0));
+
+        // EQUALS_ACCOUNT takes no value
+        ruleLists[0][0].value = bytes32(uint256(1));
+        vm.prank(owner);
+        vm.expectRevert(TargetRegistry.InvalidParamRule.selector);
+        registry.setParamRules(targets, selectors, ruleLists);
+
+        ruleLists[0] = new TargetRegistry.ParamRule[](registry.MAX_PARAM_RULES() + 1);
+        vm.prank(owner);
+        vm.expectRevert(TargetRegistry.TooManyParamRules.selector);
+        registry.setParamRules(targets, selectors, ruleLists);
+
+        ruleLists[0] = rules;
+        rules[0].value = bytes32(0);
+        selectors[0] = bytes4(0);
+        vm.prank(owner);
+        vm.expectRevert(TargetRegistry.InvalidSelector.selector);
+        registry.setParamRules(targets, selectors, ruleLists);
+
+        targets[0] = address(0);
+        selectors[0] = SWAP_SELECTOR;
+        vm.prank(owner);
+        vm.expectRevert(TargetRegistry.InvalidTarget.selector);
+        registry.setParamRules(targets, selectors, ruleLists);
+    }
+
+    /**
+     * @notice Helper: enable the timelock with the given delay
+     */
+    function _enableTimelock(uint256 delay) internal {
+        vm.prank(owner);
+        registry.setTimelockDelay(delay);
+        assertEq(registry.timelockDelay(), delay, "Delay should be set");
+    }
+
+    /**
+     * @notice Test: With the timelock enabled, additions are scheduled and executed after the delay
+     */
+    function test_TimelockScheduleAndExecuteAdd() public {
+        _enableTimelock(1 days);
+        address[] memory targets = new address[](1);
+        targets[0] = mockTarget;
+        bytes4[] memory selectors = new bytes4[](1);
+        selectors[0] = SWAP_SELECTOR;
+        bytes32 operationId = registry.getOperationId(mockTarget, SWAP_SELECTOR);
+
+        // Immediate additions are blocked
+        vm.prank(owner);
+        vm.expectRevert(TargetRegistry.TimelockActive.selector);
+        registry.addToWhitelist(targets, selectors);
+
+        vm.expectEmit(true, true, true, true);
+        emit TargetSelectorScheduled(operationId, mockTarget, SWAP_SELECTOR, block.timestamp + 1 days);
+        vm.prank(owner);
+        bytes32[] memory operationIds = registry.scheduleAdd(targets, selectors);
+        assertEq(operationIds[0], operationId, "Operation id should match getOperationId");
+        assertTrue(registry.isOperationPending(operationId), "Operation should be pending");
+        assertFalse(registry.isOperationReady(operationId), "Operation should not be ready");
+
+        vm.prank(owner);
+        vm.expectRevert(abi.encodeWithSelector(TargetRegistry.OperationAlreadyScheduled.selector, operationId));
+        registry.scheduleAdd(targets, selectors);
+
+        vm.prank(owner);
+        vm.expectRevert(
+            abi.encodeWithSelector(TargetRegistry.OperationNotReady.selector, operationId, block.timestamp + 1 days)
+        );
+        registry.executeAdd(targets, selectors);
+
+        vm.warp(block.timestamp + 1 days);
+        assertTrue(registry.isOperationReady(operationId), "Operation should be ready");
+
+        // Only the owner executes
+        vm.prank(user);
+        vm.expectRevert();
+        registry.executeAdd(targets, selectors);
+
+        vm.prank(owner);
+        registry.executeAdd(targets, selectors);
+        assertTrue(registry.whitelist(mockTarget, SWAP_SELECTOR), "Should be whitelisted");
+        assertFalse(registry.isOperationPending(operationId), "Operation should be consumed");
+
+        // Removals stay immediate
+        vm.prank(owner);
+        registry.removeFromWhitelist(targets, selectors);
+        assertFalse(registry.whitelist(mockTarget, SWAP_SELECTOR), "Should not be whitelisted");
+
+        // An executed operation cannot be replayed
+        vm.prank(owner);
+        vm.expectRevert(abi.encodeWithSelector(TargetRegistry.OperationNotScheduled.selector, operationId));
+        registry.executeAdd(targets, selectors);
+    }
+
+    /**
+     * @notice Test: With the timelock enabled, recipient authorizations are scheduled
+     */
+    function test_TimelockRecipientAuthorization() public {
+        _enableTimelock(1 hours);
+        address token = makeAddr("token");
+        address[] memory recipients = new address[](1);
+        recipients[0] = makeAddr("recipient");
+
+        vm.prank(owner);
+        vm.expectRevert(TargetRegistry.TimelockActive.selector);
+        registry.addAllowedERC20TokenRecipient(token, recipients);
+
+        vm.prank(owner);
+        bytes32[] memory operationIds = registry.scheduleAddAllowedERC20TokenRecipient(token, recipients);
+        assertEq(operationIds[0], registry.getRecipientOperationId(token, recipients[0]), "Operation id should match");
+
+        vm.warp(block.timestamp + 1 hours);
+        vm.prank(owner);
+        registry.executeAddAllowedERC20TokenRecipient(token, recipients);
+        assertTrue(registry.allowedERC20TokenRecipients(token, recipients[0]), "Recipient should be authorized");
+
+        // Revocations stay immediate
+        vm.prank(owner);
+        registry.removeAllowedERC20TokenRecipient(token, recipients);
+        assertFalse(registry.allowedERC20TokenRecipients(token, recipients[0]), "Recipient should be revoked");
+    }
+
+    /**
+     * @notice Test: Scheduled operations can be cancelled, also while paused
+     */
+    function test_TimelockCancelOperation() public {
+        _enableTimelock(1 days);
+        address[] memory targets = new address[](1);
+        targets[0] = mockTarget;
+        bytes4[] memory selectors = new bytes4[](1);
+        selectors[0] = SWAP_SELECTOR;
+
+        vm.prank(owner);
+        bytes32[] memory operationIds = registry.scheduleAdd(targets, selectors);
+
+        vm.prank(user);
+        vm.expectRevert();
+        registry.cancelOperation(operationIds);
+
+        vm.startPrank(owner);
+        registry.pause();
+        vm.expectEmit(true, false, false, false);
+        emit OperationCancelled(operationIds[0]);
+        registry.cancelOperation(operationIds);
+        registry.unpause();
+
+        assertFalse(registry.isOperationPending(operationIds[0]), "Operation should be cancelled");
+        vm.warp(block.timestamp + 1 days);
+        vm.expectRevert(abi.encodeWithSelector(TargetRegistry.OperationNotScheduled.selector, operationIds[0]));
+        registry.executeAdd(targets, selectors);
+        vm.expectRevert(abi.encodeWithSelector(TargetRegistry.OperationNotScheduled.selector, operationIds[0]));
+        registry.cancelOperation(operationIds);
+        vm.stopPrank();
+    }
+
+    /**
+     * @notice Test: Delay increases are immediate, decreases wait for the current delay
+     */
+    function test_TimelockDelayChanges() public {
+        _enableTimelock(2 days);
+
+        uint256 maxDelay = registry.MAX_TIMELOCK_DELAY();
+        vm.startPrank(owner);
+        vm.expectRevert(TargetRegistry.InvalidDelay.selector);
+        registry.setTimelockDelay(maxDelay + 1);
+
+        // Decreasing (or disabling) needs a scheduled operation
+        bytes32 operationId = registry.getDelayOperationId(0);
+        vm.expectRevert(abi.encodeWithSelector(TargetRegistry.OperationNotScheduled.selector, operationId));
+        registry.setTimelockDelay(0);
+
+        vm.expectRevert(TargetRegistry.InvalidDelay.selector);
+        registry.scheduleTimelockDelay(2 days);
+
+        assertEq(registry.scheduleTimelockDelay(0), operationId, "Operation id should match getDelayOperationId");
+        vm.expectRevert(
+            abi.encodeWithSelector(TargetRegistry.OperationNotReady.selector, operationId, block.timestamp + 2 days)
+        );
+        registry.setTimelockDelay(0);
+
+        vm.warp(block.timestamp + 2 days);
+        registry.setTimelockDelay(0);
+        assertEq(registry.timelockDelay(), 0, "Timelock should be disabled");
+        vm.stopPrank();
+
+        // Immediate additions work again
+        address[] memory targets = new address[](1);
+        targets[0] = mockTarget;
+        bytes4[] memory selectors = new bytes4[](1);
+        selectors[0] = SWAP_SELECTOR;
+        vm.prank(owner);
+        registry.addToWhitelist(targets, selectors);
+        assertTrue(registry.whitelist(mockTarget, SWAP_SELECTOR), "Should be whitelisted");
+    }
+
+    /**
+     * @notice Test: Raising the delay postpones a decrease scheduled under the shorter delay
+     */
+    function test_TimelockDelayIncreasePostponesScheduledDecrease() public {
+        _enableTimelock(1 hours);
+        uint256 scheduledAt = block.timestamp;
+
+        vm.startPrank(owner);
+        bytes32 operationId = registry.scheduleTimelockDelay(0);
+        registry.setTimelockDelay(30 days);
+        assertEq(registry.operationReadyAt(operationId), scheduledAt + 30 days, "Decrease should wait the new delay");
+
+        vm.warp(scheduledAt + 1 hours);
+        assertFalse(registry.isOperationReady(operationId), "Decrease should not be ready after the old delay");
+        vm.expectRevert(
+            abi.encodeWithSelector(TargetRegistry.OperationNotReady.selector, operationId, scheduledAt + 30 days)
+        );
+        registry.setTimelockDelay(0);
+
+        vm.warp(scheduledAt + 30 days);
+        registry.setTimelockDelay(0);
+        assertEq(registry.timelockDelay(), 0, "Timelock should be disabled after the full delay");
+        vm.stopPrank();
+    }
+
+    /**
+     * @notice Test: With the timelock enabled, loosening an approval ceiling must be scheduled
+     */
+    function test_TimelockLooseningApprovalCeiling() public {
+        address token = makeAddr("token");
+        address[] memory tokens = new address[](1);
+        address[] memory spenders = new address[](1);
+        uint256[] memory ceilings = new uint256[](1);
+        tokens[0] = token;
+        spenders[0] = mockTarget;
+        _enableTimelock(1 days);
+
+        // Adding and lowering a ceiling are immediate
+        ceilings[0] = 1000;
+        vm.startPrank(owner);
+        registry.setApprovalCeilings(tokens, spenders, ceilings);
+        ceilings[0] = 500;
+        registry.setApprovalCeilings(tokens, spenders, ceilings);
+        assertEq(registry.approvalCeilings(token, mockTarget), 500, "Lower ceiling should be set");
+
+        // Raising, switching to match-batch and removing are scheduled
+        uint256 matchBatch = registry.APPROVAL_MATCH_BATCH();
+        uint256[3] memory loosening = [uint256(2000), matchBatch, 0];
+        for (uint256 i = 0; i < loosening.length; i++) {
+            ceilings[0] = loosening[i];
+            bytes32 operationId = registry.getCeilingOperationId(token, mockTarget, loosening[i]);
+            vm.expectRevert(abi.encodeWithSelector(TargetRegistry.OperationNotScheduled.selector, operationId));
+            registry.setApprovalCeilings(tokens, spenders, ceilings);
+        }
+
+        ceilings[0] = 0;
+        bytes32[] memory operationIds = registry.scheduleApprovalCeilings(tokens, spenders, ceilings);
+        assertEq(operationIds[0], registry.getCeilingOperationId(token, mockTarget, 0), "Operation id should match");
+        vm.expectRevert(
+            abi.encodeWithSelector(TargetRegistry.OperationNotReady.selector, operationIds[0], block.timestamp + 1 days)
+        );
+        registry.setApprovalCeilings(tokens, spenders, ceilings);
+
+        vm.warp(block.timestamp + 1 days);
+        registry.setApprovalCeilings(tokens, spenders, ceilings);
+        assertEq(registry.approvalCeilings(token, mockTarget), 0, "Ceiling should be removed once ready");
+        assertFalse(registry.isOperationPending(operationIds[0]), "Operation should be consumed");
+        vm.stopPrank();
+    }
+
+    /**
+     * @notice Test: With the timelock enabled, removing or replacing parameter rules must be scheduled
+     */
+    function test_TimelockLooseningParamRules() public {
+        TargetRegistry.ParamRule[] memory rules = new TargetRegistry.ParamRule[](1);
+        rules[0] = TargetRegistry.ParamRule(32, TargetRegistry.ParamCondition.EQUALS_ACCOUNT, bytes32(0));
+        (address[] memory targets, bytes4[] memory selectors, TargetRegistry.ParamRule[][] memory ruleLists) =
+            _paramRulesBatch(rules);
+        _enableTimelock(1 days);
+
+        // Adding and appending rules are immediate
+        vm.startPrank(owner);
+        registry.setParamRules(targets, selectors, ruleLists);
+        ruleLists[0] = new TargetRegistry.ParamRule[](2);
+        ruleLists[0][0] = rules[0];
+        ruleLists[0][1] = TargetRegistry.ParamRule(0, TargetRegistry.ParamCondition.EQUALS_CONSTANT, bytes32(uint256(100)));
+        registry.setParamRules(targets, selectors, ruleLists);
+        assertEq(registry.getParamRules(mockTarget, SWAP_SELECTOR).length, 2, "Rule should be appended");
+
+        // Replacing a rule is scheduled
+        ruleLists[0][0].offset = 64;
+        bytes32 operationId = registry.getParamRulesOperationId(mockTarget, SWAP_SELECTOR, ruleLists[0]);
+        vm.expectRevert(abi.encodeWithSelector(TargetRegistry.OperationNotScheduled.selector, operationId));
+        registry.setParamRules(targets, selectors, ruleLists);
+
+        // Clearing is scheduled
+        ruleLists[0] = new TargetRegistry.ParamRule[](0);
+        operationId = registry.getParamRulesOperationId(mockTarget, SWAP_SELECTOR, ruleLists[0]);
+        vm.expectRevert(abi.encodeWithSelector(TargetRegistry.OperationNotScheduled.selector, operationId));
+        registry.setParamRules(targets, selectors, ruleLists);
+
+        bytes32[] memory operationIds = registry.scheduleParamRules(targets, selectors, ruleLists);
+        assertEq(operationIds[0], operationId, "Operation id should match getParamRulesOperationId");
+        vm.expectRevert(
+            abi.encodeWithSelector(TargetRegistry.OperationNotReady.selector, operationId, block.timestamp + 1 days)
+        );
+        registry.setParamRules(targets, selectors, ruleLists);
+
+        vm.warp(block.timestamp + 1 days);
+        registry.setParamRules(targets, selectors, ruleLists);
+        assertEq(registry.getParamRules(mockTarget, SWAP_SELECTOR).length, 0, "Rules should be cleared once ready");
+        vm.stopPrank();
+    }
 }
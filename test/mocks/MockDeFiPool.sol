@@ -1,6 +1,8 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.23;
 
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
 /**
  * @title MockDeFiPool
  * @author ZyFAI
@@ -98,6 +100,31 @@ contract MockDeFiPool {
         return true;
     }
     
+    /**
+     * @notice Mock deposit pulling tokens from the caller
+     * @dev Uses the caller's allowance like a real pool (transferFrom to this contract)
+     * @param token The ERC20 token to pull
+     * @param amount The amount to pull
+     */
+    function depositToken(address token, uint256 amount) external {
+        lastCaller = msg.sender;
+        callCount++;
+        IERC20(token).transferFrom(msg.sender, address(this), amount);
+        emit Deposit(msg.sender, amount);
+    }
+
+    /**
+     * @notice Mock deposit crediting another address (ERC4626-style receiver)
+     * @dev Records msg.sender to verify smart account context
+     * @param amount The amount to deposit
+     * @param receiver The address credited with the deposit
+     */
+    function depositFor(uint256 amount, address receiver) external {
+        lastCaller = msg.sender;
+        callCount++;
+        emit Deposit(receiver, amount);
+    }
+
     /**
      * @notice Function that always reverts (for testing error handling)
      * @dev Used to test error propagation in batch operations
@@ -0,0 +1,184 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+
+/**
+ * Test-only implementations for hardhat/test/upgrade/layout.test.ts - NOT for production use.
+ *
+ * MockUpgradeLayoutV1 is the current implementation; each other contract is an upgrade
+ * candidate with one kind of change the upgrade check has to report. MockStoragePacking
+ * declares one struct both as an ERC-7201 namespace and as a state variable, so the
+ * namespace layout the script computes can be compared with the one solc reports.
+ */
+
+type MockPrice is uint64;
+
+/// @notice Mock implementation: the layout the candidates are checked against
+contract MockUpgradeLayoutV1 is OwnableUpgradeable, UUPSUpgradeable {
+    /// @custom:storage-location erc7201:zyfai.storage.MockUpgradeLayout
+    struct MockLayoutStorage {
+        address registry;
+        uint96 nonce;
+        bytes32 root;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("zyfai.storage.MockUpgradeLayout")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant MOCK_LAYOUT_STORAGE_LOCATION =
+        0x7a64964029eeea504949027f0e08cd9e18e4fd00f424965de3e6ad8fe0d81500;
+
+    uint256 public counter;
+    address public admin;
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(address _owner) external initializer {
+        __Ownable_init(_owner);
+        __UUPSUpgradeable_init();
+    }
+
+    function _authorizeUpgrade(address) internal override onlyOwner { }
+}
+
+/// @notice Safe candidate: appends a state variable and a namespace field
+contract MockUpgradeLayoutV2 is OwnableUpgradeable, UUPSUpgradeable {
+    /// @custom:storage-location erc7201:zyfai.storage.MockUpgradeLayout
+    struct MockLayoutStorage {
+        address registry;
+        uint96 nonce;
+        bytes32 root;
+        uint64 epoch;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("zyfai.storage.MockUpgradeLayout")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant MOCK_LAYOUT_STORAGE_LOCATION =
+        0x7a64964029eeea504949027f0e08cd9e18e4fd00f424965de3e6ad8fe0d81500;
+
+    uint256 public counter;
+    address public admin;
+    uint256 public upgradeCounter;
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function _authorizeUpgrade(address) internal override onlyOwner { }
+}
+
+/// @notice Unsafe candidate: swaps two state variables and retypes a namespace field
+contract MockUpgradeLayoutReordered is OwnableUpgradeable, UUPSUpgradeable {
+    /// @custom:storage-location erc7201:zyfai.storage.MockUpgradeLayout
+    struct MockLayoutStorage {
+        address registry;
+        uint96 nonce;
+        uint256 root;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("zyfai.storage.MockUpgradeLayout")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant MOCK_LAYOUT_STORAGE_LOCATION =
+        0x7a64964029eeea504949027f0e08cd9e18e4fd00f424965de3e6ad8fe0d81500;
+
+    address public admin;
+    uint256 public counter;
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function _authorizeUpgrade(address) internal override onlyOwner { }
+}
+
+/// @notice Unsafe candidate: keeps the namespace id but points the slot constant elsewhere
+contract MockUpgradeLayoutMovedNamespace is OwnableUpgradeable, UUPSUpgradeable {
+    /// @custom:storage-location erc7201:zyfai.storage.MockUpgradeLayout
+    struct MockLayoutStorage {
+        address registry;
+        uint96 nonce;
+        bytes32 root;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("zyfai.storage.MockUpgradeLayoutMoved")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant MOCK_LAYOUT_STORAGE_LOCATION =
+        0x54a536fa7c3336f411eca789fb4435bee46e6672fe3500c7b283f232fee70000;
+
+    uint256 public counter;
+    address public admin;
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function _authorizeUpgrade(address) internal override onlyOwner { }
+}
+
+/// @notice Unsafe candidate: no _disableInitializers and an unguarded _authorizeUpgrade
+contract MockUpgradeLayoutUnguarded is OwnableUpgradeable, UUPSUpgradeable {
+    /// @custom:storage-location erc7201:zyfai.storage.MockUpgradeLayout
+    struct MockLayoutStorage {
+        address registry;
+        uint96 nonce;
+        bytes32 root;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("zyfai.storage.MockUpgradeLayout")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant MOCK_LAYOUT_STORAGE_LOCATION =
+        0x7a64964029eeea504949027f0e08cd9e18e4fd00f424965de3e6ad8fe0d81500;
+
+    uint256 public counter;
+    address public admin;
+
+    function _authorizeUpgrade(address) internal override { }
+}
+
+/// @notice Packing cases for the namespace layout, mirrored in linear storage for solc to lay out
+contract MockStoragePacking {
+    enum MockStatus {
+        None,
+        Active
+    }
+
+    struct MockInner {
+        uint32 id;
+        bool enabled;
+    }
+
+    /// @custom:storage-location erc7201:zyfai.storage.MockStoragePacking
+    struct MockPackingStorage {
+        address owner;
+        uint96 nonce;
+        bool paused;
+        uint16 fee;
+        MockStatus status;
+        bytes32 root;
+        uint8 small;
+        string label;
+        uint128 cap;
+        uint128 spent;
+        mapping(address => uint256) balances;
+        uint8[40] bytesArray;
+        address[3] signers;
+        uint64[3] stamps;
+        uint24[11] ticks;
+        address[] members;
+        MockInner inner;
+        uint8 afterStruct;
+        MockPrice price;
+        MockStoragePacking self;
+        function(uint256) external hook;
+        bool flag;
+        bytes data;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("zyfai.storage.MockStoragePacking")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant MOCK_PACKING_STORAGE_LOCATION =
+        0x95f8cacf9816d140f6ffeb2133a8d4b89341d47fb10892b1b1388c3c7926d000;
+
+    MockPackingStorage internal packed;
+}